@@ -15,6 +15,8 @@ import OrderPage from "@/pages/order";
 import CheckoutPage from "@/pages/checkout";
 import OrderConfirmationPage from "@/pages/order-confirmation";
 import TrackOrderPage from "@/pages/track";
+import AccountPage from "@/pages/account";
+import AccountVerifyPage from "@/pages/account-verify";
 import BakersLogin from "@/pages/bakers-login";
 
 import AdminDashboard from "@/pages/admin/dashboard";
@@ -23,6 +25,17 @@ import AdminBake from "@/pages/admin/bake";
 import AdminFreezer from "@/pages/admin/freezer";
 import AdminPantry from "@/pages/admin/pantry";
 import AdminLocations from "@/pages/admin/locations";
+import AdminTeam from "@/pages/admin/team";
+import AdminWebhooks from "@/pages/admin/webhooks";
+import AdminTax from "@/pages/admin/tax";
+import AdminMessages from "@/pages/admin/messages";
+import AdminCapacity from "@/pages/admin/capacity";
+import AdminPurchasing from "@/pages/admin/purchasing";
+import AdminRecalls from "@/pages/admin/recalls";
+import AdminCosting from "@/pages/admin/costing";
+import AdminProducts from "@/pages/admin/products";
+import AdminCustomers from "@/pages/admin/customers";
+import AdminSubscriptions from "@/pages/admin/subscriptions";
 
 function PublicRoutes() {
   return (
@@ -30,6 +43,8 @@ function PublicRoutes() {
       <Route path="/" component={LandingPage} />
       <Route path="/order" component={OrderPage} />
       <Route path="/track" component={TrackOrderPage} />
+      <Route path="/account" component={AccountPage} />
+      <Route path="/account/verify" component={AccountVerifyPage} />
       <Route path="/checkout/:orderId" component={CheckoutPage} />
       <Route path="/order/confirmation/:orderId" component={OrderConfirmationPage} />
       <Route path="/bakers-login" component={BakersLogin} />
@@ -83,10 +98,21 @@ function BakehouseRoutes() {
       <Switch>
         <Route path="/bakehouse" component={AdminDashboard} />
         <Route path="/bakehouse/orders" component={AdminOrders} />
+        <Route path="/bakehouse/customers" component={AdminCustomers} />
+        <Route path="/bakehouse/subscriptions" component={AdminSubscriptions} />
+        <Route path="/bakehouse/capacity" component={AdminCapacity} />
         <Route path="/bakehouse/bake" component={AdminBake} />
+        <Route path="/bakehouse/products" component={AdminProducts} />
         <Route path="/bakehouse/freezer" component={AdminFreezer} />
         <Route path="/bakehouse/pantry" component={AdminPantry} />
+        <Route path="/bakehouse/purchasing" component={AdminPurchasing} />
+        <Route path="/bakehouse/recalls" component={AdminRecalls} />
+        <Route path="/bakehouse/costing" component={AdminCosting} />
         <Route path="/bakehouse/locations" component={AdminLocations} />
+        <Route path="/bakehouse/tax" component={AdminTax} />
+        <Route path="/bakehouse/messages" component={AdminMessages} />
+        <Route path="/bakehouse/webhooks" component={AdminWebhooks} />
+        <Route path="/bakehouse/team" component={AdminTeam} />
         <Route component={NotFound} />
       </Switch>
     </AdminLayout>
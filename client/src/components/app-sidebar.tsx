@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import {
   Sidebar,
@@ -19,11 +20,32 @@ import {
   ChefHat,
   LayoutDashboard,
   LogOut,
+  Users,
+  KeyRound,
+  Webhook,
+  Percent,
+  CalendarClock,
+  ClipboardList,
+  ShieldAlert,
+  Calculator,
+  Croissant,
+  MessageSquare,
+  Contact,
+  Repeat,
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
+import { ChangePasswordDialog } from "@/components/change-password-dialog";
+import type { Permission } from "@shared/schema";
 
-const menuItems = [
+const roleLabels: Record<string, string> = {
+  owner: "Owner",
+  baker: "Baker",
+  driver: "Driver",
+  viewer: "Viewer",
+};
+
+const menuItems: { title: string; url: string; icon: typeof LayoutDashboard; permission?: Permission }[] = [
   {
     title: "Dashboard",
     url: "/bakehouse",
@@ -34,11 +56,31 @@ const menuItems = [
     url: "/bakehouse/orders",
     icon: ShoppingCart,
   },
+  {
+    title: "Customers",
+    url: "/bakehouse/customers",
+    icon: Contact,
+  },
+  {
+    title: "Subscriptions",
+    url: "/bakehouse/subscriptions",
+    icon: Repeat,
+  },
+  {
+    title: "Capacity",
+    url: "/bakehouse/capacity",
+    icon: CalendarClock,
+  },
   {
     title: "Bake",
     url: "/bakehouse/bake",
     icon: ChefHat,
   },
+  {
+    title: "Products",
+    url: "/bakehouse/products",
+    icon: Croissant,
+  },
   {
     title: "Freezer",
     url: "/bakehouse/freezer",
@@ -49,16 +91,54 @@ const menuItems = [
     url: "/bakehouse/pantry",
     icon: Warehouse,
   },
+  {
+    title: "Purchasing",
+    url: "/bakehouse/purchasing",
+    icon: ClipboardList,
+  },
+  {
+    title: "Recalls",
+    url: "/bakehouse/recalls",
+    icon: ShieldAlert,
+  },
+  {
+    title: "Costing",
+    url: "/bakehouse/costing",
+    icon: Calculator,
+  },
   {
     title: "Locations",
     url: "/bakehouse/locations",
     icon: MapPin,
   },
+  {
+    title: "Sales Tax",
+    url: "/bakehouse/tax",
+    icon: Percent,
+  },
+  {
+    title: "Text Messages",
+    url: "/bakehouse/messages",
+    icon: MessageSquare,
+  },
+  {
+    title: "Stripe Events",
+    url: "/bakehouse/webhooks",
+    icon: Webhook,
+    permission: "orders:manage",
+  },
+  {
+    title: "Team",
+    url: "/bakehouse/team",
+    icon: Users,
+    permission: "users:manage",
+  },
 ];
 
 export function AppSidebar() {
   const [location] = useLocation();
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
+  const [showChangePassword, setShowChangePassword] = useState(false);
 
   return (
     <Sidebar>
@@ -75,7 +155,7 @@ export function AppSidebar() {
           <SidebarGroupLabel className="text-sidebar-foreground/60">Operations</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {menuItems.map((item) => (
+              {menuItems.filter((item) => !item.permission || can(item.permission)).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton
                     asChild
@@ -99,8 +179,17 @@ export function AppSidebar() {
               <p className="text-sm font-medium text-sidebar-foreground truncate">
                 {user.username || user.firstName}
               </p>
-              <p className="text-xs text-sidebar-foreground/60 truncate">Baker</p>
+              <p className="text-xs text-sidebar-foreground/60 truncate">{roleLabels[user.role] || "Baker"}</p>
             </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowChangePassword(true)}
+              className="shrink-0 text-sidebar-foreground/60 hover:text-sidebar-foreground"
+              data-testid="button-change-password"
+            >
+              <KeyRound className="h-4 w-4" />
+            </Button>
             <Button
               variant="ghost"
               size="icon"
@@ -113,6 +202,7 @@ export function AppSidebar() {
           </div>
         )}
       </SidebarFooter>
+      <ChangePasswordDialog open={showChangePassword} onOpenChange={setShowChangePassword} />
     </Sidebar>
   );
 }
@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Order, Refund, RefundItem } from "@shared/schema";
+
+interface RefundSummary {
+  total: number;
+  refunded: number;
+  remaining: number;
+  items: {
+    orderItemId: string;
+    productName: string;
+    unitPrice: number;
+    unitTax: number;
+    quantity: number;
+    refundedQuantity: number;
+  }[];
+  refunds: (Refund & { items: RefundItem[] })[];
+}
+
+const refundStatusColors: Record<string, string> = {
+  pending: "bg-orange-500/10 text-orange-600 border-orange-500/20",
+  succeeded: "bg-green-500/10 text-green-600 border-green-500/20",
+  failed: "bg-destructive/10 text-destructive border-destructive/20",
+  canceled: "bg-muted text-muted-foreground border-border",
+};
+
+export function RefundDialog({ order, open, onOpenChange }: { order: Order; open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [byItem, setByItem] = useState(false);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState("");
+
+  const { data: summary, isLoading } = useQuery<RefundSummary>({
+    queryKey: ["/api/admin/orders", order.id, "refunds"],
+    enabled: open,
+  });
+
+  const reset = () => {
+    setByItem(false);
+    setQuantities({});
+    setReason("");
+  };
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      const items = byItem
+        ? Object.entries(quantities)
+            .filter(([, quantity]) => quantity > 0)
+            .map(([orderItemId, quantity]) => ({ orderItemId, quantity }))
+        : undefined;
+      const response = await apiRequest("POST", `/api/admin/orders/${order.id}/refunds`, { items, reason: reason || undefined });
+      return response.json() as Promise<Refund>;
+    },
+    onSuccess: (refund) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      toast({ title: "Refund Issued", description: `${refund.creditNoteNumber} for $${parseFloat(refund.amount).toFixed(2)}` });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const itemAmount = summary?.items.reduce((sum, line) => sum + (line.unitPrice + line.unitTax) * (quantities[line.orderItemId] || 0), 0) || 0;
+  const refundAmount = byItem ? Math.min(itemAmount, summary?.remaining || 0) : summary?.remaining || 0;
+  const canSubmit = refundAmount > 0 && refundAmount <= (summary?.remaining || 0) && !refundMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) reset(); onOpenChange(isOpen); }}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif">Refund Order</DialogTitle>
+          <DialogDescription>
+            Refunds go back to the customer's card and get a credit note against the invoice.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !summary ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="p-3 bg-muted/50 rounded-lg">
+                <p className="text-xs text-muted-foreground">Paid</p>
+                <p className="font-semibold">${summary.total.toFixed(2)}</p>
+              </div>
+              <div className="p-3 bg-muted/50 rounded-lg">
+                <p className="text-xs text-muted-foreground">Refunded</p>
+                <p className="font-semibold">${summary.refunded.toFixed(2)}</p>
+              </div>
+              <div className="p-3 bg-muted/50 rounded-lg">
+                <p className="text-xs text-muted-foreground">Refundable</p>
+                <p className="font-semibold text-gold" data-testid="text-refundable">${summary.remaining.toFixed(2)}</p>
+              </div>
+            </div>
+
+            {summary.remaining > 0 && (
+              <>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="refund-by-item">Refund specific items</Label>
+                  <Switch id="refund-by-item" checked={byItem} onCheckedChange={setByItem} data-testid="switch-refund-by-item" />
+                </div>
+
+                {byItem && (
+                  <div className="space-y-2">
+                    {summary.items.map((line) => {
+                      const left = line.quantity - line.refundedQuantity;
+                      return (
+                        <div key={line.orderItemId} className="flex items-center justify-between gap-3 p-3 bg-muted/50 rounded-lg">
+                          <div>
+                            <p className="font-medium">{line.productName}</p>
+                            <p className="text-sm text-muted-foreground">
+                              ${line.unitPrice.toFixed(2)} each{line.unitTax > 0 && ` + $${line.unitTax.toFixed(2)} tax`} - {left} of {line.quantity} refundable
+                            </p>
+                          </div>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={left}
+                            value={quantities[line.orderItemId] || 0}
+                            onChange={(e) => {
+                              const quantity = Math.min(left, Math.max(0, parseInt(e.target.value) || 0));
+                              setQuantities((prev) => ({ ...prev, [line.orderItemId]: quantity }));
+                            }}
+                            disabled={left === 0}
+                            className="w-20"
+                            data-testid={`input-refund-qty-${line.orderItemId}`}
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="refund-reason">Reason</Label>
+                  <Textarea
+                    id="refund-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="e.g. Two bagels were burnt"
+                    data-testid="input-refund-reason"
+                  />
+                </div>
+              </>
+            )}
+
+            {summary.refunds.length > 0 && (
+              <div className="border-t pt-4 space-y-2">
+                <p className="text-sm font-medium">Credit Notes</p>
+                {summary.refunds.map((refund) => (
+                  <div key={refund.id} className="p-3 bg-muted/50 rounded-lg text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-mono">{refund.creditNoteNumber}</span>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className={refundStatusColors[refund.status]}>{refund.status}</Badge>
+                        <span className="font-medium">${parseFloat(refund.amount).toFixed(2)}</span>
+                      </div>
+                    </div>
+                    <p className="text-muted-foreground mt-1">
+                      {refund.createdAt && format(new Date(refund.createdAt), "MMM d, yyyy h:mm a")}
+                      {refund.createdByName && ` by ${refund.createdByName}`}
+                    </p>
+                    {refund.items.length > 0 && (
+                      <p className="text-muted-foreground">
+                        {refund.items.map((item) => `${item.quantity}x ${item.productName}`).join(", ")}
+                      </p>
+                    )}
+                    {refund.reason && <p className="mt-1">{refund.reason}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {summary && summary.remaining > 0 && (
+            <Button
+              variant="destructive"
+              onClick={() => refundMutation.mutate()}
+              disabled={!canSubmit}
+              data-testid="button-issue-refund"
+            >
+              Refund ${refundAmount.toFixed(2)}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,14 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Permission, UserRole } from "@shared/schema";
 
 interface SimpleUser {
+  id: string;
   username: string;
   firstName?: string;
   lastName?: string;
   email?: string;
+  role: UserRole;
+  permissions: Permission[];
 }
 
 async function fetchUser(): Promise<SimpleUser | null> {
@@ -51,6 +55,7 @@ export function useAuth() {
     user,
     isLoading,
     isAuthenticated: !!user,
+    can: (permission: Permission) => !!user?.permissions?.includes(permission),
     logout: logoutMutation.mutate,
     isLoggingOut: logoutMutation.isPending,
   };
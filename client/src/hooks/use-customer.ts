@@ -0,0 +1,61 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { CustomerAddress } from "@shared/schema";
+
+export interface CustomerAccount {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  smsOptIn: boolean;
+  addresses: CustomerAddress[];
+}
+
+async function fetchAccount(): Promise<CustomerAccount | null> {
+  const response = await fetch("/api/account", {
+    credentials: "include",
+  });
+
+  if (response.status === 401) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+async function signOut(): Promise<void> {
+  await fetch("/api/account/sign-out", {
+    method: "POST",
+    credentials: "include",
+  });
+}
+
+// The signed-in customer on the public site; null when nobody is signed in
+export function useCustomer() {
+  const queryClient = useQueryClient();
+  const { data: customer, isLoading } = useQuery<CustomerAccount | null>({
+    queryKey: ["/api/account"],
+    queryFn: fetchAccount,
+    retry: false,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  const signOutMutation = useMutation({
+    mutationFn: signOut,
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/account"], null);
+      queryClient.removeQueries({ queryKey: ["/api/account/orders"] });
+    },
+  });
+
+  return {
+    customer,
+    isLoading,
+    isSignedIn: !!customer,
+    signOut: signOutMutation.mutate,
+    isSigningOut: signOutMutation.isPending,
+  };
+}
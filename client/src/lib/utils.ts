@@ -4,3 +4,18 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// 0.08875 -> "8.875%"
+export function formatTaxRate(rate: number | string) {
+  return `${parseFloat((Number(rate) * 100).toFixed(3))}%`
+}
+
+// For values put into hand-built HTML, like the print windows
+export function escapeHtml(value: string | number | null | undefined) {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation, Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// The emailed link lands here and the page signs in with a POST, so mail scanners that open
+// links ahead of the customer can't use it up
+export default function AccountVerifyPage() {
+  const [, navigate] = useLocation();
+  const [failed, setFailed] = useState(false);
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (!token) {
+      setFailed(true);
+      return;
+    }
+
+    apiRequest("POST", "/api/account/verify", { token })
+      .then(() => {
+        queryClient.invalidateQueries({ queryKey: ["/api/account"] });
+        navigate("/account", { replace: true });
+      })
+      .catch(() => setFailed(true));
+  }, [navigate]);
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="max-w-md w-full">
+        <CardContent className="py-12 text-center">
+          {failed ? (
+            <>
+              <p className="text-muted-foreground mb-4">
+                This sign-in link is invalid or has expired. Links work once and only for 20 minutes.
+              </p>
+              <Link href="/account">
+                <Button data-testid="button-new-sign-in-link">Send a New Link</Button>
+              </Link>
+            </>
+          ) : (
+            <>
+              <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-gold" />
+              <p className="text-muted-foreground">Signing you in...</p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
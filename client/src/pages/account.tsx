@@ -0,0 +1,559 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, Link } from "wouter";
+import { addWeeks, format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCustomer } from "@/hooks/use-customer";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LogOut, Mail, MapPin, Package, Pause, Play, Plus, Repeat, RotateCcw, Star, Trash2, X } from "lucide-react";
+import type { CustomerAddress } from "@shared/schema";
+
+interface AccountOrder {
+  id: string;
+  orderNumber: string;
+  status: string;
+  total: string;
+  createdAt: string;
+  fulfillmentDate: string;
+  fulfillmentWindow: string | null;
+  deliveryAddress: string;
+  deliveryCity: string;
+  trackingToken: string;
+  items: { quantity: number; packs: number | null; packName: string | null; product: { name: string } }[];
+}
+
+interface AccountSubscription {
+  id: string;
+  status: "pending" | "active" | "paused" | "cancelled";
+  cadence: "weekly" | "biweekly";
+  fulfillmentWindow: string;
+  nextDeliveryDate: string;
+  resumeOn: string | null;
+  deliveryAddress: string;
+  deliveryCity: string;
+  lastFailureReason: string | null;
+  lastFailedAt: string | null;
+  items: string[];
+  upcoming: { date: string; orderOn: string; skipped: boolean }[];
+}
+
+const subscriptionStatusColors: Record<string, string> = {
+  pending: "bg-blue-500/10 text-blue-600 border-blue-500/20",
+  active: "bg-green-500/10 text-green-600 border-green-500/20",
+  paused: "bg-orange-500/10 text-orange-600 border-orange-500/20",
+  cancelled: "bg-muted text-muted-foreground border-border",
+};
+
+const statusColors: Record<string, string> = {
+  new: "bg-blue-500/10 text-blue-600 border-blue-500/20",
+  approved: "bg-green-500/10 text-green-600 border-green-500/20",
+  baking: "bg-orange-500/10 text-orange-600 border-orange-500/20",
+  ready: "bg-primary/10 text-gold border-primary/20",
+  completed: "bg-muted text-muted-foreground border-border",
+  cancelled: "bg-destructive/10 text-destructive border-destructive/20",
+};
+
+const emptyAddress = { label: "", deliveryAddress: "", deliveryCity: "", deliveryState: "", deliveryZip: "" };
+
+function SignInCard() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [sent, setSent] = useState(false);
+
+  const signInMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/account/sign-in", { email });
+    },
+    onSuccess: () => setSent(true),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="text-center">
+        <div className="w-16 h-16 rounded-full gold-gradient mx-auto flex items-center justify-center mb-4">
+          <Mail className="h-8 w-8 text-black" />
+        </div>
+        <CardTitle className="font-serif text-2xl">Your Account</CardTitle>
+        <p className="text-muted-foreground mt-2">
+          {sent
+            ? `If ${email} has ordered with us, a sign-in link is on its way. It works once and expires in 20 minutes.`
+            : "Enter the email you order with and we'll send you a link to sign in - no password needed"}
+        </p>
+      </CardHeader>
+      {!sent && (
+        <CardContent>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (email.trim()) signInMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                data-testid="input-sign-in-email"
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={signInMutation.isPending} data-testid="button-send-sign-in-link">
+              {signInMutation.isPending ? "Sending..." : "Email Me a Sign-In Link"}
+            </Button>
+          </form>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+function OrderHistory() {
+  const [, navigate] = useLocation();
+  const { data: orders, isLoading } = useQuery<AccountOrder[]>({ queryKey: ["/api/account/orders"] });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Package className="h-5 w-5" />
+          Your Orders
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !orders?.length ? (
+          <p className="text-muted-foreground text-center py-6">No orders yet</p>
+        ) : (
+          orders.map((order) => (
+            <div key={order.id} className="rounded-lg border border-border p-4" data-testid={`account-order-${order.id}`}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono font-medium">{order.orderNumber}</span>
+                  <Badge variant="outline" className={statusColors[order.status]}>
+                    {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                  </Badge>
+                </div>
+                <span className="font-medium">${parseFloat(order.total).toFixed(2)}</span>
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                {format(new Date(order.fulfillmentDate), "EEE, MMM d, yyyy")}
+                {order.fulfillmentWindow && `, ${order.fulfillmentWindow}`} - {order.deliveryAddress}, {order.deliveryCity}
+              </p>
+              <p className="text-sm mt-1">
+                {order.items
+                  .map((item) => `${item.product.name} ${item.packName ? `(${item.packName}) x${item.packs}` : `x${item.quantity}`}`)
+                  .join(", ")}
+              </p>
+              <div className="flex justify-end gap-2 mt-3">
+                <Link href={`/order/confirmation/${order.id}?token=${order.trackingToken}`}>
+                  <Button variant="outline" size="sm" data-testid={`button-view-order-${order.id}`}>
+                    View
+                  </Button>
+                </Link>
+                <Button size="sm" onClick={() => navigate(`/order?reorder=${order.id}`)} data-testid={`button-reorder-${order.id}`}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Reorder This
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// yyyy-MM-dd at local noon, so the day doesn't slip in timezones behind UTC
+function dayDate(day: string) {
+  return new Date(`${day}T12:00:00`);
+}
+
+function SubscriptionCard({ subscription }: { subscription: AccountSubscription }) {
+  const { toast } = useToast();
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/account/subscriptions"] });
+  const base = `/api/account/subscriptions/${subscription.id}`;
+
+  const skipMutation = useMutation({
+    mutationFn: async ({ date, skipped }: { date: string; skipped: boolean }) => {
+      await (skipped ? apiRequest("DELETE", `${base}/skips/${date}`) : apiRequest("POST", `${base}/skips`, { date }));
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: async (weeks: number | null) => {
+      await apiRequest("POST", `${base}/pause`, { resumeOn: weeks ? format(addWeeks(new Date(), weeks), "yyyy-MM-dd") : null });
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Subscription Paused" });
+    },
+    onError,
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `${base}/resume`, {});
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Subscription Resumed" });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `${base}/cancel`, {});
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Subscription Cancelled", description: "No more orders will be placed for it" });
+    },
+    onError,
+  });
+
+  const busy = pauseMutation.isPending || resumeMutation.isPending || cancelMutation.isPending;
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-3" data-testid={`account-subscription-${subscription.id}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">
+          {subscription.cadence === "weekly" ? "Every week" : "Every 2 weeks"}, {subscription.fulfillmentWindow}
+        </span>
+        <Badge variant="outline" className={subscriptionStatusColors[subscription.status]}>
+          {subscription.status.charAt(0).toUpperCase() + subscription.status.slice(1)}
+        </Badge>
+      </div>
+      <p className="text-sm">{subscription.items.join(", ")}</p>
+      <p className="text-sm text-muted-foreground">{subscription.deliveryAddress}, {subscription.deliveryCity}</p>
+
+      {subscription.status === "pending" && (
+        <p className="text-sm text-muted-foreground">Starts once your first order's payment goes through</p>
+      )}
+      {subscription.status === "paused" && (
+        <p className="text-sm text-muted-foreground">
+          {subscription.resumeOn ? `Paused until ${format(dayDate(subscription.resumeOn), "MMM d")}` : "Paused until you resume it"}
+        </p>
+      )}
+      {subscription.lastFailureReason && subscription.lastFailedAt && subscription.status !== "cancelled" && (
+        <p className="text-sm text-destructive">
+          We couldn't place your order on {format(new Date(subscription.lastFailedAt), "MMM d")}: {subscription.lastFailureReason}
+        </p>
+      )}
+
+      {subscription.upcoming.length > 0 && (
+        <div className="space-y-1">
+          {subscription.upcoming.slice(0, 6).map((delivery) => (
+            <div key={delivery.date} className="flex items-center justify-between gap-2 text-sm">
+              <span className={delivery.skipped ? "line-through text-muted-foreground" : undefined}>
+                {format(dayDate(delivery.date), "EEE, MMM d")}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => skipMutation.mutate(delivery)}
+                disabled={skipMutation.isPending}
+                data-testid={`button-skip-${subscription.id}-${delivery.date}`}
+              >
+                {delivery.skipped ? "Unskip" : "Skip"}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {subscription.status !== "cancelled" && (
+        <div className="flex flex-wrap justify-end gap-2">
+          {subscription.status === "paused" ? (
+            <Button variant="outline" size="sm" onClick={() => resumeMutation.mutate()} disabled={busy} data-testid={`button-resume-${subscription.id}`}>
+              <Play className="h-4 w-4 mr-2" />
+              Resume
+            </Button>
+          ) : subscription.status === "active" && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => pauseMutation.mutate(2)} disabled={busy} data-testid={`button-pause-2-${subscription.id}`}>
+                <Pause className="h-4 w-4 mr-2" />
+                Pause 2 Weeks
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => pauseMutation.mutate(4)} disabled={busy} data-testid={`button-pause-4-${subscription.id}`}>
+                Pause 4 Weeks
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => pauseMutation.mutate(null)} disabled={busy} data-testid={`button-pause-${subscription.id}`}>
+                Pause Until I Resume
+              </Button>
+            </>
+          )}
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm" disabled={busy} data-testid={`button-cancel-subscription-${subscription.id}`}>
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Cancel this subscription?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  No more orders will be placed for it. Orders already placed will still be delivered.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Keep It</AlertDialogCancel>
+                <AlertDialogAction onClick={() => cancelMutation.mutate()} data-testid={`button-confirm-cancel-${subscription.id}`}>
+                  Cancel Subscription
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Subscriptions() {
+  const { data: subscriptions } = useQuery<AccountSubscription[]>({ queryKey: ["/api/account/subscriptions"] });
+
+  // Most people never subscribe; the card only shows up for those who have
+  if (!subscriptions?.length) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Repeat className="h-5 w-5" />
+          Your Subscriptions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {subscriptions.map((subscription) => (
+          <SubscriptionCard key={subscription.id} subscription={subscription} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SavedAddresses({ addresses }: { addresses: CustomerAddress[] }) {
+  const { toast } = useToast();
+  const [adding, setAdding] = useState(false);
+  const [draft, setDraft] = useState(emptyAddress);
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/account"] });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/account/addresses", { ...draft, label: draft.label || null });
+    },
+    onSuccess: () => {
+      refresh();
+      setAdding(false);
+      setDraft(emptyAddress);
+      toast({ title: "Address Saved" });
+    },
+    onError,
+  });
+
+  const defaultMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("PATCH", `/api/account/addresses/${id}`, { isDefault: true });
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/account/addresses/${id}`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Address Removed" });
+    },
+    onError,
+  });
+
+  const field = (key: keyof typeof emptyAddress, label: string, placeholder?: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`address-${key}`}>{label}</Label>
+      <Input
+        id={`address-${key}`}
+        value={draft[key]}
+        placeholder={placeholder}
+        onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+        data-testid={`input-address-${key}`}
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            Saved Addresses
+          </span>
+          {!adding && (
+            <Button variant="outline" size="sm" onClick={() => setAdding(true)} data-testid="button-add-address">
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {addresses.length === 0 && !adding && (
+          <p className="text-muted-foreground text-center py-6">Addresses you order to are saved here for next time</p>
+        )}
+        {addresses.map((address) => (
+          <div key={address.id} className="flex items-start justify-between gap-2 rounded-lg border border-border p-3" data-testid={`address-${address.id}`}>
+            <div className="text-sm">
+              <p className="font-medium flex items-center gap-2">
+                {address.label || address.deliveryAddress}
+                {address.isDefault && <Badge variant="secondary">Default</Badge>}
+              </p>
+              <p className="text-muted-foreground">
+                {address.label && `${address.deliveryAddress}, `}
+                {address.deliveryCity}, {address.deliveryState} {address.deliveryZip}
+              </p>
+            </div>
+            <div className="flex gap-1">
+              {!address.isDefault && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Make default"
+                  onClick={() => defaultMutation.mutate(address.id)}
+                  disabled={defaultMutation.isPending}
+                  data-testid={`button-default-address-${address.id}`}
+                >
+                  <Star className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Remove"
+                onClick={() => deleteMutation.mutate(address.id)}
+                disabled={deleteMutation.isPending}
+                data-testid={`button-delete-address-${address.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        {adding && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              addMutation.mutate();
+            }}
+            className="space-y-3 rounded-lg border border-border p-3"
+          >
+            {field("label", "Label (optional)", "Home, Office...")}
+            {field("deliveryAddress", "Street Address")}
+            <div className="grid grid-cols-3 gap-2">
+              {field("deliveryCity", "City")}
+              {field("deliveryState", "State")}
+              {field("deliveryZip", "Zip")}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" size="sm" onClick={() => setAdding(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={addMutation.isPending} data-testid="button-save-address">
+                Save Address
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AccountPage() {
+  const { customer, isLoading, signOut, isSigningOut } = useCustomer();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+          <Link href="/" className="flex items-center gap-2">
+            <div className="w-8 h-8 rounded-md gold-gradient flex items-center justify-center">
+              <span className="font-serif text-lg font-bold text-black">D</span>
+            </div>
+            <span className="font-serif text-xl tracking-wide text-gold">D'havi.co</span>
+          </Link>
+          {customer && (
+            <Button variant="ghost" size="sm" onClick={() => signOut()} disabled={isSigningOut} data-testid="button-sign-out">
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign Out
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : !customer ? (
+          <div className="max-w-md mx-auto">
+            <SignInCard />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-end justify-between gap-4">
+              <div>
+                <h1 className="font-serif text-3xl font-bold">Hi, {customer.name.split(" ")[0]}</h1>
+                <p className="text-muted-foreground mt-1">{customer.email}</p>
+              </div>
+              <Link href="/order">
+                <Button data-testid="button-new-order">New Order</Button>
+              </Link>
+            </div>
+            <Subscriptions />
+            <OrderHistory />
+            <SavedAddresses addresses={customer.addresses} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -19,7 +19,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Timer, Plus, CalendarIcon, Play, CheckCircle, Pause, RotateCcw, ChefHat, ClipboardList } from "lucide-react";
-import type { Batch, Product, Ingredient, BillOfMaterial } from "@shared/schema";
+import type { Batch, Product } from "@shared/schema";
+import { BakePlanner } from "./components";
 
 const batchFormSchema = z.object({
   batchDate: z.date({ required_error: "Batch date is required" }),
@@ -178,63 +179,23 @@ interface IngredientChecklistProps {
 
 function IngredientChecklist({ batch, onClose, onConfirmStart, isPending }: IngredientChecklistProps) {
   const [checkedItems, setCheckedItems] = useState<Record<string, boolean>>({});
-  const [aggregatedIngredients, setAggregatedIngredients] = useState<
+  // Worked out on the server from the recipe version each product was pinned to
+  const { data: ingredients = [], isLoading } = useQuery<
     Array<{ ingredientId: string; name: string; quantity: number; unit: string }>
-  >([]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    async function fetchIngredients() {
-      setIsLoading(true);
-      const ingredientMap: Record<string, { name: string; quantity: number; unit: string }> = {};
-
-      for (const item of batch.items || []) {
-        if (item.quantity > 0 && item.productId) {
-          try {
-            const response = await fetch(`/api/admin/products/${item.productId}/bom`, {
-              credentials: "include",
-            });
-            if (response.ok) {
-              const bom: (BillOfMaterial & { ingredient: Ingredient })[] = await response.json();
-              for (const bomItem of bom) {
-                const qty = parseFloat(bomItem.quantity) * item.quantity;
-                if (ingredientMap[bomItem.ingredientId]) {
-                  ingredientMap[bomItem.ingredientId].quantity += qty;
-                } else {
-                  ingredientMap[bomItem.ingredientId] = {
-                    name: bomItem.ingredient.name,
-                    quantity: qty,
-                    unit: bomItem.ingredient.unit,
-                  };
-                }
-              }
-            }
-          } catch (error) {
-            console.error("Failed to fetch BOM for product:", item.productId);
-          }
-        }
-      }
-
-      const ingredients = Object.entries(ingredientMap).map(([ingredientId, data]) => ({
-        ingredientId,
-        ...data,
-      }));
-      setAggregatedIngredients(ingredients);
-      setIsLoading(false);
-    }
-
-    fetchIngredients();
-  }, [batch.items]);
+  >({
+    queryKey: ["/api/admin/batches", batch.id, "ingredients"],
+  });
+  const aggregatedIngredients = ingredients.map((item) => ({ ...item, key: `${item.ingredientId}:${item.unit}` }));
 
-  const toggleItem = (ingredientId: string) => {
+  const toggleItem = (key: string) => {
     setCheckedItems((prev) => ({
       ...prev,
-      [ingredientId]: !prev[ingredientId],
+      [key]: !prev[key],
     }));
   };
 
   const allChecked = aggregatedIngredients.length > 0 && 
-    aggregatedIngredients.every((item) => checkedItems[item.ingredientId]);
+    aggregatedIngredients.every((item) => checkedItems[item.key]);
 
   return (
     <Dialog open onOpenChange={onClose}>
@@ -265,19 +226,19 @@ function IngredientChecklist({ batch, onClose, onConfirmStart, isPending }: Ingr
             <div className="space-y-2 max-h-64 overflow-y-auto">
               {aggregatedIngredients.map((item) => (
                 <div
-                  key={item.ingredientId}
+                  key={item.key}
                   className="flex items-center gap-3 p-3 rounded-lg border border-border hover-elevate cursor-pointer"
-                  onClick={() => toggleItem(item.ingredientId)}
-                  data-testid={`ingredient-check-${item.ingredientId}`}
+                  onClick={() => toggleItem(item.key)}
+                  data-testid={`ingredient-check-${item.key}`}
                 >
                   <div onClick={(e) => e.stopPropagation()}>
                     <Checkbox
-                      checked={checkedItems[item.ingredientId] || false}
-                      onCheckedChange={() => toggleItem(item.ingredientId)}
+                      checked={checkedItems[item.key] || false}
+                      onCheckedChange={() => toggleItem(item.key)}
                     />
                   </div>
                   <div className="flex-1">
-                    <span className={checkedItems[item.ingredientId] ? "line-through text-muted-foreground" : ""}>
+                    <span className={checkedItems[item.key] ? "line-through text-muted-foreground" : ""}>
                       {item.name}
                     </span>
                   </div>
@@ -311,9 +272,9 @@ export default function AdminBake() {
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [batchItems, setBatchItems] = useState<Record<string, number>>({});
-  const [checklistBatch, setChecklistBatch] = useState<(Batch & { items: any[] }) | null>(null);
+  const [checklistBatch, setChecklistBatch] = useState<(Batch & { items: any[]; orderIds?: string[] }) | null>(null);
 
-  const { data: batchesResponse, isLoading } = useQuery<{ batches: (Batch & { items: any[] })[]; pagination: any } | (Batch & { items: any[] })[]>({
+  const { data: batchesResponse, isLoading } = useQuery<{ batches: (Batch & { items: any[]; orderIds?: string[] })[]; pagination: any } | (Batch & { items: any[]; orderIds?: string[] })[]>({
     queryKey: ["/api/admin/batches"],
   });
 
@@ -358,6 +319,7 @@ export default function AdminBake() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/batches"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/ingredients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] });
       toast({ title: "Batch Updated", description: "Batch status has been updated" });
       setChecklistBatch(null);
     },
@@ -367,7 +329,7 @@ export default function AdminBake() {
     },
   });
 
-  const activeProducts = products?.filter((p) => p.isActive) || [];
+  const activeProducts = products?.filter((p) => p.isActive && !p.bundleType) || [];
 
   const onSubmit = (data: BatchFormData) => {
     createBatchMutation.mutate(data);
@@ -405,6 +367,8 @@ export default function AdminBake() {
 
       <div className="grid gap-6 lg:grid-cols-3">
         <div className="lg:col-span-2 space-y-6">
+          <BakePlanner />
+
           {inProgressBatches.length > 0 && (
             <Card className="border-orange-500/30">
               <CardHeader>
@@ -427,6 +391,9 @@ export default function AdminBake() {
                             {format(new Date(batch.batchDate), "MMM d, yyyy")}
                           </span>
                           <Badge variant="outline">{batch.shift}</Badge>
+                          {batch.orderIds && batch.orderIds.length > 0 && (
+                            <Badge variant="outline">{batch.orderIds.length} orders</Badge>
+                          )}
                           <Badge variant="outline" className={statusColors[batch.status]}>
                             in progress
                           </Badge>
@@ -490,6 +457,9 @@ export default function AdminBake() {
                             {format(new Date(batch.batchDate), "MMM d, yyyy")}
                           </span>
                           <Badge variant="outline">{batch.shift}</Badge>
+                          {batch.orderIds && batch.orderIds.length > 0 && (
+                            <Badge variant="outline">{batch.orderIds.length} orders</Badge>
+                          )}
                           <Badge variant="outline" className={statusColors[batch.status]}>
                             {batch.status}
                           </Badge>
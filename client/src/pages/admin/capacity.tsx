@@ -0,0 +1,578 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CalendarClock, CalendarOff, Gauge, Plus, Pencil, Trash2 } from "lucide-react";
+import { FULFILLMENT_WINDOWS, type BlackoutDate, type FulfillmentCapacity } from "@shared/schema";
+
+type CapacitySettings = {
+  capacity: FulfillmentCapacity[];
+  blackouts: BlackoutDate[];
+  leadHours: number;
+  timezone: string;
+};
+
+type SlotUsageDay = {
+  date: string;
+  windows: {
+    window: string;
+    available: boolean;
+    reason: "blackout" | "lead_time" | "full" | null;
+    orders: number;
+    bagels: number;
+    maxOrders: number | null;
+    maxBagels: number | null;
+  }[];
+};
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const EVERY_DAY = "all";
+const ALL_DAY = "all";
+
+// Empty inputs mean "no limit"
+const optionalLimit = z.string().regex(/^\d*$/, "Whole numbers only");
+
+const capacityFormSchema = z.object({
+  window: z.enum(FULFILLMENT_WINDOWS),
+  dayOfWeek: z.string(),
+  maxOrders: optionalLimit,
+  maxBagels: optionalLimit,
+  isActive: z.boolean(),
+});
+
+const blackoutFormSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick a date"),
+  window: z.string(),
+  reason: z.string().optional(),
+});
+
+type CapacityFormData = z.infer<typeof capacityFormSchema>;
+type BlackoutFormData = z.infer<typeof blackoutFormSchema>;
+
+const emptyCapacity: CapacityFormData = { window: "morning", dayOfWeek: EVERY_DAY, maxOrders: "", maxBagels: "", isActive: true };
+const emptyBlackout: BlackoutFormData = { date: "", window: ALL_DAY, reason: "" };
+
+function formatLimit(value: number | null) {
+  return value == null ? "No limit" : value.toString();
+}
+
+function usageLabel(taken: number, max: number | null) {
+  return max == null ? `${taken}` : `${taken}/${max}`;
+}
+
+export default function AdminCapacity() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("orders:manage");
+  const [capacityDialogOpen, setCapacityDialogOpen] = useState(false);
+  const [blackoutDialogOpen, setBlackoutDialogOpen] = useState(false);
+  const [editingCapacity, setEditingCapacity] = useState<FulfillmentCapacity | null>(null);
+
+  const { data: settings, isLoading } = useQuery<CapacitySettings>({
+    queryKey: ["/api/admin/capacity"],
+  });
+
+  const { data: usage, isLoading: usageLoading } = useQuery<SlotUsageDay[]>({
+    queryKey: ["/api/admin/capacity/slots"],
+  });
+
+  const capacityForm = useForm<CapacityFormData>({
+    resolver: zodResolver(capacityFormSchema),
+    defaultValues: emptyCapacity,
+  });
+
+  const blackoutForm = useForm<BlackoutFormData>({
+    resolver: zodResolver(blackoutFormSchema),
+    defaultValues: emptyBlackout,
+  });
+
+  const invalidateCapacity = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/capacity"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/capacity/slots"] });
+  };
+
+  const saveCapacityMutation = useMutation({
+    mutationFn: async (data: CapacityFormData) => {
+      const payload = {
+        window: data.window,
+        dayOfWeek: data.dayOfWeek === EVERY_DAY ? null : parseInt(data.dayOfWeek),
+        maxOrders: data.maxOrders === "" ? null : parseInt(data.maxOrders),
+        maxBagels: data.maxBagels === "" ? null : parseInt(data.maxBagels),
+        isActive: data.isActive,
+      };
+      if (editingCapacity) {
+        return await apiRequest("PATCH", `/api/admin/capacity/${editingCapacity.id}`, payload);
+      }
+      return await apiRequest("POST", "/api/admin/capacity", payload);
+    },
+    onSuccess: () => {
+      invalidateCapacity();
+      toast({ title: editingCapacity ? "Limit Updated" : "Limit Added" });
+      closeCapacityDialog();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteCapacityMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/capacity/${id}`);
+    },
+    onSuccess: () => {
+      invalidateCapacity();
+      toast({ title: "Limit Removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createBlackoutMutation = useMutation({
+    mutationFn: async (data: BlackoutFormData) => {
+      return await apiRequest("POST", "/api/admin/blackout-dates", {
+        date: data.date,
+        window: data.window === ALL_DAY ? null : data.window,
+        reason: data.reason || null,
+      });
+    },
+    onSuccess: () => {
+      invalidateCapacity();
+      toast({ title: "Blackout Added" });
+      closeBlackoutDialog();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteBlackoutMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/blackout-dates/${id}`);
+    },
+    onSuccess: () => {
+      invalidateCapacity();
+      toast({ title: "Blackout Removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const closeCapacityDialog = () => {
+    setCapacityDialogOpen(false);
+    setEditingCapacity(null);
+    capacityForm.reset(emptyCapacity);
+  };
+
+  const closeBlackoutDialog = () => {
+    setBlackoutDialogOpen(false);
+    blackoutForm.reset(emptyBlackout);
+  };
+
+  const openEditCapacity = (capacity: FulfillmentCapacity) => {
+    setEditingCapacity(capacity);
+    capacityForm.reset({
+      window: capacity.window as CapacityFormData["window"],
+      dayOfWeek: capacity.dayOfWeek == null ? EVERY_DAY : capacity.dayOfWeek.toString(),
+      maxOrders: capacity.maxOrders?.toString() ?? "",
+      maxBagels: capacity.maxBagels?.toString() ?? "",
+      isActive: capacity.isActive,
+    });
+    setCapacityDialogOpen(true);
+  };
+
+  // Two weeks is enough to see what's filling up
+  const upcoming = usage?.slice(0, 14) || [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-serif text-3xl font-bold">Delivery Capacity</h1>
+        <p className="text-muted-foreground mt-1">
+          How much we take on per delivery window
+          {settings && ` · orders close ${settings.leadHours} hours before each window (${settings.timezone})`}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Next Two Weeks
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {usageLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  {FULFILLMENT_WINDOWS.map((window) => (
+                    <TableHead key={window} className="capitalize">{window}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {upcoming.map((day) => (
+                  <TableRow key={day.date} data-testid={`row-slots-${day.date}`}>
+                    <TableCell className="font-medium">{format(parseISO(day.date), "EEE, MMM d")}</TableCell>
+                    {day.windows.map((slot) => (
+                      <TableCell key={slot.window}>
+                        {slot.reason === "blackout" ? (
+                          <Badge variant="outline">Blacked out</Badge>
+                        ) : (
+                          <div className="space-y-1">
+                            <p className="text-sm">
+                              {usageLabel(slot.orders, slot.maxOrders)} orders · {usageLabel(slot.bagels, slot.maxBagels)} bagels
+                            </p>
+                            {slot.reason === "full" && <Badge variant="destructive">Full</Badge>}
+                            {slot.reason === "lead_time" && <Badge variant="secondary">Closed</Badge>}
+                          </div>
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="h-5 w-5" />
+              Limits
+            </CardTitle>
+            {canEdit && (
+              <Button size="sm" onClick={() => setCapacityDialogOpen(true)} data-testid="button-new-capacity">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Limit
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-3">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-10 w-full" />
+                ))}
+              </div>
+            ) : !settings?.capacity.length ? (
+              <p className="text-center py-8 text-muted-foreground">No limits - every window takes unlimited orders</p>
+            ) : (
+              <div className="space-y-2">
+                {settings.capacity.map((capacity) => (
+                  <div
+                    key={capacity.id}
+                    className="flex items-center justify-between gap-4 p-3 bg-muted/50 rounded-lg"
+                    data-testid={`row-capacity-${capacity.id}`}
+                  >
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium capitalize">{capacity.window}</p>
+                        <span className="text-sm text-muted-foreground">
+                          {capacity.dayOfWeek == null ? "Every day" : WEEKDAYS[capacity.dayOfWeek]}
+                        </span>
+                        {!capacity.isActive && <Badge variant="outline">Off</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {formatLimit(capacity.maxOrders)} orders · {formatLimit(capacity.maxBagels)} bagels
+                      </p>
+                    </div>
+                    {canEdit && (
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="icon" onClick={() => openEditCapacity(capacity)} data-testid={`button-edit-capacity-${capacity.id}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => deleteCapacityMutation.mutate(capacity.id)}
+                          disabled={deleteCapacityMutation.isPending}
+                          data-testid={`button-delete-capacity-${capacity.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground mt-4">
+              A limit for a specific weekday overrides the every-day one. Manual orders aren't held to these limits but do count towards them.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <CalendarOff className="h-5 w-5" />
+              Blackout Dates
+            </CardTitle>
+            {canEdit && (
+              <Button size="sm" onClick={() => setBlackoutDialogOpen(true)} data-testid="button-new-blackout">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Date
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-3">
+                {[1, 2].map((i) => (
+                  <Skeleton key={i} className="h-10 w-full" />
+                ))}
+              </div>
+            ) : !settings?.blackouts.length ? (
+              <p className="text-center py-8 text-muted-foreground">No upcoming blackout dates</p>
+            ) : (
+              <div className="space-y-2">
+                {settings.blackouts.map((blackout) => (
+                  <div
+                    key={blackout.id}
+                    className="flex items-center justify-between gap-4 p-3 bg-muted/50 rounded-lg"
+                    data-testid={`row-blackout-${blackout.id}`}
+                  >
+                    <div>
+                      <p className="font-medium">
+                        {format(parseISO(blackout.date), "EEE, MMM d, yyyy")}
+                        <span className="text-sm font-normal text-muted-foreground capitalize ml-2">
+                          {blackout.window || "All day"}
+                        </span>
+                      </p>
+                      {blackout.reason && <p className="text-sm text-muted-foreground">{blackout.reason}</p>}
+                    </div>
+                    {canEdit && (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => deleteBlackoutMutation.mutate(blackout.id)}
+                        disabled={deleteBlackoutMutation.isPending}
+                        data-testid={`button-delete-blackout-${blackout.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground mt-4">
+              Orders already booked on a blackout date are kept - move or cancel them from Orders.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={capacityDialogOpen} onOpenChange={(open) => !open && closeCapacityDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-serif">{editingCapacity ? "Edit Limit" : "Add Limit"}</DialogTitle>
+            <DialogDescription>Leave a limit empty for no limit.</DialogDescription>
+          </DialogHeader>
+          <Form {...capacityForm}>
+            <form onSubmit={capacityForm.handleSubmit((data) => saveCapacityMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={capacityForm.control}
+                  name="window"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Window</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-capacity-window">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {FULFILLMENT_WINDOWS.map((window) => (
+                            <SelectItem key={window} value={window} className="capitalize">{window}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={capacityForm.control}
+                  name="dayOfWeek"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Day</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-capacity-day">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={EVERY_DAY}>Every day</SelectItem>
+                          {WEEKDAYS.map((day, index) => (
+                            <SelectItem key={day} value={index.toString()}>{day}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={capacityForm.control}
+                  name="maxOrders"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Max Orders</FormLabel>
+                      <FormControl>
+                        <Input {...field} inputMode="numeric" placeholder="No limit" data-testid="input-capacity-orders" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={capacityForm.control}
+                  name="maxBagels"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Max Bagels</FormLabel>
+                      <FormControl>
+                        <Input {...field} inputMode="numeric" placeholder="No limit" data-testid="input-capacity-bagels" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={capacityForm.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <FormLabel>Active</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-capacity-active" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeCapacityDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveCapacityMutation.isPending} data-testid="button-save-capacity">
+                  {editingCapacity ? "Save" : "Add Limit"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={blackoutDialogOpen} onOpenChange={(open) => !open && closeBlackoutDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-serif">Add Blackout Date</DialogTitle>
+            <DialogDescription>Customers won't be able to pick this day, or just this window.</DialogDescription>
+          </DialogHeader>
+          <Form {...blackoutForm}>
+            <form onSubmit={blackoutForm.handleSubmit((data) => createBlackoutMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={blackoutForm.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="date" data-testid="input-blackout-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={blackoutForm.control}
+                  name="window"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Window</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-blackout-window">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ALL_DAY}>All day</SelectItem>
+                          {FULFILLMENT_WINDOWS.map((window) => (
+                            <SelectItem key={window} value={window} className="capitalize">{window}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={blackoutForm.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason (shown to customers)</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Thanksgiving" data-testid="input-blackout-reason" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeBlackoutDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createBlackoutMutation.isPending} data-testid="button-save-blackout">
+                  Add Date
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Sparkles, Scissors, Trash2, Check, SlidersHorizontal } from "lucide-react";
+import type { Product } from "@shared/schema";
+
+interface PlanItem {
+  productId: string;
+  productName: string;
+  needed: number;
+  fromFreezer: number;
+  buffer: number;
+  quantity: number;
+}
+
+interface PlannedOrder {
+  orderId: string;
+  customerName: string;
+  fulfillmentWindow: string | null;
+  items: { productId: string; quantity: number }[];
+}
+
+interface BatchProposal {
+  batchDate: string;
+  shift: string;
+  items: PlanItem[];
+  orders: PlannedOrder[];
+}
+
+interface Draft extends BatchProposal {
+  key: number;
+  notes: string;
+}
+
+let nextKey = 0;
+
+function toDraft(proposal: BatchProposal): Draft {
+  return { ...proposal, key: nextKey++, notes: "" };
+}
+
+// Moves the selected orders and what they need into a batch of their own
+function splitDraft(draft: Draft, orderIds: string[]): [Draft, Draft] {
+  const moved = draft.orders.filter((order) => orderIds.includes(order.orderId));
+  const movedQty: Record<string, number> = {};
+  for (const order of moved) {
+    for (const item of order.items) {
+      movedQty[item.productId] = (movedQty[item.productId] || 0) + item.quantity;
+    }
+  }
+
+  const kept: Draft = {
+    ...draft,
+    orders: draft.orders.filter((order) => !orderIds.includes(order.orderId)),
+    items: draft.items.map((item) => ({
+      ...item,
+      quantity: Math.max(0, item.quantity - (movedQty[item.productId] || 0)),
+    })),
+  };
+  const split: Draft = {
+    ...draft,
+    key: nextKey++,
+    notes: "",
+    orders: moved,
+    items: draft.items
+      .filter((item) => movedQty[item.productId])
+      .map((item) => ({
+        ...item,
+        needed: movedQty[item.productId],
+        fromFreezer: 0,
+        buffer: 0,
+        quantity: movedQty[item.productId],
+      })),
+  };
+  return [kept, split];
+}
+
+function SafetyBuffers({ products }: { products: Product[] }) {
+  const { toast } = useToast();
+
+  const updateBufferMutation = useMutation({
+    mutationFn: async ({ productId, safetyBuffer }: { productId: string; safetyBuffer: number }) => {
+      return await apiRequest("PATCH", `/api/admin/products/${productId}`, { safetyBuffer });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+      toast({ title: "Buffer Saved", description: "Used the next time you generate a plan" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="rounded-lg border border-border p-3 space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Extra bagels added to every batch that bakes the product.
+      </p>
+      {products.map((product) => (
+        <div key={product.id} className="flex items-center justify-between gap-3">
+          <span className="text-sm">{product.name}</span>
+          <Input
+            type="number"
+            min="0"
+            className="w-20"
+            defaultValue={product.safetyBuffer}
+            onBlur={(e) => {
+              const safetyBuffer = Math.max(0, parseInt(e.target.value) || 0);
+              if (safetyBuffer !== product.safetyBuffer) {
+                updateBufferMutation.mutate({ productId: product.id, safetyBuffer });
+              }
+            }}
+            data-testid={`input-buffer-${product.id}`}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function BakePlanner() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("production:manage");
+  const canEditBuffers = can("catalog:manage");
+  const [drafts, setDrafts] = useState<Draft[] | null>(null);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [showBuffers, setShowBuffers] = useState(false);
+
+  const { refetch, isFetching } = useQuery<BatchProposal[]>({
+    queryKey: ["/api/admin/bake-plan"],
+    enabled: false,
+  });
+
+  const { data: products } = useQuery<Product[]>({
+    queryKey: ["/api/admin/products"],
+  });
+
+  const generate = async () => {
+    const result = await refetch();
+    if (result.error) {
+      toast({ title: "Error", description: result.error.message, variant: "destructive" });
+      return;
+    }
+    setDrafts((result.data || []).map(toDraft));
+    setSelected({});
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: async (plan: Draft[]) => {
+      const res = await apiRequest("POST", "/api/admin/bake-plan", {
+        batches: plan.map((draft) => ({
+          batchDate: draft.batchDate,
+          shift: draft.shift,
+          notes: draft.notes || undefined,
+          items: draft.items.map(({ productId, quantity }) => ({ productId, quantity })),
+          orderIds: draft.orders.map((order) => order.orderId),
+        })),
+      });
+      return await res.json() as { batches: unknown[]; readyOrderIds: string[] };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/batches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/freezer"] });
+      const ready = result.readyOrderIds.length > 0
+        ? `, ${result.readyOrderIds.length} order(s) ready from the freezer`
+        : "";
+      toast({ title: "Plan Accepted", description: `${result.batches.length} batch(es) scheduled${ready}` });
+      setDrafts(null);
+      setSelected({});
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateDraft = (key: number, changes: Partial<Draft>) => {
+    setDrafts((prev) => prev && prev.map((draft) => (draft.key === key ? { ...draft, ...changes } : draft)));
+  };
+
+  const setQuantity = (draft: Draft, productId: string, quantity: number) => {
+    updateDraft(draft.key, {
+      items: draft.items.map((item) => (item.productId === productId ? { ...item, quantity } : item)),
+    });
+  };
+
+  const split = (draft: Draft) => {
+    const orderIds = draft.orders.filter((order) => selected[order.orderId]).map((order) => order.orderId);
+    const [kept, moved] = splitDraft(draft, orderIds);
+    setDrafts((prev) => prev && prev.flatMap((d) => (d.key === draft.key ? [kept, moved] : [d])));
+    setSelected({});
+  };
+
+  const selectedIn = (draft: Draft) => draft.orders.filter((order) => selected[order.orderId]).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            Bake Planner
+          </CardTitle>
+          <div className="flex gap-2">
+            {canEditBuffers && (
+              <Button variant="outline" size="sm" onClick={() => setShowBuffers(!showBuffers)} data-testid="button-toggle-buffers">
+                <SlidersHorizontal className="h-4 w-4 mr-2" />
+                Buffers
+              </Button>
+            )}
+            <Button size="sm" onClick={generate} disabled={isFetching} data-testid="button-generate-plan">
+              {isFetching ? "Planning..." : drafts ? "Regenerate" : "Plan Next 7 Days"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showBuffers && products && (
+          <SafetyBuffers products={products.filter((p) => p.isActive && !p.bundleType)} />
+        )}
+
+        {!drafts ? (
+          <p className="text-sm text-muted-foreground">
+            Builds batches from approved orders that the freezer can't cover yet.
+          </p>
+        ) : drafts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Nothing to bake - every open order is covered.
+          </p>
+        ) : (
+          <>
+            {drafts.map((draft) => (
+              <div key={draft.key} className="rounded-lg border border-border p-4 space-y-3" data-testid={`plan-batch-${draft.key}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Input
+                    type="date"
+                    className="w-40"
+                    value={draft.batchDate}
+                    onChange={(e) => e.target.value && updateDraft(draft.key, { batchDate: e.target.value })}
+                    disabled={!canEdit}
+                  />
+                  <Select value={draft.shift} onValueChange={(shift) => updateDraft(draft.key, { shift })} disabled={!canEdit}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="morning">Morning</SelectItem>
+                      <SelectItem value="afternoon">Afternoon</SelectItem>
+                      <SelectItem value="evening">Evening</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <span className="text-sm text-muted-foreground">
+                    for {format(parseISO(draft.batchDate), "EEE MMM d")}
+                  </span>
+                  {canEdit && (
+                    <div className="ml-auto flex gap-1">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => split(draft)}
+                        disabled={selectedIn(draft) === 0 || selectedIn(draft) === draft.orders.length}
+                        data-testid={`button-split-${draft.key}`}
+                      >
+                        <Scissors className="h-4 w-4 mr-1" />
+                        Split
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDrafts((prev) => prev && prev.filter((d) => d.key !== draft.key))}
+                        data-testid={`button-drop-${draft.key}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  {draft.items.map((item) => (
+                    <div key={item.productId} className="flex items-center justify-between gap-3">
+                      <div>
+                        <span>{item.productName}</span>
+                        <p className="text-xs text-muted-foreground">
+                          {item.needed} ordered
+                          {item.fromFreezer > 0 && ` - ${item.fromFreezer} from freezer`}
+                          {item.buffer > 0 && ` + ${item.buffer} buffer`}
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        min="0"
+                        className="w-24"
+                        value={item.quantity}
+                        onChange={(e) => setQuantity(draft, item.productId, Math.max(0, parseInt(e.target.value) || 0))}
+                        disabled={!canEdit}
+                        data-testid={`input-plan-qty-${draft.key}-${item.productId}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {draft.orders.map((order) => (
+                    <label
+                      key={order.orderId}
+                      className="flex items-center gap-2 rounded-md border border-border px-2 py-1 text-sm cursor-pointer"
+                    >
+                      {canEdit && (
+                        <Checkbox
+                          checked={selected[order.orderId] || false}
+                          onCheckedChange={(checked) => setSelected((prev) => ({ ...prev, [order.orderId]: checked === true }))}
+                        />
+                      )}
+                      {order.customerName}
+                      <Badge variant="secondary" className="text-xs">
+                        {order.items.reduce((sum, item) => sum + item.quantity, 0)}
+                      </Badge>
+                    </label>
+                  ))}
+                </div>
+
+                <Input
+                  placeholder="Notes (optional)"
+                  value={draft.notes}
+                  onChange={(e) => updateDraft(draft.key, { notes: e.target.value })}
+                  disabled={!canEdit}
+                />
+              </div>
+            ))}
+
+            {canEdit && (
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => acceptMutation.mutate(drafts)}
+                  disabled={acceptMutation.isPending}
+                  data-testid="button-accept-plan"
+                >
+                  <Check className="h-4 w-4 mr-2" />
+                  {acceptMutation.isPending ? "Scheduling..." : "Accept Plan"}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
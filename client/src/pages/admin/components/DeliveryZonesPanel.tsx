@@ -0,0 +1,427 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Truck, Plus, Pencil, Trash2, X } from "lucide-react";
+import type { DeliveryZone, DeliveryFeeTier, Location } from "@shared/schema";
+
+// One "lat, lng" pair per line
+function parsePolygon(text: string): [number, number][] | null {
+  const points = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => line.split(",").map((part) => parseFloat(part.trim())));
+  if (points.some((point) => point.length !== 2 || point.some(isNaN))) return null;
+  return points as [number, number][];
+}
+
+const zoneFormSchema = z.object({
+  locationId: z.string().min(1, "Pick a delivery location"),
+  name: z.string().min(1, "Name is required"),
+  type: z.enum(["radius", "polygon"]),
+  radiusMiles: z.string(),
+  polygon: z.string(),
+  feeTiers: z.array(z.object({
+    minSubtotal: z.coerce.number().min(0),
+    fee: z.coerce.number().min(0),
+  })),
+  minimumOrder: z.coerce.number().min(0),
+  isActive: z.boolean(),
+}).superRefine((zone, ctx) => {
+  if (zone.type === "radius" && !(parseFloat(zone.radiusMiles) > 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["radiusMiles"], message: "Enter a radius in miles" });
+  }
+  if (zone.type === "polygon") {
+    const points = parsePolygon(zone.polygon);
+    if (!points || points.length < 3) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["polygon"], message: "Enter at least 3 \"lat, lng\" points, one per line" });
+    }
+  }
+});
+
+type ZoneFormData = z.infer<typeof zoneFormSchema>;
+
+const emptyZone: ZoneFormData = {
+  locationId: "",
+  name: "",
+  type: "radius",
+  radiusMiles: "",
+  polygon: "",
+  feeTiers: [{ minSubtotal: 0, fee: 0 }],
+  minimumOrder: 0,
+  isActive: true,
+};
+
+function describeTiers(tiers: DeliveryFeeTier[]) {
+  if (!tiers.length) return "Free";
+  return [...tiers]
+    .sort((a, b) => a.minSubtotal - b.minSubtotal)
+    .map((tier) => `${tier.fee ? `$${tier.fee.toFixed(2)}` : "Free"}${tier.minSubtotal ? ` from $${tier.minSubtotal.toFixed(2)}` : ""}`)
+    .join(", ");
+}
+
+interface DeliveryZonesPanelProps {
+  zones: DeliveryZone[] | undefined;
+  locations: Location[];
+  isLoading: boolean;
+}
+
+export function DeliveryZonesPanel({ zones, locations, isLoading }: DeliveryZonesPanelProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("catalog:manage");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingZone, setEditingZone] = useState<DeliveryZone | null>(null);
+
+  // Zones measure from the location, so only delivery locations with coordinates can have one
+  const deliveryLocations = locations.filter(
+    (location) => location.type === "delivery" && location.latitude != null && location.longitude != null
+  );
+  const locationName = (id: string) => locations.find((location) => location.id === id)?.name || "Unknown";
+
+  const form = useForm<ZoneFormData>({
+    resolver: zodResolver(zoneFormSchema),
+    defaultValues: emptyZone,
+  });
+  const tiers = useFieldArray({ control: form.control, name: "feeTiers" });
+  const zoneType = form.watch("type");
+
+  const saveZoneMutation = useMutation({
+    mutationFn: async (data: ZoneFormData) => {
+      const payload = {
+        locationId: data.locationId,
+        name: data.name,
+        type: data.type,
+        radiusMiles: data.type === "radius" ? parseFloat(data.radiusMiles) : null,
+        polygon: data.type === "polygon" ? parsePolygon(data.polygon) : null,
+        feeTiers: data.feeTiers,
+        minimumOrder: data.minimumOrder,
+        isActive: data.isActive,
+      };
+      if (editingZone) {
+        return await apiRequest("PATCH", `/api/admin/delivery-zones/${editingZone.id}`, payload);
+      }
+      return await apiRequest("POST", "/api/admin/delivery-zones", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/delivery-zones"] });
+      toast({ title: editingZone ? "Zone Updated" : "Zone Added" });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteZoneMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/delivery-zones/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/delivery-zones"] });
+      toast({ title: "Zone Removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingZone(null);
+    form.reset(emptyZone);
+  };
+
+  const openEditDialog = (zone: DeliveryZone) => {
+    setEditingZone(zone);
+    form.reset({
+      locationId: zone.locationId,
+      name: zone.name,
+      type: zone.type === "polygon" ? "polygon" : "radius",
+      radiusMiles: zone.radiusMiles || "",
+      polygon: zone.polygon?.map(([lat, lng]) => `${lat}, ${lng}`).join("\n") || "",
+      feeTiers: zone.feeTiers,
+      minimumOrder: parseFloat(zone.minimumOrder),
+      isActive: zone.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <CardTitle className="flex items-center gap-2">
+          <Truck className="h-5 w-5" />
+          Delivery Zones
+        </CardTitle>
+        {canEdit && (
+          <Button
+            size="sm"
+            onClick={() => setIsDialogOpen(true)}
+            disabled={deliveryLocations.length === 0}
+            data-testid="button-new-delivery-zone"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Zone
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : !zones?.length ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Truck className="h-10 w-10 mx-auto mb-2 opacity-50" />
+            <p>No delivery zones - we accept orders to any address, with no delivery fee</p>
+            {deliveryLocations.length === 0 && (
+              <p className="text-sm mt-1">Add a delivery location with coordinates to set one up</p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {zones.map((zone) => (
+              <div
+                key={zone.id}
+                className="flex items-center justify-between gap-4 p-3 bg-muted/50 rounded-lg"
+                data-testid={`row-delivery-zone-${zone.id}`}
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{zone.name}</p>
+                    {!zone.isActive && <Badge variant="outline">Off</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {locationName(zone.locationId)} ·{" "}
+                    {zone.type === "radius" ? `${parseFloat(zone.radiusMiles || "0")} mi radius` : `${zone.polygon?.length || 0}-point area`}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {describeTiers(zone.feeTiers)}
+                    {parseFloat(zone.minimumOrder) > 0 && ` · $${parseFloat(zone.minimumOrder).toFixed(2)} minimum`}
+                  </p>
+                </div>
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="icon" onClick={() => openEditDialog(zone)} data-testid={`button-edit-delivery-zone-${zone.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => deleteZoneMutation.mutate(zone.id)}
+                      disabled={deleteZoneMutation.isPending}
+                      data-testid={`button-delete-delivery-zone-${zone.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="text-sm text-muted-foreground mt-4">
+          When zones overlap, the customer gets the cheapest one. Zones used by past orders are switched off instead of deleted.
+        </p>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="font-serif">{editingZone ? "Edit Delivery Zone" : "Add Delivery Zone"}</DialogTitle>
+            <DialogDescription>A radius around the location, or an area drawn from map points.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveZoneMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="locationId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Delivers From</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-zone-location">
+                          <SelectValue placeholder="Select location" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {deliveryLocations.map((location) => (
+                          <SelectItem key={location.id} value={location.id}>
+                            {location.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="Brooklyn" data-testid="input-zone-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Shape</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-zone-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="radius">Radius</SelectItem>
+                          <SelectItem value="polygon">Polygon</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {zoneType === "radius" ? (
+                <FormField
+                  control={form.control}
+                  name="radiusMiles"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Radius (miles)</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" step="0.1" min={0} placeholder="3" data-testid="input-zone-radius" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="polygon"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Corners</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          {...field}
+                          rows={5}
+                          placeholder={"40.7306, -73.9866\n40.7128, -73.9700\n40.7000, -74.0100"}
+                          data-testid="input-zone-polygon"
+                        />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground">One "latitude, longitude" per line</p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <FormLabel>Delivery Fee</FormLabel>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => tiers.append({ minSubtotal: 0, fee: 0 })}
+                    data-testid="button-add-fee-tier"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Tier
+                  </Button>
+                </div>
+                {tiers.fields.map((tier, index) => (
+                  <div key={tier.id} className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground shrink-0">Orders from $</span>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min={0}
+                      {...form.register(`feeTiers.${index}.minSubtotal`)}
+                      data-testid={`input-tier-min-${index}`}
+                    />
+                    <span className="text-sm text-muted-foreground shrink-0">pay $</span>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min={0}
+                      {...form.register(`feeTiers.${index}.fee`)}
+                      data-testid={`input-tier-fee-${index}`}
+                    />
+                    <Button type="button" variant="ghost" size="icon" onClick={() => tiers.remove(index)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">The highest tier the order reaches applies. No tiers means free delivery.</p>
+              </div>
+              <FormField
+                control={form.control}
+                name="minimumOrder"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum Order ($)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="0.01" min={0} data-testid="input-zone-minimum" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <FormLabel>Active</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-zone-active" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveZoneMutation.isPending} data-testid="button-save-delivery-zone">
+                  {editingZone ? "Save" : "Add Zone"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
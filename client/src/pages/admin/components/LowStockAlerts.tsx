@@ -1,9 +1,14 @@
+import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Wheat, AlertTriangle, ArrowRight } from "lucide-react";
-import { Link } from "wouter";
-import type { Ingredient } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Wheat, AlertTriangle, ArrowRight, ClipboardList } from "lucide-react";
+import { Link, useLocation } from "wouter";
+import type { Ingredient, PurchaseOrder } from "@shared/schema";
 
 interface LowStockAlertsProps {
   lowStockIngredients: Ingredient[];
@@ -11,6 +16,36 @@ interface LowStockAlertsProps {
 }
 
 export function LowStockAlerts({ lowStockIngredients, isLoading }: LowStockAlertsProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [, setLocation] = useLocation();
+
+  const draftMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/purchase-orders/drafts", {
+        ingredientIds: lowStockIngredients.map((ingredient) => ingredient.id),
+      });
+      return await res.json() as { purchaseOrders: PurchaseOrder[]; unassigned: Ingredient[] };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/purchase-orders"] });
+      if (result.purchaseOrders.length === 0) {
+        toast({
+          title: "Nothing to Draft",
+          description: result.unassigned.length > 0
+            ? "Assign suppliers to these ingredients on the Purchasing page first"
+            : "Everything low is already on order",
+        });
+        return;
+      }
+      toast({ title: "Drafts Created", description: `${result.purchaseOrders.length} purchase order(s) ready to review` });
+      setLocation("/bakehouse/purchasing");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   return (
     <Card>
       <CardHeader className="flex flex-row items-center justify-between">
@@ -36,6 +71,19 @@ export function LowStockAlerts({ lowStockIngredients, isLoading }: LowStockAlert
           </div>
         ) : (
           <div className="space-y-3">
+            {can("inventory:manage") && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => draftMutation.mutate()}
+                disabled={draftMutation.isPending}
+                data-testid="button-draft-purchase-orders"
+              >
+                <ClipboardList className="h-4 w-4 mr-2" />
+                {draftMutation.isPending ? "Drafting..." : "Draft Purchase Orders"}
+              </Button>
+            )}
             {lowStockIngredients.slice(0, 5).map((ingredient) => (
               <div
                 key={ingredient.id}
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Mail, MessageSquare, RotateCcw, FileText, Clock, Store } from "lucide-react";
+import type { Notification, SmsTemplate } from "@shared/schema";
+
+const templateLabels: Record<string, string> = {
+  order_received: "Order received",
+  order_approved: "Order confirmed",
+  order_baking: "Baking",
+  order_ready: "Out for delivery",
+  order_cancelled: "Cancelled",
+  order_refunded: "Refund",
+  invoice: "Invoice",
+  reauthorization: "Re-authorize card",
+  out_for_delivery: "Out for delivery",
+  delivery_eta: "Arrival time",
+  pickup_ready: "Ready for pickup",
+};
+
+const statusColors: Record<string, string> = {
+  queued: "bg-amber-500/10 text-amber-600 border-amber-500/20",
+  sent: "bg-green-500/10 text-green-600 border-green-500/20",
+  failed: "bg-destructive/10 text-destructive border-destructive/20",
+  skipped: "bg-muted text-muted-foreground",
+};
+
+// Emails and texts sent to the customer about this order, with anything stuck or failed
+export function OrderNotifications({ orderId, hasInvoice, hasPhone }: { orderId: string; hasInvoice: boolean; hasPhone: boolean }) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [etaMinutes, setEtaMinutes] = useState("20");
+  const queryKey = ["/api/admin/orders", orderId, "notifications"];
+  const { data: notifications, isLoading } = useQuery<Notification[]>({ queryKey });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/admin/notifications/${id}/retry`, {});
+      return response.json() as Promise<Notification>;
+    },
+    onSuccess: (notification) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: notification.status === "sent" ? "Sent" : "Still Not Sent",
+        description: notification.status === "sent" ? undefined : notification.lastError || undefined,
+        variant: notification.status === "sent" ? undefined : "destructive",
+      });
+    },
+    onError,
+  });
+
+  const sendInvoiceMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/admin/orders/${orderId}/send-invoice`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Invoice Sent", description: "The invoice is on its way to the customer" });
+    },
+    onError,
+  });
+
+  const textMutation = useMutation({
+    mutationFn: async (data: { template: SmsTemplate; etaMinutes?: number }) => {
+      await apiRequest("POST", `/api/admin/orders/${orderId}/text`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Text Sent" });
+    },
+    onError,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  return (
+    <div className="space-y-3" data-testid="order-notifications">
+      {hasPhone && can("orders:fulfill") && (
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              min={1}
+              className="w-20 h-8"
+              value={etaMinutes}
+              onChange={(e) => setEtaMinutes(e.target.value)}
+              data-testid="input-eta-minutes"
+            />
+            <span className="text-sm text-muted-foreground">min</span>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => textMutation.mutate({ template: "delivery_eta", etaMinutes: parseInt(etaMinutes) || undefined })}
+            disabled={textMutation.isPending}
+            data-testid="button-text-eta"
+          >
+            <Clock className="h-4 w-4 mr-2" />
+            Text ETA
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => textMutation.mutate({ template: "pickup_ready" })}
+            disabled={textMutation.isPending}
+            data-testid="button-text-pickup"
+          >
+            <Store className="h-4 w-4 mr-2" />
+            Ready for Pickup
+          </Button>
+        </div>
+      )}
+
+      {hasInvoice && can("orders:manage") && (
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => sendInvoiceMutation.mutate()}
+            disabled={sendInvoiceMutation.isPending}
+            data-testid="button-send-invoice"
+          >
+            <FileText className="h-4 w-4 mr-2" />
+            Email Invoice
+          </Button>
+        </div>
+      )}
+
+      {!notifications?.length ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <Mail className="h-10 w-10 mx-auto mb-2 opacity-50" />
+          <p>No messages sent for this order yet</p>
+        </div>
+      ) : (
+        notifications.map((notification) => (
+          <div
+            key={notification.id}
+            className="rounded-lg border border-border p-3 text-sm"
+            data-testid={`notification-${notification.id}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                {notification.channel === "sms"
+                  ? <MessageSquare className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  : <Mail className="h-4 w-4 shrink-0 text-muted-foreground" />}
+                <span className="font-medium">{templateLabels[notification.template] || notification.template}</span>
+                <Badge variant="outline" className={statusColors[notification.status]}>
+                  {notification.status}
+                </Badge>
+              </div>
+              {(notification.status === "queued" || notification.status === "failed") && can("orders:manage") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => retryMutation.mutate(notification.id)}
+                  disabled={retryMutation.isPending}
+                  data-testid={`button-retry-notification-${notification.id}`}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Send Now
+                </Button>
+              )}
+            </div>
+            <p className="text-muted-foreground truncate">{notification.subject || notification.body}</p>
+            <p className="text-muted-foreground">
+              To {notification.recipient}
+              {notification.sentAt
+                ? ` - sent ${format(new Date(notification.sentAt), "MMM d, h:mm a")}`
+                : notification.createdAt && ` - queued ${format(new Date(notification.createdAt), "MMM d, h:mm a")}`}
+              {notification.attempts > 1 && ` after ${notification.attempts} attempts`}
+            </p>
+            {notification.status !== "sent" && notification.lastError && (
+              <p className="text-destructive mt-1">{notification.lastError}</p>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Snowflake, ChefHat, Wheat } from "lucide-react";
+import type { Batch, BatchIngredientLot, Ingredient, IngredientLot, Supplier } from "@shared/schema";
+
+interface TracedStock {
+  freezerStockId: string;
+  productId: string;
+  productName: string;
+  quantity: number;
+  status: string;
+  batchId: string | null;
+  frozenAt: string | null;
+}
+
+interface TracedBatch {
+  batch: Batch;
+  source: "freezer" | "planned";
+  lots: (BatchIngredientLot & { ingredient: Ingredient; lot: IngredientLot | null; supplier: Supplier | null })[];
+}
+
+interface OrderTraceData {
+  orderId: string;
+  stock: TracedStock[];
+  batches: TracedBatch[];
+}
+
+// Freezer stock an order drew, the batches behind it and the ingredient lots they used
+export function OrderTrace({ orderId }: { orderId: string }) {
+  const { data: trace, isLoading } = useQuery<OrderTraceData>({
+    queryKey: ["/api/admin/orders", orderId, "trace"],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  if (!trace || (trace.stock.length === 0 && trace.batches.length === 0)) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <Snowflake className="h-10 w-10 mx-auto mb-2 opacity-50" />
+        <p>Nothing has been taken from the freezer or baked for this order yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4" data-testid="order-trace">
+      {trace.stock.length > 0 && (
+        <div>
+          <h4 className="font-medium flex items-center gap-2 mb-2">
+            <Snowflake className="h-4 w-4" />
+            Freezer Stock
+          </h4>
+          <div className="space-y-1 text-sm">
+            {trace.stock.map((row, i) => (
+              <div key={`${row.freezerStockId}-${i}`} className="flex items-center justify-between">
+                <span>
+                  {row.quantity}x {row.productName}
+                  {row.frozenAt && (
+                    <span className="text-muted-foreground"> - frozen {format(new Date(row.frozenAt), "MMM d")}</span>
+                  )}
+                </span>
+                <Badge variant="outline">{row.status === "held" ? "Held" : "Taken"}</Badge>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {trace.batches.map(({ batch, source, lots }) => (
+        <div key={batch.id} className="rounded-lg border border-border p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <h4 className="font-medium flex items-center gap-2">
+              <ChefHat className="h-4 w-4" />
+              Batch {format(new Date(batch.batchDate), "MMM d")} ({batch.shift})
+            </h4>
+            <div className="flex gap-1">
+              <Badge variant="secondary">{source === "freezer" ? "Stock came from" : "Baked for order"}</Badge>
+              <Badge variant="outline">{batch.status.replace("_", " ")}</Badge>
+            </div>
+          </div>
+          {lots.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {batch.status === "completed" ? "No ingredient lots recorded" : "Lots are recorded when the batch is completed"}
+            </p>
+          ) : (
+            <div className="space-y-1 text-sm">
+              {lots.map((usage) => (
+                <div key={usage.id} className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2">
+                    <Wheat className="h-3 w-3 text-muted-foreground" />
+                    {usage.ingredient.name}
+                    <span className="text-muted-foreground">
+                      {usage.lot
+                        ? `lot ${usage.lot.lotCode || "uncoded"}${usage.supplier ? ` from ${usage.supplier.name}` : ""}, received ${format(new Date(usage.lot.receivedAt), "MMM d")}`
+                        : "untracked stock"}
+                    </span>
+                  </span>
+                  <span className="whitespace-nowrap">
+                    {parseFloat(usage.quantity).toFixed(2)} {usage.ingredient.unit}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
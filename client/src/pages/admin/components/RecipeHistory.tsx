@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, Plus, Minus, ArrowRight } from "lucide-react";
+import type { RecipeVersion, BillOfMaterial, Ingredient } from "@shared/schema";
+
+type RecipeLine = BillOfMaterial & { ingredient: Ingredient };
+type RecipeVersionDetail = RecipeVersion & { lines: RecipeLine[] };
+
+interface LineChange {
+  key: string;
+  name: string;
+  unit: string;
+  before: number | null;
+  after: number | null;
+}
+
+function lineUnit(line: RecipeLine): string {
+  return line.unit || line.ingredient.unit;
+}
+
+// Lines match on ingredient and unit; anything only on one side was added or removed
+function diffLines(from: RecipeVersionDetail, to: RecipeVersionDetail): LineChange[] {
+  const changes = new Map<string, LineChange>();
+  for (const line of from.lines) {
+    const key = `${line.ingredientId}:${lineUnit(line)}`;
+    changes.set(key, { key, name: line.ingredient.name, unit: lineUnit(line), before: parseFloat(line.quantity), after: null });
+  }
+  for (const line of to.lines) {
+    const key = `${line.ingredientId}:${lineUnit(line)}`;
+    const existing = changes.get(key);
+    if (existing) {
+      existing.after = parseFloat(line.quantity);
+    } else {
+      changes.set(key, { key, name: line.ingredient.name, unit: lineUnit(line), before: null, after: parseFloat(line.quantity) });
+    }
+  }
+  return Array.from(changes.values())
+    .filter((change) => change.before !== change.after)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// The version batches are being pinned to right now
+function currentVersionId(versions: RecipeVersionDetail[]): string | undefined {
+  const now = Date.now();
+  return versions.find((version) => new Date(version.effectiveFrom).getTime() <= now)?.id;
+}
+
+export function RecipeHistory({ productId }: { productId: string }) {
+  const { data: versions, isLoading } = useQuery<RecipeVersionDetail[]>({
+    queryKey: ["/api/admin/products", productId, "recipes"],
+  });
+  const [fromId, setFromId] = useState<string>();
+  const [toId, setToId] = useState<string>();
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  if (!versions || versions.length === 0) {
+    return (
+      <div className="text-center py-6 text-muted-foreground">
+        <History className="h-8 w-8 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">No saved versions of this recipe yet</p>
+      </div>
+    );
+  }
+
+  // Newest first, so by default compare the latest against the one before it
+  const to = versions.find((version) => version.id === toId) || versions[0];
+  const from = versions.find((version) => version.id === fromId) || versions[1] || versions[0];
+  const changes = diffLines(from, to);
+  const activeId = currentVersionId(versions);
+
+  return (
+    <div className="space-y-4" data-testid={`recipe-history-${productId}`}>
+      <div className="space-y-2">
+        {versions.map((version) => (
+          <div key={version.id} className="rounded-lg border border-border p-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">v{version.version}</span>
+              {version.id === activeId ? (
+                <Badge variant="secondary">In use</Badge>
+              ) : new Date(version.effectiveFrom).getTime() > Date.now() ? (
+                <Badge variant="outline">From {format(new Date(version.effectiveFrom), "MMM d")}</Badge>
+              ) : null}
+            </div>
+            <p className="text-muted-foreground">
+              {format(new Date(version.effectiveFrom), "MMM d, yyyy")} - yields {version.yieldQuantity}, {parseFloat(version.wastePercent)}% waste
+              {version.createdBy && ` - ${version.createdBy}`}
+            </p>
+            {version.notes && <p className="mt-1">{version.notes}</p>}
+          </div>
+        ))}
+      </div>
+
+      {versions.length > 1 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Select value={from.id} onValueChange={setFromId}>
+              <SelectTrigger data-testid="select-recipe-from">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={version.id}>v{version.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <Select value={to.id} onValueChange={setToId}>
+              <SelectTrigger data-testid="select-recipe-to">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={version.id}>v{version.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1 text-sm">
+            {from.yieldQuantity !== to.yieldQuantity && (
+              <p>Yield: {from.yieldQuantity} <ArrowRight className="inline h-3 w-3" /> {to.yieldQuantity}</p>
+            )}
+            {parseFloat(from.wastePercent) !== parseFloat(to.wastePercent) && (
+              <p>
+                Waste: {parseFloat(from.wastePercent)}% <ArrowRight className="inline h-3 w-3" /> {parseFloat(to.wastePercent)}%
+              </p>
+            )}
+            {changes.map((change) => (
+              <div key={change.key} className="flex items-center gap-2" data-testid={`recipe-change-${change.key}`}>
+                {change.before === null ? (
+                  <Plus className="h-3 w-3 text-green-600" />
+                ) : change.after === null ? (
+                  <Minus className="h-3 w-3 text-destructive" />
+                ) : (
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                )}
+                <span className="flex-1">{change.name}</span>
+                <span className="text-muted-foreground">
+                  {change.before !== null && `${change.before} ${change.unit}`}
+                  {change.before !== null && change.after !== null && " → "}
+                  {change.after !== null && `${change.after} ${change.unit}`}
+                </span>
+              </div>
+            ))}
+            {changes.length === 0 && from.yieldQuantity === to.yieldQuantity &&
+              parseFloat(from.wastePercent) === parseFloat(to.wastePercent) && (
+              <p className="text-muted-foreground">No differences</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,3 +5,8 @@ export { PendingOrdersPanel } from './PendingOrdersPanel';
 export { LowStockAlerts } from './LowStockAlerts';
 export { FreezerStockPanel } from './FreezerStockPanel';
 export { ActivityLogPanel } from './ActivityLogPanel';
+export { DeliveryZonesPanel } from './DeliveryZonesPanel';
+export { BakePlanner } from './BakePlanner';
+export { OrderTrace } from './OrderTrace';
+export { RecipeHistory } from './RecipeHistory';
+export { OrderNotifications } from './OrderNotifications';
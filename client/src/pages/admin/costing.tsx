@@ -0,0 +1,469 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Calculator, Pencil, ChefHat, ShoppingCart } from "lucide-react";
+
+type Period = "day" | "week" | "month";
+
+interface ProductCost {
+  productId: string;
+  name: string;
+  isActive: boolean;
+  price: number;
+  recipeVersion: number | null;
+  ingredientCost: number;
+  laborCost: number;
+  packagingCost: number;
+  unitCost: number;
+  margin: number;
+  marginPercent: number | null;
+  lines: { ingredientId: string; name: string; unit: string; quantity: number; cost: number }[];
+}
+
+interface BatchCost {
+  batchId: string;
+  batchDate: string;
+  shift: string | null;
+  bagels: number;
+  ingredientCost: number;
+  overheadCost: number;
+  cogs: number;
+  costPerBagel: number;
+  estimated: boolean;
+  products: { productId: string; name: string; quantity: number; unitCost: number }[];
+}
+
+interface OrderMargin {
+  orderId: string;
+  customerName: string;
+  fulfillmentDate: string;
+  status: string;
+  revenue: number;
+  cogs: number;
+  margin: number;
+  marginPercent: number | null;
+}
+
+interface MarginSummary {
+  orders: number;
+  revenue: number;
+  cogs: number;
+  margin: number;
+  marginPercent: number | null;
+}
+
+interface CostingReport {
+  from: string;
+  to: string;
+  groupBy: Period;
+  batches: BatchCost[];
+  orders: OrderMargin[];
+  periods: (MarginSummary & { period: string })[];
+  totals: MarginSummary;
+}
+
+const periodChartConfig = {
+  revenue: { label: "Revenue", color: "hsl(var(--chart-1))" },
+  cogs: { label: "COGS", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const productChartConfig = {
+  ingredients: { label: "Ingredients", color: "hsl(var(--chart-1))" },
+  labor: { label: "Labor", color: "hsl(var(--chart-2))" },
+  packaging: { label: "Packaging", color: "hsl(var(--chart-3))" },
+  margin: { label: "Margin", color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig;
+
+function money(value: number) {
+  return `$${value.toFixed(2)}`;
+}
+
+function percent(value: number | null) {
+  return value === null ? "-" : `${value.toFixed(1)}%`;
+}
+
+function periodLabel(period: string, groupBy: Period) {
+  const date = new Date(`${period}T00:00:00`);
+  if (groupBy === "month") return format(date, "MMM yyyy");
+  if (groupBy === "week") return `Wk of ${format(date, "MMM d")}`;
+  return format(date, "MMM d");
+}
+
+function OverheadDialog({ product, onClose }: { product: ProductCost; onClose: () => void }) {
+  const { toast } = useToast();
+  const [laborCost, setLaborCost] = useState(product.laborCost.toString());
+  const [packagingCost, setPackagingCost] = useState(product.packagingCost.toString());
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PATCH", `/api/admin/products/${product.productId}`, {
+        laborCost: (parseFloat(laborCost) || 0).toString(),
+        packagingCost: (parseFloat(packagingCost) || 0).toString(),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/costing"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+      toast({ title: "Overhead Saved", description: `${product.name} costs have been updated` });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-serif">{product.name} Overhead</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="labor-cost">Labor per bagel ($)</Label>
+            <Input
+              id="labor-cost"
+              type="number"
+              step="0.01"
+              min="0"
+              value={laborCost}
+              onChange={(e) => setLaborCost(e.target.value)}
+              data-testid="input-labor-cost"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="packaging-cost">Packaging per bagel ($)</Label>
+            <Input
+              id="packaging-cost"
+              type="number"
+              step="0.01"
+              min="0"
+              value={packagingCost}
+              onChange={(e) => setPackagingCost(e.target.value)}
+              data-testid="input-packaging-cost"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-overhead">
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AdminCosting() {
+  const { can } = useAuth();
+  const canEditOverhead = can("catalog:manage");
+  const [from, setFrom] = useState(format(subDays(new Date(), 29), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [groupBy, setGroupBy] = useState<Period>("week");
+  const [editing, setEditing] = useState<ProductCost | null>(null);
+
+  const { data: productCosts, isLoading: productsLoading } = useQuery<ProductCost[]>({
+    queryKey: ["/api/admin/costing/products"],
+  });
+
+  const params = new URLSearchParams({ from, to, groupBy }).toString();
+  const { data: report, isLoading: reportLoading } = useQuery<CostingReport>({
+    queryKey: ["/api/admin/costing", params],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/admin/costing?${params}`);
+      return response.json();
+    },
+    enabled: !!from && !!to && from <= to,
+  });
+
+  const periodData = report?.periods.map((period) => ({
+    label: periodLabel(period.period, report.groupBy),
+    revenue: Number(period.revenue.toFixed(2)),
+    cogs: Number(period.cogs.toFixed(2)),
+  })) || [];
+
+  const productData = productCosts?.filter((product) => product.isActive).map((product) => ({
+    name: product.name,
+    ingredients: Number(product.ingredientCost.toFixed(2)),
+    labor: Number(product.laborCost.toFixed(2)),
+    packaging: Number(product.packagingCost.toFixed(2)),
+    margin: Number(Math.max(0, product.margin).toFixed(2)),
+  })) || [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-serif text-3xl font-bold">Costing</h1>
+        <p className="text-muted-foreground mt-1">
+          What each bagel costs to make, and the margin left on batches and orders
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="costing-from">From</Label>
+              <Input id="costing-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-44" data-testid="input-costing-from" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="costing-to">To</Label>
+              <Input id="costing-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-44" data-testid="input-costing-to" />
+            </div>
+            <Select value={groupBy} onValueChange={(value) => setGroupBy(value as Period)}>
+              <SelectTrigger className="w-36" data-testid="select-costing-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">By day</SelectItem>
+                <SelectItem value="week">By week</SelectItem>
+                <SelectItem value="month">By month</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        {[
+          { label: "Revenue", value: report ? money(report.totals.revenue) : "-" },
+          { label: "COGS", value: report ? money(report.totals.cogs) : "-" },
+          { label: "Gross Margin", value: report ? money(report.totals.margin) : "-" },
+          { label: "Margin %", value: report ? percent(report.totals.marginPercent) : "-" },
+        ].map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{stat.label}</p>
+              {reportLoading ? (
+                <Skeleton className="h-8 w-24 mt-1" />
+              ) : (
+                <p className="text-2xl font-bold" data-testid={`stat-${stat.label.toLowerCase().replace(/\W+/g, "-")}`}>{stat.value}</p>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-serif">Revenue and COGS</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {reportLoading ? (
+              <Skeleton className="h-64 w-full" />
+            ) : (
+              <ChartContainer config={periodChartConfig} className="h-64 w-full">
+                <BarChart data={periodData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={48} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+                  <Bar dataKey="cogs" fill="var(--color-cogs)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-serif">Cost per Bagel</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {productsLoading ? (
+              <Skeleton className="h-64 w-full" />
+            ) : (
+              <ChartContainer config={productChartConfig} className="h-64 w-full">
+                <BarChart data={productData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={48} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="ingredients" stackId="price" fill="var(--color-ingredients)" />
+                  <Bar dataKey="labor" stackId="price" fill="var(--color-labor)" />
+                  <Bar dataKey="packaging" stackId="price" fill="var(--color-packaging)" />
+                  <Bar dataKey="margin" stackId="price" fill="var(--color-margin)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-serif flex items-center gap-2">
+            <Calculator className="h-5 w-5" />
+            Products
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {productsLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Ingredients</TableHead>
+                  <TableHead className="text-right">Labor</TableHead>
+                  <TableHead className="text-right">Packaging</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Margin</TableHead>
+                  {canEditOverhead && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {productCosts?.map((product) => (
+                  <TableRow key={product.productId} data-testid={`costing-product-${product.productId}`}>
+                    <TableCell>
+                      <div className="font-medium">{product.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {product.recipeVersion ? `Recipe v${product.recipeVersion}` : product.lines.length > 0 ? "Unversioned recipe" : "No recipe"}
+                        {!product.isActive && " - inactive"}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{money(product.price)}</TableCell>
+                    <TableCell className="text-right">{money(product.ingredientCost)}</TableCell>
+                    <TableCell className="text-right">{money(product.laborCost)}</TableCell>
+                    <TableCell className="text-right">{money(product.packagingCost)}</TableCell>
+                    <TableCell className="text-right font-medium">{money(product.unitCost)}</TableCell>
+                    <TableCell className="text-right">
+                      <span className={product.margin < 0 ? "text-destructive" : ""}>
+                        {money(product.margin)} ({percent(product.marginPercent)})
+                      </span>
+                    </TableCell>
+                    {canEditOverhead && (
+                      <TableCell className="text-right">
+                        <Button size="icon" variant="ghost" onClick={() => setEditing(product)} data-testid={`button-edit-overhead-${product.productId}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-serif flex items-center gap-2">
+              <ChefHat className="h-5 w-5" />
+              Batch COGS
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {reportLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : !report?.batches.length ? (
+              <p className="text-center py-6 text-muted-foreground">No batches were completed in this range.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Batch</TableHead>
+                    <TableHead className="text-right">Bagels</TableHead>
+                    <TableHead className="text-right">COGS</TableHead>
+                    <TableHead className="text-right">Per Bagel</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.batches.map((batch) => (
+                    <TableRow key={batch.batchId}>
+                      <TableCell>
+                        {format(new Date(batch.batchDate), "MMM d")} {batch.shift && `(${batch.shift})`}
+                        {batch.estimated && <Badge variant="outline" className="ml-2">Estimated</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">{batch.bagels}</TableCell>
+                      <TableCell className="text-right">{money(batch.cogs)}</TableCell>
+                      <TableCell className="text-right">{money(batch.costPerBagel)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-serif flex items-center gap-2">
+              <ShoppingCart className="h-5 w-5" />
+              Order Margins
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {reportLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : !report?.orders.length ? (
+              <p className="text-center py-6 text-muted-foreground">No orders were fulfilled in this range.</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Order</TableHead>
+                      <TableHead className="text-right">Revenue</TableHead>
+                      <TableHead className="text-right">COGS</TableHead>
+                      <TableHead className="text-right">Margin</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.orders.map((order) => (
+                      <TableRow key={order.orderId}>
+                        <TableCell>
+                          <div className="font-medium">{order.customerName}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {format(new Date(order.fulfillmentDate), "MMM d")} - #{order.orderId.slice(0, 8)}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{money(order.revenue)}</TableCell>
+                        <TableCell className="text-right">{money(order.cogs)}</TableCell>
+                        <TableCell className="text-right">
+                          <span className={order.margin < 0 ? "text-destructive" : ""}>{percent(order.marginPercent)}</span>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {editing && <OverheadDialog product={editing} onClose={() => setEditing(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Contact, Link2, MapPin, MessageSquare, Search } from "lucide-react";
+import type { Customer, CustomerAddress } from "@shared/schema";
+
+type CustomerSummary = Customer & { orderCount: number; lifetimeValue: number; lastOrderAt: string | null };
+
+type CustomerDetail = CustomerSummary & {
+  addresses: CustomerAddress[];
+  orders: { id: string; orderNumber: string; status: string; total: string; createdAt: string; fulfillmentDate: string; bagels: number }[];
+};
+
+const statusColors: Record<string, string> = {
+  new: "bg-blue-500/10 text-blue-600 border-blue-500/20",
+  approved: "bg-green-500/10 text-green-600 border-green-500/20",
+  baking: "bg-orange-500/10 text-orange-600 border-orange-500/20",
+  ready: "bg-primary/10 text-gold border-primary/20",
+  completed: "bg-muted text-muted-foreground border-border",
+  cancelled: "bg-destructive/10 text-destructive border-destructive/20",
+};
+
+function money(amount: number | string) {
+  return `$${(typeof amount === "number" ? amount : parseFloat(amount)).toFixed(2)}`;
+}
+
+function CustomerDetailDialog({ customerId, onClose }: { customerId: string | null; onClose: () => void }) {
+  const { data: customer, isLoading } = useQuery<CustomerDetail>({
+    queryKey: ["/api/admin/customers", customerId],
+    enabled: !!customerId,
+  });
+
+  return (
+    <Dialog open={!!customerId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif">{customer?.name || "Customer"}</DialogTitle>
+        </DialogHeader>
+        {isLoading || !customer ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <div className="space-y-6">
+            <div className="text-sm text-muted-foreground">
+              <p>{customer.email}</p>
+              {customer.phone && (
+                <p className="flex items-center gap-2">
+                  {customer.phone}
+                  {customer.smsOptIn && (
+                    <Badge variant="outline" className="text-xs">
+                      <MessageSquare className="h-3 w-3 mr-1" />
+                      Texts on
+                    </Badge>
+                  )}
+                </p>
+              )}
+              {customer.createdAt && <p>Customer since {format(new Date(customer.createdAt), "MMM d, yyyy")}</p>}
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="rounded-lg bg-muted/50 p-3">
+                <p className="text-xs text-muted-foreground">Lifetime Value</p>
+                <p className="text-xl font-semibold text-gold" data-testid="text-customer-ltv">{money(customer.lifetimeValue)}</p>
+              </div>
+              <div className="rounded-lg bg-muted/50 p-3">
+                <p className="text-xs text-muted-foreground">Orders</p>
+                <p className="text-xl font-semibold" data-testid="text-customer-order-count">{customer.orderCount}</p>
+              </div>
+              <div className="rounded-lg bg-muted/50 p-3">
+                <p className="text-xs text-muted-foreground">Average Order</p>
+                <p className="text-xl font-semibold">
+                  {customer.orderCount ? money(customer.lifetimeValue / customer.orderCount) : "-"}
+                </p>
+              </div>
+            </div>
+
+            {customer.addresses.length > 0 && (
+              <div>
+                <h3 className="font-semibold mb-2 flex items-center gap-2">
+                  <MapPin className="h-4 w-4" />
+                  Addresses
+                </h3>
+                <div className="space-y-1 text-sm">
+                  {customer.addresses.map((address) => (
+                    <p key={address.id}>
+                      {address.label && <span className="font-medium">{address.label}: </span>}
+                      {address.deliveryAddress}, {address.deliveryCity}, {address.deliveryState} {address.deliveryZip}
+                      {address.isDefault && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h3 className="font-semibold mb-2">Orders</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Delivery</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Bagels</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {customer.orders.map((order) => (
+                    <TableRow key={order.id} data-testid={`row-customer-order-${order.id}`}>
+                      <TableCell className="font-mono">{order.orderNumber}</TableCell>
+                      <TableCell>{format(new Date(order.fulfillmentDate), "MMM d, yyyy")}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={statusColors[order.status]}>{order.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{order.bagels}</TableCell>
+                      <TableCell className="text-right">{money(order.total)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AdminCustomers() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [search, setSearch] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: customers, isLoading } = useQuery<CustomerSummary[]>({
+    queryKey: ["/api/admin/customers"],
+  });
+
+  // For orders placed before customer accounts existed
+  const linkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/customers/link-orders", {});
+      return response.json() as Promise<{ linked: string[]; customers: string[] }>;
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/customers"] });
+      toast({
+        title: "Orders Linked",
+        description: report.linked.length
+          ? `${report.linked.length} orders filed under ${report.customers.length} customers`
+          : "Every order already belongs to a customer",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const term = search.trim().toLowerCase();
+  const filtered = (customers || []).filter((customer) =>
+    !term
+    || customer.name.toLowerCase().includes(term)
+    || customer.email.includes(term)
+    || (customer.phone || "").includes(term)
+  );
+  const repeatCustomers = (customers || []).filter((customer) => customer.orderCount > 1).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="font-serif text-3xl font-bold">Customers</h1>
+          <p className="text-muted-foreground mt-1">
+            {customers ? `${customers.length} customers, ${repeatCustomers} of them regulars` : "Who orders from us"}
+          </p>
+        </div>
+        {can("orders:manage") && (
+          <Button variant="outline" onClick={() => linkMutation.mutate()} disabled={linkMutation.isPending} data-testid="button-link-orders">
+            <Link2 className="h-4 w-4 mr-2" />
+            Link Past Orders
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between gap-4">
+            <span className="flex items-center gap-2">
+              <Contact className="h-5 w-5" />
+              All Customers
+            </span>
+            <div className="relative w-64">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Name, email or phone"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-8"
+                data-testid="input-customer-search"
+              />
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-48 w-full" />
+          ) : filtered.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No customers found</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead className="text-right">Orders</TableHead>
+                  <TableHead className="text-right">Lifetime Value</TableHead>
+                  <TableHead>Last Order</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((customer) => (
+                  <TableRow
+                    key={customer.id}
+                    className="cursor-pointer"
+                    onClick={() => setSelectedId(customer.id)}
+                    data-testid={`row-customer-${customer.id}`}
+                  >
+                    <TableCell className="font-medium">{customer.name}</TableCell>
+                    <TableCell className="text-muted-foreground">{customer.email}</TableCell>
+                    <TableCell className="text-right">{customer.orderCount}</TableCell>
+                    <TableCell className="text-right">{money(customer.lifetimeValue)}</TableCell>
+                    <TableCell>{customer.lastOrderAt ? format(new Date(customer.lastOrderAt), "MMM d, yyyy") : "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <CustomerDetailDialog customerId={selectedId} onClose={() => setSelectedId(null)} />
+    </div>
+  );
+}
@@ -216,12 +216,22 @@ export default function AdminFreezer() {
                       {stock.notes || "—"}
                     </TableCell>
                     <TableCell className="text-right">
-                      <Badge
-                        variant={stock.quantity > 0 ? "default" : "secondary"}
-                        data-testid={`badge-status-${stock.id}`}
-                      >
-                        {stock.quantity > 0 ? "In Stock" : "Empty"}
-                      </Badge>
+                      {stock.quarantinedAt ? (
+                        <Badge
+                          variant="destructive"
+                          title={stock.quarantineReason || undefined}
+                          data-testid={`badge-status-${stock.id}`}
+                        >
+                          Quarantined
+                        </Badge>
+                      ) : (
+                        <Badge
+                          variant={stock.quantity > 0 ? "default" : "secondary"}
+                          data-testid={`badge-status-${stock.id}`}
+                        >
+                          {stock.quantity > 0 ? "In Stock" : "Empty"}
+                        </Badge>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
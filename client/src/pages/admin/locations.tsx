@@ -16,10 +16,11 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { MapPin, Plus, Pencil, Store, Truck, Building, Home } from "lucide-react";
 import { useTheme } from "@/lib/theme-provider";
-import type { Location } from "@shared/schema";
+import type { Location, DeliveryZone } from "@shared/schema";
+import { DeliveryZonesPanel } from "./components";
 
 import "leaflet/dist/leaflet.css";
-import { MapContainer, TileLayer, Marker, Popup, useMap } from "react-leaflet";
+import { MapContainer, TileLayer, Marker, Popup, Circle, Polygon, useMap } from "react-leaflet";
 import L from "leaflet";
 
 const createGoldMarkerIcon = () => {
@@ -61,6 +62,9 @@ const DARK_TILE_URL = "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}
 const LIGHT_TILE_URL = "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png";
 const TILE_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OSM</a> &copy; <a href="https://carto.com/attributions">CARTO</a>';
 
+const METERS_PER_MILE = 1609.34;
+const ZONE_STYLE = { color: "#d4a017", weight: 2, fillOpacity: 0.1 };
+
 const NYC_CENTER: [number, number] = [40.7128, -74.0060];
 const DEFAULT_ZOOM = 11;
 
@@ -117,6 +121,10 @@ export default function AdminLocations() {
     queryKey: ["/api/admin/locations"],
   });
 
+  const { data: zones, isLoading: zonesLoading } = useQuery<DeliveryZone[]>({
+    queryKey: ["/api/admin/delivery-zones"],
+  });
+
   const form = useForm<LocationFormData>({
     resolver: zodResolver(locationFormSchema),
     defaultValues: {
@@ -189,6 +197,8 @@ export default function AdminLocations() {
     (loc) => loc.latitude != null && loc.longitude != null
   ) || [];
 
+  const activeZones = zones?.filter((zone) => zone.isActive) || [];
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
@@ -223,6 +233,21 @@ export default function AdminLocations() {
                 url={isDarkMode ? DARK_TILE_URL : LIGHT_TILE_URL}
               />
               <MapController center={mapCenter} zoom={14} />
+              {activeZones.map((zone) => {
+                if (zone.type === "polygon" && zone.polygon) {
+                  return <Polygon key={zone.id} positions={zone.polygon} pathOptions={ZONE_STYLE} />;
+                }
+                const location = locationsWithCoords.find((loc) => loc.id === zone.locationId);
+                if (!location || !zone.radiusMiles) return null;
+                return (
+                  <Circle
+                    key={zone.id}
+                    center={[location.latitude!, location.longitude!]}
+                    radius={parseFloat(zone.radiusMiles) * METERS_PER_MILE}
+                    pathOptions={ZONE_STYLE}
+                  />
+                );
+              })}
               {locationsWithCoords.map((location) => (
                 <Marker
                   key={location.id}
@@ -337,6 +362,8 @@ export default function AdminLocations() {
         </CardContent>
       </Card>
 
+      <DeliveryZonesPanel zones={zones} locations={locations || []} isLoading={zonesLoading} />
+
       <Dialog open={isDialogOpen} onOpenChange={closeDialog}>
         <DialogContent>
           <DialogHeader>
@@ -0,0 +1,202 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { MessageSquare, RotateCcw, Save } from "lucide-react";
+import type { SmsTemplate } from "@shared/schema";
+
+interface TemplateRow {
+  template: SmsTemplate;
+  body: string;
+  defaultBody: string;
+  customized: boolean;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+interface TemplatesResponse {
+  placeholders: Record<string, string>;
+  templates: TemplateRow[];
+}
+
+const templateInfo: Record<SmsTemplate, { title: string; when: string }> = {
+  out_for_delivery: { title: "Out for Delivery", when: "Sent when an order is marked ready" },
+  delivery_eta: { title: "Arrival Time", when: "Sent by the driver from the order's Messages tab" },
+  pickup_ready: { title: "Ready for Pickup", when: "Sent from the order's Messages tab" },
+};
+
+// What the preview fills the placeholders with
+const SAMPLE_VALUES: Record<string, string> = {
+  name: "Sam",
+  order: "DH-1042",
+  when: "Saturday, October 24, 8am-12pm",
+  address: "123 Main Street",
+  eta: "9:40 AM",
+  location: "The Basement, 12 Elm St",
+};
+
+const QUERY_KEY = ["/api/admin/sms-templates"];
+
+function fill(body: string) {
+  return body.replace(/\{(\w+)\}/g, (match, key: string) => SAMPLE_VALUES[key] ?? match);
+}
+
+// A text over 160 characters goes out (and is billed) as several messages of 153
+function segments(text: string) {
+  return text.length <= 160 ? 1 : Math.ceil(text.length / 153);
+}
+
+function TemplateEditor({ row, canEdit }: { row: TemplateRow; canEdit: boolean }) {
+  const { toast } = useToast();
+  const [body, setBody] = useState(row.body);
+  useEffect(() => setBody(row.body), [row.body]);
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/admin/sms-templates/${row.template}`, { body });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+      toast({ title: "Template Saved" });
+    },
+    onError,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/admin/sms-templates/${row.template}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+      toast({ title: "Template Reset", description: "Back to the built-in wording" });
+    },
+    onError,
+  });
+
+  const preview = fill(body);
+  const unknown = Array.from(body.matchAll(/\{(\w+)\}/g))
+    .map((match) => match[1])
+    .filter((key) => !(key in SAMPLE_VALUES));
+
+  return (
+    <Card data-testid={`card-sms-template-${row.template}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            {templateInfo[row.template].title}
+          </span>
+          {row.customized ? <Badge variant="secondary">Edited</Badge> : <Badge variant="outline">Default</Badge>}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">{templateInfo[row.template].when}</p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={3}
+          disabled={!canEdit}
+          data-testid={`textarea-sms-template-${row.template}`}
+        />
+        <div className="rounded-lg bg-muted/50 p-3 text-sm">
+          <p>{preview}</p>
+          <p className="text-xs text-muted-foreground mt-2">
+            About {preview.length} characters, {segments(preview)} message{segments(preview) === 1 ? "" : "s"}
+          </p>
+        </div>
+        {unknown.length > 0 && (
+          <p className="text-sm text-destructive">
+            Unknown placeholder{unknown.length === 1 ? "" : "s"}: {unknown.map((key) => `{${key}}`).join(", ")}
+          </p>
+        )}
+        {row.customized && row.updatedAt && (
+          <p className="text-xs text-muted-foreground">
+            Edited {format(new Date(row.updatedAt), "MMM d, yyyy")}{row.updatedBy && ` by ${row.updatedBy}`}
+          </p>
+        )}
+        {canEdit && (
+          <div className="flex justify-end gap-2">
+            {row.customized && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => resetMutation.mutate()}
+                disabled={resetMutation.isPending}
+                data-testid={`button-reset-sms-template-${row.template}`}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset
+              </Button>
+            )}
+            <Button
+              size="sm"
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || body.trim() === row.body || !body.trim()}
+              data-testid={`button-save-sms-template-${row.template}`}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminMessages() {
+  const { can } = useAuth();
+  const { data, isLoading } = useQuery<TemplatesResponse>({ queryKey: QUERY_KEY });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-serif text-3xl font-bold">Text Messages</h1>
+        <p className="text-muted-foreground mt-1">
+          What customers who asked for delivery-day texts are sent. Customers opt in at checkout and can reply STOP at any time.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-48 w-full" />
+          ))}
+        </div>
+      ) : data && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Placeholders</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid sm:grid-cols-2 gap-2 text-sm">
+                {Object.entries(data.placeholders).map(([key, description]) => (
+                  <div key={key} className="flex gap-2">
+                    <code className="text-gold">{`{${key}}`}</code>
+                    <span className="text-muted-foreground">{description}</span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {data.templates.map((row) => (
+            <TemplateEditor key={row.template} row={row} canEdit={can("catalog:manage")} />
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
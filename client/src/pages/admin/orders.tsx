@@ -34,13 +34,21 @@ import {
   Loader2,
   XCircle,
   Plus,
-  Trash2
+  Trash2,
+  History,
+  Undo2,
+  AlertTriangle,
+  Link2,
+  Repeat,
 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { cn } from "@/lib/utils";
-import type { Order, Product, Location } from "@shared/schema";
+import { cn, formatTaxRate } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import { RefundDialog } from "@/components/refund-dialog";
+import { OrderTrace, OrderNotifications } from "./components";
+import { canTransitionOrder, authorizationDeadline, formatOrderNumber, HOLD_EXPIRY_WARNING_HOURS, type Order, type OrderStatusHistory, type Product, type Location } from "@shared/schema";
 
 const statusConfig: Record<string, { color: string; icon: any; label: string }> = {
   new: { color: "bg-blue-500/10 text-blue-600 border-blue-500/20", icon: Clock, label: "New" },
@@ -51,6 +59,15 @@ const statusConfig: Record<string, { color: string; icon: any; label: string }>
   cancelled: { color: "bg-destructive/10 text-destructive border-destructive/20", icon: X, label: "Cancelled" },
 };
 
+// Pre-orders still waiting on the card hold that will lapse soon, or already has
+function holdWarning(order: Order): "expiring" | "expired" | null {
+  if (order.status !== "new" && order.status !== "approved") return null;
+  if (order.stripePaymentStatus === "expired") return "expired";
+  if (order.stripePaymentStatus !== "authorized") return null;
+  const deadline = authorizationDeadline(order);
+  return deadline && deadline.getTime() - Date.now() < HOLD_EXPIRY_WARNING_HOURS * 60 * 60 * 1000 ? "expiring" : null;
+}
+
 type WorkflowTab = "incoming" | "in-progress" | "completed" | "cancelled";
 
 const workflowTabConfig: Record<WorkflowTab, { label: string; icon: any; statuses: string[] }> = {
@@ -90,6 +107,7 @@ interface NewOrderItem {
 
 export default function AdminOrders() {
   const { toast } = useToast();
+  const { can } = useAuth();
   const [activeTab, setActiveTab] = useState<WorkflowTab>("incoming");
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
@@ -108,6 +126,9 @@ export default function AdminOrders() {
   const printRef = useRef<HTMLDivElement>(null);
   
   const [showNewOrderDialog, setShowNewOrderDialog] = useState(false);
+  const [cancelTarget, setCancelTarget] = useState<Order | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+  const [showRefundDialog, setShowRefundDialog] = useState(false);
   const [newOrderItems, setNewOrderItems] = useState<NewOrderItem[]>([{ productId: "", quantity: 1 }]);
   
   const newOrderForm = useForm<NewOrderFormData>({
@@ -134,6 +155,11 @@ export default function AdminOrders() {
 
   const orders = Array.isArray(ordersResponse) ? ordersResponse : (ordersResponse?.orders || []);
 
+  const { data: statusHistory, isLoading: historyLoading } = useQuery<OrderStatusHistory[]>({
+    queryKey: ["/api/admin/orders", selectedOrder?.id, "history"],
+    enabled: !!selectedOrder,
+  });
+
   const { data: products } = useQuery<Product[]>({
     queryKey: ["/api/admin/products"],
   });
@@ -142,6 +168,8 @@ export default function AdminOrders() {
     queryKey: ["/api/admin/locations"],
   });
 
+  const manualOrderKey = useRef(crypto.randomUUID());
+
   const createManualOrderMutation = useMutation({
     mutationFn: async (data: {
       customerName: string;
@@ -158,15 +186,17 @@ export default function AdminOrders() {
       notes?: string;
       items: { productId: string; quantity: number }[];
     }) => {
-      return await apiRequest("POST", "/api/admin/orders/manual", data);
+      return await apiRequest("POST", "/api/admin/orders/manual", data, { "Idempotency-Key": manualOrderKey.current });
     },
     onSuccess: () => {
+      manualOrderKey.current = crypto.randomUUID();
       queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] });
       toast({ title: "Order Created", description: "Manual order has been created successfully" });
       setShowNewOrderDialog(false);
       resetNewOrderForm();
     },
     onError: (error: Error) => {
+      manualOrderKey.current = crypto.randomUUID();
       toast({ title: "Error", description: error.message, variant: "destructive" });
     },
   });
@@ -243,13 +273,30 @@ export default function AdminOrders() {
   };
 
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ orderId, status }: { orderId: string; status: string }) => {
-      return await apiRequest("PATCH", `/api/admin/orders/${orderId}/status`, { status });
+    mutationFn: async ({ orderId, status, reason }: { orderId: string; status: string; reason?: string }) => {
+      return await apiRequest("PATCH", `/api/admin/orders/${orderId}/status`, { status, reason });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] });
       toast({ title: "Order Updated", description: "Order status has been updated" });
       setSelectedOrder(null);
+      setCancelTarget(null);
+      setCancelReason("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reauthorizeMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      const response = await apiRequest("POST", `/api/admin/orders/${orderId}/reauthorize`, {});
+      return response.json() as Promise<{ path: string; paymentIntentId: string }>;
+    },
+    onSuccess: async ({ path }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      await navigator.clipboard.writeText(`${window.location.origin}${path}`);
+      toast({ title: "Link Copied", description: "We've emailed the customer this link to authorize their card again" });
     },
     onError: (error: Error) => {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -314,7 +361,7 @@ export default function AdminOrders() {
         <body>
           <div class="header">
             <div class="brand">D'Havi Spelt Bagels</div>
-            <div class="order-id">Order #${selectedOrder.id.slice(0, 8)}</div>
+            <div class="order-id">Order ${formatOrderNumber(selectedOrder)}</div>
           </div>
           <div class="section">
             <div class="label">Customer</div>
@@ -335,7 +382,7 @@ export default function AdminOrders() {
             <div class="label">Items</div>
             ${(selectedOrder as any).items?.map((item: any) => `
               <div class="item">
-                <span>${item.quantity}x ${item.product?.name || "Product"}</span>
+                <span>${item.packName ? `${item.packs}x ${item.packName}` : `${item.quantity}x`} ${item.product?.name || "Product"}</span>
                 <span>$${parseFloat(item.total).toFixed(2)}</span>
               </div>
             `).join("") || ""}
@@ -432,7 +479,7 @@ export default function AdminOrders() {
               <h3>Invoice Details</h3>
               <p><strong>Invoice Date:</strong> ${invoiceDate}</p>
               <p><strong>Order Date:</strong> ${orderDate}</p>
-              <p><strong>Order ID:</strong> #${selectedOrder.id.slice(0, 8)}</p>
+              <p><strong>Order:</strong> ${formatOrderNumber(selectedOrder)}</p>
               <p><strong>Fulfillment:</strong> ${format(new Date(selectedOrder.fulfillmentDate), "MMM d, yyyy")}</p>
             </div>
           </div>
@@ -466,9 +513,15 @@ export default function AdminOrders() {
               <span>Subtotal</span>
               <span>$${parseFloat(selectedOrder.subtotal).toFixed(2)}</span>
             </div>
+            ${parseFloat(selectedOrder.deliveryFee) > 0 ? `
+            <div class="total-row">
+              <span>Delivery</span>
+              <span>$${parseFloat(selectedOrder.deliveryFee).toFixed(2)}</span>
+            </div>
+            ` : ""}
             <div class="total-row">
-              <span>Tax</span>
-              <span>$${(parseFloat(selectedOrder.total) - parseFloat(selectedOrder.subtotal)).toFixed(2)}</span>
+              <span>Tax${selectedOrder.taxRate && parseFloat(selectedOrder.taxRate) > 0 ? ` (${formatTaxRate(selectedOrder.taxRate)})` : ""}</span>
+              <span>$${parseFloat(selectedOrder.tax).toFixed(2)}</span>
             </div>
             <div class="total-row grand-total">
               <span>Total</span>
@@ -597,16 +650,29 @@ export default function AdminOrders() {
                           <div className="flex-1 min-w-0">
                             <div className="flex items-center gap-3 mb-1 flex-wrap">
                               <span className="font-semibold truncate">{order.customerName}</span>
+                              <span className="font-mono text-xs text-muted-foreground" data-testid={`text-order-number-${order.id}`}>{formatOrderNumber(order)}</span>
                               <Badge variant="outline" className={config.color}>
                                 <StatusIcon className="h-3 w-3 mr-1" />
                                 {config.label}
                               </Badge>
+                              {holdWarning(order) && (
+                                <Badge variant="outline" className="text-xs bg-orange-500/10 text-orange-600 border-orange-500/20" data-testid={`badge-hold-${order.id}`}>
+                                  <AlertTriangle className="h-3 w-3 mr-1" />
+                                  {holdWarning(order) === "expired" ? "Hold Expired" : "Hold Expiring"}
+                                </Badge>
+                              )}
                               {order.notes && (
                                 <Badge variant="secondary" className="text-xs">
                                   <FileText className="h-3 w-3 mr-1" />
                                   Has Notes
                                 </Badge>
                               )}
+                              {order.subscriptionId && (
+                                <Badge variant="secondary" className="text-xs" data-testid={`badge-subscription-${order.id}`}>
+                                  <Repeat className="h-3 w-3 mr-1" />
+                                  Subscription
+                                </Badge>
+                              )}
                             </div>
                             <p className="text-sm text-muted-foreground">
                               {order.customerEmail}
@@ -633,7 +699,7 @@ export default function AdminOrders() {
                               >
                                 <Eye className="h-4 w-4" />
                               </Button>
-                              {order.status === "new" && (
+                              {order.status === "new" && can("orders:manage") && (
                                 <>
                                   <Button
                                     size="icon"
@@ -672,7 +738,7 @@ export default function AdminOrders() {
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <div className="flex items-center justify-between">
-              <DialogTitle className="font-serif">Order Details</DialogTitle>
+              <DialogTitle className="font-serif">Order {selectedOrder && formatOrderNumber(selectedOrder)}</DialogTitle>
               <div className="flex gap-2">
                 <Button
                   variant="outline"
@@ -692,6 +758,17 @@ export default function AdminOrders() {
                   <Printer className="h-4 w-4 mr-2" />
                   Print Slip
                 </Button>
+                {selectedOrder && !editMode && can("orders:manage") && (selectedOrder.stripePaymentStatus === "captured" || selectedOrder.stripePaymentStatus === "partially_refunded") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowRefundDialog(true)}
+                    data-testid="button-refund"
+                  >
+                    <Undo2 className="h-4 w-4 mr-2" />
+                    Refund
+                  </Button>
+                )}
                 {selectedOrder && !editMode && selectedOrder.status !== "cancelled" && selectedOrder.status !== "completed" && (
                   <Button
                     variant="outline"
@@ -708,9 +785,12 @@ export default function AdminOrders() {
           </DialogHeader>
           {selectedOrder && (
             <Tabs defaultValue="details" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-5">
                 <TabsTrigger value="details">Details</TabsTrigger>
                 <TabsTrigger value="items">Items</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+                <TabsTrigger value="trace">Trace</TabsTrigger>
+                <TabsTrigger value="messages">Messages</TabsTrigger>
               </TabsList>
               
               <TabsContent value="details" className="space-y-4">
@@ -823,6 +903,33 @@ export default function AdminOrders() {
                         </Badge>
                       </div>
                     </div>
+                    {holdWarning(selectedOrder) && (
+                      <div className="bg-orange-500/10 border border-orange-500/20 rounded-lg p-4 space-y-2" data-testid="hold-warning">
+                        <p className="text-sm text-orange-600 font-medium flex items-center gap-2">
+                          <AlertTriangle className="h-4 w-4" />
+                          {holdWarning(selectedOrder) === "expired"
+                            ? "The card hold has expired"
+                            : `The card hold expires ${format(authorizationDeadline(selectedOrder)!, "EEE, MMM d 'at' h:mm a")}`}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {selectedOrder.reauthorizationRequestedAt
+                            ? `Customer was asked to re-authorize on ${format(new Date(selectedOrder.reauthorizationRequestedAt), "MMM d 'at' h:mm a")}.`
+                            : "The customer hasn't been asked to re-authorize yet."}
+                        </p>
+                        {can("orders:manage") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => reauthorizeMutation.mutate(selectedOrder.id)}
+                            disabled={reauthorizeMutation.isPending}
+                            data-testid="button-copy-reauthorization-link"
+                          >
+                            <Link2 className="h-4 w-4 mr-2" />
+                            Copy Re-authorization Link
+                          </Button>
+                        )}
+                      </div>
+                    )}
                     <div className="border-t pt-4">
                       <p className="text-sm text-muted-foreground mb-1">Delivery Address</p>
                       <p className="font-medium">{selectedOrder.deliveryAddress}</p>
@@ -871,7 +978,10 @@ export default function AdminOrders() {
                         )}
                         <div>
                           <p className="font-medium">{item.product?.name || "Product"}</p>
-                          <p className="text-sm text-muted-foreground">Qty: {item.quantity}</p>
+                          <p className="text-sm text-muted-foreground">
+                            Qty: {item.quantity}
+                            {item.packName && ` (${item.packs} x ${item.packName})`}
+                          </p>
                         </div>
                       </div>
                       <span className="font-medium">${parseFloat(item.total).toFixed(2)}</span>
@@ -883,16 +993,86 @@ export default function AdminOrders() {
                     <span>Subtotal</span>
                     <span>${parseFloat(selectedOrder.subtotal).toFixed(2)}</span>
                   </div>
+                  {parseFloat(selectedOrder.deliveryFee) > 0 && (
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Delivery</span>
+                      <span>${parseFloat(selectedOrder.deliveryFee).toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Tax{selectedOrder.taxRate && parseFloat(selectedOrder.taxRate) > 0 && ` (${formatTaxRate(selectedOrder.taxRate)})`}</span>
+                    <span>${parseFloat(selectedOrder.tax).toFixed(2)}</span>
+                  </div>
                   <div className="flex justify-between font-semibold text-lg">
                     <span>Total</span>
                     <span className="text-gold">${parseFloat(selectedOrder.total).toFixed(2)}</span>
                   </div>
                 </div>
               </TabsContent>
+
+              <TabsContent value="history" className="space-y-4">
+                {historyLoading ? (
+                  <div className="space-y-3">
+                    {[1, 2, 3].map((i) => (
+                      <Skeleton key={i} className="h-12 w-full" />
+                    ))}
+                  </div>
+                ) : !statusHistory?.length ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <History className="h-10 w-10 mx-auto mb-2 opacity-50" />
+                    <p>No status changes recorded</p>
+                  </div>
+                ) : (
+                  <ol className="relative border-l border-border ml-3 space-y-6" data-testid="list-status-history">
+                    {statusHistory.map((entry) => {
+                      const config = statusConfig[entry.toStatus];
+                      const Icon = config?.icon || Clock;
+                      return (
+                        <li key={entry.id} className="ml-6">
+                          <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-background border">
+                            <Icon className="h-3 w-3" />
+                          </span>
+                          <div className="flex items-center gap-2 flex-wrap">
+                            {entry.fromStatus && (
+                              <>
+                                <Badge variant="outline" className={statusConfig[entry.fromStatus]?.color}>
+                                  {statusConfig[entry.fromStatus]?.label || entry.fromStatus}
+                                </Badge>
+                                <span className="text-muted-foreground">&rarr;</span>
+                              </>
+                            )}
+                            <Badge variant="outline" className={config?.color}>
+                              {config?.label || entry.toStatus}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-muted-foreground mt-1">
+                            {entry.createdAt && format(new Date(entry.createdAt), "MMM d, yyyy h:mm a")}
+                            {entry.changedByName && ` by ${entry.changedByName}`}
+                          </p>
+                          {entry.reason && <p className="text-sm mt-1">{entry.reason}</p>}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </TabsContent>
+
+              <TabsContent value="trace">
+                <OrderTrace orderId={selectedOrder.id} />
+              </TabsContent>
+
+              <TabsContent value="messages">
+                <OrderNotifications
+                  orderId={selectedOrder.id}
+                  // Invoices are made when a card order is approved
+                  hasInvoice={!!selectedOrder.stripePaymentIntentId && !["new", "cancelled"].includes(selectedOrder.status)}
+                  hasPhone={!!selectedOrder.customerPhone}
+                />
+              </TabsContent>
             </Tabs>
           )}
           <DialogFooter>
-            {selectedOrder?.status === "new" && !editMode && (
+            {selectedOrder?.status === "new" && !editMode && can("orders:manage") && (
               <div className="flex gap-2 w-full">
                 <Button
                   variant="destructive"
@@ -911,16 +1091,39 @@ export default function AdminOrders() {
                 </Button>
               </div>
             )}
-            {selectedOrder?.status === "approved" && !editMode && (
+            {selectedOrder && selectedOrder.status !== "new" && canTransitionOrder(selectedOrder.status, "cancelled") && !editMode && can("orders:manage") && (
               <Button
-                className="w-full"
-                onClick={() => updateStatusMutation.mutate({ orderId: selectedOrder.id, status: "baking" })}
+                variant="outline"
+                className="text-destructive"
+                onClick={() => setCancelTarget(selectedOrder)}
                 disabled={updateStatusMutation.isPending}
+                data-testid="button-cancel-refund"
               >
-                <ChefHat className="h-4 w-4 mr-2" />
-                Start Baking
+                {selectedOrder.stripePaymentStatus === "captured" || selectedOrder.stripePaymentStatus === "partially_refunded" ? "Cancel & Refund" : "Cancel Order"}
               </Button>
             )}
+            {selectedOrder?.status === "approved" && !editMode && (
+              <div className="flex gap-2 flex-1">
+                <Button
+                  className="flex-1"
+                  onClick={() => updateStatusMutation.mutate({ orderId: selectedOrder.id, status: "baking" })}
+                  disabled={updateStatusMutation.isPending}
+                >
+                  <ChefHat className="h-4 w-4 mr-2" />
+                  Start Baking
+                </Button>
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => updateStatusMutation.mutate({ orderId: selectedOrder.id, status: "ready" })}
+                  disabled={updateStatusMutation.isPending}
+                  data-testid="button-ready-from-freezer"
+                >
+                  <Package className="h-4 w-4 mr-2" />
+                  Ready from Freezer
+                </Button>
+              </div>
+            )}
             {selectedOrder?.status === "baking" && !editMode && (
               <Button
                 className="w-full bg-gold hover:bg-gold/90 text-black"
@@ -945,6 +1148,46 @@ export default function AdminOrders() {
         </DialogContent>
       </Dialog>
 
+      {selectedOrder && (
+        <RefundDialog order={selectedOrder} open={showRefundDialog} onOpenChange={setShowRefundDialog} />
+      )}
+
+      <Dialog open={!!cancelTarget} onOpenChange={(open) => { if (!open) { setCancelTarget(null); setCancelReason(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-serif">Cancel Order</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            {cancelTarget?.stripePaymentStatus === "captured" || cancelTarget?.stripePaymentStatus === "partially_refunded"
+              ? "The payment for this order was already captured, so cancelling refunds whatever hasn't been refunded yet."
+              : "This order wasn't paid through Stripe, so nothing is refunded automatically."}
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="cancel-reason">Reason</Label>
+            <Textarea
+              id="cancel-reason"
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              placeholder="e.g. Customer can't make pickup"
+              data-testid="input-cancel-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelTarget(null)}>
+              Keep Order
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => cancelTarget && updateStatusMutation.mutate({ orderId: cancelTarget.id, status: "cancelled", reason: cancelReason || undefined })}
+              disabled={updateStatusMutation.isPending || !cancelReason.trim()}
+              data-testid="button-confirm-cancel"
+            >
+              Cancel Order
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={showNewOrderDialog} onOpenChange={(open) => { if (!open) resetNewOrderForm(); setShowNewOrderDialog(open); }}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
@@ -1166,7 +1409,7 @@ export default function AdminOrders() {
                           <SelectValue placeholder="Select product" />
                         </SelectTrigger>
                         <SelectContent>
-                          {products?.filter(p => p.isActive).map((product) => (
+                          {products?.filter(p => p.isActive && p.bundleType !== "pick").map((product) => (
                             <SelectItem key={product.id} value={product.id}>
                               {product.name} - ${parseFloat(product.price).toFixed(2)}
                             </SelectItem>
@@ -1196,7 +1439,7 @@ export default function AdminOrders() {
                 </div>
                 {calculateOrderTotal() > 0 && (
                   <div className="text-right font-semibold text-lg">
-                    Total: <span className="text-gold">${calculateOrderTotal().toFixed(2)}</span>
+                    Subtotal: <span className="text-gold">${calculateOrderTotal().toFixed(2)}</span> <span className="text-sm font-normal text-muted-foreground">+ delivery and tax</span>
                   </div>
                 )}
               </div>
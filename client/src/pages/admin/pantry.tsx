@@ -1,10 +1,17 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, parseISO, addDays, differenceInCalendarDays } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { 
   Plus, 
@@ -17,11 +24,13 @@ import {
   Package, 
   Leaf,
   X,
-  AlertTriangle
+  AlertTriangle,
+  TrendingDown,
+  Layers
 } from "lucide-react";
-import type { Ingredient } from "@shared/schema";
+import { UNITS, type Ingredient, type IngredientLot, type Supplier } from "@shared/schema";
 
-const units = ["oz", "lb", "kg", "g", "count", "tsp", "tbsp", "cup", "quart", "gallon"];
+const units = Object.keys(UNITS);
 
 function getIngredientIcon(name: string) {
   const lowerName = name.toLowerCase();
@@ -38,10 +47,11 @@ interface FlipTileProps {
   onFlip: () => void;
   onSave: (id: string, data: { onHand?: string; reorderThreshold?: string; costPerUnit?: string }) => void;
   onQuickAdjust: (id: string, amount: number) => void;
+  onShowLots: (ingredient: Ingredient) => void;
   isSaving: boolean;
 }
 
-function FlipTile({ ingredient, isFlipped, onFlip, onSave, onQuickAdjust, isSaving }: FlipTileProps) {
+function FlipTile({ ingredient, isFlipped, onFlip, onSave, onQuickAdjust, onShowLots, isSaving }: FlipTileProps) {
   const [editedQuantity, setEditedQuantity] = useState(ingredient.onHand);
   const isLowStock = parseFloat(ingredient.onHand) <= parseFloat(ingredient.reorderThreshold);
   const Icon = getIngredientIcon(ingredient.name);
@@ -175,13 +185,26 @@ function FlipTile({ ingredient, isFlipped, onFlip, onSave, onQuickAdjust, isSavi
             {ingredient.costPerUnit && (
               <p>Cost: ${parseFloat(ingredient.costPerUnit).toFixed(4)}/{ingredient.unit}</p>
             )}
+            {ingredient.density && (
+              <p>Density: {parseFloat(ingredient.density)} g/ml</p>
+            )}
           </div>
 
-          <div className="mt-auto">
+          <div className="mt-auto flex gap-1">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => onShowLots(ingredient)}
+              className="h-8 w-8 flex-shrink-0"
+              title="Lots"
+              data-testid={`button-lots-${ingredient.id}`}
+            >
+              <Layers className="h-4 w-4" />
+            </Button>
             <Button
               onClick={handleSave}
               disabled={isSaving}
-              className="w-full h-8"
+              className="flex-1 h-8"
               data-testid={`button-save-${ingredient.id}`}
             >
               <Save className="h-4 w-4 mr-1" />
@@ -194,10 +217,256 @@ function FlipTile({ ingredient, isFlipped, onFlip, onSave, onQuickAdjust, isSavi
   );
 }
 
+type LotWithSupplier = IngredientLot & { supplier: Supplier | null };
+
+// Every delivery of an ingredient, newest first. Batches draw from the oldest unexpired lot.
+function LotsDialog({ ingredient, onClose }: { ingredient: Ingredient; onClose: () => void }) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("inventory:manage");
+
+  const { data: lots, isLoading } = useQuery<LotWithSupplier[]>({
+    queryKey: ["/api/admin/ingredients", ingredient.id, "lots"],
+  });
+
+  const updateLotMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: { lotCode?: string | null; expiresOn?: string | null } }) => {
+      return await apiRequest("PATCH", `/api/admin/ingredient-lots/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ingredients", ingredient.id, "lots"] });
+      toast({ title: "Lot Updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const expiryBadge = (lot: LotWithSupplier) => {
+    if (!lot.expiresAt || parseFloat(lot.quantityRemaining) <= 0) return null;
+    const daysLeft = differenceInCalendarDays(new Date(lot.expiresAt), new Date());
+    if (daysLeft <= 0) return <Badge variant="destructive">Expired</Badge>;
+    if (daysLeft <= 7) return <Badge className="bg-orange-500/15 text-orange-600">{daysLeft}d left</Badge>;
+    return null;
+  };
+
+  // Lots expire at midnight after their best-before day
+  const bestBefore = (lot: LotWithSupplier) =>
+    lot.expiresAt ? format(addDays(new Date(lot.expiresAt), -1), "yyyy-MM-dd") : "";
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="font-serif">{ingredient.name} Lots</DialogTitle>
+          <DialogDescription>
+            Stock not booked in as a lot is used after the lots run out.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !lots || lots.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">No lots received yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lot code</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Received</TableHead>
+                <TableHead>Best before</TableHead>
+                <TableHead className="text-right">Remaining</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lots.map((lot) => (
+                <TableRow
+                  key={lot.id}
+                  className={parseFloat(lot.quantityRemaining) <= 0 ? "text-muted-foreground" : ""}
+                  data-testid={`lot-row-${lot.id}`}
+                >
+                  <TableCell>
+                    {canEdit ? (
+                      <Input
+                        className="h-8 w-28"
+                        defaultValue={lot.lotCode || ""}
+                        onBlur={(e) => {
+                          const lotCode = e.target.value.trim() || null;
+                          if (lotCode !== lot.lotCode) updateLotMutation.mutate({ id: lot.id, data: { lotCode } });
+                        }}
+                        data-testid={`input-lot-code-${lot.id}`}
+                      />
+                    ) : (
+                      lot.lotCode || "-"
+                    )}
+                  </TableCell>
+                  <TableCell>{lot.supplier?.name || "-"}</TableCell>
+                  <TableCell>{format(new Date(lot.receivedAt), "MMM d, yyyy")}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {canEdit ? (
+                        <Input
+                          type="date"
+                          className="h-8 w-36"
+                          defaultValue={bestBefore(lot)}
+                          onBlur={(e) => {
+                            if (e.target.value !== bestBefore(lot)) {
+                              updateLotMutation.mutate({ id: lot.id, data: { expiresOn: e.target.value || null } });
+                            }
+                          }}
+                          data-testid={`input-lot-expiry-${lot.id}`}
+                        />
+                      ) : (
+                        bestBefore(lot) ? format(parseISO(bestBefore(lot)), "MMM d, yyyy") : "-"
+                      )}
+                      {expiryBadge(lot)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {parseFloat(lot.quantityRemaining).toFixed(1)} / {parseFloat(lot.quantityReceived).toFixed(1)} {ingredient.unit}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface IngredientForecast {
+  ingredientId: string;
+  name: string;
+  unit: string;
+  onHand: number;
+  reorderThreshold: number;
+  totalNeeded: number;
+  shortfall: number;
+  reorderBy: string | null;
+  shortOn: string | null;
+  days: { date: string; needed: number; balance: number }[];
+}
+
+// What planned batches (and optionally orders not yet planned) will use, day by day
+function ShortfallForecast() {
+  const [days, setDays] = useState(14);
+  const [includeOrders, setIncludeOrders] = useState(true);
+
+  const { data: forecast, isLoading } = useQuery<IngredientForecast[]>({
+    queryKey: ["/api/admin/ingredients", "forecast", days, includeOrders],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/admin/ingredients/forecast?days=${days}&includeOrders=${includeOrders}`);
+      return response.json();
+    },
+    staleTime: 60 * 1000,
+  });
+
+  const start = new Date();
+  const columns = Array.from({ length: days }, (_, i) => format(addDays(start, i), "yyyy-MM-dd"));
+
+  const cellClass = (row: IngredientForecast, day?: { balance: number }) => {
+    if (!day) return "";
+    if (day.balance < 0) return "bg-destructive/15 text-destructive font-medium";
+    if (day.balance <= row.reorderThreshold) return "bg-orange-500/10 text-orange-600";
+    return "bg-muted";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <TrendingDown className="h-5 w-5" />
+            Ingredient Forecast
+          </CardTitle>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={includeOrders} onCheckedChange={setIncludeOrders} data-testid="switch-forecast-orders" />
+              Include unplanned orders
+            </label>
+            <Select value={String(days)} onValueChange={(value) => setDays(parseInt(value))}>
+              <SelectTrigger className="w-28" data-testid="select-forecast-days">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">7 days</SelectItem>
+                <SelectItem value="14">14 days</SelectItem>
+                <SelectItem value="28">28 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !forecast || forecast.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">
+            Nothing scheduled that uses pantry ingredients.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground">
+                  <th className="text-left font-medium py-2 pr-4">Ingredient</th>
+                  <th className="text-right font-medium py-2 pr-4">On hand</th>
+                  <th className="text-right font-medium py-2 pr-4">Needed</th>
+                  {columns.map((date) => (
+                    <th key={date} className="font-medium py-2 px-1 text-center whitespace-nowrap">
+                      {format(parseISO(date), "EEE d")}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {forecast.map((row) => (
+                  <tr key={row.ingredientId} className="border-t border-border" data-testid={`forecast-row-${row.ingredientId}`}>
+                    <td className="py-2 pr-4">
+                      <div className="font-medium">{row.name}</div>
+                      {row.shortOn ? (
+                        <div className="text-xs text-destructive">
+                          Short {row.shortfall.toFixed(1)} {row.unit} on {format(parseISO(row.shortOn), "EEE MMM d")}
+                        </div>
+                      ) : row.reorderBy ? (
+                        <div className="text-xs text-orange-600">
+                          Reorder by {format(parseISO(row.reorderBy), "EEE MMM d")}
+                        </div>
+                      ) : null}
+                    </td>
+                    <td className="py-2 pr-4 text-right whitespace-nowrap">{row.onHand.toFixed(1)} {row.unit}</td>
+                    <td className="py-2 pr-4 text-right whitespace-nowrap">{row.totalNeeded.toFixed(1)} {row.unit}</td>
+                    {columns.map((date) => {
+                      const day = row.days.find((d) => d.date === date);
+                      return (
+                        <td key={date} className="px-1 py-2">
+                          {day && (
+                            <div
+                              className={`rounded px-1 text-center text-xs ${cellClass(row, day)}`}
+                              title={`Uses ${day.needed.toFixed(1)} ${row.unit}, ${day.balance.toFixed(1)} left`}
+                            >
+                              {day.needed.toFixed(1)}
+                            </div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 interface AddNewTileProps {
   isFlipped: boolean;
   onFlip: () => void;
-  onSave: (data: { name: string; unit: string; onHand: string; reorderThreshold: string; costPerUnit?: string }) => void;
+  onSave: (data: { name: string; unit: string; onHand: string; reorderThreshold: string; costPerUnit?: string; density?: string }) => void;
   isSaving: boolean;
 }
 
@@ -207,15 +476,17 @@ function AddNewTile({ isFlipped, onFlip, onSave, isSaving }: AddNewTileProps) {
   const [onHand, setOnHand] = useState("");
   const [reorderThreshold, setReorderThreshold] = useState("");
   const [costPerUnit, setCostPerUnit] = useState("");
+  const [density, setDensity] = useState("");
 
   const handleSave = () => {
     if (!name || !unit || !onHand || !reorderThreshold) return;
-    onSave({ name, unit, onHand, reorderThreshold, costPerUnit: costPerUnit || undefined });
+    onSave({ name, unit, onHand, reorderThreshold, costPerUnit: costPerUnit || undefined, density: density || undefined });
     setName("");
     setUnit("");
     setOnHand("");
     setReorderThreshold("");
     setCostPerUnit("");
+    setDensity("");
     onFlip();
   };
 
@@ -225,6 +496,7 @@ function AddNewTile({ isFlipped, onFlip, onSave, isSaving }: AddNewTileProps) {
     setOnHand("");
     setReorderThreshold("");
     setCostPerUnit("");
+    setDensity("");
     onFlip();
   };
 
@@ -303,15 +575,27 @@ function AddNewTile({ isFlipped, onFlip, onSave, isSaving }: AddNewTileProps) {
                 data-testid="input-new-reorder"
               />
             </div>
-            <Input
-              placeholder="Cost/unit (opt)"
-              type="number"
-              step="0.0001"
-              value={costPerUnit}
-              onChange={(e) => setCostPerUnit(e.target.value)}
-              className="h-8 text-sm"
-              data-testid="input-new-cost"
-            />
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                placeholder="Cost/unit (opt)"
+                type="number"
+                step="0.0001"
+                value={costPerUnit}
+                onChange={(e) => setCostPerUnit(e.target.value)}
+                className="h-8 text-sm"
+                data-testid="input-new-cost"
+              />
+              <Input
+                placeholder="g/ml (opt)"
+                type="number"
+                step="0.01"
+                value={density}
+                onChange={(e) => setDensity(e.target.value)}
+                className="h-8 text-sm"
+                title="Density, for recipes that measure by volume what's stocked by weight (or the other way)"
+                data-testid="input-new-density"
+              />
+            </div>
           </div>
 
           <Button
@@ -333,6 +617,7 @@ export default function AdminPantry() {
   const { toast } = useToast();
   const [flippedId, setFlippedId] = useState<string | null>(null);
   const [isAddNewFlipped, setIsAddNewFlipped] = useState(false);
+  const [lotsFor, setLotsFor] = useState<Ingredient | null>(null);
 
   const { data: ingredients, isLoading } = useQuery<Ingredient[]>({
     queryKey: ["/api/admin/ingredients"],
@@ -382,7 +667,7 @@ export default function AdminPantry() {
   });
 
   const createMutation = useMutation({
-    mutationFn: async (data: { name: string; unit: string; onHand: string; reorderThreshold: string; costPerUnit?: string }) => {
+    mutationFn: async (data: { name: string; unit: string; onHand: string; reorderThreshold: string; costPerUnit?: string; density?: string }) => {
       return await apiRequest("POST", "/api/admin/ingredients", data);
     },
     onSuccess: () => {
@@ -412,7 +697,7 @@ export default function AdminPantry() {
     quickAdjustMutation.mutate({ id, amount });
   };
 
-  const handleCreate = (data: { name: string; unit: string; onHand: string; reorderThreshold: string; costPerUnit?: string }) => {
+  const handleCreate = (data: { name: string; unit: string; onHand: string; reorderThreshold: string; costPerUnit?: string; density?: string }) => {
     createMutation.mutate(data);
   };
 
@@ -463,6 +748,7 @@ export default function AdminPantry() {
               onFlip={() => handleFlip(ingredient.id)}
               onSave={handleSave}
               onQuickAdjust={handleQuickAdjust}
+              onShowLots={setLotsFor}
               isSaving={updateMutation.isPending}
             />
           ))}
@@ -475,6 +761,10 @@ export default function AdminPantry() {
         </div>
       )}
 
+      {ingredients && ingredients.length > 0 && <ShortfallForecast />}
+
+      {lotsFor && <LotsDialog ingredient={lotsFor} onClose={() => setLotsFor(null)} />}
+
       {ingredients && ingredients.length === 0 && !isLoading && (
         <div className="text-center py-8 text-muted-foreground">
           <Wheat className="h-16 w-16 mx-auto mb-4 opacity-30" />
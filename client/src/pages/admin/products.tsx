@@ -0,0 +1,1001 @@
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Plus, Pencil, Archive, ArchiveRestore, ImagePlus, Trash2, Package } from "lucide-react";
+import {
+  UNITS,
+  convertQuantity,
+  type Product,
+  type ProductVariant,
+  type Ingredient,
+  type BillOfMaterial,
+  type RecipeVersion,
+  type BundleComponent,
+} from "@shared/schema";
+import { RecipeHistory } from "./components";
+
+type ProductWithVariants = Product & { variants: ProductVariant[]; components: BundleComponent[] };
+type RecipeVersionDetail = RecipeVersion & { lines: (BillOfMaterial & { ingredient: Ingredient })[] };
+
+const PACK_PRESETS = [
+  { name: "Half dozen", packSize: 6 },
+  { name: "Dozen", packSize: 12 },
+];
+
+const PRODUCT_KINDS = [
+  { value: "bagel", label: "Bagel, baked from a recipe" },
+  { value: "fixed", label: "Bundle with set contents" },
+  { value: "pick", label: "Bundle the customer picks" },
+] as const;
+
+const productFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  description: z.string().optional(),
+  kind: z.enum(["bagel", "fixed", "pick"]),
+  bundleSize: z.coerce.number().int().min(0),
+  price: z.coerce.number().positive("Price must be more than zero"),
+  taxable: z.boolean(),
+  isActive: z.boolean(),
+  safetyBuffer: z.coerce.number().int().min(0),
+  laborCost: z.coerce.number().min(0),
+  packagingCost: z.coerce.number().min(0),
+});
+
+type ProductFormData = z.infer<typeof productFormSchema>;
+
+interface RecipeLineDraft {
+  key: number;
+  ingredientId: string;
+  quantity: string;
+  unit: string;
+}
+
+function money(value: number) {
+  return `$${value.toFixed(2)}`;
+}
+
+// Units a recipe line can use for this ingredient: anything that converts to how it's stocked
+function unitsFor(ingredient: Ingredient | undefined): string[] {
+  if (!ingredient) return [];
+  const density = ingredient.density ? parseFloat(ingredient.density) : null;
+  return Object.keys(UNITS).filter((unit) => convertQuantity(1, unit, ingredient.unit, density) !== null);
+}
+
+async function uploadImage(productId: string, file: File) {
+  const response = await fetch(`/api/admin/products/${productId}/image`, {
+    method: "POST",
+    headers: { "Content-Type": file.type },
+    body: file,
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error((await response.json().catch(() => null))?.message || "Upload failed");
+  }
+  return response.json();
+}
+
+function DetailsTab({ product, onSaved }: { product: ProductWithVariants | null; onSaved: (product: Product) => void }) {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const form = useForm<ProductFormData>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues: {
+      name: product?.name || "",
+      description: product?.description || "",
+      kind: (product?.bundleType as "fixed" | "pick" | null) || "bagel",
+      bundleSize: product?.bundleSize ?? 12,
+      price: product ? parseFloat(product.price) : 0,
+      taxable: product?.taxable ?? true,
+      isActive: product ? product.isActive : true,
+      safetyBuffer: product?.safetyBuffer ?? 0,
+      laborCost: product ? parseFloat(product.laborCost) : 0,
+      packagingCost: product ? parseFloat(product.packagingCost) : 0,
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ kind, bundleSize, ...data }: ProductFormData) => {
+      const body = {
+        ...data,
+        bundleType: kind === "bagel" ? null : kind,
+        bundleSize: kind === "pick" ? bundleSize : null,
+        price: data.price.toFixed(2),
+        laborCost: data.laborCost.toString(),
+        packagingCost: data.packagingCost.toString(),
+      };
+      const response = product
+        ? await apiRequest("PATCH", `/api/admin/products/${product.id}`, body)
+        : await apiRequest("POST", "/api/admin/products", body);
+      return response.json() as Promise<Product>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+      toast({ title: product ? "Product Updated" : "Product Created", description: saved.name });
+      onSaved(saved);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const kind = form.watch("kind");
+  const unitLabel = kind === "bagel" ? "bagel" : "bundle";
+
+  const imageMutation = useMutation({
+    mutationFn: (file: File) => uploadImage(product!.id, file),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+      toast({ title: "Image Uploaded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+        {product && (
+          <div className="flex items-center gap-4">
+            <div className="h-20 w-20 rounded-lg border border-border bg-muted overflow-hidden flex items-center justify-center">
+              {product.imageUrl ? (
+                <img src={product.imageUrl} alt={product.name} className="h-full w-full object-cover" />
+              ) : (
+                <Package className="h-8 w-8 text-muted-foreground" />
+              )}
+            </div>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="image/jpeg,image/png,image/webp,image/gif"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) imageMutation.mutate(file);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => fileInput.current?.click()}
+              disabled={imageMutation.isPending}
+              data-testid="button-upload-image"
+            >
+              <ImagePlus className="h-4 w-4 mr-2" />
+              {imageMutation.isPending ? "Uploading..." : product.imageUrl ? "Replace Image" : "Upload Image"}
+            </Button>
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input {...field} data-testid="input-product-name" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea {...field} rows={2} data-testid="input-product-description" />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="kind"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Type</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange} disabled={!!product}>
+                <FormControl>
+                  <SelectTrigger data-testid="select-product-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {PRODUCT_KINDS.map((kind) => (
+                    <SelectItem key={kind.value} value={kind.value}>{kind.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="price"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Price per {unitLabel} ($)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" min="0" {...field} data-testid="input-product-price" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {kind === "bagel" ? (
+            <FormField
+              control={form.control}
+              name="safetyBuffer"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Safety buffer</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="1" min="0" {...field} data-testid="input-product-buffer" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ) : kind === "pick" ? (
+            <FormField
+              control={form.control}
+              name="bundleSize"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Bagels to pick</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="1" min="1" {...field} data-testid="input-bundle-size" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ) : (
+            <div />
+          )}
+          <FormField
+            control={form.control}
+            name="laborCost"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Labor per {unitLabel} ($)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" min="0" {...field} data-testid="input-product-labor" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="packagingCost"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Packaging per {unitLabel} ($)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" min="0" {...field} data-testid="input-product-packaging" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="flex gap-6">
+          <FormField
+            control={form.control}
+            name="isActive"
+            render={({ field }) => (
+              <FormItem className="flex items-center gap-2 space-y-0">
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    disabled={!!product?.archivedAt}
+                    data-testid="switch-product-active"
+                  />
+                </FormControl>
+                <FormLabel>On sale</FormLabel>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="taxable"
+            render={({ field }) => (
+              <FormItem className="flex items-center gap-2 space-y-0">
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-product-taxable" />
+                </FormControl>
+                <FormLabel>Taxable</FormLabel>
+              </FormItem>
+            )}
+          />
+        </div>
+        <DialogFooter>
+          <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-product">
+            {product ? "Save Details" : "Create Product"}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
+
+function RecipeTab({ product }: { product: ProductWithVariants }) {
+  const { toast } = useToast();
+  const nextKey = useRef(0);
+  const [lines, setLines] = useState<RecipeLineDraft[] | null>(null);
+  const [yieldQuantity, setYieldQuantity] = useState("1");
+  const [wastePercent, setWastePercent] = useState("0");
+  const [notes, setNotes] = useState("");
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+
+  const { data: ingredients } = useQuery<Ingredient[]>({
+    queryKey: ["/api/admin/ingredients"],
+  });
+
+  const { data: versions } = useQuery<RecipeVersionDetail[]>({
+    queryKey: ["/api/admin/products", product.id, "recipes"],
+  });
+
+  const { data: bom } = useQuery<(BillOfMaterial & { ingredient: Ingredient })[]>({
+    queryKey: ["/api/admin/products", product.id, "bom"],
+  });
+
+  // Start from the recipe in force, once both it and its version have loaded
+  useEffect(() => {
+    if (lines !== null || !bom || !versions) return;
+    const current = versions.find((version) => new Date(version.effectiveFrom).getTime() <= Date.now());
+    if (current) {
+      setYieldQuantity(current.yieldQuantity.toString());
+      setWastePercent(parseFloat(current.wastePercent).toString());
+    }
+    setLines(bom.map((line) => ({
+      key: nextKey.current++,
+      ingredientId: line.ingredientId,
+      quantity: parseFloat(line.quantity).toString(),
+      unit: line.unit || line.ingredient.unit,
+    })));
+  }, [bom, versions, lines]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/admin/products/${product.id}/bom`, {
+        items: (lines || [])
+          .filter((line) => line.ingredientId && parseFloat(line.quantity) > 0)
+          .map((line) => ({ ingredientId: line.ingredientId, quantity: parseFloat(line.quantity), unit: line.unit })),
+        notes: notes || undefined,
+        effectiveFrom: effectiveFrom || undefined,
+        yieldQuantity: parseInt(yieldQuantity) || 1,
+        wastePercent: parseFloat(wastePercent) || 0,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products", product.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/costing"] });
+      toast({ title: "Recipe Saved", description: "A new version has been added to the history" });
+      setNotes("");
+      setEffectiveFrom("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateLine = (key: number, changes: Partial<RecipeLineDraft>) => {
+    setLines((prev) => (prev || []).map((line) => (line.key === key ? { ...line, ...changes } : line)));
+  };
+
+  // Priced the same way the costing page does: recipe quantity in the stock unit, spread over good bagels
+  const bagels = (parseInt(yieldQuantity) || 1) * (1 - (parseFloat(wastePercent) || 0) / 100);
+  const lineCosts = (lines || []).map((line) => {
+    const ingredient = ingredients?.find((i) => i.id === line.ingredientId);
+    if (!ingredient) return 0;
+    const density = ingredient.density ? parseFloat(ingredient.density) : null;
+    const inStockUnit = convertQuantity(parseFloat(line.quantity) || 0, line.unit, ingredient.unit, density) ?? 0;
+    return (inStockUnit * parseFloat(ingredient.costPerUnit || "0")) / (bagels > 0 ? bagels : 1);
+  });
+  const ingredientCost = lineCosts.reduce((sum, cost) => sum + cost, 0);
+  const unitCost = ingredientCost + parseFloat(product.laborCost) + parseFloat(product.packagingCost);
+  const margin = parseFloat(product.price) - unitCost;
+
+  if (lines === null) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {lines.map((line, i) => {
+          const ingredient = ingredients?.find((item) => item.id === line.ingredientId);
+          return (
+            <div key={line.key} className="flex items-center gap-2" data-testid={`recipe-line-${i}`}>
+              <Select
+                value={line.ingredientId}
+                onValueChange={(ingredientId) => {
+                  const picked = ingredients?.find((item) => item.id === ingredientId);
+                  updateLine(line.key, { ingredientId, unit: picked?.unit || line.unit });
+                }}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Ingredient" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ingredients?.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                step="any"
+                min="0"
+                className="w-24"
+                value={line.quantity}
+                onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+              />
+              <Select value={line.unit} onValueChange={(unit) => updateLine(line.key, { unit })} disabled={!ingredient}>
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {unitsFor(ingredient).map((unit) => (
+                    <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="w-16 text-right text-sm text-muted-foreground">{money(lineCosts[i])}</span>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                onClick={() => setLines((prev) => (prev || []).filter((item) => item.key !== line.key))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setLines((prev) => [...(prev || []), { key: nextKey.current++, ingredientId: "", quantity: "", unit: "" }])}
+          data-testid="button-add-recipe-line"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Ingredient
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="recipe-yield">Bagels per round</Label>
+          <Input id="recipe-yield" type="number" min="1" step="1" value={yieldQuantity} onChange={(e) => setYieldQuantity(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="recipe-waste">Expected waste (%)</Label>
+          <Input id="recipe-waste" type="number" min="0" max="99" step="0.5" value={wastePercent} onChange={(e) => setWastePercent(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="recipe-effective">Takes effect</Label>
+          <Input
+            id="recipe-effective"
+            type="date"
+            min={format(new Date(), "yyyy-MM-dd")}
+            value={effectiveFrom}
+            onChange={(e) => setEffectiveFrom(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="recipe-notes">What changed</Label>
+          <Input id="recipe-notes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional" />
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-border p-3 text-sm space-y-1" data-testid="recipe-live-cost">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Ingredients per bagel</span>
+          <span>{money(ingredientCost)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">With labor and packaging</span>
+          <span className="font-medium">{money(unitCost)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Margin at {money(parseFloat(product.price))}</span>
+          <span className={margin < 0 ? "text-destructive font-medium" : "font-medium"}>{money(margin)}</span>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-recipe">
+          Save as New Version
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
+
+function PackSizesTab({ product }: { product: ProductWithVariants }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [packSize, setPackSize] = useState("");
+  const [price, setPrice] = useState("");
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/admin/products/${product.id}/variants`, {
+        name,
+        packSize: parseInt(packSize),
+        price: (parseFloat(price) || 0).toFixed(2),
+        sortOrder: parseInt(packSize),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+      toast({ title: "Pack Size Added", description: name });
+      setName("");
+      setPackSize("");
+      setPrice("");
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<ProductVariant> }) => {
+      return await apiRequest("PATCH", `/api/admin/product-variants/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+    },
+    onError,
+  });
+
+  const single = parseFloat(product.price);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Single bagels sell at {money(single)}. Packs are sold at their own price and count as that many bagels
+        for stock and baking.
+      </p>
+
+      <div className="space-y-2">
+        {product.variants.map((variant) => {
+          const perBagel = parseFloat(variant.price) / variant.packSize;
+          return (
+            <div key={variant.id} className="flex items-center gap-3 rounded-lg border border-border p-3" data-testid={`variant-${variant.id}`}>
+              <div className="flex-1">
+                <div className="font-medium">{variant.name}</div>
+                <div className="text-sm text-muted-foreground">
+                  {variant.packSize} bagels - {money(parseFloat(variant.price))} ({money(perBagel)} each
+                  {perBagel < single && `, saves ${Math.round((1 - perBagel / single) * 100)}%`})
+                </div>
+              </div>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                className="w-24"
+                defaultValue={parseFloat(variant.price).toFixed(2)}
+                onBlur={(e) => {
+                  const next = (parseFloat(e.target.value) || 0).toFixed(2);
+                  if (next !== parseFloat(variant.price).toFixed(2)) {
+                    updateMutation.mutate({ id: variant.id, data: { price: next } });
+                  }
+                }}
+              />
+              <Switch
+                checked={variant.isActive}
+                onCheckedChange={(isActive) => updateMutation.mutate({ id: variant.id, data: { isActive } })}
+                data-testid={`switch-variant-${variant.id}`}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="rounded-lg border border-dashed border-border p-3 space-y-3">
+        <div className="flex gap-2">
+          {PACK_PRESETS.map((preset) => (
+            <Button
+              key={preset.name}
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setName(preset.name);
+                setPackSize(preset.packSize.toString());
+                setPrice((single * preset.packSize).toFixed(2));
+              }}
+            >
+              {preset.name}
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="variant-name">Name</Label>
+            <Input id="variant-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-variant-name" />
+          </div>
+          <div className="w-20 space-y-1">
+            <Label htmlFor="variant-size">Bagels</Label>
+            <Input id="variant-size" type="number" min="2" step="1" value={packSize} onChange={(e) => setPackSize(e.target.value)} data-testid="input-variant-size" />
+          </div>
+          <div className="w-24 space-y-1">
+            <Label htmlFor="variant-price">Price ($)</Label>
+            <Input id="variant-price" type="number" min="0" step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} data-testid="input-variant-price" />
+          </div>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!name || parseInt(packSize) < 2 || !(parseFloat(price) > 0) || createMutation.isPending}
+            data-testid="button-add-variant"
+          >
+            Add
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ContentsTab({ product }: { product: ProductWithVariants }) {
+  const { toast } = useToast();
+  const nextKey = useRef(0);
+  const [lines, setLines] = useState(() => product.components.map((component) => ({
+    key: nextKey.current++,
+    productId: component.productId,
+    quantity: (component.quantity ?? 1).toString(),
+  })));
+
+  const { data: products } = useQuery<ProductWithVariants[]>({
+    queryKey: ["/api/admin/products"],
+  });
+  const bagels = products?.filter((item) => !item.bundleType && !item.archivedAt) || [];
+  const fixed = product.bundleType === "fixed";
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/admin/products/${product.id}/components`, {
+        components: lines
+          .filter((line) => line.productId)
+          .map((line) => ({ productId: line.productId, quantity: fixed ? parseInt(line.quantity) || 0 : undefined })),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/costing"] });
+      toast({ title: "Bundle Saved", description: product.name });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateLine = (key: number, changes: Partial<(typeof lines)[number]>) => {
+    setLines((prev) => prev.map((line) => (line.key === key ? { ...line, ...changes } : line)));
+  };
+
+  if (!fixed) {
+    const chosen = new Set(lines.map((line) => line.productId));
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Customers pick {product.bundleSize} bagels from the ones switched on here.
+        </p>
+        <div className="space-y-2">
+          {bagels.map((bagel) => (
+            <div key={bagel.id} className="flex items-center justify-between rounded-lg border border-border p-3">
+              <span className={bagel.isActive ? "" : "text-muted-foreground"}>
+                {bagel.name}
+                {!bagel.isActive && " (off sale)"}
+              </span>
+              <Switch
+                checked={chosen.has(bagel.id)}
+                onCheckedChange={(on) => setLines((prev) => on
+                  ? [...prev, { key: nextKey.current++, productId: bagel.id, quantity: "1" }]
+                  : prev.filter((line) => line.productId !== bagel.id))}
+                data-testid={`switch-component-${bagel.id}`}
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || lines.length === 0} data-testid="button-save-contents">
+            Save Contents
+          </Button>
+        </DialogFooter>
+      </div>
+    );
+  }
+
+  const count = lines.reduce((sum, line) => sum + (parseInt(line.quantity) || 0), 0);
+  const separately = lines.reduce((sum, line) => {
+    const bagel = bagels.find((item) => item.id === line.productId);
+    return sum + (bagel ? parseFloat(bagel.price) * (parseInt(line.quantity) || 0) : 0);
+  }, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {lines.map((line) => (
+          <div key={line.key} className="flex items-center gap-2">
+            <Select value={line.productId} onValueChange={(productId) => updateLine(line.key, { productId })}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Bagel" />
+              </SelectTrigger>
+              <SelectContent>
+                {bagels.map((bagel) => (
+                  <SelectItem key={bagel.id} value={bagel.id}>{bagel.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="1"
+              step="1"
+              className="w-20"
+              value={line.quantity}
+              onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+            />
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              onClick={() => setLines((prev) => prev.filter((item) => item.key !== line.key))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setLines((prev) => [...prev, { key: nextKey.current++, productId: "", quantity: "1" }])}
+          data-testid="button-add-component"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Bagel
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {count} bagels, {money(separately)} bought separately against {money(parseFloat(product.price))} for the bundle
+      </p>
+      <DialogFooter>
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || count === 0} data-testid="button-save-contents">
+          Save Contents
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
+
+function ProductDialog({ product, onClose }: { product: ProductWithVariants | null; onClose: () => void }) {
+  // A new product gets its recipe, packs and image once it has been created
+  const [createdId, setCreatedId] = useState<string | null>(null);
+  const { data: products } = useQuery<ProductWithVariants[]>({
+    queryKey: ["/api/admin/products"],
+  });
+  const current = products?.find((item) => item.id === (product?.id || createdId)) || product;
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif">{current ? current.name : "New Product"}</DialogTitle>
+        </DialogHeader>
+        <Tabs defaultValue="details">
+          {current?.bundleType ? (
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="contents">Contents</TabsTrigger>
+            </TabsList>
+          ) : (
+            <TabsList className="grid w-full grid-cols-4">
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="recipe" disabled={!current}>Recipe</TabsTrigger>
+              <TabsTrigger value="packs" disabled={!current}>Pack Sizes</TabsTrigger>
+              <TabsTrigger value="history" disabled={!current}>History</TabsTrigger>
+            </TabsList>
+          )}
+          <TabsContent value="details" className="pt-4">
+            <DetailsTab key={current?.id || "new"} product={current} onSaved={(saved) => setCreatedId(saved.id)} />
+          </TabsContent>
+          {current?.bundleType && (
+            <TabsContent value="contents" className="pt-4">
+              <ContentsTab product={current} />
+            </TabsContent>
+          )}
+          {current && !current.bundleType && (
+            <>
+              <TabsContent value="recipe" className="pt-4">
+                <RecipeTab product={current} />
+              </TabsContent>
+              <TabsContent value="packs" className="pt-4">
+                <PackSizesTab product={current} />
+              </TabsContent>
+              <TabsContent value="history" className="pt-4">
+                <RecipeHistory productId={current.id} />
+              </TabsContent>
+            </>
+          )}
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AdminProducts() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can("catalog:manage");
+  const [showArchived, setShowArchived] = useState(false);
+  const [editing, setEditing] = useState<ProductWithVariants | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const { data: products, isLoading } = useQuery<ProductWithVariants[]>({
+    queryKey: ["/api/admin/products"],
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async ({ id, archive }: { id: string; archive: boolean }) => {
+      return archive
+        ? await apiRequest("DELETE", `/api/admin/products/${id}`)
+        : await apiRequest("POST", `/api/admin/products/${id}/restore`);
+    },
+    onSuccess: (_, { archive }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/costing"] });
+      toast({
+        title: archive ? "Product Archived" : "Product Restored",
+        description: archive ? "It's off sale and hidden from the bakehouse" : "Switch it on sale again when it's ready",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const visible = products?.filter((product) => !!product.archivedAt === showArchived) || [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="font-serif text-3xl font-bold">Products</h1>
+          <p className="text-muted-foreground mt-1">
+            The menu, its recipes and the packs each bagel is sold in
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} data-testid="switch-show-archived" />
+            <Label htmlFor="show-archived">Archived</Label>
+          </div>
+          {canManage && (
+            <Button onClick={() => setIsCreating(true)} data-testid="button-new-product">
+              <Plus className="h-4 w-4 mr-2" />
+              New Product
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-48 rounded-xl" />
+          ))}
+        </div>
+      ) : visible.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            {showArchived ? "No archived products" : "No products yet"}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {visible.map((product) => (
+            <Card key={product.id} className="overflow-hidden" data-testid={`card-product-${product.id}`}>
+              <div className="h-32 bg-muted flex items-center justify-center">
+                {product.imageUrl ? (
+                  <img src={product.imageUrl} alt={product.name} className="h-full w-full object-cover" />
+                ) : (
+                  <Package className="h-10 w-10 text-muted-foreground" />
+                )}
+              </div>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <h3 className="font-semibold">{product.name}</h3>
+                    <p className="text-sm text-muted-foreground">{money(parseFloat(product.price))} {product.bundleType ? "per bundle" : "each"}</p>
+                  </div>
+                  {product.archivedAt ? (
+                    <Badge variant="outline">Archived</Badge>
+                  ) : product.isActive ? (
+                    <Badge variant="secondary">On sale</Badge>
+                  ) : (
+                    <Badge variant="outline">Off sale</Badge>
+                  )}
+                </div>
+                {product.variants.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {product.variants.map((variant) => (
+                      <Badge key={variant.id} variant="outline" className={variant.isActive ? "" : "opacity-50"}>
+                        {variant.name} {money(parseFloat(variant.price))}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {canManage && (
+                  <div className="flex justify-end gap-2">
+                    {!product.archivedAt && (
+                      <Button size="sm" variant="outline" onClick={() => setEditing(product)} data-testid={`button-edit-product-${product.id}`}>
+                        <Pencil className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => archiveMutation.mutate({ id: product.id, archive: !product.archivedAt })}
+                      disabled={archiveMutation.isPending}
+                      data-testid={`button-archive-product-${product.id}`}
+                    >
+                      {product.archivedAt ? (
+                        <><ArchiveRestore className="h-4 w-4 mr-1" />Restore</>
+                      ) : (
+                        <><Archive className="h-4 w-4 mr-1" />Archive</>
+                      )}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {(editing || isCreating) && (
+        <ProductDialog
+          product={editing}
+          onClose={() => {
+            setEditing(null);
+            setIsCreating(false);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,1000 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format, addDays } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { escapeHtml } from "@/lib/utils";
+import {
+  ClipboardList,
+  Plus,
+  Pencil,
+  Send,
+  PackageCheck,
+  Printer,
+  Download,
+  XCircle,
+  Trash2,
+  Sparkles,
+  Store,
+} from "lucide-react";
+import type { Ingredient, PurchaseOrder, PurchaseOrderItem, Supplier } from "@shared/schema";
+
+type PurchaseOrderDetail = PurchaseOrder & {
+  supplier: Supplier;
+  items: (PurchaseOrderItem & { ingredient: Ingredient })[];
+};
+
+const statusColors: Record<string, string> = {
+  draft: "bg-muted text-muted-foreground",
+  sent: "bg-blue-500/10 text-blue-600 border-blue-500/20",
+  partially_received: "bg-orange-500/10 text-orange-600 border-orange-500/20",
+  received: "bg-green-500/10 text-green-600 border-green-500/20",
+  cancelled: "bg-destructive/10 text-destructive border-destructive/20",
+};
+
+const NO_SUPPLIER = "none";
+
+const supplierFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  contactName: z.string().optional(),
+  email: z.string().email("Enter a valid email").or(z.literal("")).optional(),
+  phone: z.string().optional(),
+  address: z.string().optional(),
+  leadTimeDays: z.coerce.number().int().min(0),
+  notes: z.string().optional(),
+  isActive: z.boolean(),
+});
+
+const purchaseOrderFormSchema = z.object({
+  supplierId: z.string().min(1, "Pick a supplier"),
+  expectedDate: z.string().optional(),
+  notes: z.string().optional(),
+  items: z.array(z.object({
+    ingredientId: z.string().min(1, "Pick an ingredient"),
+    quantity: z.coerce.number().positive("More than 0"),
+    unitCost: z.coerce.number().min(0),
+  })).min(1, "Add at least one ingredient"),
+});
+
+type SupplierFormData = z.infer<typeof supplierFormSchema>;
+type PurchaseOrderFormData = z.infer<typeof purchaseOrderFormSchema>;
+
+const emptySupplier: SupplierFormData = {
+  name: "",
+  contactName: "",
+  email: "",
+  phone: "",
+  address: "",
+  leadTimeDays: 3,
+  notes: "",
+  isActive: true,
+};
+
+const emptyPurchaseOrder: PurchaseOrderFormData = {
+  supplierId: "",
+  expectedDate: "",
+  notes: "",
+  items: [{ ingredientId: "", quantity: 1, unitCost: 0 }],
+};
+
+function money(value: string | number) {
+  return `$${(typeof value === "string" ? parseFloat(value) : value).toFixed(2)}`;
+}
+
+function printPurchaseOrder(po: PurchaseOrderDetail) {
+  const content = `
+    <html>
+      <head>
+        <title>${escapeHtml(po.poNumber)} - D'Havi Spelt Bagels</title>
+        <style>
+          * { margin: 0; padding: 0; box-sizing: border-box; }
+          body { font-family: 'Segoe UI', system-ui, sans-serif; padding: 40px; max-width: 800px; margin: 0 auto; color: #333; }
+          .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 40px; padding-bottom: 20px; border-bottom: 3px solid #d4a017; }
+          .brand { font-size: 28px; font-weight: bold; color: #1a1a1a; }
+          .title { text-align: right; }
+          .title h1 { font-size: 28px; color: #d4a017; margin-bottom: 8px; }
+          .details { display: flex; justify-content: space-between; margin-bottom: 40px; }
+          .details h3 { font-size: 12px; text-transform: uppercase; color: #888; margin-bottom: 8px; letter-spacing: 1px; }
+          .details p { margin-bottom: 4px; line-height: 1.5; }
+          table { width: 100%; border-collapse: collapse; margin-bottom: 30px; }
+          th { text-align: left; padding: 12px; font-size: 12px; text-transform: uppercase; color: #666; border-bottom: 2px solid #e0e0e0; }
+          td { padding: 12px; border-bottom: 1px solid #eee; }
+          .num { text-align: right; }
+          .total { text-align: right; font-size: 20px; font-weight: 700; color: #d4a017; }
+          .notes { background: #f8f9fa; padding: 16px; border-radius: 8px; margin-top: 30px; color: #666; font-size: 13px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <div class="brand">D'Havi Spelt Bagels</div>
+          <div class="title">
+            <h1>PURCHASE ORDER</h1>
+            <div>${escapeHtml(po.poNumber)}</div>
+          </div>
+        </div>
+        <div class="details">
+          <div>
+            <h3>Supplier</h3>
+            <p><strong>${escapeHtml(po.supplier.name)}</strong></p>
+            ${po.supplier.contactName ? `<p>${escapeHtml(po.supplier.contactName)}</p>` : ""}
+            ${po.supplier.email ? `<p>${escapeHtml(po.supplier.email)}</p>` : ""}
+            ${po.supplier.phone ? `<p>${escapeHtml(po.supplier.phone)}</p>` : ""}
+            ${po.supplier.address ? `<p>${escapeHtml(po.supplier.address)}</p>` : ""}
+          </div>
+          <div style="text-align: right;">
+            <h3>Order Details</h3>
+            <p><strong>Date:</strong> ${format(new Date(po.sentAt || po.createdAt || new Date()), "MMM d, yyyy")}</p>
+            ${po.expectedDate ? `<p><strong>Deliver by:</strong> ${format(new Date(po.expectedDate), "MMM d, yyyy")}</p>` : ""}
+          </div>
+        </div>
+        <table>
+          <thead>
+            <tr><th>Item</th><th class="num">Qty</th><th class="num">Unit Cost</th><th class="num">Amount</th></tr>
+          </thead>
+          <tbody>
+            ${po.items.map((item) => `
+              <tr>
+                <td>${escapeHtml(item.ingredient.name)}</td>
+                <td class="num">${parseFloat(item.quantity)} ${escapeHtml(item.ingredient.unit)}</td>
+                <td class="num">$${parseFloat(item.unitCost).toFixed(4)}</td>
+                <td class="num">$${(parseFloat(item.quantity) * parseFloat(item.unitCost)).toFixed(2)}</td>
+              </tr>
+            `).join("")}
+          </tbody>
+        </table>
+        <div class="total">Total ${money(po.total)}</div>
+        ${po.notes ? `<div class="notes">${escapeHtml(po.notes)}</div>` : ""}
+      </body>
+    </html>
+  `;
+
+  const printWindow = window.open("", "_blank");
+  if (printWindow) {
+    printWindow.document.write(content);
+    printWindow.document.close();
+    printWindow.print();
+  }
+}
+
+interface ReceiveDialogProps {
+  purchaseOrder: PurchaseOrderDetail;
+  onClose: () => void;
+}
+
+// Prefills what's still outstanding at the quoted price
+function ReceiveDialog({ purchaseOrder, onClose }: ReceiveDialogProps) {
+  const { toast } = useToast();
+  const [lines, setLines] = useState(() =>
+    purchaseOrder.items.map((item) => ({
+      itemId: item.id,
+      quantity: Math.max(0, parseFloat(item.quantity) - parseFloat(item.receivedQuantity)).toString(),
+      unitCost: parseFloat(item.unitCost).toString(),
+      lotCode: "",
+      expiresOn: "",
+    }))
+  );
+
+  const receiveMutation = useMutation({
+    mutationFn: async () => {
+      const items = lines
+        .filter((line) => parseFloat(line.quantity) > 0)
+        .map((line) => ({
+          itemId: line.itemId,
+          quantity: parseFloat(line.quantity),
+          unitCost: parseFloat(line.unitCost) || 0,
+          lotCode: line.lotCode.trim() || undefined,
+          expiresOn: line.expiresOn || undefined,
+        }));
+      return await apiRequest("POST", `/api/admin/purchase-orders/${purchaseOrder.id}/receive`, { items });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ingredients"] });
+      toast({ title: "Delivery Received", description: "Pantry stock and costs have been updated" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateLine = (itemId: string, changes: Partial<{ quantity: string; unitCost: string; lotCode: string; expiresOn: string }>) => {
+    setLines((prev) => prev.map((line) => (line.itemId === itemId ? { ...line, ...changes } : line)));
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="font-serif">Receive {purchaseOrder.poNumber}</DialogTitle>
+          <DialogDescription>
+            Enter what arrived and what you paid. The price becomes the ingredient's cost per unit,
+            and each line is booked in as a lot with its code and best-before date.
+          </DialogDescription>
+        </DialogHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Ingredient</TableHead>
+              <TableHead className="text-right">Ordered</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead>Arrived</TableHead>
+              <TableHead>Unit cost</TableHead>
+              <TableHead>Lot code</TableHead>
+              <TableHead>Best before</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {purchaseOrder.items.map((item) => {
+              const line = lines.find((l) => l.itemId === item.id)!;
+              return (
+                <TableRow key={item.id}>
+                  <TableCell>{item.ingredient.name}</TableCell>
+                  <TableCell className="text-right">{parseFloat(item.quantity)} {item.ingredient.unit}</TableCell>
+                  <TableCell className="text-right">{parseFloat(item.receivedQuantity)}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      className="w-24"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(item.id, { quantity: e.target.value })}
+                      data-testid={`input-receive-qty-${item.id}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      className="w-28"
+                      value={line.unitCost}
+                      onChange={(e) => updateLine(item.id, { unitCost: e.target.value })}
+                      data-testid={`input-receive-cost-${item.id}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      className="w-28"
+                      value={line.lotCode}
+                      onChange={(e) => updateLine(item.id, { lotCode: e.target.value })}
+                      data-testid={`input-receive-lot-${item.id}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="date"
+                      className="w-36"
+                      value={line.expiresOn}
+                      onChange={(e) => updateLine(item.id, { expiresOn: e.target.value })}
+                      data-testid={`input-receive-expiry-${item.id}`}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => receiveMutation.mutate()}
+            disabled={receiveMutation.isPending || lines.every((line) => !(parseFloat(line.quantity) > 0))}
+            data-testid="button-confirm-receive"
+          >
+            {receiveMutation.isPending ? "Receiving..." : "Receive"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AdminPurchasing() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("inventory:manage");
+  const [supplierDialogOpen, setSupplierDialogOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [poDialogOpen, setPoDialogOpen] = useState(false);
+  const [editingPo, setEditingPo] = useState<PurchaseOrderDetail | null>(null);
+  const [receivingPo, setReceivingPo] = useState<PurchaseOrderDetail | null>(null);
+
+  const { data: purchaseOrders, isLoading } = useQuery<PurchaseOrderDetail[]>({
+    queryKey: ["/api/admin/purchase-orders"],
+  });
+
+  const { data: suppliers } = useQuery<Supplier[]>({
+    queryKey: ["/api/admin/suppliers"],
+  });
+
+  const { data: ingredients } = useQuery<Ingredient[]>({
+    queryKey: ["/api/admin/ingredients"],
+  });
+
+  const supplierForm = useForm<SupplierFormData>({
+    resolver: zodResolver(supplierFormSchema),
+    defaultValues: emptySupplier,
+  });
+
+  const poForm = useForm<PurchaseOrderFormData>({
+    resolver: zodResolver(purchaseOrderFormSchema),
+    defaultValues: emptyPurchaseOrder,
+  });
+  const poLines = useFieldArray({ control: poForm.control, name: "items" });
+
+  const saveSupplierMutation = useMutation({
+    mutationFn: async (data: SupplierFormData) => {
+      if (editingSupplier) {
+        return await apiRequest("PATCH", `/api/admin/suppliers/${editingSupplier.id}`, data);
+      }
+      return await apiRequest("POST", "/api/admin/suppliers", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/purchase-orders"] });
+      toast({ title: editingSupplier ? "Supplier Updated" : "Supplier Added" });
+      setSupplierDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const assignSupplierMutation = useMutation({
+    mutationFn: async ({ ingredientId, supplierId }: { ingredientId: string; supplierId: string | null }) => {
+      return await apiRequest("PATCH", `/api/admin/ingredients/${ingredientId}`, { supplierId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ingredients"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const savePoMutation = useMutation({
+    mutationFn: async (data: PurchaseOrderFormData) => {
+      const body = { ...data, expectedDate: data.expectedDate || null };
+      if (editingPo) {
+        const { supplierId, ...changes } = body;
+        return await apiRequest("PATCH", `/api/admin/purchase-orders/${editingPo.id}`, changes);
+      }
+      return await apiRequest("POST", "/api/admin/purchase-orders", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/purchase-orders"] });
+      toast({ title: editingPo ? "Purchase Order Updated" : "Purchase Order Drafted" });
+      setPoDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const draftFromLowStockMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/purchase-orders/drafts", {});
+      return await res.json() as { purchaseOrders: PurchaseOrder[]; unassigned: Ingredient[] };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/purchase-orders"] });
+      const unassigned = result.unassigned.length > 0
+        ? ` ${result.unassigned.map((i) => i.name).join(", ")} need a supplier first.`
+        : "";
+      toast({
+        title: result.purchaseOrders.length > 0 ? "Drafts Created" : "Nothing to Draft",
+        description: `${result.purchaseOrders.length} draft purchase order(s) from low stock.${unassigned}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "sent" | "cancelled" }) => {
+      return await apiRequest("PATCH", `/api/admin/purchase-orders/${id}/status`, { status });
+    },
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/purchase-orders"] });
+      toast({ title: status === "sent" ? "Marked as Sent" : "Purchase Order Cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openSupplierDialog = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    supplierForm.reset(supplier ? {
+      name: supplier.name,
+      contactName: supplier.contactName || "",
+      email: supplier.email || "",
+      phone: supplier.phone || "",
+      address: supplier.address || "",
+      leadTimeDays: supplier.leadTimeDays,
+      notes: supplier.notes || "",
+      isActive: supplier.isActive,
+    } : emptySupplier);
+    setSupplierDialogOpen(true);
+  };
+
+  const openPoDialog = (po: PurchaseOrderDetail | null) => {
+    setEditingPo(po);
+    poForm.reset(po ? {
+      supplierId: po.supplierId,
+      expectedDate: po.expectedDate ? format(new Date(po.expectedDate), "yyyy-MM-dd") : "",
+      notes: po.notes || "",
+      items: po.items.map((item) => ({
+        ingredientId: item.ingredientId,
+        quantity: parseFloat(item.quantity),
+        unitCost: parseFloat(item.unitCost),
+      })),
+    } : emptyPurchaseOrder);
+    setPoDialogOpen(true);
+  };
+
+  // New drafts default to the supplier's lead time and their ingredients' last prices
+  const pickSupplier = (supplierId: string) => {
+    poForm.setValue("supplierId", supplierId);
+    const supplier = suppliers?.find((s) => s.id === supplierId);
+    if (supplier && !editingPo) {
+      poForm.setValue("expectedDate", format(addDays(new Date(), supplier.leadTimeDays), "yyyy-MM-dd"));
+    }
+  };
+
+  const pickIngredient = (index: number, ingredientId: string) => {
+    poForm.setValue(`items.${index}.ingredientId`, ingredientId);
+    const ingredient = ingredients?.find((i) => i.id === ingredientId);
+    if (ingredient?.costPerUnit) {
+      poForm.setValue(`items.${index}.unitCost`, parseFloat(ingredient.costPerUnit));
+    }
+  };
+
+  const activeSuppliers = suppliers?.filter((s) => s.isActive) || [];
+  const openOrders = purchaseOrders?.filter((po) => ["draft", "sent", "partially_received"].includes(po.status)) || [];
+  const closedOrders = purchaseOrders?.filter((po) => !openOrders.includes(po)) || [];
+
+  const renderOrder = (po: PurchaseOrderDetail) => (
+    <div
+      key={po.id}
+      className="flex flex-col lg:flex-row lg:items-center justify-between p-4 rounded-lg border border-border gap-4"
+      data-testid={`po-card-${po.id}`}
+    >
+      <div className="flex-1">
+        <div className="flex flex-wrap items-center gap-3 mb-1">
+          <span className="font-semibold">{po.poNumber}</span>
+          <span>{po.supplier.name}</span>
+          <Badge variant="outline" className={statusColors[po.status]}>
+            {po.status.replace("_", " ")}
+          </Badge>
+          <span className="text-sm text-muted-foreground">{money(po.total)}</span>
+          {po.expectedDate && (
+            <span className="text-sm text-muted-foreground">
+              due {format(new Date(po.expectedDate), "MMM d")}
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2 mt-2">
+          {po.items.map((item) => (
+            <Badge key={item.id} variant="secondary">
+              {item.ingredient.name}: {parseFloat(item.quantity)} {item.ingredient.unit}
+              {parseFloat(item.receivedQuantity) > 0 && ` (${parseFloat(item.receivedQuantity)} in)`}
+            </Badge>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="ghost" size="icon" onClick={() => printPurchaseOrder(po)} data-testid={`button-print-po-${po.id}`}>
+          <Printer className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" asChild>
+          <a href={`/api/admin/purchase-orders/${po.id}/export`} data-testid={`button-export-po-${po.id}`}>
+            <Download className="h-4 w-4" />
+          </a>
+        </Button>
+        {canEdit && po.status === "draft" && (
+          <>
+            <Button variant="outline" size="sm" onClick={() => openPoDialog(po)} data-testid={`button-edit-po-${po.id}`}>
+              <Pencil className="h-4 w-4 mr-1" />
+              Edit
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => statusMutation.mutate({ id: po.id, status: "sent" })}
+              disabled={statusMutation.isPending}
+              data-testid={`button-send-po-${po.id}`}
+            >
+              <Send className="h-4 w-4 mr-1" />
+              Mark Sent
+            </Button>
+          </>
+        )}
+        {canEdit && (po.status === "sent" || po.status === "partially_received") && (
+          <Button size="sm" onClick={() => setReceivingPo(po)} data-testid={`button-receive-po-${po.id}`}>
+            <PackageCheck className="h-4 w-4 mr-1" />
+            Receive
+          </Button>
+        )}
+        {canEdit && ["draft", "sent", "partially_received"].includes(po.status) && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => statusMutation.mutate({ id: po.id, status: "cancelled" })}
+            disabled={statusMutation.isPending}
+            data-testid={`button-cancel-po-${po.id}`}
+          >
+            <XCircle className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="font-serif text-3xl font-bold flex items-center gap-3">
+            <ClipboardList className="h-8 w-8" />
+            Purchasing
+          </h1>
+          <p className="text-muted-foreground mt-1">Suppliers and pantry restocking</p>
+        </div>
+        {canEdit && (
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => draftFromLowStockMutation.mutate()}
+              disabled={draftFromLowStockMutation.isPending}
+              data-testid="button-draft-low-stock"
+            >
+              <Sparkles className="h-4 w-4 mr-2" />
+              {draftFromLowStockMutation.isPending ? "Drafting..." : "Draft from Low Stock"}
+            </Button>
+            <Button onClick={() => openPoDialog(null)} disabled={activeSuppliers.length === 0} data-testid="button-new-po">
+              <Plus className="h-4 w-4 mr-2" />
+              New Purchase Order
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Tabs defaultValue="orders">
+        <TabsList>
+          <TabsTrigger value="orders">Purchase Orders</TabsTrigger>
+          <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="orders" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Open</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-4">
+                  {[1, 2].map((i) => (
+                    <Skeleton key={i} className="h-20 w-full" />
+                  ))}
+                </div>
+              ) : openOrders.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <ClipboardList className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                  <p>No open purchase orders</p>
+                </div>
+              ) : (
+                <div className="space-y-4">{openOrders.map(renderOrder)}</div>
+              )}
+            </CardContent>
+          </Card>
+
+          {closedOrders.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-muted-foreground">Received & Cancelled</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">{closedOrders.slice(0, 20).map(renderOrder)}</div>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="suppliers" className="space-y-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Store className="h-5 w-5" />
+                Suppliers
+              </CardTitle>
+              {canEdit && (
+                <Button size="sm" onClick={() => openSupplierDialog(null)} data-testid="button-new-supplier">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Supplier
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {!suppliers || suppliers.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">No suppliers yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Contact</TableHead>
+                      <TableHead>Lead time</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {suppliers.map((supplier) => (
+                      <TableRow key={supplier.id} data-testid={`supplier-row-${supplier.id}`}>
+                        <TableCell className="font-medium">{supplier.name}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {[supplier.contactName, supplier.email, supplier.phone].filter(Boolean).join(" · ")}
+                        </TableCell>
+                        <TableCell>{supplier.leadTimeDays} days</TableCell>
+                        <TableCell>
+                          <Badge variant={supplier.isActive ? "secondary" : "outline"}>
+                            {supplier.isActive ? "Active" : "Inactive"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {canEdit && (
+                            <Button variant="ghost" size="icon" onClick={() => openSupplierDialog(supplier)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Who Supplies What</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground mb-4">
+                Low-stock drafts go to each ingredient's supplier.
+              </p>
+              <div className="space-y-2">
+                {ingredients?.map((ingredient) => (
+                  <div key={ingredient.id} className="flex items-center justify-between gap-4">
+                    <span>{ingredient.name}</span>
+                    <Select
+                      value={ingredient.supplierId || NO_SUPPLIER}
+                      onValueChange={(value) => assignSupplierMutation.mutate({
+                        ingredientId: ingredient.id,
+                        supplierId: value === NO_SUPPLIER ? null : value,
+                      })}
+                      disabled={!canEdit}
+                    >
+                      <SelectTrigger className="w-56" data-testid={`select-supplier-${ingredient.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_SUPPLIER}>No supplier</SelectItem>
+                        {suppliers?.map((supplier) => (
+                          <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {receivingPo && (
+        <ReceiveDialog purchaseOrder={receivingPo} onClose={() => setReceivingPo(null)} />
+      )}
+
+      <Dialog open={supplierDialogOpen} onOpenChange={setSupplierDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="font-serif">{editingSupplier ? "Edit Supplier" : "Add Supplier"}</DialogTitle>
+          </DialogHeader>
+          <Form {...supplierForm}>
+            <form onSubmit={supplierForm.handleSubmit((data) => saveSupplierMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={supplierForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-supplier-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={supplierForm.control}
+                  name="contactName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Contact</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={supplierForm.control}
+                  name="leadTimeDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lead time (days)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={supplierForm.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={supplierForm.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={supplierForm.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={supplierForm.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} placeholder="Account number, delivery days, minimums..." />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={supplierForm.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-3">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel className="!mt-0">Active</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setSupplierDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveSupplierMutation.isPending} data-testid="button-save-supplier">
+                  {saveSupplierMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={poDialogOpen} onOpenChange={setPoDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-serif">
+              {editingPo ? `Edit ${editingPo.poNumber}` : "New Purchase Order"}
+            </DialogTitle>
+          </DialogHeader>
+          <Form {...poForm}>
+            <form onSubmit={poForm.handleSubmit((data) => savePoMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={poForm.control}
+                  name="supplierId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Supplier</FormLabel>
+                      <Select onValueChange={pickSupplier} value={field.value} disabled={!!editingPo}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-po-supplier">
+                            <SelectValue placeholder="Select supplier" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {activeSuppliers.map((supplier) => (
+                            <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={poForm.control}
+                  name="expectedDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expected delivery</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <FormLabel>Ingredients</FormLabel>
+                {poLines.fields.map((line, index) => (
+                  <div key={line.id} className="grid grid-cols-[1fr_6rem_7rem_auto] gap-2 items-start">
+                    <FormField
+                      control={poForm.control}
+                      name={`items.${index}.ingredientId`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <Select onValueChange={(value) => pickIngredient(index, value)} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid={`select-po-ingredient-${index}`}>
+                                <SelectValue placeholder="Ingredient" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {ingredients?.map((ingredient) => (
+                                <SelectItem key={ingredient.id} value={ingredient.id}>
+                                  {ingredient.name} ({ingredient.unit})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={poForm.control}
+                      name={`items.${index}.quantity`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input type="number" min="0" step="any" placeholder="Qty" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={poForm.control}
+                      name={`items.${index}.unitCost`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input type="number" min="0" step="any" placeholder="Unit cost" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => poLines.remove(index)}
+                      disabled={poLines.fields.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => poLines.append({ ingredientId: "", quantity: 1, unitCost: 0 })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Ingredient
+                </Button>
+              </div>
+
+              <FormField
+                control={poForm.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes (optional)</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setPoDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={savePoMutation.isPending} data-testid="button-save-po">
+                  {savePoMutation.isPending ? "Saving..." : "Save Draft"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,457 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { escapeHtml } from "@/lib/utils";
+import { ShieldAlert, Download, Printer, Snowflake, Users, ChefHat, Lock, Unlock } from "lucide-react";
+import type { Batch, FreezerStock, Ingredient, IngredientLot, Product } from "@shared/schema";
+
+interface RecallOrder {
+  orderId: string;
+  orderNumber: string;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string | null;
+  fulfillmentDate: string;
+  status: string;
+  via: "received" | "scheduled";
+  batchIds: string[];
+  items: { productName: string; quantity: number }[];
+}
+
+interface RecallReport {
+  scope: string;
+  batches: Batch[];
+  stock: (FreezerStock & { product: Product; held: number })[];
+  orders: RecallOrder[];
+}
+
+type Scope = "batch" | "ingredient";
+
+const ALL_LOTS = "all";
+
+function batchLabel(batch: Batch) {
+  return `${format(new Date(batch.batchDate), "EEE MMM d, yyyy")} (${batch.shift})`;
+}
+
+function printRecall(report: RecallReport) {
+  const content = `
+    <html>
+      <head>
+        <title>Recall - ${escapeHtml(report.scope)} - D'Havi Spelt Bagels</title>
+        <style>
+          * { margin: 0; padding: 0; box-sizing: border-box; }
+          body { font-family: 'Segoe UI', system-ui, sans-serif; padding: 40px; max-width: 900px; margin: 0 auto; color: #333; }
+          .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 30px; padding-bottom: 20px; border-bottom: 3px solid #d4a017; }
+          .brand { font-size: 28px; font-weight: bold; color: #1a1a1a; }
+          .title { text-align: right; }
+          .title h1 { font-size: 24px; color: #b91c1c; margin-bottom: 8px; }
+          h2 { font-size: 14px; text-transform: uppercase; color: #888; letter-spacing: 1px; margin: 24px 0 8px; }
+          table { width: 100%; border-collapse: collapse; font-size: 13px; }
+          th { text-align: left; padding: 8px; font-size: 11px; text-transform: uppercase; color: #666; border-bottom: 2px solid #e0e0e0; }
+          td { padding: 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+          .num { text-align: right; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <div class="brand">D'Havi Spelt Bagels</div>
+          <div class="title">
+            <h1>RECALL REPORT</h1>
+            <div>${escapeHtml(report.scope)}</div>
+            <div>${format(new Date(), "MMM d, yyyy h:mm a")}</div>
+          </div>
+        </div>
+        <h2>Batches</h2>
+        <table>
+          <tbody>
+            ${report.batches.map((batch) => `<tr><td>${escapeHtml(batchLabel(batch))}</td><td>${escapeHtml(batch.status.replace("_", " "))}</td></tr>`).join("")}
+          </tbody>
+        </table>
+        <h2>Customers (${report.orders.length})</h2>
+        <table>
+          <thead>
+            <tr><th>Customer</th><th>Contact</th><th>Fulfillment</th><th>Products</th><th>Status</th></tr>
+          </thead>
+          <tbody>
+            ${report.orders.map((order) => `
+              <tr>
+                <td>${escapeHtml(order.customerName)}<br/><small>${escapeHtml(order.orderNumber)}</small></td>
+                <td>${escapeHtml(order.customerEmail)}${order.customerPhone ? `<br/>${escapeHtml(order.customerPhone)}` : ""}</td>
+                <td>${format(new Date(order.fulfillmentDate), "MMM d, yyyy")}</td>
+                <td>${order.items.map((item) => `${escapeHtml(item.quantity)}x ${escapeHtml(item.productName)}`).join("<br/>") || "Awaiting bake"}</td>
+                <td>${escapeHtml(order.status)}${order.via === "scheduled" ? " (scheduled)" : ""}</td>
+              </tr>
+            `).join("")}
+          </tbody>
+        </table>
+        <h2>Freezer Stock</h2>
+        <table>
+          <thead>
+            <tr><th>Product</th><th>Frozen</th><th class="num">On hand</th><th>Status</th></tr>
+          </thead>
+          <tbody>
+            ${report.stock.map((row) => `
+              <tr>
+                <td>${escapeHtml(row.product.name)}</td>
+                <td>${row.frozenAt ? format(new Date(row.frozenAt), "MMM d, yyyy") : ""}</td>
+                <td class="num">${escapeHtml(row.quantity)}</td>
+                <td>${row.quarantinedAt ? `Quarantined: ${escapeHtml(row.quarantineReason)}` : "On sale"}</td>
+              </tr>
+            `).join("")}
+          </tbody>
+        </table>
+      </body>
+    </html>
+  `;
+
+  const printWindow = window.open("", "_blank");
+  if (printWindow) {
+    printWindow.document.write(content);
+    printWindow.document.close();
+    printWindow.print();
+  }
+}
+
+export default function AdminRecalls() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canQuarantine = can("inventory:manage");
+  const [scope, setScope] = useState<Scope>("batch");
+  const [batchId, setBatchId] = useState("");
+  const [ingredientId, setIngredientId] = useState("");
+  const [lotId, setLotId] = useState(ALL_LOTS);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [reason, setReason] = useState("");
+
+  const { data: batches } = useQuery<Batch[]>({
+    queryKey: ["/api/admin/batches"],
+  });
+
+  const { data: ingredients } = useQuery<Ingredient[]>({
+    queryKey: ["/api/admin/ingredients"],
+  });
+
+  const { data: lots } = useQuery<IngredientLot[]>({
+    queryKey: ["/api/admin/ingredients", ingredientId, "lots"],
+    enabled: scope === "ingredient" && !!ingredientId,
+  });
+
+  const params = scope === "batch"
+    ? (batchId ? `batchId=${batchId}` : "")
+    : lotId !== ALL_LOTS
+      ? `lotId=${lotId}`
+      : ingredientId ? `ingredientId=${ingredientId}` : "";
+
+  const { data: report, isLoading } = useQuery<RecallReport>({
+    queryKey: ["/api/admin/recalls", params],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/admin/recalls?${params}`);
+      return response.json();
+    },
+    enabled: !!params,
+  });
+
+  const quarantineMutation = useMutation({
+    mutationFn: async ({ release }: { release: boolean }) => {
+      const freezerStockIds = Object.keys(selected).filter((id) => selected[id]);
+      if (release) {
+        await apiRequest("POST", "/api/admin/freezer/release", { freezerStockIds });
+        return { shortOrders: [] as string[] };
+      }
+      const response = await apiRequest("POST", "/api/admin/freezer/quarantine", { freezerStockIds, reason });
+      return response.json() as Promise<{ shortOrders: string[] }>;
+    },
+    onSuccess: ({ shortOrders }, { release }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/recalls"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/freezer"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      toast({
+        title: release ? "Stock Released" : "Stock Quarantined",
+        description: release
+          ? "The stock is back on sale"
+          : shortOrders.length
+            ? `${shortOrders.length} orders lost held bagels that couldn't be replaced from the freezer - they're on the bake plan now`
+            : "The stock no longer counts toward availability",
+      });
+      setSelected({});
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const selectedCount = Object.values(selected).filter(Boolean).length;
+  const customerCount = new Set(report?.orders.map((order) => order.customerEmail.toLowerCase())).size;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-serif text-3xl font-bold">Recalls</h1>
+        <p className="text-muted-foreground mt-1">
+          Find every order and customer that got product from a batch or ingredient lot
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <Select
+              value={scope}
+              onValueChange={(value) => {
+                setScope(value as Scope);
+                setSelected({});
+              }}
+            >
+              <SelectTrigger className="w-40" data-testid="select-recall-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="batch">By batch</SelectItem>
+                <SelectItem value="ingredient">By ingredient</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {scope === "batch" ? (
+              <Select value={batchId} onValueChange={setBatchId}>
+                <SelectTrigger className="w-72" data-testid="select-recall-batch">
+                  <SelectValue placeholder="Choose a batch" />
+                </SelectTrigger>
+                <SelectContent>
+                  {batches?.map((batch) => (
+                    <SelectItem key={batch.id} value={batch.id}>
+                      {batchLabel(batch)} - {batch.status.replace("_", " ")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <>
+                <Select
+                  value={ingredientId}
+                  onValueChange={(value) => {
+                    setIngredientId(value);
+                    setLotId(ALL_LOTS);
+                  }}
+                >
+                  <SelectTrigger className="w-56" data-testid="select-recall-ingredient">
+                    <SelectValue placeholder="Choose an ingredient" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ingredients?.map((ingredient) => (
+                      <SelectItem key={ingredient.id} value={ingredient.id}>{ingredient.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={lotId} onValueChange={setLotId} disabled={!ingredientId}>
+                  <SelectTrigger className="w-64" data-testid="select-recall-lot">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_LOTS}>All lots</SelectItem>
+                    {lots?.map((lot) => (
+                      <SelectItem key={lot.id} value={lot.id}>
+                        {lot.lotCode || "Uncoded"} - received {format(new Date(lot.receivedAt), "MMM d, yyyy")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </>
+            )}
+
+            {report && (
+              <div className="ml-auto flex gap-2">
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`/api/admin/recalls/export?${params}`} data-testid="button-export-recall">
+                    <Download className="h-4 w-4 mr-2" />
+                    CSV
+                  </a>
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => printRecall(report)} data-testid="button-print-recall">
+                  <Printer className="h-4 w-4 mr-2" />
+                  Print / PDF
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {!params ? null : isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : report && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="secondary" className="text-sm px-3 py-1">
+              <ChefHat className="h-4 w-4 mr-2" />
+              {report.batches.length} batch(es)
+            </Badge>
+            <Badge variant="secondary" className="text-sm px-3 py-1">
+              <Users className="h-4 w-4 mr-2" />
+              {customerCount} customer(s), {report.orders.length} order(s)
+            </Badge>
+            <Badge variant="secondary" className="text-sm px-3 py-1">
+              <Snowflake className="h-4 w-4 mr-2" />
+              {report.stock.reduce((sum, row) => sum + row.quantity, 0)} bag(s) in the freezer
+            </Badge>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Affected Orders
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.orders.length === 0 ? (
+                <p className="text-center py-6 text-muted-foreground">No orders received product from {report.scope}.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Contact</TableHead>
+                      <TableHead>Fulfillment</TableHead>
+                      <TableHead>Products</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.orders.map((order) => (
+                      <TableRow key={order.orderId} data-testid={`recall-order-${order.orderId}`}>
+                        <TableCell>
+                          <div className="font-medium">{order.customerName}</div>
+                          <div className="text-xs text-muted-foreground">{order.orderNumber}</div>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <div>{order.customerEmail}</div>
+                          {order.customerPhone && <div className="text-muted-foreground">{order.customerPhone}</div>}
+                        </TableCell>
+                        <TableCell>{format(new Date(order.fulfillmentDate), "MMM d, yyyy")}</TableCell>
+                        <TableCell className="text-sm">
+                          {order.items.length === 0
+                            ? <span className="text-muted-foreground">Awaiting bake</span>
+                            : order.items.map((item) => <div key={item.productName}>{item.quantity}x {item.productName}</div>)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            <Badge variant="outline">{order.status}</Badge>
+                            {order.via === "scheduled" && <Badge variant="secondary">Scheduled</Badge>}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <CardTitle className="flex items-center gap-2">
+                  <Snowflake className="h-5 w-5" />
+                  Freezer Stock
+                </CardTitle>
+                {canQuarantine && report.stock.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      placeholder="Reason"
+                      className="w-56"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      data-testid="input-quarantine-reason"
+                    />
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => quarantineMutation.mutate({ release: false })}
+                      disabled={selectedCount === 0 || !reason.trim() || quarantineMutation.isPending}
+                      data-testid="button-quarantine"
+                    >
+                      <Lock className="h-4 w-4 mr-2" />
+                      Quarantine
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => quarantineMutation.mutate({ release: true })}
+                      disabled={selectedCount === 0 || quarantineMutation.isPending}
+                      data-testid="button-release"
+                    >
+                      <Unlock className="h-4 w-4 mr-2" />
+                      Release
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {report.stock.length === 0 ? (
+                <p className="text-center py-6 text-muted-foreground">No freezer stock came from these batches.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {canQuarantine && <TableHead className="w-10" />}
+                      <TableHead>Product</TableHead>
+                      <TableHead>Batch</TableHead>
+                      <TableHead>Frozen</TableHead>
+                      <TableHead className="text-right">On hand</TableHead>
+                      <TableHead className="text-right">Held for orders</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.stock.map((row) => {
+                      const batch = report.batches.find((b) => b.id === row.batchId);
+                      return (
+                        <TableRow key={row.id} data-testid={`recall-stock-${row.id}`}>
+                          {canQuarantine && (
+                            <TableCell>
+                              <Checkbox
+                                checked={selected[row.id] || false}
+                                onCheckedChange={(checked) => setSelected((prev) => ({ ...prev, [row.id]: checked === true }))}
+                              />
+                            </TableCell>
+                          )}
+                          <TableCell className="font-medium">{row.product.name}</TableCell>
+                          <TableCell>{batch ? batchLabel(batch) : "-"}</TableCell>
+                          <TableCell>{row.frozenAt ? format(new Date(row.frozenAt), "MMM d, yyyy") : "-"}</TableCell>
+                          <TableCell className="text-right">{row.quantity}</TableCell>
+                          <TableCell className="text-right">{row.held}</TableCell>
+                          <TableCell>
+                            {row.quarantinedAt ? (
+                              <Badge variant="destructive" title={row.quarantineReason || undefined}>
+                                <ShieldAlert className="h-3 w-3 mr-1" />
+                                Quarantined
+                              </Badge>
+                            ) : (
+                              <Badge variant="outline">On sale</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertTriangle, CalendarClock, PlayCircle, Repeat } from "lucide-react";
+
+interface SubscriptionRow {
+  id: string;
+  status: "pending" | "active" | "paused" | "cancelled";
+  cadence: "weekly" | "biweekly";
+  fulfillmentWindow: string;
+  nextDeliveryDate: string;
+  resumeOn: string | null;
+  deliveryCity: string;
+  lastFailureReason: string | null;
+  lastFailedAt: string | null;
+  createdAt: string;
+  customer: { id: string; name: string; email: string };
+  items: string[];
+  bagels: number;
+}
+
+interface Obligation {
+  date: string;
+  window: string;
+  deliveries: { subscriptionId: string; customerName: string; bagels: number }[];
+  skipped: number;
+  products: { productId: string; productName: string; quantity: number }[];
+}
+
+const statusColors: Record<string, string> = {
+  pending: "bg-blue-500/10 text-blue-600 border-blue-500/20",
+  active: "bg-green-500/10 text-green-600 border-green-500/20",
+  paused: "bg-orange-500/10 text-orange-600 border-orange-500/20",
+  cancelled: "bg-muted text-muted-foreground border-border",
+};
+
+function dayDate(day: string) {
+  return new Date(`${day}T12:00:00`);
+}
+
+function nextDelivery(subscription: SubscriptionRow) {
+  if (subscription.status === "cancelled") return "-";
+  if (subscription.status === "paused") {
+    return subscription.resumeOn ? `Resumes ${format(dayDate(subscription.resumeOn), "MMM d")}` : "Paused";
+  }
+  return format(dayDate(subscription.nextDeliveryDate), "EEE, MMM d");
+}
+
+function AllSubscriptions() {
+  const { data: subscriptions, isLoading } = useQuery<SubscriptionRow[]>({
+    queryKey: ["/api/admin/subscriptions"],
+  });
+
+  if (isLoading) return <Skeleton className="h-48 w-full" />;
+  if (!subscriptions?.length) {
+    return <p className="text-center py-8 text-muted-foreground">No one has subscribed yet</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Customer</TableHead>
+          <TableHead>Bagels</TableHead>
+          <TableHead>Every</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Next Delivery</TableHead>
+          <TableHead>Last Problem</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {subscriptions.map((subscription) => (
+          <TableRow key={subscription.id} data-testid={`row-subscription-${subscription.id}`}>
+            <TableCell>
+              <p className="font-medium">{subscription.customer.name}</p>
+              <p className="text-xs text-muted-foreground">{subscription.customer.email}</p>
+            </TableCell>
+            <TableCell>
+              <p>{subscription.items.join(", ")}</p>
+              <p className="text-xs text-muted-foreground">{subscription.bagels} bagels, {subscription.fulfillmentWindow}, {subscription.deliveryCity}</p>
+            </TableCell>
+            <TableCell>{subscription.cadence === "weekly" ? "Week" : "2 weeks"}</TableCell>
+            <TableCell>
+              <Badge variant="outline" className={statusColors[subscription.status]}>{subscription.status}</Badge>
+            </TableCell>
+            <TableCell>{nextDelivery(subscription)}</TableCell>
+            <TableCell className="text-sm">
+              {subscription.lastFailedAt && subscription.lastFailureReason ? (
+                <span className="text-destructive">
+                  {format(new Date(subscription.lastFailedAt), "MMM d")}: {subscription.lastFailureReason}
+                </span>
+              ) : (
+                <span className="text-muted-foreground">-</span>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function Upcoming() {
+  const { data, isLoading } = useQuery<{ from: string; through: string; obligations: Obligation[] }>({
+    queryKey: ["/api/admin/subscriptions/upcoming"],
+  });
+
+  if (isLoading || !data) return <Skeleton className="h-48 w-full" />;
+  if (data.obligations.length === 0) {
+    return <p className="text-center py-8 text-muted-foreground">No subscription deliveries in the next four weeks</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Deliveries owed from {format(dayDate(data.from), "MMM d")} to {format(dayDate(data.through), "MMM d")} that haven't become orders yet
+      </p>
+      {data.obligations.map((slot) => (
+        <div key={`${slot.date}-${slot.window}`} className="rounded-lg border border-border p-4" data-testid={`obligation-${slot.date}-${slot.window}`}>
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">
+              {format(dayDate(slot.date), "EEE, MMM d")} <span className="text-muted-foreground capitalize">{slot.window}</span>
+            </span>
+            <span className="text-sm text-muted-foreground">
+              {slot.deliveries.length} deliveries
+              {slot.skipped > 0 && `, ${slot.skipped} skipped`}
+            </span>
+          </div>
+          {slot.products.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {slot.products.map((product) => (
+                <Badge key={product.productId} variant="secondary">
+                  {product.productName} x{product.quantity}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {slot.deliveries.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-2">
+              {slot.deliveries.map((delivery) => `${delivery.customerName} (${delivery.bagels})`).join(", ")}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function AdminSubscriptions() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const { data: subscriptions } = useQuery<SubscriptionRow[]>({
+    queryKey: ["/api/admin/subscriptions"],
+  });
+
+  // The hourly job does this on its own; the button is for when an order is needed right now
+  const placeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/subscriptions/place-orders", {});
+      return response.json() as Promise<{ placedOrders: string[]; failedSubscriptions: string[]; retryingSubscriptions: string[] }>;
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/subscriptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/subscriptions/upcoming"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      toast({
+        title: "Subscription Orders Placed",
+        description: report.placedOrders.length || report.failedSubscriptions.length || report.retryingSubscriptions.length
+          ? `${report.placedOrders.length} placed, ${report.failedSubscriptions.length} couldn't be charged`
+            + (report.retryingSubscriptions.length ? `, ${report.retryingSubscriptions.length} hit an error and will be retried` : "")
+          : "Nothing was due",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const active = (subscriptions || []).filter((subscription) => subscription.status === "active");
+  const failing = active.filter((subscription) => subscription.lastFailedAt).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="font-serif text-3xl font-bold">Subscriptions</h1>
+          <p className="text-muted-foreground mt-1">
+            {subscriptions ? `${active.length} active, ${active.reduce((sum, subscription) => sum + subscription.bagels, 0)} bagels a delivery` : "Standing orders"}
+          </p>
+        </div>
+        {can("orders:manage") && (
+          <Button variant="outline" onClick={() => placeMutation.mutate()} disabled={placeMutation.isPending} data-testid="button-place-subscription-orders">
+            <PlayCircle className="h-4 w-4 mr-2" />
+            Place Due Orders Now
+          </Button>
+        )}
+      </div>
+
+      {failing > 0 && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          {failing} active subscriptions have missed a delivery. The customers have been emailed.
+        </div>
+      )}
+
+      <Tabs defaultValue="upcoming" className="w-full">
+        <TabsList>
+          <TabsTrigger value="upcoming" data-testid="tab-upcoming">
+            <CalendarClock className="h-4 w-4 mr-2" />
+            Upcoming
+          </TabsTrigger>
+          <TabsTrigger value="all" data-testid="tab-all-subscriptions">
+            <Repeat className="h-4 w-4 mr-2" />
+            All Subscriptions
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="upcoming">
+          <Card>
+            <CardHeader>
+              <CardTitle>Upcoming Deliveries</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Upcoming />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="all">
+          <Card>
+            <CardHeader>
+              <CardTitle>All Subscriptions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AllSubscriptions />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatTaxRate } from "@/lib/utils";
+import { Percent, Plus, Pencil, Trash2, Tag } from "lucide-react";
+import type { Product, TaxRate } from "@shared/schema";
+
+const rateFormSchema = z.object({
+  state: z.string().regex(/^[A-Za-z]{2}$/, "Use the two-letter state code"),
+  zipCode: z.string().regex(/^(\d{5})?$/, "ZIP codes are 5 digits"),
+  percent: z.coerce.number().min(0, "Can't be negative").max(25, "That's more than 25%"),
+  name: z.string().optional(),
+  isActive: z.boolean(),
+});
+
+type RateFormData = z.infer<typeof rateFormSchema>;
+
+export default function AdminTax() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("catalog:manage");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<TaxRate | null>(null);
+
+  const { data: rates, isLoading } = useQuery<TaxRate[]>({
+    queryKey: ["/api/admin/tax-rates"],
+  });
+
+  const { data: products, isLoading: productsLoading } = useQuery<Product[]>({
+    queryKey: ["/api/admin/products"],
+  });
+
+  const form = useForm<RateFormData>({
+    resolver: zodResolver(rateFormSchema),
+    defaultValues: { state: "", zipCode: "", percent: 0, name: "", isActive: true },
+  });
+
+  const saveRateMutation = useMutation({
+    mutationFn: async (data: RateFormData) => {
+      const payload = {
+        state: data.state,
+        zipCode: data.zipCode || null,
+        rate: data.percent / 100,
+        name: data.name || null,
+        isActive: data.isActive,
+      };
+      if (editingRate) {
+        return await apiRequest("PATCH", `/api/admin/tax-rates/${editingRate.id}`, payload);
+      }
+      return await apiRequest("POST", "/api/admin/tax-rates", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tax-rates"] });
+      toast({ title: editingRate ? "Tax Rate Updated" : "Tax Rate Added" });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteRateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/tax-rates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tax-rates"] });
+      toast({ title: "Tax Rate Removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const taxableMutation = useMutation({
+    mutationFn: async ({ productId, taxable }: { productId: string; taxable: boolean }) => {
+      return await apiRequest("PATCH", `/api/admin/products/${productId}`, { taxable });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingRate(null);
+    form.reset({ state: "", zipCode: "", percent: 0, name: "", isActive: true });
+  };
+
+  const openEditDialog = (rate: TaxRate) => {
+    setEditingRate(rate);
+    form.reset({
+      state: rate.state,
+      zipCode: rate.zipCode || "",
+      percent: parseFloat((parseFloat(rate.rate) * 100).toFixed(3)),
+      name: rate.name || "",
+      isActive: rate.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="font-serif text-3xl font-bold">Sales Tax</h1>
+          <p className="text-muted-foreground mt-1">Rates by delivery state and ZIP, and which bagels are taxed</p>
+        </div>
+        {canEdit && (
+          <Button onClick={() => setIsDialogOpen(true)} data-testid="button-new-tax-rate">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rate
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="h-5 w-5" />
+            Tax Rates
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !rates?.length ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Percent className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No tax rates yet - orders are not being taxed</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>State</TableHead>
+                  <TableHead>ZIP</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((rate) => (
+                  <TableRow key={rate.id} data-testid={`row-tax-rate-${rate.id}`}>
+                    <TableCell className="font-medium">{rate.state}</TableCell>
+                    <TableCell>{rate.zipCode || <span className="text-muted-foreground">Whole state</span>}</TableCell>
+                    <TableCell>{rate.name}</TableCell>
+                    <TableCell>{formatTaxRate(rate.rate)}</TableCell>
+                    <TableCell>
+                      <Badge variant={rate.isActive ? "secondary" : "outline"}>{rate.isActive ? "Active" : "Off"}</Badge>
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="icon" onClick={() => openEditDialog(rate)} data-testid={`button-edit-tax-rate-${rate.id}`}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => deleteRateMutation.mutate(rate.id)}
+                            disabled={deleteRateMutation.isPending}
+                            data-testid={`button-delete-tax-rate-${rate.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <p className="text-sm text-muted-foreground mt-4">
+            A rate for a specific ZIP overrides the state-wide rate. Orders keep the rate they were placed with.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tag className="h-5 w-5" />
+            Taxable Products
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {productsLoading ? (
+            <div className="space-y-3">
+              {[1, 2].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {products?.filter((product) => !product.archivedAt).map((product) => (
+                <div key={product.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                  <div>
+                    <p className="font-medium">{product.name}</p>
+                    <p className="text-sm text-muted-foreground">${parseFloat(product.price).toFixed(2)}</p>
+                  </div>
+                  <Switch
+                    checked={product.taxable}
+                    onCheckedChange={(taxable) => taxableMutation.mutate({ productId: product.id, taxable })}
+                    disabled={!canEdit || taxableMutation.isPending}
+                    data-testid={`switch-taxable-${product.id}`}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-serif">{editingRate ? "Edit Tax Rate" : "Add Tax Rate"}</DialogTitle>
+            <DialogDescription>Leave the ZIP empty to cover the whole state.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveRateMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="state"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>State</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="NY" maxLength={2} data-testid="input-tax-state" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="zipCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>ZIP (optional)</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="10001" maxLength={5} data-testid="input-tax-zip" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="percent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rate (%)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="0.001" min={0} data-testid="input-tax-percent" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="NYC combined" data-testid="input-tax-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <FormLabel>Active</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-tax-active" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveRateMutation.isPending} data-testid="button-save-tax-rate">
+                  {editingRate ? "Save" : "Add Rate"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,341 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Users, UserPlus, KeyRound, Copy } from "lucide-react";
+import { USER_ROLES, type PublicUser, type UserRole } from "@shared/schema";
+
+const roleLabels: Record<UserRole, { label: string; description: string }> = {
+  owner: { label: "Owner", description: "Everything, including payments and team" },
+  baker: { label: "Baker", description: "Bake schedule, pantry, freezer, order fulfillment" },
+  driver: { label: "Driver", description: "View orders and mark them ready/completed" },
+  viewer: { label: "Viewer", description: "Read-only access" },
+};
+
+const inviteFormSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+  email: z.string().email("Enter a valid email").optional().or(z.literal("")),
+  role: z.enum(USER_ROLES),
+});
+
+type InviteFormData = z.infer<typeof inviteFormSchema>;
+
+export default function AdminTeam() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [showInviteDialog, setShowInviteDialog] = useState(false);
+  const [issuedPassword, setIssuedPassword] = useState<{ username: string; password: string } | null>(null);
+
+  const { data: users, isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const form = useForm<InviteFormData>({
+    resolver: zodResolver(inviteFormSchema),
+    defaultValues: {
+      username: "",
+      firstName: "",
+      lastName: "",
+      email: "",
+      role: "baker",
+    },
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: InviteFormData) => {
+      const response = await apiRequest("POST", "/api/admin/users", data);
+      return response.json() as Promise<{ user: PublicUser; temporaryPassword: string }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      setShowInviteDialog(false);
+      form.reset();
+      setIssuedPassword({ username: result.user.username || "", password: result.temporaryPassword });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: { role?: UserRole; isActive?: boolean } }) => {
+      return await apiRequest("PATCH", `/api/admin/users/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({ title: "User Updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (user: PublicUser) => {
+      const response = await apiRequest("POST", `/api/admin/users/${user.id}/reset-password`, {});
+      const result = await response.json() as { temporaryPassword: string };
+      return { username: user.username || "", password: result.temporaryPassword };
+    },
+    onSuccess: (result) => setIssuedPassword(result),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const displayName = (user: PublicUser) =>
+    [user.firstName, user.lastName].filter(Boolean).join(" ") || user.username;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="font-serif text-3xl font-bold">Team</h1>
+          <p className="text-muted-foreground mt-1">Bakehouse accounts and what each person can do</p>
+        </div>
+        <Button onClick={() => setShowInviteDialog(true)} data-testid="button-invite-user">
+          <UserPlus className="h-4 w-4 mr-2" />
+          Invite
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Accounts
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Last Login</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Password</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users?.map((user) => {
+                  const isSelf = user.id === currentUser?.id;
+                  return (
+                    <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                      <TableCell>
+                        <div className="font-medium flex items-center gap-2">
+                          {displayName(user)}
+                          {isSelf && <Badge variant="secondary">You</Badge>}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          @{user.username}{user.email ? ` · ${user.email}` : ""}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={user.role}
+                          onValueChange={(role) => updateUserMutation.mutate({ id: user.id, data: { role: role as UserRole } })}
+                          disabled={isSelf || updateUserMutation.isPending}
+                        >
+                          <SelectTrigger className="w-[130px]" data-testid={`select-role-${user.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {USER_ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>{roleLabels[role].label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {user.lastLoginAt ? format(new Date(user.lastLoginAt), "MMM d, yyyy h:mm a") : "Never"}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={user.isActive}
+                          onCheckedChange={(isActive) => updateUserMutation.mutate({ id: user.id, data: { isActive } })}
+                          disabled={isSelf || updateUserMutation.isPending}
+                          data-testid={`switch-active-${user.id}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => resetPasswordMutation.mutate(user)}
+                          disabled={resetPasswordMutation.isPending}
+                          data-testid={`button-reset-password-${user.id}`}
+                        >
+                          <KeyRound className="h-4 w-4 mr-2" />
+                          Reset
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showInviteDialog} onOpenChange={setShowInviteDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-serif">Invite Team Member</DialogTitle>
+            <DialogDescription>
+              They'll get a temporary password to sign in with at the Baker's Login.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => inviteMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="maria" data-testid="input-invite-username" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="firstName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>First Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="lastName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Last Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email (optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="email" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-invite-role">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {USER_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {roleLabels[role].label} - {roleLabels[role].description}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setShowInviteDialog(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={inviteMutation.isPending} data-testid="button-send-invite">
+                  Create Account
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!issuedPassword} onOpenChange={(open) => !open && setIssuedPassword(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-serif">Temporary Password</DialogTitle>
+            <DialogDescription>
+              Share this with @{issuedPassword?.username}. It won't be shown again - they can change it from the sidebar after signing in.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={issuedPassword?.password || ""} className="font-mono" data-testid="text-temporary-password" />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => {
+                navigator.clipboard.writeText(issuedPassword?.password || "");
+                toast({ title: "Copied" });
+              }}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setIssuedPassword(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Webhook, RotateCcw, Eye } from "lucide-react";
+import { WEBHOOK_EVENT_STATUSES, type WebhookEvent } from "@shared/schema";
+
+const statusColors: Record<string, string> = {
+  received: "bg-blue-500/10 text-blue-600 border-blue-500/20",
+  processed: "bg-green-500/10 text-green-600 border-green-500/20",
+  ignored: "bg-muted text-muted-foreground border-border",
+  failed: "bg-destructive/10 text-destructive border-destructive/20",
+};
+
+export default function AdminWebhooks() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [viewing, setViewing] = useState<WebhookEvent | null>(null);
+
+  const { data: allEvents, isLoading } = useQuery<WebhookEvent[]>({
+    queryKey: ["/api/admin/webhooks"],
+  });
+
+  const events = allEvents?.filter((event) => statusFilter === "all" || event.status === statusFilter);
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/admin/webhooks/${id}/replay`, {});
+      return response.json() as Promise<WebhookEvent>;
+    },
+    onSuccess: (event) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks"] });
+      toast({ title: "Event Replayed", description: `${event.type} is now ${event.status}` });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks"] });
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="font-serif text-3xl font-bold">Stripe Events</h1>
+          <p className="text-muted-foreground mt-1">Everything Stripe has told us about payments</p>
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-[160px]" data-testid="select-webhook-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {WEBHOOK_EVENT_STATUSES.map((status) => (
+              <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Webhook className="h-5 w-5" />
+            Events
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !events?.length ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Webhook className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No events yet</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => (
+                  <TableRow key={event.id} data-testid={`row-webhook-${event.id}`}>
+                    <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                      {event.createdAt && format(new Date(event.createdAt), "MMM d, h:mm:ss a")}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-mono text-sm">{event.type}</div>
+                      {event.error && <div className="text-sm text-destructive mt-1">{event.error}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={statusColors[event.status]}>{event.status}</Badge>
+                    </TableCell>
+                    <TableCell>{event.attempts}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="icon" onClick={() => setViewing(event)} data-testid={`button-view-webhook-${event.id}`}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        {event.status === "failed" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => replayMutation.mutate(event.id)}
+                            disabled={replayMutation.isPending}
+                            data-testid={`button-replay-webhook-${event.id}`}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Replay
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="font-mono text-base">{viewing?.type}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground font-mono">{viewing?.id}</p>
+          <pre className="text-xs bg-muted/50 rounded-lg p-4 overflow-x-auto">
+            {viewing && JSON.stringify(viewing.payload, null, 2)}
+          </pre>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useParams, useLocation, Link } from "wouter";
 import { loadStripe } from "@stripe/stripe-js";
 import { Elements, PaymentElement, useStripe, useElements } from "@stripe/react-stripe-js";
@@ -6,10 +7,50 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { ArrowLeft, CheckCircle2, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { formatTaxRate } from "@/lib/utils";
+import type { Order } from "@shared/schema";
 
 const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY || "");
 
-function CheckoutForm({ orderId }: { orderId: string }) {
+type OrderSummary = Pick<Order, "subtotal" | "deliveryFee" | "tax" | "taxRate" | "total">;
+
+function OrderTotals({ orderId, token }: { orderId: string; token: string }) {
+  const { data: order } = useQuery<OrderSummary>({
+    queryKey: [`/api/orders/${orderId}?token=${encodeURIComponent(token)}`],
+    enabled: !!orderId && !!token,
+  });
+
+  if (!order) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="pt-6 space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="text-muted-foreground">Subtotal</span>
+          <span>${parseFloat(order.subtotal).toFixed(2)}</span>
+        </div>
+        {parseFloat(order.deliveryFee) > 0 && (
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Delivery</span>
+            <span data-testid="text-checkout-delivery-fee">${parseFloat(order.deliveryFee).toFixed(2)}</span>
+          </div>
+        )}
+        <div className="flex justify-between text-sm">
+          <span className="text-muted-foreground">
+            Tax{order.taxRate && parseFloat(order.taxRate) > 0 && ` (${formatTaxRate(order.taxRate)})`}
+          </span>
+          <span data-testid="text-checkout-tax">${parseFloat(order.tax).toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between text-lg font-semibold border-t border-border pt-2">
+          <span>Total</span>
+          <span className="text-gold" data-testid="text-checkout-total">${parseFloat(order.total).toFixed(2)}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CheckoutForm({ orderId, token, renewing }: { orderId: string; token: string; renewing: boolean }) {
   const stripe = useStripe();
   const elements = useElements();
   const [, navigate] = useLocation();
@@ -28,7 +69,7 @@ function CheckoutForm({ orderId }: { orderId: string }) {
     const { error, paymentIntent } = await stripe.confirmPayment({
       elements,
       confirmParams: {
-        return_url: `${window.location.origin}/order/confirmation/${orderId}`,
+        return_url: `${window.location.origin}/order/confirmation/${orderId}?token=${token}`,
       },
       redirect: "if_required",
     });
@@ -43,9 +84,9 @@ function CheckoutForm({ orderId }: { orderId: string }) {
     } else if (paymentIntent && paymentIntent.status === "requires_capture") {
       toast({
         title: "Payment Authorized!",
-        description: "Your order has been placed successfully.",
+        description: renewing ? "Your order is held for you again." : "Your order has been placed successfully.",
       });
-      navigate(`/order/confirmation/${orderId}`);
+      navigate(`/order/confirmation/${orderId}?token=${token}`);
     }
   };
 
@@ -88,6 +129,9 @@ export default function CheckoutPage() {
   const params = useParams<{ orderId: string }>();
   const [searchParams] = useState(() => new URLSearchParams(window.location.search));
   const clientSecret = searchParams.get("secret");
+  const token = searchParams.get("token") || "";
+  // Sent when the hold on an existing pre-order is about to run out
+  const renewing = searchParams.get("renew") === "1";
 
   if (!clientSecret) {
     return (
@@ -138,14 +182,18 @@ export default function CheckoutPage() {
 
       <main className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="mb-8">
-          <h1 className="font-serif text-3xl font-bold">Complete Your Order</h1>
+          <h1 className="font-serif text-3xl font-bold">{renewing ? "Keep Your Order" : "Complete Your Order"}</h1>
           <p className="text-muted-foreground mt-2">
-            Enter your payment details to complete the order
+            {renewing
+              ? "The hold on your card is about to expire. Authorize it again so we can keep baking your order."
+              : "Enter your payment details to complete the order"}
           </p>
         </div>
 
+        <OrderTotals orderId={params.orderId || ""} token={token} />
+
         <Elements stripe={stripePromise} options={options}>
-          <CheckoutForm orderId={params.orderId || ""} />
+          <CheckoutForm orderId={params.orderId || ""} token={token} renewing={renewing} />
         </Elements>
       </main>
     </div>
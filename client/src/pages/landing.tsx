@@ -20,6 +20,11 @@ export default function LandingPage() {
                   Order Now
                 </Button>
               </Link>
+              <Link href="/account">
+                <Button variant="ghost" data-testid="link-account">
+                  My Account
+                </Button>
+              </Link>
               <Link href="/bakers-login">
                 <Button variant="ghost" data-testid="link-bakers-login">
                   Baker's Login
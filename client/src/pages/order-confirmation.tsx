@@ -1,12 +1,37 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useParams, Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { CheckCircle2, Clock, MapPin, Calendar, Truck } from "lucide-react";
+import { CheckCircle2, Circle, Clock, Calendar, Repeat, Truck, XCircle } from "lucide-react";
 import { format } from "date-fns";
-import type { Order } from "@shared/schema";
+import { formatTaxRate } from "@/lib/utils";
+import { FULFILLMENT_WINDOW_HOURS, type FulfillmentWindow, type Order, type OrderStatus } from "@shared/schema";
+
+type TrackedOrder = Pick<
+  Order,
+  | "id"
+  | "status"
+  | "subtotal"
+  | "deliveryFee"
+  | "tax"
+  | "taxRate"
+  | "total"
+  | "fulfillmentDate"
+  | "fulfillmentWindow"
+  | "deliveryAddress"
+  | "deliveryCity"
+  | "deliveryState"
+  | "deliveryZip"
+> & {
+  orderNumber: string;
+  paymentStatus: string | null;
+  repeatEvery: "weekly" | "biweekly" | null;
+  timeline: { status: OrderStatus; at: string }[];
+  items: { quantity: number; total: string; packs: number | null; packName: string | null; product: { name: string } }[];
+};
 
 const statusColors: Record<string, string> = {
   new: "bg-blue-500/10 text-blue-600 border-blue-500/20",
@@ -17,12 +42,99 @@ const statusColors: Record<string, string> = {
   cancelled: "bg-destructive/10 text-destructive border-destructive/20",
 };
 
+const headlines: Record<string, { title: string; description: string }> = {
+  new: { title: "Order Received!", description: "Thank you for your order. We'll confirm it shortly." },
+  approved: { title: "Order Confirmed!", description: "Your bagels are on the bake schedule." },
+  baking: { title: "In the Oven", description: "Your bagels are being baked right now." },
+  ready: { title: "On Its Way", description: "Your order is out for delivery." },
+  completed: { title: "Delivered", description: "Enjoy your bagels! Thanks for ordering with us." },
+  cancelled: { title: "Order Cancelled", description: "This order was cancelled. Contact us if you have any questions." },
+};
+
+const STEPS: { status: OrderStatus; label: string }[] = [
+  { status: "new", label: "Order placed" },
+  { status: "approved", label: "Confirmed" },
+  { status: "baking", label: "Baking" },
+  { status: "ready", label: "Out for delivery" },
+  { status: "completed", label: "Delivered" },
+];
+
+// Nothing more will happen to the order, so the page can stop checking
+const FINAL_STATUSES = ["completed", "cancelled"];
+const REFRESH_MS = 30 * 1000;
+
+function clock(hour: number) {
+  return `${hour % 12 || 12}${hour < 12 ? "am" : "pm"}`;
+}
+
+function windowLabel(window: string | null) {
+  const hours = FULFILLMENT_WINDOW_HOURS[window as FulfillmentWindow];
+  if (!window || !hours) return "To be confirmed";
+  return `${window.charAt(0).toUpperCase() + window.slice(1)}, ${clock(hours.start)}-${clock(hours.end)}`;
+}
+
+function paymentNote(order: TrackedOrder) {
+  switch (order.paymentStatus) {
+    case "captured":
+      return "Your card has been charged.";
+    case "refunded":
+      return "Your payment has been refunded.";
+    case "partially_refunded":
+      return "Part of your payment has been refunded.";
+    case "cancelled":
+      return "The hold on your card was released. You have not been charged.";
+    case "authorized":
+      return "Your card has been authorized. Payment will be captured when your order is approved by our team.";
+    default:
+      return "Payment will be captured when your order is approved by our team.";
+  }
+}
+
+// Orders can skip baking when the freezer covers them, so a step counts as done once any later one is
+function StatusTimeline({ order }: { order: TrackedOrder }) {
+  const reachedAt = new Map(order.timeline.map((entry) => [entry.status, entry.at]));
+  const currentIndex = STEPS.findIndex((step) => step.status === order.status);
+  const cancelledAt = reachedAt.get("cancelled");
+
+  return (
+    <ol className="space-y-3" data-testid="order-timeline">
+      {STEPS.map((step, index) => {
+        const at = reachedAt.get(step.status);
+        const done = index <= currentIndex || !!at;
+        return (
+          <li key={step.status} className="flex items-start gap-3" data-testid={`timeline-${step.status}`}>
+            {done
+              ? <CheckCircle2 className="h-5 w-5 text-gold mt-0.5" />
+              : <Circle className="h-5 w-5 text-muted-foreground/40 mt-0.5" />}
+            <div>
+              <p className={done ? "font-medium" : "text-muted-foreground"}>{step.label}</p>
+              {at && <p className="text-sm text-muted-foreground">{format(new Date(at), "EEE, MMM d 'at' h:mm a")}</p>}
+            </div>
+          </li>
+        );
+      })}
+      {order.status === "cancelled" && (
+        <li className="flex items-start gap-3" data-testid="timeline-cancelled">
+          <XCircle className="h-5 w-5 text-destructive mt-0.5" />
+          <div>
+            <p className="font-medium">Cancelled</p>
+            {cancelledAt && <p className="text-sm text-muted-foreground">{format(new Date(cancelledAt), "EEE, MMM d 'at' h:mm a")}</p>}
+          </div>
+        </li>
+      )}
+    </ol>
+  );
+}
+
 export default function OrderConfirmationPage() {
   const params = useParams<{ orderId: string }>();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token") || "");
 
-  const { data: order, isLoading } = useQuery<Order & { location: { name: string }; items: any[] }>({
-    queryKey: ["/api/orders", params.orderId],
-    enabled: !!params.orderId,
+  // Keeps checking while the order is in progress, so the page follows it from the oven to the door
+  const { data: order, isLoading } = useQuery<TrackedOrder>({
+    queryKey: [`/api/orders/${params.orderId}?token=${encodeURIComponent(token)}`],
+    enabled: !!params.orderId && !!token,
+    refetchInterval: (query) => (FINAL_STATUSES.includes(query.state.data?.status ?? "") ? false : REFRESH_MS),
   });
 
   if (isLoading) {
@@ -44,10 +156,17 @@ export default function OrderConfirmationPage() {
       <div className="min-h-screen bg-background flex items-center justify-center p-4">
         <Card className="max-w-md w-full">
           <CardContent className="py-12 text-center">
-            <p className="text-muted-foreground mb-4">Order not found</p>
-            <Link href="/order">
-              <Button>Place New Order</Button>
-            </Link>
+            <p className="text-muted-foreground mb-4">
+              We couldn't open this order. The link may have expired - look it up with your order number and email instead.
+            </p>
+            <div className="flex justify-center gap-2">
+              <Link href="/track">
+                <Button data-testid="button-find-order">Find My Order</Button>
+              </Link>
+              <Link href="/order">
+                <Button variant="outline">Place New Order</Button>
+              </Link>
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -73,22 +192,22 @@ export default function OrderConfirmationPage() {
             <div className="w-16 h-16 rounded-full gold-gradient mx-auto flex items-center justify-center mb-4">
               <CheckCircle2 className="h-8 w-8 text-black" />
             </div>
-            <CardTitle className="font-serif text-2xl">Order Confirmed!</CardTitle>
-            <p className="text-muted-foreground mt-2">
-              Thank you for your order. We'll notify you when it's out for delivery.
-            </p>
+            <CardTitle className="font-serif text-2xl">{headlines[order.status]?.title || "Your Order"}</CardTitle>
+            <p className="text-muted-foreground mt-2">{headlines[order.status]?.description}</p>
           </CardHeader>
           <CardContent className="space-y-6 pt-6">
             <div className="flex items-center justify-between p-4 rounded-lg bg-muted/50">
               <div>
-                <p className="text-sm text-muted-foreground">Order ID</p>
-                <p className="font-mono font-medium" data-testid="text-order-id">{order.id.slice(0, 8)}</p>
+                <p className="text-sm text-muted-foreground">Order Number</p>
+                <p className="font-mono font-medium" data-testid="text-order-number">{order.orderNumber}</p>
               </div>
               <Badge variant="outline" className={statusColors[order.status]} data-testid="badge-status">
                 {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
               </Badge>
             </div>
 
+            <StatusTimeline order={order} />
+
             <div className="grid gap-4">
               <div className="flex items-start gap-3">
                 <Truck className="h-5 w-5 text-gold mt-0.5" />
@@ -100,11 +219,6 @@ export default function OrderConfirmationPage() {
                     {order.deliveryState && `, ${order.deliveryState}`}
                     {order.deliveryZip && ` ${order.deliveryZip}`}
                   </p>
-                  {order.deliveryInstructions && (
-                    <p className="text-sm text-muted-foreground mt-1">
-                      Note: {order.deliveryInstructions}
-                    </p>
-                  )}
                 </div>
               </div>
               <div className="flex items-start gap-3">
@@ -120,31 +234,62 @@ export default function OrderConfirmationPage() {
                 <Clock className="h-5 w-5 text-gold mt-0.5" />
                 <div>
                   <p className="font-medium">Delivery Window</p>
-                  <p className="text-muted-foreground capitalize">{order.fulfillmentWindow}</p>
+                  <p className="text-muted-foreground" data-testid="text-delivery-window">{windowLabel(order.fulfillmentWindow)}</p>
                 </div>
               </div>
+              {order.repeatEvery && (
+                <div className="flex items-start gap-3">
+                  <Repeat className="h-5 w-5 text-gold mt-0.5" />
+                  <div>
+                    <p className="font-medium">Repeats</p>
+                    <p className="text-muted-foreground" data-testid="text-repeats">
+                      {order.repeatEvery === "weekly" ? "Every week" : "Every 2 weeks"} - manage it from your account
+                    </p>
+                  </div>
+                </div>
+              )}
             </div>
 
             <div className="border-t border-border pt-4">
               <h3 className="font-semibold mb-3">Order Items</h3>
               <div className="space-y-2">
-                {order.items?.map((item: any, index: number) => (
+                {order.items.map((item, index) => (
                   <div key={index} className="flex justify-between">
-                    <span>{item.product?.name || "Product"} x{item.quantity}</span>
+                    <span>
+                      {item.product.name}
+                      {item.packName ? ` (${item.packName}) x${item.packs}` : ` x${item.quantity}`}
+                    </span>
                     <span className="font-medium">${parseFloat(item.total).toFixed(2)}</span>
                   </div>
                 ))}
               </div>
-              <div className="border-t border-border mt-4 pt-4 flex justify-between text-lg font-semibold">
-                <span>Total</span>
-                <span className="text-gold">${parseFloat(order.total).toFixed(2)}</span>
+              <div className="border-t border-border mt-4 pt-4 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Subtotal</span>
+                  <span>${parseFloat(order.subtotal).toFixed(2)}</span>
+                </div>
+                {parseFloat(order.deliveryFee) > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Delivery</span>
+                    <span data-testid="text-delivery-fee">${parseFloat(order.deliveryFee).toFixed(2)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    Tax{order.taxRate && parseFloat(order.taxRate) > 0 && ` (${formatTaxRate(order.taxRate)})`}
+                  </span>
+                  <span data-testid="text-tax">${parseFloat(order.tax).toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-lg font-semibold">
+                  <span>Total</span>
+                  <span className="text-gold">${parseFloat(order.total).toFixed(2)}</span>
+                </div>
               </div>
             </div>
 
             <div className="bg-muted/50 p-4 rounded-lg">
               <p className="text-sm text-muted-foreground">
-                <strong>Payment Status:</strong> Your card has been authorized. 
-                Payment will be captured when your order is approved by our team.
+                <strong>Payment Status:</strong> {paymentNote(order)}
               </p>
             </div>
           </CardContent>
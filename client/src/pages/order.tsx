@@ -1,10 +1,10 @@
-import { useState } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation, Link } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { format, addDays } from "date-fns";
+import { format, startOfMonth, startOfToday, startOfWeek } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -14,11 +14,48 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useCustomer } from "@/hooks/use-customer";
 import { ArrowLeft, CalendarIcon, MapPin, Minus, Plus, ShoppingBag } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Product } from "@shared/schema";
+import { formatTaxRate } from "@/lib/utils";
+import type { Product, ProductVariant, BundleComponent, BundleContent, CustomerAddress } from "@shared/schema";
+
+type SlotDay = {
+  date: string;
+  windows: { window: string; available: boolean; reason: "blackout" | "lead_time" | "full" | null }[];
+};
+
+const deliveryWindows = [
+  { value: "morning", label: "Morning (8am - 12pm)" },
+  { value: "afternoon", label: "Afternoon (12pm - 5pm)" },
+  { value: "evening", label: "Evening (5pm - 8pm)" },
+];
+
+const repeatOptions = [
+  { value: "once", label: "Just this once" },
+  { value: "weekly", label: "Every week" },
+  { value: "biweekly", label: "Every 2 weeks" },
+];
+
+const slotReasonLabels: Record<string, string> = {
+  blackout: "Not delivering",
+  lead_time: "Too soon",
+  full: "Full",
+};
+
+type OrderQuote = {
+  subtotal?: number;
+  deliveryFee?: number;
+  tax?: number;
+  taxRate?: number;
+  total?: number;
+  delivery?: { zoneName: string; locationName: string } | null;
+  deliveryError?: { reason: string; message: string; minimumOrder?: number } | null;
+};
 
 const orderFormSchema = z.object({
   customerName: z.string().min(2, "Name is required"),
@@ -31,16 +68,36 @@ const orderFormSchema = z.object({
   deliveryInstructions: z.string().optional(),
   fulfillmentDate: z.date({ required_error: "Please select a delivery date" }),
   fulfillmentWindow: z.string().min(1, "Please select a delivery window"),
+  smsOptIn: z.boolean(),
+  repeatEvery: z.string(),
+}).refine((data) => !data.smsOptIn || (data.customerPhone || "").replace(/\D/g, "").length >= 10, {
+  message: "Enter a mobile number to get texts",
+  path: ["customerPhone"],
 });
 
 type OrderFormData = z.infer<typeof orderFormSchema>;
 
+type ProductWithVariants = Product & { variants: ProductVariant[]; components: BundleComponent[] };
+
+type CartLine = { productId: string; variantId?: string; picks?: BundleContent[]; quantity: number };
+
+// Cart lines are keyed by product, pack size and, for a pick bundle, what was picked
+function cartKey(line: Omit<CartLine, "quantity">) {
+  const picks = (line.picks || []).map((pick) => `${pick.productId}*${pick.quantity}`).sort().join(",");
+  return `${line.productId}:${line.variantId || ""}:${picks}`;
+}
+
 export default function OrderPage() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
-  const [cart, setCart] = useState<Record<string, number>>({});
+  const [cart, setCart] = useState<Record<string, CartLine>>({});
+  const [picking, setPicking] = useState<ProductWithVariants | null>(null);
+  const [picks, setPicks] = useState<Record<string, number>>({});
+  const { customer } = useCustomer();
+  // Set by "Reorder this" on the account page
+  const [reorderId] = useState(() => new URLSearchParams(window.location.search).get("reorder"));
 
-  const { data: products, isLoading: productsLoading } = useQuery<Product[]>({
+  const { data: products, isLoading: productsLoading } = useQuery<ProductWithVariants[]>({
     queryKey: ["/api/products"],
   });
 
@@ -64,13 +121,55 @@ export default function OrderPage() {
       deliveryZip: "",
       deliveryInstructions: "",
       fulfillmentWindow: "",
+      smsOptIn: false,
+      repeatEvery: "once",
     },
   });
 
+  const applyAddress = (address: CustomerAddress) => {
+    form.setValue("deliveryAddress", address.deliveryAddress);
+    form.setValue("deliveryCity", address.deliveryCity);
+    form.setValue("deliveryState", address.deliveryState);
+    form.setValue("deliveryZip", address.deliveryZip);
+    form.setValue("deliveryInstructions", address.deliveryInstructions || "");
+  };
+
+  // Signed-in customers start with their details and default address filled in
+  const prefilled = useRef(false);
+  useEffect(() => {
+    if (!customer || prefilled.current) return;
+    prefilled.current = true;
+    if (!form.getValues("customerName")) form.setValue("customerName", customer.name);
+    if (!form.getValues("customerEmail")) form.setValue("customerEmail", customer.email);
+    if (!form.getValues("customerPhone") && customer.phone) form.setValue("customerPhone", customer.phone);
+    const defaultAddress = customer.addresses.find((address) => address.isDefault);
+    if (defaultAddress && !form.getValues("deliveryAddress")) applyAddress(defaultAddress);
+  }, [customer]);
+
+  const { data: reorder } = useQuery<{ lines: CartLine[]; unavailable: string[] }>({
+    queryKey: [`/api/account/orders/${reorderId}/reorder`],
+    enabled: !!reorderId && !!customer,
+  });
+  const reordered = useRef(false);
+  useEffect(() => {
+    if (!reorder || reordered.current) return;
+    reordered.current = true;
+    setCart(Object.fromEntries(reorder.lines.map((line) => [cartKey(line), line])));
+    if (reorder.unavailable.length > 0) {
+      toast({
+        title: "Some Items Aren't Available",
+        description: `${reorder.unavailable.join(", ")} ${reorder.unavailable.length === 1 ? "isn't" : "aren't"} on sale right now`,
+      });
+    }
+  }, [reorder]);
+
+  // One key per checkout attempt so a double-click or retry can't place two orders
+  const idempotencyKey = useRef(crypto.randomUUID());
+
   const createOrderMutation = useMutation({
-    mutationFn: async (data: OrderFormData & { items: { productId: string; quantity: number }[] }) => {
-      const response = await apiRequest("POST", "/api/orders", data);
-      return response;
+    mutationFn: async (data: Omit<OrderFormData, "repeatEvery"> & { repeatEvery?: string; items: CartLine[] }) => {
+      const response = await apiRequest("POST", "/api/orders", data, { "Idempotency-Key": idempotencyKey.current });
+      return response.json() as Promise<{ orderId: string; trackingToken: string; clientSecret: string | null }>;
     },
     onSuccess: (data) => {
       toast({
@@ -78,12 +177,16 @@ export default function OrderPage() {
         description: "Redirecting to payment...",
       });
       if (data.clientSecret) {
-        navigate(`/checkout/${data.orderId}?secret=${data.clientSecret}`);
+        navigate(`/checkout/${data.orderId}?secret=${data.clientSecret}&token=${data.trackingToken}`);
       } else {
-        navigate(`/order/confirmation/${data.orderId}`);
+        navigate(`/order/confirmation/${data.orderId}?token=${data.trackingToken}`);
       }
     },
     onError: (error: Error) => {
+      idempotencyKey.current = crypto.randomUUID();
+      // Stock or delivery slots may have changed under us (409) - refresh both
+      queryClient.invalidateQueries({ queryKey: ["/api/freezer/availability"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/availability/slots"] });
       toast({
         title: "Error",
         description: error.message || "Failed to create order",
@@ -92,24 +195,98 @@ export default function OrderPage() {
     },
   });
 
-  const updateQuantity = (productId: string, delta: number) => {
-    const maxAvailable = getAvailableStock(productId);
+  const productName = (productId: string) => products?.find((p) => p.id === productId)?.name || "Bagel";
+
+  // The bagels one of a line takes from the freezer: a bundle's contents, a pack, or a single
+  const bagelsInOne = (line: Omit<CartLine, "quantity">): BundleContent[] => {
+    const product = products?.find((p) => p.id === line.productId);
+    if (product?.bundleType === "pick") return line.picks || [];
+    if (product?.bundleType) {
+      return product.components.map((component) => ({ productId: component.productId, quantity: component.quantity ?? 0 }));
+    }
+    const variant = product?.variants.find((v) => v.id === line.variantId);
+    return [{ productId: line.productId, quantity: variant?.packSize ?? 1 }];
+  };
+
+  const cartItems = Object.entries(cart).filter(([_, line]) => line.quantity > 0).map(([key, line]) => {
+    const product = products?.find((p) => p.id === line.productId);
+    const variant = product?.variants.find((v) => v.id === line.variantId);
+    const contents = bagelsInOne(line);
+    const description = variant?.name
+      || (product?.bundleType ? contents.map((c) => `${c.quantity} ${productName(c.productId)}`).join(", ") : undefined);
+    return { key, ...line, product, variant, contents, description };
+  });
+
+  // Singles, packs and bundles of the same bagel come out of the same freezer stock
+  const bagelsInCart = (productId: string) =>
+    cartItems
+      .flatMap((item) => item.contents.map((content) => ({ ...content, quantity: content.quantity * item.quantity })))
+      .filter((content) => content.productId === productId)
+      .reduce((sum, content) => sum + content.quantity, 0);
+
+  const canAdd = (contents: BundleContent[]) =>
+    contents.length > 0
+    && contents.every((content) => bagelsInCart(content.productId) + content.quantity <= getAvailableStock(content.productId));
+
+  const updateQuantity = (line: Omit<CartLine, "quantity">, delta: number) => {
+    if (delta > 0 && !canAdd(bagelsInOne(line))) return;
+    const key = cartKey(line);
     setCart((prev) => {
-      const current = prev[productId] || 0;
-      const next = Math.max(0, Math.min(current + delta, maxAvailable));
+      const next = Math.max(0, (prev[key]?.quantity || 0) + delta);
       if (next === 0) {
-        const { [productId]: _, ...rest } = prev;
+        const { [key]: _, ...rest } = prev;
         return rest;
       }
-      return { ...prev, [productId]: next };
+      return { ...prev, [key]: { ...line, quantity: next } };
     });
   };
+  const quantityOf = (line: Omit<CartLine, "quantity">) => cart[cartKey(line)]?.quantity || 0;
 
-  const cartItems = Object.entries(cart).filter(([_, qty]) => qty > 0);
-  const subtotal = cartItems.reduce((sum, [productId, qty]) => {
-    const product = products?.find((p) => p.id === productId);
-    return sum + (product ? parseFloat(product.price) * qty : 0);
-  }, 0);
+  const pickedTotal = Object.values(picks).reduce((sum, quantity) => sum + quantity, 0);
+  const pickedContents = Object.entries(picks)
+    .filter(([_, quantity]) => quantity > 0)
+    .map(([productId, quantity]) => ({ productId, quantity }));
+  const openPicker = (bundle: ProductWithVariants) => {
+    setPicks({});
+    setPicking(bundle);
+  };
+
+  const linePrice = (item: (typeof cartItems)[number]) => {
+    if (item.variant) return parseFloat(item.variant.price) * item.quantity;
+    return item.product ? parseFloat(item.product.price) * item.quantity : 0;
+  };
+  const subtotal = cartItems.reduce((sum, item) => sum + linePrice(item), 0);
+  const orderItems = cartItems.map(({ productId, variantId, picks, quantity }) => ({ productId, variantId, picks, quantity }));
+
+  // Delivery fee and tax both depend on where it's going, so quote them once the address is filled in.
+  // The address is debounced so we aren't geocoding every keystroke.
+  const watchedAddress = {
+    deliveryAddress: form.watch("deliveryAddress"),
+    deliveryCity: form.watch("deliveryCity"),
+    deliveryState: form.watch("deliveryState"),
+    deliveryZip: form.watch("deliveryZip"),
+  };
+  const watchedAddressKey = JSON.stringify(watchedAddress);
+  const [quoteAddress, setQuoteAddress] = useState(watchedAddress);
+  useEffect(() => {
+    const timer = setTimeout(() => setQuoteAddress(JSON.parse(watchedAddressKey)), 600);
+    return () => clearTimeout(timer);
+  }, [watchedAddressKey]);
+
+  const quoteItems = orderItems;
+  const addressComplete = quoteAddress.deliveryAddress.length >= 5
+    && quoteAddress.deliveryCity.length >= 2
+    && quoteAddress.deliveryState.length >= 2
+    && quoteAddress.deliveryZip.length >= 5;
+  const { data: quote } = useQuery<OrderQuote>({
+    queryKey: ["/api/orders/quote", quoteAddress, quoteItems],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/orders/quote", { ...quoteAddress, items: quoteItems });
+      return response.json();
+    },
+    enabled: cartItems.length > 0 && addressComplete,
+  });
+  const deliveryError = quote?.deliveryError;
 
   const onSubmit = (data: OrderFormData) => {
     if (cartItems.length === 0) {
@@ -123,13 +300,32 @@ export default function OrderPage() {
 
     createOrderMutation.mutate({
       ...data,
-      items: cartItems.map(([productId, quantity]) => ({ productId, quantity })),
+      repeatEvery: data.repeatEvery === "once" ? undefined : data.repeatEvery,
+      items: orderItems,
     });
   };
 
   const activeProducts = products?.filter((p) => p.isActive) || [];
 
-  const minDate = addDays(new Date(), 1);
+  // Slots for the six weeks the calendar shows; full, blacked-out and too-soon windows are disabled
+  const [calendarMonth, setCalendarMonth] = useState(new Date());
+  const slotsFrom = format(startOfWeek(startOfMonth(calendarMonth)), "yyyy-MM-dd");
+  const { data: slotDays } = useQuery<SlotDay[]>({
+    queryKey: ["/api/availability/slots", slotsFrom],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/availability/slots?from=${slotsFrom}&days=42`);
+      return response.json();
+    },
+    staleTime: 60 * 1000,
+  });
+  const slotsFor = (date: Date | undefined) => date && slotDays?.find((day) => day.date === format(date, "yyyy-MM-dd"));
+  const isDayClosed = (date: Date) => {
+    const day = slotsFor(date);
+    return !!day && day.windows.every((slot) => !slot.available);
+  };
+  const selectedSlots = slotsFor(form.watch("fulfillmentDate"));
+
+  const minDate = startOfToday();
 
   return (
     <div className="min-h-screen bg-background">
@@ -150,7 +346,7 @@ export default function OrderPage() {
             <div className="flex items-center gap-2">
               <ShoppingBag className="h-5 w-5 text-muted-foreground" />
               <span className="font-medium" data-testid="text-cart-count">
-                {cartItems.reduce((sum, [_, qty]) => sum + qty, 0)} items
+                {cartItems.reduce((sum, item) => sum + item.quantity, 0)} items
               </span>
             </div>
           </div>
@@ -178,10 +374,93 @@ export default function OrderPage() {
               ) : (
                 <div className="grid sm:grid-cols-2 gap-4">
                   {activeProducts.map((product) => {
+                    if (product.bundleType) {
+                      const fixed = product.bundleType === "fixed";
+                      const lines = cartItems.filter((item) => item.productId === product.id);
+                      const setAvailable = product.components
+                        .reduce((sum, c) => sum + Math.max(0, getAvailableStock(c.productId) - bagelsInCart(c.productId)), 0);
+                      const soldOut = fixed ? !canAdd(bagelsInOne({ productId: product.id })) && lines.length === 0
+                        : setAvailable < (product.bundleSize || 0) && lines.length === 0;
+                      return (
+                        <Card
+                          key={product.id}
+                          className={`overflow-hidden ${soldOut ? 'opacity-60' : ''}`}
+                          data-testid={`card-product-${product.id}`}
+                        >
+                          <CardContent className="p-4">
+                            <div className="flex justify-between items-start mb-3">
+                              <div>
+                                <h3 className="font-semibold">{product.name}</h3>
+                                <p className="text-sm text-muted-foreground">{product.description}</p>
+                                <p className="text-sm text-muted-foreground">
+                                  {fixed
+                                    ? bagelsInOne({ productId: product.id }).map((c) => `${c.quantity} ${productName(c.productId)}`).join(", ")
+                                    : `Pick ${product.bundleSize} from ${product.components.map((c) => productName(c.productId)).join(", ")}`}
+                                </p>
+                                {soldOut && (
+                                  <span className="text-sm font-medium text-destructive" data-testid={`text-stock-${product.id}`}>
+                                    Out of Stock
+                                  </span>
+                                )}
+                              </div>
+                              <span className="font-serif text-lg text-gold font-semibold">
+                                ${parseFloat(product.price).toFixed(2)}
+                              </span>
+                            </div>
+                            <div className="space-y-2">
+                              {(fixed ? [{ key: product.id, productId: product.id, picks: undefined, description: undefined }] : lines).map((line) => (
+                                <div key={line.key} className="flex items-center justify-between gap-3">
+                                  <span className="text-sm">{line.description}</span>
+                                  <div className="flex items-center gap-3">
+                                    <Button
+                                      variant="outline"
+                                      size="icon"
+                                      onClick={() => updateQuantity({ productId: line.productId, picks: line.picks }, -1)}
+                                      disabled={!quantityOf({ productId: line.productId, picks: line.picks })}
+                                      data-testid={`button-minus-${line.key}`}
+                                    >
+                                      <Minus className="h-4 w-4" />
+                                    </Button>
+                                    <span className="w-8 text-center font-medium" data-testid={`text-qty-${line.key}`}>
+                                      {quantityOf({ productId: line.productId, picks: line.picks })}
+                                    </span>
+                                    <Button
+                                      variant="outline"
+                                      size="icon"
+                                      onClick={() => updateQuantity({ productId: line.productId, picks: line.picks }, 1)}
+                                      disabled={!canAdd(bagelsInOne({ productId: line.productId, picks: line.picks }))}
+                                      data-testid={`button-plus-${line.key}`}
+                                    >
+                                      <Plus className="h-4 w-4" />
+                                    </Button>
+                                  </div>
+                                </div>
+                              ))}
+                              {!fixed && (
+                                <div className="flex justify-end">
+                                  <Button
+                                    variant="outline"
+                                    onClick={() => openPicker(product)}
+                                    disabled={setAvailable < (product.bundleSize || 0)}
+                                    data-testid={`button-pick-${product.id}`}
+                                  >
+                                    {lines.length > 0 ? "Build another" : "Build yours"}
+                                  </Button>
+                                </div>
+                              )}
+                            </div>
+                          </CardContent>
+                        </Card>
+                      );
+                    }
+
                     const stock = getAvailableStock(product.id);
                     const isOutOfStock = stock === 0;
-                    const currentQty = cart[product.id] || 0;
-                    const canAddMore = currentQty < stock;
+                    const left = stock - bagelsInCart(product.id);
+                    const options = [
+                      { id: product.id, name: "Single", price: product.price, packSize: 1, variant: undefined },
+                      ...product.variants.map((variant) => ({ ...variant, variant })),
+                    ];
 
                     return (
                       <Card 
@@ -208,28 +487,50 @@ export default function OrderPage() {
                               ${parseFloat(product.price).toFixed(2)}
                             </span>
                           </div>
-                          <div className="flex items-center justify-end gap-3">
-                            <Button
-                              variant="outline"
-                              size="icon"
-                              onClick={() => updateQuantity(product.id, -1)}
-                              disabled={!cart[product.id] || isOutOfStock}
-                              data-testid={`button-minus-${product.id}`}
-                            >
-                              <Minus className="h-4 w-4" />
-                            </Button>
-                            <span className="w-8 text-center font-medium" data-testid={`text-qty-${product.id}`}>
-                              {cart[product.id] || 0}
-                            </span>
-                            <Button
-                              variant="outline"
-                              size="icon"
-                              onClick={() => updateQuantity(product.id, 1)}
-                              disabled={isOutOfStock || !canAddMore}
-                              data-testid={`button-plus-${product.id}`}
-                            >
-                              <Plus className="h-4 w-4" />
-                            </Button>
+                          <div className="space-y-2">
+                            {options.map((option) => {
+                              const line = { productId: product.id, variantId: option.variant?.id };
+                              const quantity = quantityOf(line);
+                              return (
+                                <div key={option.id} className="flex items-center justify-between gap-3">
+                                  {options.length > 1 ? (
+                                    <span className="text-sm">
+                                      {option.name}
+                                      {option.variant && (
+                                        <span className="text-muted-foreground">
+                                          {" "}({option.packSize}) ${parseFloat(option.price).toFixed(2)}
+                                        </span>
+                                      )}
+                                    </span>
+                                  ) : (
+                                    <span />
+                                  )}
+                                  <div className="flex items-center gap-3">
+                                    <Button
+                                      variant="outline"
+                                      size="icon"
+                                      onClick={() => updateQuantity(line, -1)}
+                                      disabled={!quantity || isOutOfStock}
+                                      data-testid={`button-minus-${option.id}`}
+                                    >
+                                      <Minus className="h-4 w-4" />
+                                    </Button>
+                                    <span className="w-8 text-center font-medium" data-testid={`text-qty-${option.id}`}>
+                                      {quantity}
+                                    </span>
+                                    <Button
+                                      variant="outline"
+                                      size="icon"
+                                      onClick={() => updateQuantity(line, 1)}
+                                      disabled={isOutOfStock || left < option.packSize}
+                                      data-testid={`button-plus-${option.id}`}
+                                    >
+                                      <Plus className="h-4 w-4" />
+                                    </Button>
+                                  </div>
+                                </div>
+                              );
+                            })}
                           </div>
                         </CardContent>
                       </Card>
@@ -295,11 +596,49 @@ export default function OrderPage() {
                         )}
                       />
 
+                      <FormField
+                        control={form.control}
+                        name="smsOptIn"
+                        render={({ field }) => (
+                          <FormItem className="flex items-start gap-2 space-y-0">
+                            <FormControl>
+                              <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} data-testid="checkbox-sms-opt-in" />
+                            </FormControl>
+                            <div className="space-y-1 leading-none">
+                              <FormLabel className="font-normal">Text me on delivery day</FormLabel>
+                              <p className="text-xs text-muted-foreground">
+                                When your bagels are on the way. Message and data rates may apply; reply STOP to opt out.
+                              </p>
+                            </div>
+                          </FormItem>
+                        )}
+                      />
+
                       <div className="pt-2 pb-1 flex items-center gap-2 text-sm font-medium">
                         <MapPin className="h-4 w-4 text-gold" />
                         <span>Delivery Address</span>
                       </div>
 
+                      {!!customer?.addresses.length && (
+                        <Select
+                          onValueChange={(id) => {
+                            const address = customer.addresses.find((a) => a.id === id);
+                            if (address) applyAddress(address);
+                          }}
+                        >
+                          <SelectTrigger data-testid="select-saved-address">
+                            <SelectValue placeholder="Use a saved address" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {customer.addresses.map((address) => (
+                              <SelectItem key={address.id} value={address.id}>
+                                {address.label ? `${address.label} - ` : ""}{address.deliveryAddress}, {address.deliveryCity}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+
                       <FormField
                         control={form.control}
                         name="deliveryAddress"
@@ -399,8 +738,15 @@ export default function OrderPage() {
                                   <Calendar
                                     mode="single"
                                     selected={field.value}
-                                    onSelect={field.onChange}
-                                    disabled={(date) => date < minDate}
+                                    onSelect={(date) => {
+                                      field.onChange(date);
+                                      const chosenWindow = form.getValues("fulfillmentWindow");
+                                      const slot = slotsFor(date)?.windows.find((s) => s.window === chosenWindow);
+                                      if (slot && !slot.available) form.setValue("fulfillmentWindow", "");
+                                    }}
+                                    month={calendarMonth}
+                                    onMonthChange={setCalendarMonth}
+                                    disabled={(date) => date < minDate || isDayClosed(date)}
                                     initialFocus
                                   />
                                 </PopoverContent>
@@ -423,9 +769,16 @@ export default function OrderPage() {
                                   </SelectTrigger>
                                 </FormControl>
                                 <SelectContent>
-                                  <SelectItem value="morning">Morning (8am - 12pm)</SelectItem>
-                                  <SelectItem value="afternoon">Afternoon (12pm - 5pm)</SelectItem>
-                                  <SelectItem value="evening">Evening (5pm - 8pm)</SelectItem>
+                                  {deliveryWindows.map((option) => {
+                                    const slot = selectedSlots?.windows.find((s) => s.window === option.value);
+                                    const closed = slot && !slot.available;
+                                    return (
+                                      <SelectItem key={option.value} value={option.value} disabled={closed}>
+                                        {option.label}
+                                        {closed && slot.reason && ` - ${slotReasonLabels[slot.reason]}`}
+                                      </SelectItem>
+                                    );
+                                  })}
                                 </SelectContent>
                               </Select>
                               <FormMessage />
@@ -433,6 +786,37 @@ export default function OrderPage() {
                           )}
                         />
                       </div>
+
+                      <FormField
+                        control={form.control}
+                        name="repeatEvery"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Repeat</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-repeat">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {repeatOptions.map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {field.value !== "once" && (
+                              <p className="text-xs text-muted-foreground">
+                                The same bagels, day of the week and window, charged to this card a couple of days before each delivery.
+                                Skip, pause or cancel any time from your account.
+                              </p>
+                            )}
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                     </form>
                   </Form>
                 </CardContent>
@@ -453,28 +837,57 @@ export default function OrderPage() {
                     </p>
                   ) : (
                     <div className="space-y-3">
-                      {cartItems.map(([productId, qty]) => {
-                        const product = products?.find((p) => p.id === productId);
-                        if (!product) return null;
+                      {cartItems.map((item) => {
+                        if (!item.product) return null;
                         return (
-                          <div key={productId} className="flex justify-between items-center">
+                          <div key={item.key} className="flex justify-between items-center">
                             <div>
-                              <span className="font-medium">{product.name}</span>
-                              <span className="text-muted-foreground ml-2">x{qty}</span>
+                              <span className="font-medium">
+                                {item.product.name}
+                                {item.description && ` (${item.description})`}
+                              </span>
+                              <span className="text-muted-foreground ml-2">x{item.quantity}</span>
                             </div>
                             <span className="font-medium">
-                              ${(parseFloat(product.price) * qty).toFixed(2)}
+                              ${linePrice(item).toFixed(2)}
                             </span>
                           </div>
                         );
                       })}
                     </div>
                   )}
-                  <div className="border-t border-border pt-4">
+                  <div className="border-t border-border pt-4 space-y-2">
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-muted-foreground">Subtotal</span>
+                      <span data-testid="text-subtotal">${subtotal.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-muted-foreground">Delivery</span>
+                      <span data-testid="text-delivery-fee">
+                        {quote && !deliveryError
+                          ? quote.deliveryFee ? `$${quote.deliveryFee.toFixed(2)}` : "Free"
+                          : "Enter your address"}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-muted-foreground">
+                        Tax{quote?.taxRate ? ` (${formatTaxRate(quote.taxRate)})` : ""}
+                      </span>
+                      <span data-testid="text-tax">
+                        {quote && !deliveryError ? `$${(quote.tax ?? 0).toFixed(2)}` : "Enter your address"}
+                      </span>
+                    </div>
                     <div className="flex justify-between items-center text-lg font-semibold">
                       <span>Total</span>
-                      <span className="text-gold" data-testid="text-total">${subtotal.toFixed(2)}</span>
+                      <span className="text-gold" data-testid="text-total">
+                        ${(deliveryError ? subtotal : quote?.total ?? subtotal).toFixed(2)}
+                      </span>
                     </div>
+                    {deliveryError && (
+                      <p className="text-sm text-destructive" data-testid="text-delivery-error">
+                        {deliveryError.message}
+                      </p>
+                    )}
                   </div>
                 </CardContent>
                 <CardFooter>
@@ -482,7 +895,7 @@ export default function OrderPage() {
                     className="w-full"
                     size="lg"
                     onClick={form.handleSubmit(onSubmit)}
-                    disabled={createOrderMutation.isPending || cartItems.length === 0}
+                    disabled={createOrderMutation.isPending || cartItems.length === 0 || !!deliveryError}
                     data-testid="button-submit-order"
                   >
                     {createOrderMutation.isPending ? "Processing..." : "Continue to Payment"}
@@ -493,6 +906,62 @@ export default function OrderPage() {
           </div>
         </div>
       </main>
+
+      <Dialog open={!!picking} onOpenChange={(open) => !open && setPicking(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-serif">{picking?.name}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground" data-testid="text-picked-count">
+            {pickedTotal} of {picking?.bundleSize} picked
+          </p>
+          <div className="space-y-2">
+            {picking?.components.map((component) => {
+              const picked = picks[component.productId] || 0;
+              const left = getAvailableStock(component.productId) - bagelsInCart(component.productId) - picked;
+              return (
+                <div key={component.productId} className="flex items-center justify-between gap-3">
+                  <span>{productName(component.productId)}</span>
+                  <div className="flex items-center gap-3">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setPicks((prev) => ({ ...prev, [component.productId]: picked - 1 }))}
+                      disabled={picked === 0}
+                      data-testid={`button-pick-minus-${component.productId}`}
+                    >
+                      <Minus className="h-4 w-4" />
+                    </Button>
+                    <span className="w-8 text-center font-medium">{picked}</span>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setPicks((prev) => ({ ...prev, [component.productId]: picked + 1 }))}
+                      disabled={left <= 0 || pickedTotal >= (picking.bundleSize || 0)}
+                      data-testid={`button-pick-plus-${component.productId}`}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => {
+                if (!picking) return;
+                updateQuantity({ productId: picking.id, picks: pickedContents }, 1);
+                setPicking(null);
+              }}
+              disabled={!picking || pickedTotal !== picking.bundleSize}
+              data-testid="button-add-bundle"
+            >
+              Add to Order
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,20 +1,37 @@
 import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { useLocation, Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { Package } from "lucide-react";
 
 export default function TrackOrderPage() {
-  const [orderId, setOrderId] = useState("");
+  const [orderNumber, setOrderNumber] = useState("");
+  const [email, setEmail] = useState("");
   const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const lookupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/orders/lookup", { orderNumber, email });
+      return response.json() as Promise<{ orderId: string; trackingToken: string }>;
+    },
+    onSuccess: (data) => {
+      navigate(`/order/confirmation/${data.orderId}?token=${data.trackingToken}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Order Not Found", description: error.message, variant: "destructive" });
+    },
+  });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (orderId.trim()) {
-      // Navigate to the order confirmation page with the entered order ID
-      navigate(`/order/confirmation/${orderId.trim()}`);
+    if (orderNumber.trim() && email.trim()) {
+      lookupMutation.mutate();
     }
   };
 
@@ -39,28 +56,40 @@ export default function TrackOrderPage() {
             </div>
             <CardTitle className="font-serif text-2xl">Track Your Order</CardTitle>
             <p className="text-muted-foreground mt-2">
-              Enter your order ID to check the status of your delivery
+              Enter your order number and the email you ordered with to check on your delivery
             </p>
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="orderId">Order ID</Label>
+                <Label htmlFor="orderNumber">Order Number</Label>
                 <Input
-                  id="orderId"
+                  id="orderNumber"
                   type="text"
-                  placeholder="Enter your order ID"
-                  value={orderId}
-                  onChange={(e) => setOrderId(e.target.value)}
+                  placeholder="DH-1042"
+                  value={orderNumber}
+                  onChange={(e) => setOrderNumber(e.target.value)}
                   required
-                  data-testid="input-order-id"
+                  data-testid="input-order-number"
                 />
                 <p className="text-sm text-muted-foreground">
-                  You can find your order ID in the confirmation email
+                  You can find your order number in your confirmation email
                 </p>
               </div>
-              <Button type="submit" className="w-full" data-testid="button-track-submit">
-                Track Order
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  data-testid="input-order-email"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={lookupMutation.isPending} data-testid="button-track-submit">
+                {lookupMutation.isPending ? "Looking up..." : "Track Order"}
               </Button>
             </form>
             
@@ -36,6 +36,14 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Response fields that must never reach the logs: staff temporary passwords, and the secrets
+// that open a customer's payment or order page
+const REDACTED_FIELDS = new Set(["temporaryPassword", "password", "clientSecret", "trackingToken"]);
+
+function redactForLog(key: string, value: unknown) {
+  return REDACTED_FIELDS.has(key) ? "[redacted]" : value;
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -52,7 +60,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, redactForLog)}`;
       }
 
       log(logLine);
@@ -0,0 +1,338 @@
+import type { Request, Response } from "express";
+import { storage, type SubscriptionDetail } from "../storage.js";
+import {
+  accountSignInSchema,
+  accountVerifySchema,
+  customerAddressSchema,
+  customerAddressUpdateSchema,
+  subscriptionSkipSchema,
+  subscriptionPauseSchema,
+} from "../lib/validation.js";
+import { reorderLines } from "../lib/customers.js";
+import { addDays, bakeryDay } from "../lib/capacity.js";
+import {
+  cancelSubscription,
+  lineNames,
+  pauseSubscription,
+  resumeSubscription,
+  upcomingDeliveries,
+} from "../lib/subscriptions.js";
+import { trackingToken } from "../lib/tracking.js";
+import { getSessionCustomerId, loadSessionCustomer, sendSignInLink, signInWithToken, signOutCustomer } from "../customerAuth.js";
+import { formatOrderNumber, type Customer } from "../../shared/schema.js";
+
+// How far ahead the account page lists a subscription's deliveries
+const UPCOMING_DAYS = 42;
+
+function toAccount(customer: Customer) {
+  return {
+    id: customer.id,
+    name: customer.name,
+    email: customer.email,
+    phone: customer.phone,
+    smsOptIn: customer.smsOptIn,
+  };
+}
+
+export async function requestSignInLink(req: Request, res: Response) {
+  try {
+    const parseResult = accountSignInSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid email",
+        errors: parseResult.error.errors
+      });
+    }
+
+    await sendSignInLink(parseResult.data.email);
+    res.json({ message: "If that email has ordered with us, a sign-in link is on its way" });
+  } catch (error) {
+    console.error("Error sending sign-in link:", error);
+    res.status(500).json({ message: "Failed to send sign-in link" });
+  }
+}
+
+export async function verifySignIn(req: Request, res: Response) {
+  try {
+    const parseResult = accountVerifySchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ message: "This sign-in link is invalid or has expired" });
+    }
+
+    const customer = await signInWithToken(req, res, parseResult.data.token);
+    if (!customer) {
+      return res.status(400).json({ message: "This sign-in link is invalid or has expired" });
+    }
+    res.json(toAccount(customer));
+  } catch (error) {
+    console.error("Error signing in customer:", error);
+    res.status(500).json({ message: "Failed to sign in" });
+  }
+}
+
+export async function signOut(req: Request, res: Response) {
+  try {
+    await signOutCustomer(req, res);
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error signing out customer:", error);
+    res.status(500).json({ message: "Failed to sign out" });
+  }
+}
+
+export async function getAccount(req: Request, res: Response) {
+  try {
+    const customer = await loadSessionCustomer(req);
+    if (!customer) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+    const addresses = await storage.getCustomerAddresses(customer.id);
+    res.json({ ...toAccount(customer), addresses });
+  } catch (error) {
+    console.error("Error fetching account:", error);
+    res.status(500).json({ message: "Failed to fetch account" });
+  }
+}
+
+export async function getAccountOrders(req: Request, res: Response) {
+  try {
+    const orders = await storage.getOrdersForCustomer(getSessionCustomerId(req));
+    res.json(orders.map(order => ({
+      id: order.id,
+      orderNumber: formatOrderNumber(order),
+      status: order.status,
+      total: order.total,
+      createdAt: order.createdAt,
+      fulfillmentDate: order.fulfillmentDate,
+      fulfillmentWindow: order.fulfillmentWindow,
+      deliveryAddress: order.deliveryAddress,
+      deliveryCity: order.deliveryCity,
+      trackingToken: trackingToken(order),
+      items: order.items.map(item => ({
+        quantity: item.quantity,
+        packs: item.packs,
+        packName: item.packName,
+        product: { name: item.product.name },
+      })),
+    })));
+  } catch (error) {
+    console.error("Error fetching account orders:", error);
+    res.status(500).json({ message: "Failed to fetch orders" });
+  }
+}
+
+// What "Reorder this" puts back in the cart
+export async function getReorder(req: Request, res: Response) {
+  try {
+    const order = await storage.getOrder(req.params.id as string);
+    if (!order || order.customerId !== getSessionCustomerId(req)) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+    res.json(await reorderLines(order));
+  } catch (error) {
+    console.error("Error building reorder:", error);
+    res.status(500).json({ message: "Failed to reorder" });
+  }
+}
+
+export async function addAccountAddress(req: Request, res: Response) {
+  try {
+    const parseResult = customerAddressSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid address",
+        errors: parseResult.error.errors
+      });
+    }
+
+    const address = await storage.saveCustomerAddress(getSessionCustomerId(req), parseResult.data);
+    res.json(address);
+  } catch (error) {
+    console.error("Error saving address:", error);
+    res.status(500).json({ message: "Failed to save address" });
+  }
+}
+
+export async function updateAccountAddress(req: Request, res: Response) {
+  try {
+    const parseResult = customerAddressUpdateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid address",
+        errors: parseResult.error.errors
+      });
+    }
+
+    const address = await storage.updateCustomerAddress(req.params.id as string, getSessionCustomerId(req), parseResult.data);
+    if (!address) {
+      return res.status(404).json({ message: "Address not found" });
+    }
+    res.json(address);
+  } catch (error) {
+    console.error("Error updating address:", error);
+    res.status(500).json({ message: "Failed to update address" });
+  }
+}
+
+export async function deleteAccountAddress(req: Request, res: Response) {
+  try {
+    const deleted = await storage.deleteCustomerAddress(req.params.id as string, getSessionCustomerId(req));
+    if (!deleted) {
+      return res.status(404).json({ message: "Address not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting address:", error);
+    res.status(500).json({ message: "Failed to delete address" });
+  }
+}
+
+async function toAccountSubscription(subscription: SubscriptionDetail) {
+  return {
+    id: subscription.id,
+    status: subscription.status,
+    cadence: subscription.cadence,
+    fulfillmentWindow: subscription.fulfillmentWindow,
+    nextDeliveryDate: subscription.nextDeliveryDate,
+    resumeOn: subscription.resumeOn,
+    deliveryAddress: subscription.deliveryAddress,
+    deliveryCity: subscription.deliveryCity,
+    lastFailureReason: subscription.lastFailureReason,
+    lastFailedAt: subscription.lastFailedAt,
+    items: await lineNames(subscription),
+    upcoming: upcomingDeliveries(subscription, addDays(bakeryDay(new Date()), UPCOMING_DAYS)),
+  };
+}
+
+// Someone else's subscription looks the same as one that doesn't exist
+async function ownSubscription(req: Request): Promise<SubscriptionDetail | undefined> {
+  const subscription = await storage.getSubscription(req.params.id as string);
+  return subscription?.customerId === getSessionCustomerId(req) ? subscription : undefined;
+}
+
+function accountActor(subscription: SubscriptionDetail) {
+  return { username: subscription.customer.name };
+}
+
+export async function getAccountSubscriptions(req: Request, res: Response) {
+  try {
+    const subscriptions = await storage.getSubscriptionsForCustomer(getSessionCustomerId(req));
+    res.json(await Promise.all(subscriptions.map(toAccountSubscription)));
+  } catch (error) {
+    console.error("Error fetching subscriptions:", error);
+    res.status(500).json({ message: "Failed to fetch subscriptions" });
+  }
+}
+
+// Only deliveries that haven't been ordered yet can be skipped or put back
+export async function skipSubscriptionDelivery(req: Request, res: Response) {
+  try {
+    const parseResult = subscriptionSkipSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid delivery date",
+        errors: parseResult.error.errors
+      });
+    }
+
+    const subscription = await ownSubscription(req);
+    if (!subscription) {
+      return res.status(404).json({ message: "Subscription not found" });
+    }
+    const { date } = parseResult.data;
+    if (!upcomingDeliveries(subscription, date).some((delivery) => delivery.date === date)) {
+      return res.status(409).json({ message: "That delivery has already been ordered or isn't one of yours" });
+    }
+
+    await storage.skipSubscriptionDelivery(subscription.id, date);
+    res.json(await toAccountSubscription((await storage.getSubscription(subscription.id))!));
+  } catch (error) {
+    console.error("Error skipping delivery:", error);
+    res.status(500).json({ message: "Failed to skip delivery" });
+  }
+}
+
+export async function unskipSubscriptionDelivery(req: Request, res: Response) {
+  try {
+    const subscription = await ownSubscription(req);
+    if (!subscription) {
+      return res.status(404).json({ message: "Subscription not found" });
+    }
+    const date = req.params.date as string;
+    if (!upcomingDeliveries(subscription, date).some((delivery) => delivery.date === date)) {
+      return res.status(409).json({ message: "That delivery can't be changed any more" });
+    }
+
+    await storage.unskipSubscriptionDelivery(subscription.id, date);
+    res.json(await toAccountSubscription((await storage.getSubscription(subscription.id))!));
+  } catch (error) {
+    console.error("Error restoring delivery:", error);
+    res.status(500).json({ message: "Failed to restore delivery" });
+  }
+}
+
+export async function pauseAccountSubscription(req: Request, res: Response) {
+  try {
+    const parseResult = subscriptionPauseSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid resume date",
+        errors: parseResult.error.errors
+      });
+    }
+
+    const subscription = await ownSubscription(req);
+    if (!subscription) {
+      return res.status(404).json({ message: "Subscription not found" });
+    }
+    if (subscription.status !== "active" && subscription.status !== "paused") {
+      return res.status(409).json({ message: `A ${subscription.status} subscription can't be paused` });
+    }
+    const resumeOn = parseResult.data.resumeOn || null;
+    if (resumeOn && resumeOn <= bakeryDay(new Date())) {
+      return res.status(400).json({ message: "Pick a resume date in the future" });
+    }
+
+    await pauseSubscription(subscription, resumeOn, accountActor(subscription));
+    res.json(await toAccountSubscription((await storage.getSubscription(subscription.id))!));
+  } catch (error) {
+    console.error("Error pausing subscription:", error);
+    res.status(500).json({ message: "Failed to pause subscription" });
+  }
+}
+
+export async function resumeAccountSubscription(req: Request, res: Response) {
+  try {
+    const subscription = await ownSubscription(req);
+    if (!subscription) {
+      return res.status(404).json({ message: "Subscription not found" });
+    }
+    if (subscription.status !== "paused") {
+      return res.status(409).json({ message: "Only a paused subscription can be resumed" });
+    }
+
+    await resumeSubscription(subscription, accountActor(subscription));
+    res.json(await toAccountSubscription((await storage.getSubscription(subscription.id))!));
+  } catch (error) {
+    console.error("Error resuming subscription:", error);
+    res.status(500).json({ message: "Failed to resume subscription" });
+  }
+}
+
+export async function cancelAccountSubscription(req: Request, res: Response) {
+  try {
+    const subscription = await ownSubscription(req);
+    if (!subscription) {
+      return res.status(404).json({ message: "Subscription not found" });
+    }
+    if (subscription.status === "cancelled") {
+      return res.status(409).json({ message: "This subscription is already cancelled" });
+    }
+
+    await cancelSubscription(subscription, accountActor(subscription));
+    res.json(await toAccountSubscription((await storage.getSubscription(subscription.id))!));
+  } catch (error) {
+    console.error("Error cancelling subscription:", error);
+    res.status(500).json({ message: "Failed to cancel subscription" });
+  }
+}
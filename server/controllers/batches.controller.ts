@@ -1,6 +1,11 @@
 import type { Request, Response } from "express";
 import { storage } from "../storage.js";
-import { batchCreateSchema, statusSchema } from "../lib/validation.js";
+import { batchCreateSchema, statusSchema, bakePlanQuerySchema, bakePlanAcceptSchema } from "../lib/validation.js";
+import { getActor } from "../simpleAuth.js";
+import { planBakes, acceptBakePlan as savePlan, startBatchOrders, finishBatchOrders } from "../lib/bakePlan.js";
+import { bakeryDay } from "../lib/capacity.js";
+import { PlanConflictError, UnitMismatchError } from "../lib/errors.js";
+import { usagePerBagel, batchIngredients } from "../lib/recipes.js";
 
 export async function getAllBatches(req: Request, res: Response) {
   try {
@@ -78,6 +83,7 @@ export async function updateBatchStatus(req: Request, res: Response) {
     }
 
     const { status } = parseResult.data;
+    const actor = getActor(req);
     const batch = await storage.getBatch(req.params.id as string);
     
     if (!batch) {
@@ -91,22 +97,23 @@ export async function updateBatchStatus(req: Request, res: Response) {
         const deductions: { ingredientId: string; quantity: number }[] = [];
         
         for (const item of batchItems) {
-          const bom = await storage.getBomForProduct(item.productId);
+          const recipe = await storage.getRecipe(item.productId, item.recipeVersionId);
           
-          for (const bomItem of bom) {
-            const quantityNeeded = parseFloat(bomItem.quantity) * item.quantity;
-            const existing = deductions.find(d => d.ingredientId === bomItem.ingredientId);
+          for (const usage of usagePerBagel(recipe)) {
+            const quantityNeeded = usage.quantity * item.quantity;
+            const existing = deductions.find(d => d.ingredientId === usage.ingredient.id);
             if (existing) {
               existing.quantity += quantityNeeded;
             } else {
               deductions.push({
-                ingredientId: bomItem.ingredientId,
+                ingredientId: usage.ingredient.id,
                 quantity: quantityNeeded,
               });
             }
           }
         }
 
+        const expired = await storage.getExpiredLotTotals();
         for (const deduction of deductions) {
           const ingredient = await storage.getIngredient(deduction.ingredientId);
           if (!ingredient) {
@@ -114,14 +121,18 @@ export async function updateBatchStatus(req: Request, res: Response) {
               message: `Ingredient not found: ${deduction.ingredientId}` 
             });
           }
-          if (parseFloat(ingredient.onHand) < deduction.quantity) {
+          const expiredQty = expired[ingredient.id] || 0;
+          const usable = parseFloat(ingredient.onHand) - expiredQty;
+          if (usable < deduction.quantity) {
             return res.status(400).json({ 
-              message: `Insufficient ${ingredient.name}: need ${deduction.quantity.toFixed(2)}, have ${ingredient.onHand}` 
+              message: expiredQty > 0
+                ? `Insufficient ${ingredient.name}: need ${deduction.quantity.toFixed(2)}, have ${usable.toFixed(2)} (${expiredQty.toFixed(2)} expired)`
+                : `Insufficient ${ingredient.name}: need ${deduction.quantity.toFixed(2)}, have ${ingredient.onHand}` 
             });
           }
         }
 
-        await storage.deductIngredients(deductions);
+        await storage.deductIngredients(deductions, req.params.id as string);
 
         const freezerItems = batchItems.map(item => ({
           productId: item.productId,
@@ -134,8 +145,8 @@ export async function updateBatchStatus(req: Request, res: Response) {
           "batch",
           req.params.id as string,
           { items: freezerItems, deductions },
-          undefined,
-          "admin"
+          actor.id,
+          actor.username
         );
       }
     } else if (status === "in_progress") {
@@ -144,15 +155,91 @@ export async function updateBatchStatus(req: Request, res: Response) {
         "batch",
         req.params.id as string,
         { shift: batch.shift },
-        undefined,
-        "admin"
+        actor.id,
+        actor.username
+      );
+    } else if (status === "cancelled" && batch.status !== "cancelled") {
+      await storage.logActivity(
+        "batch.cancelled",
+        "batch",
+        req.params.id as string,
+        { shift: batch.shift },
+        actor.id,
+        actor.username
       );
     }
 
     const updatedBatch = await storage.updateBatchStatus(req.params.id as string, status);
+
+    if (updatedBatch && status === "in_progress" && batch.status === "planned") {
+      await startBatchOrders(updatedBatch, actor);
+    } else if (updatedBatch && status === "completed" && batch.status !== "completed") {
+      await finishBatchOrders(updatedBatch, actor);
+    }
+
     res.json(updatedBatch);
   } catch (error) {
+    if (error instanceof UnitMismatchError) {
+      return res.status(400).json({ message: error.message });
+    }
     console.error("Error updating batch status:", error);
     res.status(500).json({ message: "Failed to update batch status" });
   }
 }
+
+export async function getBatchIngredients(req: Request, res: Response) {
+  try {
+    const ingredients = await batchIngredients(req.params.id as string);
+    res.json(ingredients);
+  } catch (error) {
+    console.error("Error fetching batch ingredients:", error);
+    res.status(500).json({ message: "Failed to fetch batch ingredients" });
+  }
+}
+
+export async function getBatchLots(req: Request, res: Response) {
+  try {
+    const lots = await storage.getBatchLots(req.params.id as string);
+    res.json(lots);
+  } catch (error) {
+    console.error("Error fetching batch lots:", error);
+    res.status(500).json({ message: "Failed to fetch batch lots" });
+  }
+}
+
+export async function getBakePlan(req: Request, res: Response) {
+  try {
+    const parseResult = bakePlanQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid date range",
+        errors: parseResult.error.errors
+      });
+    }
+    const { from, days } = parseResult.data;
+    res.json(await planBakes(from || bakeryDay(new Date()), days));
+  } catch (error) {
+    console.error("Error planning bakes:", error);
+    res.status(500).json({ message: "Failed to plan bakes" });
+  }
+}
+
+export async function acceptBakePlan(req: Request, res: Response) {
+  try {
+    const parseResult = bakePlanAcceptSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid bake plan",
+        errors: parseResult.error.errors
+      });
+    }
+    const result = await savePlan(parseResult.data.batches, getActor(req));
+    res.json(result);
+  } catch (error) {
+    if (error instanceof PlanConflictError) {
+      return res.status(409).json({ message: error.message, orderIds: error.orderIds });
+    }
+    console.error("Error accepting bake plan:", error);
+    res.status(500).json({ message: "Failed to accept bake plan" });
+  }
+}
@@ -0,0 +1,137 @@
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import { slotsQuerySchema, fulfillmentCapacitySchema, blackoutDateSchema } from "../lib/validation.js";
+import { getSlotAvailability, bakeryDay, bakeryTimezone, leadHours } from "../lib/capacity.js";
+
+// Public: which windows can still be booked. Counts stay in the admin view.
+export async function getAvailableSlots(req: Request, res: Response) {
+  try {
+    const parseResult = slotsQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid date range",
+        errors: parseResult.error.errors
+      });
+    }
+    const { from, days } = parseResult.data;
+    const availability = await getSlotAvailability(from || bakeryDay(new Date()), days);
+    res.json(availability.map((day) => ({
+      date: day.date,
+      windows: day.windows.map(({ window, available, reason }) => ({ window, available, reason })),
+    })));
+  } catch (error) {
+    console.error("Error fetching slots:", error);
+    res.status(500).json({ message: "Failed to fetch delivery slots" });
+  }
+}
+
+export async function getCapacitySettings(req: Request, res: Response) {
+  try {
+    const [capacity, blackouts] = await Promise.all([
+      storage.getFulfillmentCapacity(),
+      storage.getBlackoutDates(bakeryDay(new Date())),
+    ]);
+    res.json({ capacity, blackouts, leadHours: leadHours(), timezone: bakeryTimezone() });
+  } catch (error) {
+    console.error("Error fetching capacity settings:", error);
+    res.status(500).json({ message: "Failed to fetch capacity settings" });
+  }
+}
+
+export async function getSlotUsage(req: Request, res: Response) {
+  try {
+    const parseResult = slotsQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid date range",
+        errors: parseResult.error.errors
+      });
+    }
+    const { from, days } = parseResult.data;
+    res.json(await getSlotAvailability(from || bakeryDay(new Date()), days));
+  } catch (error) {
+    console.error("Error fetching slot usage:", error);
+    res.status(500).json({ message: "Failed to fetch slot usage" });
+  }
+}
+
+export async function createFulfillmentCapacity(req: Request, res: Response) {
+  try {
+    const parseResult = fulfillmentCapacitySchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid capacity",
+        errors: parseResult.error.errors
+      });
+    }
+    const capacity = await storage.createFulfillmentCapacity(parseResult.data);
+    res.json(capacity);
+  } catch (error) {
+    console.error("Error creating capacity:", error);
+    res.status(500).json({ message: "Failed to create capacity" });
+  }
+}
+
+export async function updateFulfillmentCapacity(req: Request, res: Response) {
+  try {
+    const parseResult = fulfillmentCapacitySchema.partial().safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid capacity",
+        errors: parseResult.error.errors
+      });
+    }
+    const capacity = await storage.updateFulfillmentCapacity(req.params.id as string, parseResult.data);
+    if (!capacity) {
+      return res.status(404).json({ message: "Capacity not found" });
+    }
+    res.json(capacity);
+  } catch (error) {
+    console.error("Error updating capacity:", error);
+    res.status(500).json({ message: "Failed to update capacity" });
+  }
+}
+
+export async function deleteFulfillmentCapacity(req: Request, res: Response) {
+  try {
+    const deleted = await storage.deleteFulfillmentCapacity(req.params.id as string);
+    if (!deleted) {
+      return res.status(404).json({ message: "Capacity not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting capacity:", error);
+    res.status(500).json({ message: "Failed to delete capacity" });
+  }
+}
+
+// Orders already booked on the day stay booked; the blackout only stops new ones
+export async function createBlackoutDate(req: Request, res: Response) {
+  try {
+    const parseResult = blackoutDateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid blackout date",
+        errors: parseResult.error.errors
+      });
+    }
+    const blackout = await storage.createBlackoutDate(parseResult.data);
+    res.json(blackout);
+  } catch (error) {
+    console.error("Error creating blackout date:", error);
+    res.status(500).json({ message: "Failed to create blackout date" });
+  }
+}
+
+export async function deleteBlackoutDate(req: Request, res: Response) {
+  try {
+    const deleted = await storage.deleteBlackoutDate(req.params.id as string);
+    if (!deleted) {
+      return res.status(404).json({ message: "Blackout date not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting blackout date:", error);
+    res.status(500).json({ message: "Failed to delete blackout date" });
+  }
+}
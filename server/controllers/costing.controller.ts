@@ -0,0 +1,46 @@
+import type { Request, Response } from "express";
+import { costProducts, costingReport } from "../lib/costing.js";
+import { bakeryDay, addDays } from "../lib/capacity.js";
+import { costingQuerySchema } from "../lib/validation.js";
+import { UnitMismatchError } from "../lib/errors.js";
+
+export async function getProductCosts(req: Request, res: Response) {
+  try {
+    res.json(await costProducts());
+  } catch (error) {
+    if (error instanceof UnitMismatchError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error costing products:", error);
+    res.status(500).json({ message: "Failed to cost products" });
+  }
+}
+
+export async function getCostingReport(req: Request, res: Response) {
+  try {
+    const parseResult = costingQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid costing range",
+        errors: parseResult.error.errors
+      });
+    }
+    // The last 30 days by default
+    const { groupBy } = parseResult.data;
+    const to = parseResult.data.to || bakeryDay(new Date());
+    const from = parseResult.data.from || addDays(to, -29);
+    if (from > to) {
+      return res.status(400).json({ message: "from must not be after to" });
+    }
+    if (addDays(from, 366) <= to) {
+      return res.status(400).json({ message: "Costing covers at most a year at a time" });
+    }
+    res.json(await costingReport(from, to, groupBy));
+  } catch (error) {
+    if (error instanceof UnitMismatchError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error building costing report:", error);
+    res.status(500).json({ message: "Failed to build costing report" });
+  }
+}
@@ -0,0 +1,43 @@
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import { bagelLines, formatOrderNumber } from "../../shared/schema.js";
+
+export async function getCustomers(req: Request, res: Response) {
+  try {
+    const customers = await storage.getCustomers();
+    res.json(customers);
+  } catch (error) {
+    console.error("Error fetching customers:", error);
+    res.status(500).json({ message: "Failed to fetch customers" });
+  }
+}
+
+export async function getCustomerDetail(req: Request, res: Response) {
+  try {
+    const customer = await storage.getCustomerSummary(req.params.id as string);
+    if (!customer) {
+      return res.status(404).json({ message: "Customer not found" });
+    }
+
+    const [addresses, orders] = await Promise.all([
+      storage.getCustomerAddresses(customer.id),
+      storage.getOrdersForCustomer(customer.id),
+    ]);
+    res.json({
+      ...customer,
+      addresses,
+      orders: orders.map(order => ({
+        id: order.id,
+        orderNumber: formatOrderNumber(order),
+        status: order.status,
+        total: order.total,
+        createdAt: order.createdAt,
+        fulfillmentDate: order.fulfillmentDate,
+        bagels: bagelLines(order.items).reduce((sum, line) => sum + line.quantity, 0),
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching customer:", error);
+    res.status(500).json({ message: "Failed to fetch customer" });
+  }
+}
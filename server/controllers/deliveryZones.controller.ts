@@ -0,0 +1,67 @@
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import { deliveryZoneSchema, deliveryZoneUpdateSchema } from "../lib/validation.js";
+
+export async function getAllDeliveryZones(req: Request, res: Response) {
+  try {
+    const zones = await storage.getDeliveryZones();
+    res.json(zones);
+  } catch (error) {
+    console.error("Error fetching delivery zones:", error);
+    res.status(500).json({ message: "Failed to fetch delivery zones" });
+  }
+}
+
+export async function createDeliveryZone(req: Request, res: Response) {
+  try {
+    const parseResult = deliveryZoneSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid delivery zone",
+        errors: parseResult.error.errors
+      });
+    }
+    const location = await storage.getLocation(parseResult.data.locationId);
+    if (!location) {
+      return res.status(400).json({ message: "Location not found" });
+    }
+    const zone = await storage.createDeliveryZone(parseResult.data);
+    res.json(zone);
+  } catch (error) {
+    console.error("Error creating delivery zone:", error);
+    res.status(500).json({ message: "Failed to create delivery zone" });
+  }
+}
+
+export async function updateDeliveryZone(req: Request, res: Response) {
+  try {
+    const parseResult = deliveryZoneUpdateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid delivery zone",
+        errors: parseResult.error.errors
+      });
+    }
+    const zone = await storage.updateDeliveryZone(req.params.id as string, parseResult.data);
+    if (!zone) {
+      return res.status(404).json({ message: "Delivery zone not found" });
+    }
+    res.json(zone);
+  } catch (error) {
+    console.error("Error updating delivery zone:", error);
+    res.status(500).json({ message: "Failed to update delivery zone" });
+  }
+}
+
+export async function deleteDeliveryZone(req: Request, res: Response) {
+  try {
+    const deleted = await storage.deleteDeliveryZone(req.params.id as string);
+    if (!deleted) {
+      return res.status(404).json({ message: "Delivery zone not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting delivery zone:", error);
+    res.status(500).json({ message: "Failed to delete delivery zone" });
+  }
+}
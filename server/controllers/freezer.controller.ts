@@ -1,6 +1,8 @@
 import type { Request, Response } from "express";
 import { storage } from "../storage.js";
 import { z } from "zod";
+import { getActor } from "../simpleAuth.js";
+import { freezerQuarantineSchema, freezerReleaseSchema } from "../lib/validation.js";
 
 export async function getFreezerStock(req: Request, res: Response) {
   try {
@@ -12,6 +14,17 @@ export async function getFreezerStock(req: Request, res: Response) {
   }
 }
 
+// Public: sellable bags per product (usable stock minus active order holds)
+export async function getFreezerAvailability(req: Request, res: Response) {
+  try {
+    const availability = await storage.getFreezerAvailability();
+    res.json(availability);
+  } catch (error) {
+    console.error("Error fetching freezer availability:", error);
+    res.status(500).json({ message: "Failed to fetch availability" });
+  }
+}
+
 export async function getFreezerStockByProduct(req: Request, res: Response) {
   try {
     const stock = await storage.getFreezerStockByProduct(req.params.productId as string);
@@ -56,13 +69,14 @@ export async function createFreezerStock(req: Request, res: Response) {
       expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
     });
 
+    const actor = getActor(req);
     await storage.logActivity(
       "freezer.stocked",
       "freezer_stock",
       stock.id,
       { productId: data.productId, quantity: data.quantity },
-      undefined,
-      "admin"
+      actor.id,
+      actor.username
     );
 
     res.json(stock);
@@ -104,7 +118,7 @@ export async function seedFreezerStock(req: Request, res: Response) {
 
     const products = await storage.getProducts();
     const bagelProducts = products.filter(p => 
-      p.isActive && p.name.toLowerCase().includes("bagel")
+      p.isActive && !p.bundleType && p.name.toLowerCase().includes("bagel")
     );
     
     if (bagelProducts.length === 0) {
@@ -121,13 +135,14 @@ export async function seedFreezerStock(req: Request, res: Response) {
       createdStock.push(stock);
     }
 
+    const actor = getActor(req);
     await storage.logActivity(
       "freezer.seeded",
       "freezer_stock",
       undefined,
       { productsSeeded: bagelProducts.length, quantityPerProduct: 10 },
-      undefined,
-      "admin"
+      actor.id,
+      actor.username
     );
 
     res.json({ 
@@ -140,6 +155,79 @@ export async function seedFreezerStock(req: Request, res: Response) {
   }
 }
 
+// Quarantined stock stays in the freezer but can't be sold or reserved until it's released
+export async function quarantineFreezerStock(req: Request, res: Response) {
+  try {
+    const parseResult = freezerQuarantineSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid quarantine request",
+        errors: parseResult.error.errors
+      });
+    }
+
+    const { freezerStockIds, reason } = parseResult.data;
+    const { stock, holds } = await storage.setFreezerQuarantine(freezerStockIds, reason);
+    const actor = getActor(req);
+    for (const row of stock) {
+      await storage.logActivity(
+        "freezer.quarantined",
+        "freezer_stock",
+        row.id,
+        { productId: row.productId, batchId: row.batchId, quantity: row.quantity, reason },
+        actor.id,
+        actor.username
+      );
+    }
+
+    // Orders whose held bagels were quarantined and couldn't all be found elsewhere now need baking
+    const shortOrders = Array.from(new Set(holds.filter((hold) => hold.reheld < hold.quantity).map((hold) => hold.orderId)));
+    for (const orderId of shortOrders) {
+      await storage.logActivity(
+        "order.stock_quarantined",
+        "order",
+        orderId,
+        { reason, holds: holds.filter((hold) => hold.orderId === orderId) },
+        actor.id,
+        actor.username
+      );
+    }
+    res.json({ stock, holds, shortOrders });
+  } catch (error) {
+    console.error("Error quarantining freezer stock:", error);
+    res.status(500).json({ message: "Failed to quarantine freezer stock" });
+  }
+}
+
+export async function releaseFreezerStock(req: Request, res: Response) {
+  try {
+    const parseResult = freezerReleaseSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid release request",
+        errors: parseResult.error.errors
+      });
+    }
+
+    const { stock } = await storage.setFreezerQuarantine(parseResult.data.freezerStockIds, null);
+    const actor = getActor(req);
+    for (const row of stock) {
+      await storage.logActivity(
+        "freezer.released",
+        "freezer_stock",
+        row.id,
+        { productId: row.productId, batchId: row.batchId, quantity: row.quantity },
+        actor.id,
+        actor.username
+      );
+    }
+    res.json(stock);
+  } catch (error) {
+    console.error("Error releasing freezer stock:", error);
+    res.status(500).json({ message: "Failed to release freezer stock" });
+  }
+}
+
 export async function getFreezerStats(req: Request, res: Response) {
   try {
     const stock = await storage.getFreezerStock();
@@ -162,6 +250,7 @@ export async function getFreezerStats(req: Request, res: Response) {
 
     res.json({
       totalItems: stock.reduce((sum, item) => sum + item.quantity, 0),
+      quarantinedItems: stock.filter((item) => item.quarantinedAt).reduce((sum, item) => sum + item.quantity, 0),
       uniqueProducts: Object.keys(productStats).length,
       productBreakdown: Object.values(productStats),
     });
@@ -9,3 +9,18 @@ export * from "./marketing.controller.js";
 export * from "./stats.controller.js";
 export * from "./freezer.controller.js";
 export * from "./activity.controller.js";
+export * from "./users.controller.js";
+export * from "./refunds.controller.js";
+export * from "./jobs.controller.js";
+export * from "./webhooks.controller.js";
+export * from "./tax.controller.js";
+export * from "./deliveryZones.controller.js";
+export * from "./capacity.controller.js";
+export * from "./purchasing.controller.js";
+export * from "./recalls.controller.js";
+export * from "./costing.controller.js";
+export * from "./notifications.controller.js";
+export * from "./sms.controller.js";
+export * from "./customers.controller.js";
+export * from "./account.controller.js";
+export * from "./subscriptions.controller.js";
@@ -1,7 +1,12 @@
 import type { Request, Response } from "express";
 import { storage } from "../storage.js";
-import { insertIngredientSchema } from "../../shared/schema.js";
-import { z } from "zod";
+import { insertIngredientSchema, type Ingredient } from "../../shared/schema.js";
+import { checkUnit } from "../lib/units.js";
+import { UnitMismatchError } from "../lib/errors.js";
+import { getActor } from "../simpleAuth.js";
+import { ingredientForecastQuerySchema, ingredientAdjustSchema, ingredientLotUpdateSchema } from "../lib/validation.js";
+import { forecastIngredients } from "../lib/forecast.js";
+import { bakeryDay, endOfBakeryDay } from "../lib/capacity.js";
 
 export async function getAllIngredients(req: Request, res: Response) {
   try {
@@ -40,14 +45,52 @@ export async function updateIngredient(req: Request, res: Response) {
         errors: parseResult.error.errors 
       });
     }
+    // A new unit or density must still work for every recipe that uses the ingredient.
+    // Recipe lines that followed the old unit keep it, so their quantities don't change meaning.
+    if (parseResult.data.unit !== undefined || parseResult.data.density !== undefined) {
+      const current = await storage.getIngredient(req.params.id as string);
+      if (current) {
+        const updated = { ...current, ...parseResult.data } as Ingredient;
+        for (const line of await storage.getBomForIngredient(current.id)) {
+          checkUnit(updated, line.unit || current.unit);
+        }
+        if (updated.unit !== current.unit) {
+          await storage.pinBomUnits(current.id, current.unit);
+        }
+      }
+    }
+
     const ingredient = await storage.updateIngredient(req.params.id as string, parseResult.data);
     res.json(ingredient);
   } catch (error) {
+    if (error instanceof UnitMismatchError) {
+      return res.status(400).json({ message: error.message });
+    }
     console.error("Error updating ingredient:", error);
     res.status(500).json({ message: "Failed to update ingredient" });
   }
 }
 
+export async function getIngredientForecast(req: Request, res: Response) {
+  try {
+    const parseResult = ingredientForecastQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid forecast range",
+        errors: parseResult.error.errors
+      });
+    }
+    const { from, days, includeOrders } = parseResult.data;
+    res.json(await forecastIngredients(from || bakeryDay(new Date()), days, includeOrders));
+  } catch (error) {
+    if (error instanceof UnitMismatchError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error forecasting ingredients:", error);
+    res.status(500).json({ message: "Failed to forecast ingredients" });
+  }
+}
+
 export async function getInventoryAdjustments(req: Request, res: Response) {
   try {
     const ingredientId = req.query.ingredientId as string | undefined;
@@ -61,13 +104,7 @@ export async function getInventoryAdjustments(req: Request, res: Response) {
 
 export async function adjustIngredientInventory(req: Request, res: Response) {
   try {
-    const adjustSchema = z.object({
-      quantity: z.number(),
-      type: z.string().min(1),
-      reason: z.string().optional(),
-    });
-    
-    const parseResult = adjustSchema.safeParse(req.body);
+    const parseResult = ingredientAdjustSchema.safeParse(req.body);
     if (!parseResult.success) {
       return res.status(400).json({ 
         message: "Invalid adjustment data",
@@ -75,13 +112,15 @@ export async function adjustIngredientInventory(req: Request, res: Response) {
       });
     }
 
-    const { quantity, type, reason } = parseResult.data;
+    const { quantity, type, reason, lotCode, expiresOn, lotId } = parseResult.data;
+    const actor = getActor(req);
     const adjustment = await storage.adjustIngredientInventory(
       req.params.id as string,
       quantity,
       type,
       reason,
-      "admin"
+      actor.username,
+      { lotCode, lotId, expiresAt: expiresOn ? endOfBakeryDay(expiresOn) : undefined }
     );
     res.json(adjustment);
   } catch (error) {
@@ -90,6 +129,41 @@ export async function adjustIngredientInventory(req: Request, res: Response) {
   }
 }
 
+export async function getIngredientLots(req: Request, res: Response) {
+  try {
+    const lots = await storage.getIngredientLots(req.params.id as string);
+    res.json(lots);
+  } catch (error) {
+    console.error("Error fetching ingredient lots:", error);
+    res.status(500).json({ message: "Failed to fetch ingredient lots" });
+  }
+}
+
+export async function updateIngredientLot(req: Request, res: Response) {
+  try {
+    const parseResult = ingredientLotUpdateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid lot data",
+        errors: parseResult.error.errors
+      });
+    }
+
+    const { expiresOn, ...data } = parseResult.data;
+    const lot = await storage.updateIngredientLot(req.params.id as string, {
+      ...data,
+      ...(expiresOn !== undefined ? { expiresAt: expiresOn ? endOfBakeryDay(expiresOn) : null } : {}),
+    });
+    if (!lot) {
+      return res.status(404).json({ message: "Lot not found" });
+    }
+    res.json(lot);
+  } catch (error) {
+    console.error("Error updating ingredient lot:", error);
+    res.status(500).json({ message: "Failed to update ingredient lot" });
+  }
+}
+
 const basicBakeryIngredients = [
   { name: "Spelt Flour", unit: "lb", onHand: "100", reorderThreshold: "20" },
   { name: "Sea Salt", unit: "lb", onHand: "10", reorderThreshold: "2" },
@@ -1,6 +1,8 @@
 import type { Request, Response } from "express";
 import { storage } from "../storage.js";
 import { statusSchema } from "../lib/validation.js";
+import { notifyOrder } from "../lib/notifications.js";
+import { getActor } from "../simpleAuth.js";
 
 export async function getAllInvoices(req: Request, res: Response) {
   try {
@@ -42,3 +44,31 @@ export async function updateInvoiceStatus(req: Request, res: Response) {
     res.status(500).json({ message: "Failed to update invoice status" });
   }
 }
+
+// Emails the invoice to the customer again, e.g. when they can't find the first one
+export async function sendOrderInvoice(req: Request, res: Response) {
+  try {
+    const invoice = await storage.getInvoiceByOrderId(req.params.id as string);
+    if (!invoice) {
+      return res.status(404).json({ message: "This order has no invoice yet" });
+    }
+
+    const notification = await notifyOrder(invoice.orderId, "invoice", { invoice });
+    if (!notification) {
+      return res.status(500).json({ message: "Failed to send invoice" });
+    }
+    const actor = getActor(req);
+    await storage.logActivity(
+      "invoice.sent",
+      "invoice",
+      invoice.id,
+      { invoiceNumber: invoice.invoiceNumber, recipient: notification.recipient },
+      actor.id,
+      actor.username
+    );
+    res.json(notification);
+  } catch (error) {
+    console.error("Error sending invoice:", error);
+    res.status(500).json({ message: "Failed to send invoice" });
+  }
+}
@@ -0,0 +1,52 @@
+import type { Request, Response } from "express";
+import { reconcilePayments, renewAuthorizations, sendNotifications, linkCustomers, placeSubscriptionOrders } from "../jobs/index.js";
+
+export async function runPaymentReconciliation(req: Request, res: Response) {
+  try {
+    const report = await reconcilePayments();
+    res.json(report);
+  } catch (error) {
+    console.error("Error reconciling payments:", error);
+    res.status(500).json({ message: "Failed to reconcile payments" });
+  }
+}
+
+export async function runAuthorizationRenewal(req: Request, res: Response) {
+  try {
+    const report = await renewAuthorizations();
+    res.json(report);
+  } catch (error) {
+    console.error("Error renewing authorizations:", error);
+    res.status(500).json({ message: "Failed to renew authorizations" });
+  }
+}
+
+export async function runNotificationDelivery(req: Request, res: Response) {
+  try {
+    const report = await sendNotifications();
+    res.json(report);
+  } catch (error) {
+    console.error("Error sending notifications:", error);
+    res.status(500).json({ message: "Failed to send notifications" });
+  }
+}
+
+export async function runCustomerLinking(req: Request, res: Response) {
+  try {
+    const report = await linkCustomers();
+    res.json(report);
+  } catch (error) {
+    console.error("Error linking customers:", error);
+    res.status(500).json({ message: "Failed to link orders to customers" });
+  }
+}
+
+export async function runSubscriptionOrders(req: Request, res: Response) {
+  try {
+    const report = await placeSubscriptionOrders();
+    res.json(report);
+  } catch (error) {
+    console.error("Error placing subscription orders:", error);
+    res.status(500).json({ message: "Failed to place subscription orders" });
+  }
+}
@@ -0,0 +1,41 @@
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import { retryNotification } from "../lib/notifications.js";
+import { getActor } from "../simpleAuth.js";
+
+export async function getOrderNotifications(req: Request, res: Response) {
+  try {
+    const notifications = await storage.getNotificationsForOrder(req.params.id as string);
+    res.json(notifications);
+  } catch (error) {
+    console.error("Error fetching order notifications:", error);
+    res.status(500).json({ message: "Failed to fetch notifications" });
+  }
+}
+
+export async function retryNotificationDelivery(req: Request, res: Response) {
+  try {
+    const existing = await storage.getNotification(req.params.id as string);
+    if (!existing) {
+      return res.status(404).json({ message: "Notification not found" });
+    }
+    if (existing.status === "sent") {
+      return res.status(409).json({ message: "This message was already sent" });
+    }
+
+    const notification = await retryNotification(existing.id);
+    const actor = getActor(req);
+    await storage.logActivity(
+      "notification.retried",
+      "order",
+      existing.orderId || undefined,
+      { notificationId: existing.id, template: existing.template, recipient: existing.recipient, status: notification?.status },
+      actor.id,
+      actor.username
+    );
+    res.json(notification);
+  } catch (error) {
+    console.error("Error retrying notification:", error);
+    res.status(500).json({ message: "Failed to retry notification" });
+  }
+}
@@ -1,7 +1,35 @@
 import type { Request, Response } from "express";
 import { storage } from "../storage.js";
 import { getStripe } from "../lib/stripe.js";
-import { orderCreateSchema, orderUpdateSchema, statusSchema, manualOrderCreateSchema } from "../lib/validation.js";
+import {
+  orderCreateSchema,
+  orderQuoteSchema,
+  orderUpdateSchema,
+  orderStatusSchema,
+  manualOrderCreateSchema,
+  orderLookupSchema,
+} from "../lib/validation.js";
+import {
+  InsufficientStockError,
+  InvalidTransitionError,
+  PaymentError,
+  ProductUnavailableError,
+  InvalidBundleError,
+  DeliveryUnavailableError,
+  SlotUnavailableError,
+} from "../lib/errors.js";
+import { transitionOrder } from "../lib/orderStatus.js";
+import { requestReauthorization } from "../lib/authorizations.js";
+import { notifyOrder } from "../lib/notifications.js";
+import { customerForOrder, rememberAddress } from "../lib/customers.js";
+import { startSubscription, stripeCustomerFor } from "../lib/subscriptions.js";
+import { normalizePhone } from "../lib/sms.js";
+import { priceOrder } from "../lib/pricing.js";
+import { checkSlot } from "../lib/capacity.js";
+import { traceOrder } from "../lib/traceability.js";
+import { trackingToken, verifyTrackingToken } from "../lib/tracking.js";
+import { formatOrderNumber, parseOrderNumber } from "../../shared/schema.js";
+import { getActor, sessionCan } from "../simpleAuth.js";
 
 export async function createOrder(req: Request, res: Response) {
   try {
@@ -25,81 +53,194 @@ export async function createOrder(req: Request, res: Response) {
       fulfillmentDate,
       fulfillmentWindow,
       items,
+      smsOptIn,
+      repeatEvery,
     } = parseResult.data;
 
-    let subtotal = 0;
-    const orderItemsData = [];
-
-    for (const item of items) {
-      const product = await storage.getProduct(item.productId);
-      if (!product || !product.isActive) {
-        return res.status(400).json({ message: `Product not available: ${item.productId}` });
-      }
-      const unitPrice = parseFloat(product.price);
-      const total = unitPrice * item.quantity;
-      subtotal += total;
-      orderItemsData.push({
-        productId: item.productId,
-        quantity: item.quantity,
-        unitPrice: unitPrice.toFixed(2),
-        total: total.toFixed(2),
-      });
+    if (smsOptIn && !normalizePhone(customerPhone)) {
+      return res.status(400).json({ message: "Enter a mobile number to get texts" });
     }
 
+    const priced = await priceOrder(items, { deliveryAddress, deliveryCity, deliveryState, deliveryZip });
+    const slot = await checkSlot(
+      new Date(fulfillmentDate),
+      fulfillmentWindow,
+      priced.items.reduce((sum, item) => sum + item.quantity, 0)
+    );
+
+    const customer = await customerForOrder(
+      { name: customerName, email: customerEmail, phone: customerPhone },
+      { smsOptIn, actor: { username: customerName } }
+    );
+
+    // A retried checkout with the same key gets the same PaymentIntent back from Stripe.
+    // A subscription's first order also saves the card for the deliveries after it.
+    const idempotencyKey = req.header("Idempotency-Key");
     const paymentIntent = await getStripe().paymentIntents.create({
-      amount: Math.round(subtotal * 100),
+      amount: Math.round(priced.total * 100),
       currency: "usd",
       capture_method: "manual",
+      ...(repeatEvery ? { customer: await stripeCustomerFor(customer), setup_future_usage: "off_session" as const } : {}),
       metadata: {
         customerName,
         customerEmail,
       },
-    });
+    }, idempotencyKey ? { idempotencyKey: `checkout-${idempotencyKey}` } : undefined);
 
-    const order = await storage.createOrder({
-      customerName,
-      customerEmail,
-      customerPhone,
-      deliveryAddress,
-      deliveryCity,
-      deliveryState,
-      deliveryZip,
-      deliveryInstructions,
-      fulfillmentDate: new Date(fulfillmentDate),
-      fulfillmentWindow,
-      subtotal: subtotal.toFixed(2),
-      total: subtotal.toFixed(2),
-      stripePaymentIntentId: paymentIntent.id,
-      stripePaymentStatus: "pending",
-      status: "new",
-    });
+    let order;
+    try {
+      order = await storage.createOrderWithItems({
+        customerId: customer.id,
+        customerName,
+        customerEmail,
+        customerPhone,
+        deliveryAddress,
+        deliveryCity,
+        deliveryState,
+        deliveryZip,
+        deliveryInstructions,
+        fulfillmentDate: new Date(fulfillmentDate),
+        fulfillmentWindow,
+        locationId: priced.delivery?.locationId || null,
+        subtotal: priced.subtotal.toFixed(2),
+        deliveryFee: priced.deliveryFee.toFixed(2),
+        deliveryZoneId: priced.delivery?.zoneId || null,
+        tax: priced.tax.toFixed(2),
+        taxRate: priced.taxRate.toFixed(5),
+        total: priced.total.toFixed(2),
+        stripePaymentIntentId: paymentIntent.id,
+        stripePaymentStatus: "pending",
+        status: "new",
+      }, priced.items, {
+        history: { changedByName: customerName, reason: "Placed online" },
+        freezer: {},
+        slot,
+      });
+    } catch (error) {
+      // Anything else leaves an orphan intent for the reconciliation job to cancel
+      if (!(error instanceof InsufficientStockError || error instanceof SlotUnavailableError)) throw error;
 
-    for (const itemData of orderItemsData) {
-      await storage.createOrderItem({
-        orderId: order.id,
-        ...itemData,
+      // Someone else got the last bags or the last place in the window first - nothing was saved,
+      // so just void the authorization
+      try {
+        await getStripe().paymentIntents.cancel(paymentIntent.id);
+      } catch (stripeError) {
+        console.error("Stripe cancel error:", stripeError);
+      }
+
+      if (error instanceof SlotUnavailableError) {
+        return res.status(409).json({ message: error.message, reason: error.reason });
+      }
+
+      return res.status(409).json({
+        message: `Not enough ${priced.productNames[error.productId] || "bagels"} left in the freezer (only ${error.available} available)`,
+        productId: error.productId,
+        available: error.available,
       });
     }
 
+    if (order.reservations.length > 0) {
+      await storage.logActivity(
+        "freezer.reserved",
+        "order",
+        order.id,
+        { reservations: order.reservations.map(r => ({ productId: r.productId, quantity: r.quantity, freezerStockId: r.freezerStockId })) },
+        undefined,
+        customerName
+      );
+    }
+    await rememberAddress(order);
+    if (repeatEvery) {
+      await startSubscription(order, repeatEvery, items);
+    }
+
     res.json({
       orderId: order.id,
+      orderNumber: formatOrderNumber(order),
+      trackingToken: trackingToken(order),
       clientSecret: paymentIntent.client_secret,
+      subtotal: order.subtotal,
+      deliveryFee: order.deliveryFee,
+      tax: order.tax,
+      total: order.total,
     });
   } catch (error) {
+    if (error instanceof ProductUnavailableError || error instanceof InvalidBundleError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof DeliveryUnavailableError) {
+      return res.status(422).json({ message: error.message, reason: error.reason, minimumOrder: error.minimumOrder });
+    }
+    if (error instanceof SlotUnavailableError) {
+      return res.status(409).json({ message: error.message, reason: error.reason });
+    }
     console.error("Error creating order:", error);
     res.status(500).json({ message: "Failed to create order" });
   }
 }
 
+// What the order form shows before checkout; delivery problems come back as data so the form can explain them
+export async function quoteOrder(req: Request, res: Response) {
+  try {
+    const parseResult = orderQuoteSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid quote request",
+        errors: parseResult.error.errors
+      });
+    }
+
+    const { items, ...address } = parseResult.data;
+    const priced = await priceOrder(items, address);
+    res.json({
+      subtotal: priced.subtotal,
+      deliveryFee: priced.deliveryFee,
+      tax: priced.tax,
+      taxRate: priced.taxRate,
+      total: priced.total,
+      delivery: priced.delivery,
+      deliveryError: null,
+    });
+  } catch (error) {
+    if (error instanceof ProductUnavailableError || error instanceof InvalidBundleError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof DeliveryUnavailableError) {
+      return res.json({
+        deliveryError: { message: error.message, reason: error.reason, minimumOrder: error.minimumOrder },
+      });
+    }
+    console.error("Error quoting order:", error);
+    res.status(500).json({ message: "Failed to quote order" });
+  }
+}
+
+// What the customer's tracking page shows. Needs the token from their confirmation email or
+// checkout, so knowing an order's id isn't enough to see someone's address.
 export async function getPublicOrder(req: Request, res: Response) {
   try {
-    const order = await storage.getOrder(req.params.id as string);
+    const orderId = req.params.id as string;
+    if (!verifyTrackingToken(orderId, req.query.token)) {
+      return res.status(403).json({ message: "This tracking link is invalid or has expired" });
+    }
+
+    const order = await storage.getOrder(orderId);
     if (!order) {
       return res.status(404).json({ message: "Order not found" });
     }
+    const history = await storage.getOrderStatusHistory(order.id);
+    const subscription = order.subscriptionId ? await storage.getSubscription(order.subscriptionId) : undefined;
+
     res.json({
       id: order.id,
+      orderNumber: formatOrderNumber(order),
       status: order.status,
+      paymentStatus: order.stripePaymentStatus,
+      repeatEvery: subscription && subscription.status !== "cancelled" ? subscription.cadence : null,
+      subtotal: order.subtotal,
+      deliveryFee: order.deliveryFee,
+      tax: order.tax,
+      taxRate: order.taxRate,
       total: order.total,
       fulfillmentDate: order.fulfillmentDate,
       fulfillmentWindow: order.fulfillmentWindow,
@@ -107,9 +248,13 @@ export async function getPublicOrder(req: Request, res: Response) {
       deliveryCity: order.deliveryCity,
       deliveryState: order.deliveryState,
       deliveryZip: order.deliveryZip,
+      // Who made each change and why stays internal
+      timeline: history.map(entry => ({ status: entry.toStatus, at: entry.createdAt })),
       items: order.items.map(item => ({
         quantity: item.quantity,
         total: item.total,
+        packs: item.packs,
+        packName: item.packName,
         product: { name: item.product.name },
       })),
     });
@@ -119,6 +264,32 @@ export async function getPublicOrder(req: Request, res: Response) {
   }
 }
 
+// For customers without their tracking link: the order number and email together get them a fresh one
+export async function lookupOrder(req: Request, res: Response) {
+  try {
+    const parseResult = orderLookupSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid order lookup",
+        errors: parseResult.error.errors
+      });
+    }
+
+    const { email, orderNumber } = parseResult.data;
+    const number = parseOrderNumber(orderNumber);
+    const order = number !== null ? await storage.getOrderByNumber(number) : undefined;
+    // Same answer whether the number or the email was wrong
+    if (!order || order.customerEmail.toLowerCase() !== email.toLowerCase()) {
+      return res.status(404).json({ message: "We couldn't find an order with that number and email" });
+    }
+
+    res.json({ orderId: order.id, trackingToken: trackingToken(order) });
+  } catch (error) {
+    console.error("Error looking up order:", error);
+    res.status(500).json({ message: "Failed to look up order" });
+  }
+}
+
 export async function getAllOrders(req: Request, res: Response) {
   try {
     const page = parseInt(req.query.page as string) || 1;
@@ -154,87 +325,75 @@ export async function getAllOrders(req: Request, res: Response) {
 
 export async function updateOrderStatus(req: Request, res: Response) {
   try {
-    const parseResult = statusSchema.safeParse(req.body);
+    const parseResult = orderStatusSchema.safeParse(req.body);
     if (!parseResult.success) {
       return res.status(400).json({ message: "Invalid status" });
     }
 
-    const { status } = parseResult.data;
-    const order = await storage.getOrder(req.params.id as string);
-    
-    if (!order) {
+    const { status, reason } = parseResult.data;
+    const actor = getActor(req);
+
+    // Approving and cancelling move money; the fulfillment steps don't
+    const permission = status === "approved" || status === "cancelled" ? "orders:manage" : "orders:fulfill";
+    if (!sessionCan(req, permission)) {
+      return res.status(403).json({ message: "You don't have permission to do that" });
+    }
+
+    const updatedOrder = await transitionOrder(req.params.id as string, status, { actor, reason });
+    if (!updatedOrder) {
       return res.status(404).json({ message: "Order not found" });
     }
+    res.json(updatedOrder);
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return res.status(409).json({ message: error.message, from: error.from, to: error.to });
+    }
+    if (error instanceof PaymentError) {
+      return res.status(400).json({ message: error.message, error: error.detail });
+    }
+    console.error("Error updating order status:", error);
+    res.status(500).json({ message: "Failed to update order status" });
+  }
+}
 
-    if (status === "approved" && order.stripePaymentIntentId) {
-      try {
-        await getStripe().paymentIntents.capture(order.stripePaymentIntentId);
-        await storage.updateOrder(order.id, { stripePaymentStatus: "captured" });
-      } catch (stripeError: any) {
-        console.error("Stripe capture error:", stripeError);
-        return res.status(400).json({ 
-          message: "Failed to capture payment",
-          error: stripeError.message 
-        });
-      }
+export async function getOrderStatusHistory(req: Request, res: Response) {
+  try {
+    const history = await storage.getOrderStatusHistory(req.params.id as string);
+    res.json(history);
+  } catch (error) {
+    console.error("Error fetching order status history:", error);
+    res.status(500).json({ message: "Failed to fetch order status history" });
+  }
+}
 
-      try {
-        const existingInvoice = await storage.getInvoiceByOrderId(order.id);
-        if (!existingInvoice) {
-          const invoiceNumber = await storage.getNextInvoiceNumber();
-          const invoice = await storage.createInvoice({
-            invoiceNumber,
-            orderId: order.id,
-            customerName: order.customerName,
-            customerEmail: order.customerEmail,
-            customerPhone: order.customerPhone,
-            deliveryAddress: order.deliveryAddress,
-            deliveryCity: order.deliveryCity,
-            deliveryState: order.deliveryState,
-            deliveryZip: order.deliveryZip,
-            subtotal: order.subtotal,
-            tax: "0",
-            total: order.total,
-            status: "sent",
-          });
-
-          for (const item of order.items) {
-            await storage.createInvoiceItem({
-              invoiceId: invoice.id,
-              productId: item.productId,
-              productName: item.product.name,
-              quantity: item.quantity,
-              unitPrice: item.unitPrice,
-              total: item.total,
-            });
-          }
-        }
-      } catch (invoiceError) {
-        console.error("Invoice creation error:", invoiceError);
-      }
+export async function getOrderTrace(req: Request, res: Response) {
+  try {
+    const trace = await traceOrder(req.params.id as string);
+    if (!trace) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+    res.json(trace);
+  } catch (error) {
+    console.error("Error tracing order:", error);
+    res.status(500).json({ message: "Failed to trace order" });
+  }
+}
 
-      await storage.logActivity(
-        "order.approved",
-        "order",
-        order.id,
-        { customerName: order.customerName, total: order.total },
-        undefined,
-        "admin"
-      );
-    } else if (status === "cancelled" && order.stripePaymentIntentId && order.stripePaymentStatus !== "captured") {
-      try {
-        await getStripe().paymentIntents.cancel(order.stripePaymentIntentId);
-        await storage.updateOrder(order.id, { stripePaymentStatus: "cancelled" });
-      } catch (stripeError) {
-        console.error("Stripe cancel error:", stripeError);
-      }
+export async function requestOrderReauthorization(req: Request, res: Response) {
+  try {
+    const order = await storage.getOrder(req.params.id as string);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
     }
 
-    const updatedOrder = await storage.updateOrderStatus(req.params.id as string, status);
-    res.json(updatedOrder);
+    const reauthorization = await requestReauthorization(order, getActor(req));
+    res.json(reauthorization);
   } catch (error) {
-    console.error("Error updating order status:", error);
-    res.status(500).json({ message: "Failed to update order status" });
+    if (error instanceof PaymentError) {
+      return res.status(400).json({ message: error.message, error: error.detail });
+    }
+    console.error("Error requesting re-authorization:", error);
+    res.status(500).json({ message: "Failed to request re-authorization" });
   }
 }
 
@@ -287,26 +446,20 @@ export async function createManualOrder(req: Request, res: Response) {
       items,
     } = parseResult.data;
 
-    let subtotal = 0;
-    const orderItemsData = [];
+    // Staff can deliver wherever they like; the zone only sets the fee and location when it matches
+    const priced = await priceOrder(
+      items,
+      { deliveryAddress, deliveryCity, deliveryState, deliveryZip },
+      { enforceDelivery: false }
+    );
 
-    for (const item of items) {
-      const product = await storage.getProduct(item.productId);
-      if (!product || !product.isActive) {
-        return res.status(400).json({ message: `Product not available: ${item.productId}` });
-      }
-      const unitPrice = parseFloat(product.price);
-      const total = unitPrice * item.quantity;
-      subtotal += total;
-      orderItemsData.push({
-        productId: item.productId,
-        quantity: item.quantity,
-        unitPrice: unitPrice.toFixed(2),
-        total: total.toFixed(2),
-      });
-    }
+    const actor = getActor(req);
+    const customer = await customerForOrder({ name: customerName, email: customerEmail, phone: customerPhone }, { actor });
 
-    const order = await storage.createOrder({
+    // Manual orders are approved on entry, so skip the hold and deduct straight away.
+    // Whatever the freezer can't cover is left for the bake schedule.
+    const order = await storage.createOrderWithItems({
+      customerId: customer.id,
       customerName,
       customerEmail,
       customerPhone,
@@ -317,36 +470,41 @@ export async function createManualOrder(req: Request, res: Response) {
       deliveryInstructions,
       fulfillmentDate: new Date(fulfillmentDate),
       fulfillmentWindow,
-      locationId: locationId || null,
+      locationId: locationId || priced.delivery?.locationId || null,
       notes,
-      subtotal: subtotal.toFixed(2),
-      total: subtotal.toFixed(2),
+      subtotal: priced.subtotal.toFixed(2),
+      deliveryFee: priced.deliveryFee.toFixed(2),
+      deliveryZoneId: priced.delivery?.zoneId || null,
+      tax: priced.tax.toFixed(2),
+      taxRate: priced.taxRate.toFixed(5),
+      total: priced.total.toFixed(2),
       stripePaymentIntentId: null,
       stripePaymentStatus: "manual",
       status: "approved",
+    }, priced.items, {
+      history: { changedBy: actor.id, changedByName: actor.username, reason: "Entered manually" },
+      freezer: { allowPartial: true, deduct: true },
     });
 
-    for (const itemData of orderItemsData) {
-      await storage.createOrderItem({
-        orderId: order.id,
-        ...itemData,
-      });
-    }
-
     await storage.logActivity(
       "order.created_manual",
       "order",
       order.id,
-      { customerName, total: subtotal.toFixed(2) },
-      undefined,
-      "admin"
+      { customerName, total: order.total },
+      actor.id,
+      actor.username
     );
+    await notifyOrder(order.id, "order_received");
+    await rememberAddress(order);
 
     res.json({
       orderId: order.id,
       message: "Manual order created successfully",
     });
   } catch (error) {
+    if (error instanceof ProductUnavailableError || error instanceof InvalidBundleError) {
+      return res.status(400).json({ message: error.message });
+    }
     console.error("Error creating manual order:", error);
     res.status(500).json({ message: "Failed to create manual order" });
   }
@@ -1,12 +1,56 @@
 import type { Request, Response } from "express";
 import { storage } from "../storage.js";
-import { insertProductSchema } from "../../shared/schema.js";
+import {
+  insertProductSchema,
+  insertProductVariantSchema,
+  type Product,
+  type ProductVariant,
+  type BundleComponent,
+} from "../../shared/schema.js";
+import { productBomSchema, bundleComponentsSchema } from "../lib/validation.js";
+import { saveRecipe } from "../lib/recipes.js";
+import { checkComponents } from "../lib/bundles.js";
+import { bakeryTime } from "../lib/capacity.js";
+import { InvalidBundleError, InvalidRecipeError, UnitMismatchError } from "../lib/errors.js";
+import { saveProductImage, removeProductImage, IMAGE_TYPES } from "../lib/uploads.js";
+import { getActor } from "../simpleAuth.js";
+
+function withVariants(products: Product[], variants: ProductVariant[], components: BundleComponent[]) {
+  return products.map((product) => ({
+    ...product,
+    variants: variants.filter((variant) => variant.productId === product.id),
+    components: components.filter((component) => component.bundleId === product.id),
+  }));
+}
+
+// A pick bundle only offers what's on sale; a fixed bundle is off the menu while anything in it is
+function sellableBundle(bundle: Product, components: BundleComponent[], onSale: Set<string>): BundleComponent[] | null {
+  const own = components.filter((component) => component.bundleId === bundle.id);
+  const available = own.filter((component) => onSale.has(component.productId));
+  if (available.length === 0) return null;
+  if (bundle.bundleType === "fixed" && available.length < own.length) return null;
+  return available;
+}
 
 export async function getPublicProducts(req: Request, res: Response) {
   try {
-    const products = await storage.getProducts();
-    const activeProducts = products.filter(p => p.isActive);
-    res.json(activeProducts);
+    const [products, variants, components] = await Promise.all([
+      storage.getProducts(),
+      storage.getProductVariants(),
+      storage.getBundleComponents(),
+    ]);
+    const activeProducts = products.filter(p => p.isActive && !p.archivedAt);
+    const onSale = new Set(activeProducts.map((product) => product.id));
+    const sellable = activeProducts.flatMap((product) => {
+      if (!product.bundleType) return [{ product, components: [] }];
+      const available = sellableBundle(product, components, onSale);
+      return available ? [{ product, components: available }] : [];
+    });
+    res.json(withVariants(
+      sellable.map(({ product }) => product),
+      variants.filter((variant) => variant.isActive),
+      sellable.flatMap(({ components }) => components)
+    ));
   } catch (error) {
     console.error("Error fetching products:", error);
     res.status(500).json({ message: "Failed to fetch products" });
@@ -15,8 +59,12 @@ export async function getPublicProducts(req: Request, res: Response) {
 
 export async function getAllProducts(req: Request, res: Response) {
   try {
-    const products = await storage.getProducts();
-    res.json(products);
+    const [products, variants, components] = await Promise.all([
+      storage.getProducts(),
+      storage.getProductVariants(),
+      storage.getBundleComponents(),
+    ]);
+    res.json(withVariants(products, variants, components));
   } catch (error) {
     console.error("Error fetching products:", error);
     res.status(500).json({ message: "Failed to fetch products" });
@@ -34,22 +82,32 @@ export async function createProduct(req: Request, res: Response) {
       });
     }
 
+    const bomResult = productBomSchema.shape.items.safeParse(bom || []);
+    if (!bomResult.success) {
+      return res.status(400).json({
+        message: "Invalid bill of materials",
+        errors: bomResult.error.errors
+      });
+    }
+
+    if (parseResult.data.bundleType === "pick" && !parseResult.data.bundleSize) {
+      return res.status(400).json({ message: "Say how many bagels go in the bundle" });
+    }
+    if (parseResult.data.bundleType && bomResult.data.length > 0) {
+      return res.status(400).json({ message: "Bundles are made from other products, not a recipe" });
+    }
+
     const product = await storage.createProduct(parseResult.data);
     
-    if (bom && Array.isArray(bom) && bom.length > 0) {
-      for (const item of bom) {
-        if (item.ingredientId && item.quantity > 0) {
-          await storage.createBom({
-            productId: product.id,
-            ingredientId: item.ingredientId,
-            quantity: item.quantity.toString(),
-          });
-        }
-      }
+    if (bomResult.data.some((item) => item.quantity > 0)) {
+      await saveRecipe(product.id, { items: bomResult.data, notes: "First recipe" }, getActor(req));
     }
     
     res.json(product);
   } catch (error) {
+    if (error instanceof UnitMismatchError || error instanceof InvalidRecipeError) {
+      return res.status(400).json({ message: error.message });
+    }
     console.error("Error creating product:", error);
     res.status(500).json({ message: "Failed to create product" });
   }
@@ -65,7 +123,25 @@ export async function updateProduct(req: Request, res: Response) {
         errors: parseResult.error.errors 
       });
     }
-    const product = await storage.updateProduct(req.params.id as string, parseResult.data);
+    const existing = await storage.getProduct(req.params.id as string);
+    if (!existing) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    if (existing.archivedAt && parseResult.data.isActive) {
+      return res.status(409).json({ message: "Restore the product before putting it back on sale" });
+    }
+    const bundleType = parseResult.data.bundleType === undefined ? existing.bundleType : parseResult.data.bundleType;
+    const bundleSize = parseResult.data.bundleSize === undefined ? existing.bundleSize : parseResult.data.bundleSize;
+    if (bundleType === "pick" && !bundleSize) {
+      return res.status(400).json({ message: "Say how many bagels go in the bundle" });
+    }
+    if (bundleType && !existing.bundleType) {
+      const usedIn = (await storage.getBundleComponents()).some((component) => component.productId === existing.id);
+      if (usedIn) {
+        return res.status(409).json({ message: "This product is in a bundle, so it can't become one" });
+      }
+    }
+    const product = await storage.updateProduct(existing.id, parseResult.data);
     res.json(product);
   } catch (error) {
     console.error("Error updating product:", error);
@@ -73,13 +149,156 @@ export async function updateProduct(req: Request, res: Response) {
   }
 }
 
-export async function deleteProduct(req: Request, res: Response) {
+// Products are never deleted: past orders, batches and invoices point at them
+export async function archiveProduct(req: Request, res: Response) {
+  try {
+    const product = await storage.setProductArchived(req.params.id as string, true);
+    if (!product) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    const actor = getActor(req);
+    await storage.logActivity("product.archived", "product", product.id, { name: product.name }, actor.id, actor.username);
+    res.json(product);
+  } catch (error) {
+    console.error("Error archiving product:", error);
+    res.status(500).json({ message: "Failed to archive product" });
+  }
+}
+
+export async function restoreProduct(req: Request, res: Response) {
   try {
-    await storage.deleteProduct(req.params.id as string);
-    res.json({ success: true });
+    const product = await storage.setProductArchived(req.params.id as string, false);
+    if (!product) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    const actor = getActor(req);
+    await storage.logActivity("product.restored", "product", product.id, { name: product.name }, actor.id, actor.username);
+    res.json(product);
   } catch (error) {
-    console.error("Error deleting product:", error);
-    res.status(500).json({ message: "Failed to delete product" });
+    console.error("Error restoring product:", error);
+    res.status(500).json({ message: "Failed to restore product" });
+  }
+}
+
+// The body is the image itself (Content-Type image/png and so on), not JSON; the route caps its size
+export async function uploadProductImage(req: Request, res: Response) {
+  try {
+    const product = await storage.getProduct(req.params.id as string);
+    if (!product) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    const contentType = (req.header("Content-Type") || "").split(";")[0].trim();
+    if (!IMAGE_TYPES[contentType] || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ message: "Upload a JPEG, PNG, WebP or GIF image" });
+    }
+
+    const imageUrl = await saveProductImage(product.id, contentType, req.body);
+    const updated = await storage.updateProduct(product.id, { imageUrl });
+    await removeProductImage(product.imageUrl);
+    res.json(updated);
+  } catch (error) {
+    console.error("Error uploading product image:", error);
+    res.status(500).json({ message: "Failed to upload product image" });
+  }
+}
+
+// Public: product photos on the storefront. An image's id changes with every upload, so it can be cached for good
+export async function getProductImage(req: Request, res: Response) {
+  try {
+    const image = await storage.getProductImage(req.params.id as string);
+    if (!image) {
+      return res.status(404).json({ message: "Image not found" });
+    }
+    res.set("Content-Type", image.contentType);
+    res.set("Cache-Control", "public, max-age=31536000, immutable");
+    res.send(image.data);
+  } catch (error) {
+    console.error("Error fetching product image:", error);
+    res.status(500).json({ message: "Failed to fetch product image" });
+  }
+}
+
+export async function createProductVariant(req: Request, res: Response) {
+  try {
+    const parseResult = insertProductVariantSchema.safeParse({ ...req.body, productId: req.params.id });
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid pack size",
+        errors: parseResult.error.errors
+      });
+    }
+    const product = await storage.getProduct(parseResult.data.productId);
+    if (!product) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    if (product.bundleType) {
+      return res.status(400).json({ message: "Bundles are sold by the bundle and don't have pack sizes" });
+    }
+    const variant = await storage.createProductVariant(parseResult.data);
+    res.json(variant);
+  } catch (error) {
+    console.error("Error creating product variant:", error);
+    res.status(500).json({ message: "Failed to create pack size" });
+  }
+}
+
+// Pack sizes are switched off rather than deleted, since order lines refer to them
+export async function updateProductVariant(req: Request, res: Response) {
+  try {
+    const parseResult = insertProductVariantSchema.omit({ productId: true }).partial().safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid pack size",
+        errors: parseResult.error.errors
+      });
+    }
+    const variant = await storage.updateProductVariant(req.params.id as string, parseResult.data);
+    if (!variant) {
+      return res.status(404).json({ message: "Pack size not found" });
+    }
+    res.json(variant);
+  } catch (error) {
+    console.error("Error updating product variant:", error);
+    res.status(500).json({ message: "Failed to update pack size" });
+  }
+}
+
+// Replaces what goes in a bundle: fixed contents with a quantity each, or the set a pick bundle is chosen from
+export async function updateBundleComponents(req: Request, res: Response) {
+  try {
+    const parseResult = bundleComponentsSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid bundle contents",
+        errors: parseResult.error.errors
+      });
+    }
+    const bundle = await storage.getProduct(req.params.id as string);
+    if (!bundle) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    if (!bundle.bundleType) {
+      return res.status(400).json({ message: "Only bundles have contents" });
+    }
+
+    await checkComponents(bundle, parseResult.data.components);
+    const components = await storage.setBundleComponents(bundle.id, parseResult.data.components);
+    const actor = getActor(req);
+    await storage.logActivity(
+      "product.bundle_updated",
+      "product",
+      bundle.id,
+      { name: bundle.name, components: parseResult.data.components },
+      actor.id,
+      actor.username
+    );
+    res.json(components);
+  } catch (error) {
+    if (error instanceof InvalidBundleError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error updating bundle contents:", error);
+    res.status(500).json({ message: "Failed to update bundle contents" });
   }
 }
 
@@ -93,28 +312,43 @@ export async function getProductBom(req: Request, res: Response) {
   }
 }
 
+export async function getProductRecipes(req: Request, res: Response) {
+  try {
+    const versions = await storage.getRecipeVersions(req.params.id as string);
+    res.json(versions);
+  } catch (error) {
+    console.error("Error fetching recipe versions:", error);
+    res.status(500).json({ message: "Failed to fetch recipe versions" });
+  }
+}
+
 export async function updateProductBom(req: Request, res: Response) {
   try {
-    const { items } = req.body;
-    if (!Array.isArray(items)) {
-      return res.status(400).json({ message: "Items must be an array" });
+    const parseResult = productBomSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid bill of materials",
+        errors: parseResult.error.errors
+      });
     }
 
-    await storage.deleteBomForProduct(req.params.id as string);
-    
-    for (const item of items) {
-      if (item.ingredientId && item.quantity > 0) {
-        await storage.createBom({
-          productId: req.params.id as string,
-          ingredientId: item.ingredientId,
-          quantity: item.quantity.toString(),
-        });
-      }
+    const product = await storage.getProduct(req.params.id as string);
+    if (product?.bundleType) {
+      return res.status(400).json({ message: "Bundles are made from other products, not a recipe" });
     }
 
-    const bom = await storage.getBomForProduct(req.params.id as string);
-    res.json(bom);
+    // Saving never overwrites: it adds a version, so past batches keep the recipe they used
+    const { effectiveFrom, ...recipe } = parseResult.data;
+    const version = await saveRecipe(
+      req.params.id as string,
+      { ...recipe, effectiveFrom: effectiveFrom ? bakeryTime(effectiveFrom, 0) : undefined },
+      getActor(req)
+    );
+    res.json(await storage.getRecipe(req.params.id as string, version.id));
   } catch (error) {
+    if (error instanceof UnitMismatchError || error instanceof InvalidRecipeError) {
+      return res.status(400).json({ message: error.message });
+    }
     console.error("Error updating product BOM:", error);
     res.status(500).json({ message: "Failed to update product BOM" });
   }
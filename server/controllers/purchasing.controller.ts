@@ -0,0 +1,271 @@
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import { insertSupplierSchema } from "../../shared/schema.js";
+import {
+  purchaseOrderCreateSchema,
+  purchaseOrderUpdateSchema,
+  purchaseOrderStatusSchema,
+  purchaseOrderReceiveSchema,
+  purchaseOrderDraftSchema,
+} from "../lib/validation.js";
+import { draftFromLowStock, setPurchaseOrderStatus } from "../lib/purchasing.js";
+import { PurchaseOrderStateError } from "../lib/errors.js";
+import { endOfBakeryDay } from "../lib/capacity.js";
+import { getActor } from "../simpleAuth.js";
+
+function csvField(value: string | number | null | undefined): string {
+  const text = value == null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toLines(items: { ingredientId: string; quantity: number; unitCost: number }[]) {
+  return items.map((item) => ({
+    ingredientId: item.ingredientId,
+    quantity: item.quantity.toString(),
+    unitCost: item.unitCost.toString(),
+  }));
+}
+
+export async function getAllSuppliers(req: Request, res: Response) {
+  try {
+    const suppliers = await storage.getSuppliers();
+    res.json(suppliers);
+  } catch (error) {
+    console.error("Error fetching suppliers:", error);
+    res.status(500).json({ message: "Failed to fetch suppliers" });
+  }
+}
+
+export async function createSupplier(req: Request, res: Response) {
+  try {
+    const parseResult = insertSupplierSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid supplier data",
+        errors: parseResult.error.errors
+      });
+    }
+    const supplier = await storage.createSupplier(parseResult.data);
+    res.json(supplier);
+  } catch (error) {
+    console.error("Error creating supplier:", error);
+    res.status(500).json({ message: "Failed to create supplier" });
+  }
+}
+
+export async function updateSupplier(req: Request, res: Response) {
+  try {
+    const parseResult = insertSupplierSchema.partial().safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid supplier data",
+        errors: parseResult.error.errors
+      });
+    }
+    const supplier = await storage.updateSupplier(req.params.id as string, parseResult.data);
+    if (!supplier) {
+      return res.status(404).json({ message: "Supplier not found" });
+    }
+    res.json(supplier);
+  } catch (error) {
+    console.error("Error updating supplier:", error);
+    res.status(500).json({ message: "Failed to update supplier" });
+  }
+}
+
+export async function getAllPurchaseOrders(req: Request, res: Response) {
+  try {
+    const purchaseOrders = await storage.getPurchaseOrders();
+    res.json(purchaseOrders);
+  } catch (error) {
+    console.error("Error fetching purchase orders:", error);
+    res.status(500).json({ message: "Failed to fetch purchase orders" });
+  }
+}
+
+export async function getPurchaseOrder(req: Request, res: Response) {
+  try {
+    const purchaseOrder = await storage.getPurchaseOrder(req.params.id as string);
+    if (!purchaseOrder) {
+      return res.status(404).json({ message: "Purchase order not found" });
+    }
+    res.json(purchaseOrder);
+  } catch (error) {
+    console.error("Error fetching purchase order:", error);
+    res.status(500).json({ message: "Failed to fetch purchase order" });
+  }
+}
+
+export async function createPurchaseOrder(req: Request, res: Response) {
+  try {
+    const parseResult = purchaseOrderCreateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid purchase order",
+        errors: parseResult.error.errors
+      });
+    }
+
+    const actor = getActor(req);
+    const { items, expectedDate, ...data } = parseResult.data;
+    const purchaseOrder = await storage.createPurchaseOrder(
+      {
+        ...data,
+        status: "draft",
+        expectedDate: expectedDate ? new Date(expectedDate) : null,
+        createdBy: actor.username,
+      },
+      toLines(items)
+    );
+    await storage.logActivity(
+      "purchase_order.created",
+      "purchase_order",
+      purchaseOrder.id,
+      { poNumber: purchaseOrder.poNumber },
+      actor.id,
+      actor.username
+    );
+    res.json(purchaseOrder);
+  } catch (error) {
+    console.error("Error creating purchase order:", error);
+    res.status(500).json({ message: "Failed to create purchase order" });
+  }
+}
+
+export async function draftPurchaseOrders(req: Request, res: Response) {
+  try {
+    const parseResult = purchaseOrderDraftSchema.safeParse(req.body || {});
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid ingredients",
+        errors: parseResult.error.errors
+      });
+    }
+    const result = await draftFromLowStock(parseResult.data.ingredientIds, getActor(req));
+    res.json(result);
+  } catch (error) {
+    console.error("Error drafting purchase orders:", error);
+    res.status(500).json({ message: "Failed to draft purchase orders" });
+  }
+}
+
+export async function updatePurchaseOrder(req: Request, res: Response) {
+  try {
+    const parseResult = purchaseOrderUpdateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid purchase order",
+        errors: parseResult.error.errors
+      });
+    }
+
+    const { items, expectedDate, ...data } = parseResult.data;
+    const purchaseOrder = await storage.updatePurchaseOrder(
+      req.params.id as string,
+      {
+        ...data,
+        ...(expectedDate !== undefined ? { expectedDate: expectedDate ? new Date(expectedDate) : null } : {}),
+      },
+      items && toLines(items)
+    );
+    if (!purchaseOrder) {
+      return res.status(404).json({ message: "Purchase order not found" });
+    }
+    res.json(purchaseOrder);
+  } catch (error) {
+    if (error instanceof PurchaseOrderStateError) {
+      return res.status(409).json({ message: error.message });
+    }
+    console.error("Error updating purchase order:", error);
+    res.status(500).json({ message: "Failed to update purchase order" });
+  }
+}
+
+export async function updatePurchaseOrderStatus(req: Request, res: Response) {
+  try {
+    const parseResult = purchaseOrderStatusSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ message: "Invalid status" });
+    }
+    const purchaseOrder = await setPurchaseOrderStatus(req.params.id as string, parseResult.data.status, getActor(req));
+    if (!purchaseOrder) {
+      return res.status(404).json({ message: "Purchase order not found" });
+    }
+    res.json(purchaseOrder);
+  } catch (error) {
+    if (error instanceof PurchaseOrderStateError) {
+      return res.status(409).json({ message: error.message });
+    }
+    console.error("Error updating purchase order status:", error);
+    res.status(500).json({ message: "Failed to update purchase order status" });
+  }
+}
+
+export async function receivePurchaseOrder(req: Request, res: Response) {
+  try {
+    const parseResult = purchaseOrderReceiveSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid delivery",
+        errors: parseResult.error.errors
+      });
+    }
+
+    const actor = getActor(req);
+    const existing = await storage.getPurchaseOrder(req.params.id as string);
+    if (!existing) {
+      return res.status(404).json({ message: "Purchase order not found" });
+    }
+
+    const lines = parseResult.data.items.map(({ expiresOn, ...line }) => ({
+      ...line,
+      expiresAt: expiresOn ? endOfBakeryDay(expiresOn) : undefined,
+    }));
+    const purchaseOrder = await storage.receivePurchaseOrder(existing.id, lines, actor.username);
+    await storage.logActivity(
+      "purchase_order.received",
+      "purchase_order",
+      purchaseOrder.id,
+      { poNumber: purchaseOrder.poNumber, items: parseResult.data.items, status: purchaseOrder.status },
+      actor.id,
+      actor.username
+    );
+    res.json(purchaseOrder);
+  } catch (error) {
+    if (error instanceof PurchaseOrderStateError) {
+      return res.status(409).json({ message: error.message });
+    }
+    console.error("Error receiving purchase order:", error);
+    res.status(500).json({ message: "Failed to receive purchase order" });
+  }
+}
+
+export async function exportPurchaseOrder(req: Request, res: Response) {
+  try {
+    const purchaseOrder = await storage.getPurchaseOrder(req.params.id as string);
+    if (!purchaseOrder) {
+      return res.status(404).json({ message: "Purchase order not found" });
+    }
+
+    const rows = [
+      ["PO Number", "Supplier", "Expected", "Ingredient", "Unit", "Quantity", "Unit Cost", "Line Total", "Received"],
+      ...purchaseOrder.items.map((item) => [
+        purchaseOrder.poNumber,
+        purchaseOrder.supplier.name,
+        purchaseOrder.expectedDate ? purchaseOrder.expectedDate.toISOString().slice(0, 10) : "",
+        item.ingredient.name,
+        item.ingredient.unit,
+        item.quantity,
+        item.unitCost,
+        (parseFloat(item.quantity) * parseFloat(item.unitCost)).toFixed(2),
+        item.receivedQuantity,
+      ]),
+    ];
+    const csv = rows.map((row) => row.map(csvField).join(",")).join("\n");
+
+    res.type("text/csv").attachment(`${purchaseOrder.poNumber}.csv`).send(csv);
+  } catch (error) {
+    console.error("Error exporting purchase order:", error);
+    res.status(500).json({ message: "Failed to export purchase order" });
+  }
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { csvField } from "./recalls.controller.js";
+
+describe("csvField", () => {
+  it("leaves plain values alone", () => {
+    expect(csvField("Ada Lovelace")).toBe("Ada Lovelace");
+    expect(csvField(12)).toBe("12");
+    expect(csvField(null)).toBe("");
+  });
+
+  it("quotes commas, quotes and line breaks", () => {
+    expect(csvField("12 Main St, Apt 4")).toBe('"12 Main St, Apt 4"');
+    expect(csvField('The "usual"')).toBe('"The ""usual"""');
+    expect(csvField("line one\nline two")).toBe('"line one\nline two"');
+  });
+
+  it("stops spreadsheets reading a cell as a formula", () => {
+    expect(csvField("=HYPERLINK(\"http://example.com\")")).toBe('"\'=HYPERLINK(""http://example.com"")"');
+    expect(csvField("+1 555 0100")).toBe("'+1 555 0100");
+    expect(csvField("-2+3")).toBe("'-2+3");
+    expect(csvField("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(csvField("\tcmd")).toBe("'\tcmd");
+  });
+});
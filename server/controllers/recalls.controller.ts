@@ -0,0 +1,80 @@
+import type { Request, Response } from "express";
+import { recallQuerySchema } from "../lib/validation.js";
+import { traceRecall, type RecallScope } from "../lib/traceability.js";
+import { bakeryDay } from "../lib/capacity.js";
+
+// Names and addresses are whatever customers typed, so anything a spreadsheet would read as
+// a formula is prefixed with a quote
+export function csvField(value: string | number | null | undefined): string {
+  let text = value == null ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toScope(query: { batchId?: string; lotId?: string; ingredientId?: string }): RecallScope {
+  if (query.batchId) return { batchId: query.batchId };
+  if (query.lotId) return { lotId: query.lotId };
+  return { ingredientId: query.ingredientId! };
+}
+
+export async function getRecallReport(req: Request, res: Response) {
+  try {
+    const parseResult = recallQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid recall query",
+        errors: parseResult.error.errors
+      });
+    }
+    const report = await traceRecall(toScope(parseResult.data));
+    if (!report) {
+      return res.status(404).json({ message: "Nothing found to trace" });
+    }
+    res.json(report);
+  } catch (error) {
+    console.error("Error building recall report:", error);
+    res.status(500).json({ message: "Failed to build recall report" });
+  }
+}
+
+// One row per affected order, ready to work through by phone or email
+export async function exportRecallReport(req: Request, res: Response) {
+  try {
+    const parseResult = recallQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid recall query",
+        errors: parseResult.error.errors
+      });
+    }
+    const report = await traceRecall(toScope(parseResult.data));
+    if (!report) {
+      return res.status(404).json({ message: "Nothing found to trace" });
+    }
+
+    const batchLabel = (batchId: string) => {
+      const batch = report.batches.find((b) => b.id === batchId);
+      return batch ? `${bakeryDay(batch.batchDate)} ${batch.shift}` : batchId;
+    };
+    const rows = [
+      ["Order", "Customer", "Email", "Phone", "Fulfillment", "Status", "Received or Scheduled", "Batches", "Products"],
+      ...report.orders.map((order) => [
+        order.orderNumber,
+        order.customerName,
+        order.customerEmail,
+        order.customerPhone,
+        bakeryDay(order.fulfillmentDate),
+        order.status,
+        order.via,
+        order.batchIds.map(batchLabel).join("; "),
+        order.items.map((item) => `${item.quantity}x ${item.productName}`).join("; "),
+      ]),
+    ];
+    const csv = rows.map((row) => row.map(csvField).join(",")).join("\n");
+
+    res.type("text/csv").attachment(`recall-${bakeryDay(new Date())}.csv`).send(csv);
+  } catch (error) {
+    console.error("Error exporting recall report:", error);
+    res.status(500).json({ message: "Failed to export recall report" });
+  }
+}
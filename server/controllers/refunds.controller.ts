@@ -0,0 +1,56 @@
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import { refundCreateSchema } from "../lib/validation.js";
+import { PaymentError, RefundLimitError } from "../lib/errors.js";
+import { getRefundSummary, issueRefund } from "../lib/refunds.js";
+import { notifyOrder } from "../lib/notifications.js";
+import { getActor } from "../simpleAuth.js";
+
+export async function getOrderRefunds(req: Request, res: Response) {
+  try {
+    const order = await storage.getOrder(req.params.id as string);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    const summary = await getRefundSummary(order);
+    res.json(summary);
+  } catch (error) {
+    console.error("Error fetching refunds:", error);
+    res.status(500).json({ message: "Failed to fetch refunds" });
+  }
+}
+
+export async function createOrderRefund(req: Request, res: Response) {
+  try {
+    const parseResult = refundCreateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid refund data",
+        errors: parseResult.error.errors
+      });
+    }
+
+    const order = await storage.getOrder(req.params.id as string);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    const refund = await issueRefund(order, parseResult.data, getActor(req));
+    await notifyOrder(order.id, "order_refunded", {
+      refundAmount: parseFloat(refund.amount),
+      creditNoteNumber: refund.creditNoteNumber,
+      reason: parseResult.data.reason,
+    });
+    res.json(refund);
+  } catch (error) {
+    if (error instanceof RefundLimitError) {
+      return res.status(409).json({ message: error.message, remaining: error.remaining });
+    }
+    if (error instanceof PaymentError) {
+      return res.status(400).json({ message: error.message, error: error.detail });
+    }
+    console.error("Error creating refund:", error);
+    res.status(500).json({ message: "Failed to create refund" });
+  }
+}
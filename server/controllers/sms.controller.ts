@@ -0,0 +1,139 @@
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import { smsTemplateSchema, orderTextSchema } from "../lib/validation.js";
+import { DEFAULT_SMS_TEMPLATES, SMS_PLACEHOLDERS } from "../lib/texts.js";
+import { textablePhone, textOrder } from "../lib/notifications.js";
+import { getSmsProvider, normalizePhone } from "../lib/sms.js";
+import { setSmsConsent } from "../lib/customers.js";
+import { siteUrl } from "../lib/emails.js";
+import { getActor } from "../simpleAuth.js";
+import { SMS_TEMPLATES, SMS_STOP_WORDS, SMS_START_WORDS, type SmsTemplate } from "../../shared/schema.js";
+
+function isSmsTemplate(template: string): template is SmsTemplate {
+  return (SMS_TEMPLATES as readonly string[]).includes(template);
+}
+
+export async function getSmsTemplates(req: Request, res: Response) {
+  try {
+    const saved = await storage.getMessageTemplates("sms");
+    const templates = SMS_TEMPLATES.map((template) => {
+      const custom = saved.find((row) => row.template === template);
+      return {
+        template,
+        body: custom?.body || DEFAULT_SMS_TEMPLATES[template],
+        defaultBody: DEFAULT_SMS_TEMPLATES[template],
+        customized: !!custom,
+        updatedBy: custom?.updatedBy || null,
+        updatedAt: custom?.updatedAt || null,
+      };
+    });
+    res.json({ placeholders: SMS_PLACEHOLDERS, templates });
+  } catch (error) {
+    console.error("Error fetching SMS templates:", error);
+    res.status(500).json({ message: "Failed to fetch SMS templates" });
+  }
+}
+
+export async function updateSmsTemplate(req: Request, res: Response) {
+  try {
+    const template = req.params.template as string;
+    if (!isSmsTemplate(template)) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+    const parseResult = smsTemplateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid template",
+        errors: parseResult.error.errors,
+      });
+    }
+
+    const actor = getActor(req);
+    const saved = await storage.saveMessageTemplate("sms", template, parseResult.data.body, actor.username);
+    await storage.logActivity("sms.template_updated", "message_template", saved.id, { template, body: saved.body }, actor.id, actor.username);
+    res.json(saved);
+  } catch (error) {
+    console.error("Error updating SMS template:", error);
+    res.status(500).json({ message: "Failed to update SMS template" });
+  }
+}
+
+// Goes back to the built-in wording
+export async function resetSmsTemplate(req: Request, res: Response) {
+  try {
+    const template = req.params.template as string;
+    if (!isSmsTemplate(template)) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+
+    const actor = getActor(req);
+    await storage.deleteMessageTemplate("sms", template);
+    await storage.logActivity("sms.template_updated", "message_template", undefined, { template, reset: true }, actor.id, actor.username);
+    res.json({ template, body: DEFAULT_SMS_TEMPLATES[template] });
+  } catch (error) {
+    console.error("Error resetting SMS template:", error);
+    res.status(500).json({ message: "Failed to reset SMS template" });
+  }
+}
+
+// Staff sending a delivery-day text by hand: an ETA, or that the order can be picked up
+export async function textOrderCustomer(req: Request, res: Response) {
+  try {
+    const parseResult = orderTextSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid message",
+        errors: parseResult.error.errors,
+      });
+    }
+
+    const order = await storage.getOrder(req.params.id as string);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+    if (!(await textablePhone(order))) {
+      return res.status(400).json({ message: "This customer hasn't asked for texts on the order's number" });
+    }
+
+    const { template, etaMinutes } = parseResult.data;
+    const notification = await textOrder(order.id, template, { etaMinutes });
+    if (!notification) {
+      return res.status(500).json({ message: "Failed to send text" });
+    }
+    res.json(notification);
+  } catch (error) {
+    console.error("Error texting customer:", error);
+    res.status(500).json({ message: "Failed to send text" });
+  }
+}
+
+// Replies from customers. Only STOP and START words mean anything; the provider handles the
+// confirmation reply itself, so we answer with empty TwiML.
+export async function handleSmsWebhook(req: Request, res: Response) {
+  try {
+    const params = Object.fromEntries(
+      Object.entries(req.body || {}).map(([key, value]) => [key, String(value)])
+    ) as Record<string, string>;
+    const signature = req.header("X-Twilio-Signature");
+    if (!getSmsProvider().verifyInbound(siteUrl(req.originalUrl), params, signature)) {
+      return res.status(403).json({ message: "Invalid signature" });
+    }
+
+    const phone = normalizePhone(params.From);
+    const word = (params.Body || "").trim().toUpperCase();
+    const optIn = SMS_START_WORDS.includes(word) ? true : SMS_STOP_WORDS.includes(word) ? false : undefined;
+
+    if (phone && optIn !== undefined) {
+      for (const customer of await storage.getCustomersBySmsPhone(phone)) {
+        if (customer.smsOptIn !== optIn) {
+          await setSmsConsent(customer, phone, optIn, "sms_reply", { username: "sms" });
+        }
+      }
+    }
+
+    res.type("text/xml").send("<Response></Response>");
+  } catch (error) {
+    console.error("Error handling inbound SMS:", error);
+    res.status(500).json({ message: "Failed to handle inbound SMS" });
+  }
+}
@@ -0,0 +1,49 @@
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import { subscriptionObligationsQuerySchema } from "../lib/validation.js";
+import { addDays, bakeryDay } from "../lib/capacity.js";
+import { deliveryBagels, lineNames, subscriptionObligations } from "../lib/subscriptions.js";
+
+export async function getSubscriptions(req: Request, res: Response) {
+  try {
+    const subscriptions = await storage.getSubscriptions();
+    res.json(await Promise.all(subscriptions.map(async (subscription) => ({
+      id: subscription.id,
+      status: subscription.status,
+      cadence: subscription.cadence,
+      fulfillmentWindow: subscription.fulfillmentWindow,
+      nextDeliveryDate: subscription.nextDeliveryDate,
+      resumeOn: subscription.resumeOn,
+      deliveryCity: subscription.deliveryCity,
+      lastFailureReason: subscription.lastFailureReason,
+      lastFailedAt: subscription.lastFailedAt,
+      createdAt: subscription.createdAt,
+      customer: { id: subscription.customer.id, name: subscription.customer.name, email: subscription.customer.email },
+      items: await lineNames(subscription),
+      bagels: (await deliveryBagels(subscription)).reduce((sum, line) => sum + line.quantity, 0),
+    }))));
+  } catch (error) {
+    console.error("Error fetching subscriptions:", error);
+    res.status(500).json({ message: "Failed to fetch subscriptions" });
+  }
+}
+
+// What subscribers are owed over the next few weeks, before any of it is an order
+export async function getSubscriptionObligations(req: Request, res: Response) {
+  try {
+    const parseResult = subscriptionObligationsQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid query",
+        errors: parseResult.error.errors
+      });
+    }
+
+    const from = parseResult.data.from || bakeryDay(new Date());
+    const through = addDays(from, parseResult.data.weeks * 7 - 1);
+    res.json({ from, through, obligations: await subscriptionObligations(from, through) });
+  } catch (error) {
+    console.error("Error fetching subscription obligations:", error);
+    res.status(500).json({ message: "Failed to fetch subscription obligations" });
+  }
+}
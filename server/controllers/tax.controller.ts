@@ -0,0 +1,64 @@
+import type { Request, Response } from "express";
+import { storage } from "../storage.js";
+import { taxRateSchema } from "../lib/validation.js";
+
+export async function getAllTaxRates(req: Request, res: Response) {
+  try {
+    const rates = await storage.getTaxRates();
+    res.json(rates);
+  } catch (error) {
+    console.error("Error fetching tax rates:", error);
+    res.status(500).json({ message: "Failed to fetch tax rates" });
+  }
+}
+
+export async function createTaxRate(req: Request, res: Response) {
+  try {
+    const parseResult = taxRateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid tax rate",
+        errors: parseResult.error.errors
+      });
+    }
+    const rate = await storage.createTaxRate(parseResult.data);
+    res.json(rate);
+  } catch (error) {
+    console.error("Error creating tax rate:", error);
+    res.status(500).json({ message: "Failed to create tax rate" });
+  }
+}
+
+export async function updateTaxRate(req: Request, res: Response) {
+  try {
+    const parseResult = taxRateSchema.partial().safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid tax rate",
+        errors: parseResult.error.errors
+      });
+    }
+    const rate = await storage.updateTaxRate(req.params.id as string, parseResult.data);
+    if (!rate) {
+      return res.status(404).json({ message: "Tax rate not found" });
+    }
+    res.json(rate);
+  } catch (error) {
+    console.error("Error updating tax rate:", error);
+    res.status(500).json({ message: "Failed to update tax rate" });
+  }
+}
+
+// Orders keep the rate they were placed with, so removing one only affects new orders
+export async function deleteTaxRate(req: Request, res: Response) {
+  try {
+    const deleted = await storage.deleteTaxRate(req.params.id as string);
+    if (!deleted) {
+      return res.status(404).json({ message: "Tax rate not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting tax rate:", error);
+    res.status(500).json({ message: "Failed to delete tax rate" });
+  }
+}
@@ -0,0 +1,156 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage.js";
+import { getActor } from "../simpleAuth.js";
+import { hashPassword, generateTemporaryPassword } from "../lib/passwords.js";
+import { USER_ROLES, type PublicUser, type User } from "../../shared/schema.js";
+
+const inviteUserSchema = z.object({
+  username: z.string().min(3).max(50),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+  email: z.string().email().optional().or(z.literal("")),
+  role: z.enum(USER_ROLES),
+});
+
+const updateUserSchema = z.object({
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+  email: z.string().email().optional().or(z.literal("")),
+  role: z.enum(USER_ROLES).optional(),
+  isActive: z.boolean().optional(),
+});
+
+function toPublicUser({ passwordHash, ...user }: User): PublicUser {
+  return user;
+}
+
+export async function getAllUsers(req: Request, res: Response) {
+  try {
+    const users = await storage.getUsers();
+    res.json(users.filter(u => u.username).map(toPublicUser));
+  } catch (error) {
+    console.error("Error fetching users:", error);
+    res.status(500).json({ message: "Failed to fetch users" });
+  }
+}
+
+export async function inviteUser(req: Request, res: Response) {
+  try {
+    const parseResult = inviteUserSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid user data",
+        errors: parseResult.error.errors,
+      });
+    }
+
+    const { email, ...data } = parseResult.data;
+    if (await storage.getUserByUsername(data.username)) {
+      return res.status(409).json({ message: "That username is already taken" });
+    }
+
+    const temporaryPassword = generateTemporaryPassword();
+    const user = await storage.createUser({
+      ...data,
+      email: email || null,
+      passwordHash: await hashPassword(temporaryPassword),
+      isActive: true,
+    });
+
+    const actor = getActor(req);
+    await storage.logActivity(
+      "user.invited",
+      "user",
+      user.id,
+      { username: user.username, role: user.role },
+      actor.id,
+      actor.username
+    );
+
+    // The temporary password is only ever returned here - the owner passes it on
+    res.json({ user: toPublicUser(user), temporaryPassword });
+  } catch (error) {
+    console.error("Error inviting user:", error);
+    res.status(500).json({ message: "Failed to invite user" });
+  }
+}
+
+export async function updateUser(req: Request, res: Response) {
+  try {
+    const parseResult = updateUserSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Invalid user data",
+        errors: parseResult.error.errors,
+      });
+    }
+
+    const userId = req.params.id as string;
+    const existing = await storage.getUser(userId);
+    if (!existing) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const data = parseResult.data;
+    const losesOwner = existing.role === "owner" && existing.isActive &&
+      ((data.role && data.role !== "owner") || data.isActive === false);
+    if (losesOwner) {
+      const users = await storage.getUsers();
+      const activeOwners = users.filter(u => u.role === "owner" && u.isActive);
+      if (activeOwners.length <= 1) {
+        return res.status(400).json({ message: "The bakehouse needs at least one active owner" });
+      }
+    }
+
+    const user = await storage.updateUser(userId, {
+      ...data,
+      email: data.email === "" ? null : data.email,
+    });
+
+    const actor = getActor(req);
+    await storage.logActivity(
+      data.isActive === false ? "user.disabled" : "user.updated",
+      "user",
+      userId,
+      data,
+      actor.id,
+      actor.username
+    );
+
+    res.json(toPublicUser(user!));
+  } catch (error) {
+    console.error("Error updating user:", error);
+    res.status(500).json({ message: "Failed to update user" });
+  }
+}
+
+export async function resetUserPassword(req: Request, res: Response) {
+  try {
+    const userId = req.params.id as string;
+    const existing = await storage.getUser(userId);
+    if (!existing) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const temporaryPassword = generateTemporaryPassword();
+    await storage.updateUser(userId, { passwordHash: await hashPassword(temporaryPassword) });
+    // Whoever was signed in with the old password is signed out
+    const endedSessions = await storage.deleteUserSessions(userId, req.sessionID);
+
+    const actor = getActor(req);
+    await storage.logActivity(
+      "user.password_reset",
+      "user",
+      userId,
+      { username: existing.username, endedSessions },
+      actor.id,
+      actor.username
+    );
+
+    res.json({ temporaryPassword });
+  } catch (error) {
+    console.error("Error resetting password:", error);
+    res.status(500).json({ message: "Failed to reset password" });
+  }
+}
@@ -0,0 +1,88 @@
+import type { Request, Response } from "express";
+import type Stripe from "stripe";
+import { storage } from "../storage.js";
+import { getStripe } from "../lib/stripe.js";
+import { processWebhookEvent } from "../lib/stripeWebhooks.js";
+
+export async function handleStripeWebhook(req: Request, res: Response) {
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!webhookSecret) {
+    // Fail loudly so Stripe keeps retrying until the secret is set, instead of dropping events
+    console.error("STRIPE_WEBHOOK_SECRET is not set - rejecting webhook");
+    return res.status(500).json({ message: "Webhook secret is not configured" });
+  }
+
+  if (!Buffer.isBuffer(req.rawBody)) {
+    return res.status(400).json({ message: "Missing raw request body" });
+  }
+
+  let event: Stripe.Event;
+  try {
+    event = getStripe().webhooks.constructEvent(
+      req.rawBody,
+      req.headers["stripe-signature"] as string,
+      webhookSecret
+    );
+  } catch (err: any) {
+    console.error("Webhook signature error:", err.message);
+    return res.status(400).send(`Webhook Error: ${err.message}`);
+  }
+
+  try {
+    const { event: record, isNew } = await storage.recordWebhookEvent({
+      id: event.id,
+      type: event.type,
+      payload: event,
+    });
+
+    // Already handled - Stripe is just delivering it again
+    if (!isNew && (record.status === "processed" || record.status === "ignored")) {
+      return res.json({ received: true, duplicate: true });
+    }
+
+    await processWebhookEvent(event);
+    res.json({ received: true });
+  } catch (error) {
+    console.error(`Error processing webhook ${event.id}:`, error);
+    res.status(500).json({ message: "Failed to process webhook" });
+  }
+}
+
+export async function getAllWebhookEvents(req: Request, res: Response) {
+  try {
+    const status = req.query.status as string | undefined;
+    const limit = parseInt(req.query.limit as string) || 100;
+
+    const events = await storage.getWebhookEvents({
+      status: status && status !== "all" ? status : undefined,
+      limit,
+    });
+    res.json(events);
+  } catch (error) {
+    console.error("Error fetching webhook events:", error);
+    res.status(500).json({ message: "Failed to fetch webhook events" });
+  }
+}
+
+export async function replayWebhookEvent(req: Request, res: Response) {
+  try {
+    const record = await storage.getWebhookEvent(req.params.id as string);
+    if (!record) {
+      return res.status(404).json({ message: "Webhook event not found" });
+    }
+    // Running a processed event again would repeat its side effects, like capturing twice
+    if (record.status !== "failed") {
+      return res.status(409).json({ message: `Only failed events can be replayed; this one is ${record.status}` });
+    }
+
+    try {
+      const updated = await processWebhookEvent(record.payload as Stripe.Event);
+      res.json(updated);
+    } catch (error: any) {
+      res.status(422).json({ message: `Replay failed: ${error?.message || error}` });
+    }
+  } catch (error) {
+    console.error("Error replaying webhook event:", error);
+    res.status(500).json({ message: "Failed to replay webhook event" });
+  }
+}
@@ -0,0 +1,102 @@
+import crypto from "crypto";
+import type { Request, RequestHandler, Response } from "express";
+import { storage } from "./storage.js";
+import { getMailer } from "./lib/mailer.js";
+import { renderSignInEmail, siteUrl } from "./lib/emails.js";
+import type { Customer } from "../shared/schema.js";
+
+// Sign-in links are single use and short lived; the session they start lasts a month.
+// Customers get their own cookie so signing in never touches a bakehouse login's session.
+const LINK_TTL_MS = 20 * 60 * 1000;
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const SESSION_COOKIE = "dhavi.customer";
+
+const cookieOptions = {
+  path: "/",
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      customerId?: string;
+    }
+  }
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function sessionToken(req: Request): string | undefined {
+  for (const part of (req.headers.cookie || "").split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+// Emails a sign-in link if the address belongs to a customer. Callers answer the same either
+// way so the form can't be used to find out who orders from us.
+export async function sendSignInLink(email: string): Promise<void> {
+  const customer = await storage.getCustomerByEmail(email);
+  if (!customer) return;
+
+  const token = crypto.randomBytes(32).toString("base64url");
+  await storage.createCustomerSignInToken(customer.id, hashToken(token), new Date(Date.now() + LINK_TTL_MS));
+
+  // Sent straight away rather than through the notification queue, which would keep the link in the database
+  const message = renderSignInEmail(customer, siteUrl(`/account/verify?token=${token}`));
+  await getMailer().send({ to: customer.email, ...message });
+}
+
+// Every sign-in starts a new session with a fresh token, so a cookie planted before sign-in is worthless
+export async function signInWithToken(req: Request, res: Response, token: string): Promise<Customer | undefined> {
+  const redeemed = await storage.redeemCustomerSignInToken(hashToken(token));
+  if (!redeemed) return undefined;
+
+  const customer = await storage.updateCustomer(redeemed.customerId, { lastSignInAt: new Date() });
+  if (!customer) return undefined;
+
+  const previous = sessionToken(req);
+  if (previous) await storage.deleteCustomerSession(hashToken(previous));
+
+  const session = crypto.randomBytes(32).toString("base64url");
+  await storage.createCustomerSession(customer.id, hashToken(session), new Date(Date.now() + SESSION_TTL_MS));
+  res.cookie(SESSION_COOKIE, session, { ...cookieOptions, maxAge: SESSION_TTL_MS });
+  return customer;
+}
+
+export async function signOutCustomer(req: Request, res: Response): Promise<void> {
+  const token = sessionToken(req);
+  if (token) await storage.deleteCustomerSession(hashToken(token));
+  res.clearCookie(SESSION_COOKIE, cookieOptions);
+}
+
+export async function loadSessionCustomer(req: Request): Promise<Customer | undefined> {
+  const token = sessionToken(req);
+  if (!token) return undefined;
+  const session = await storage.getCustomerSession(hashToken(token));
+  if (!session) return undefined;
+  const customer = await storage.getCustomer(session.customerId);
+  req.customerId = customer?.id;
+  return customer;
+}
+
+// Only use behind requireCustomer
+export function getSessionCustomerId(req: Request): string {
+  return req.customerId!;
+}
+
+export const requireCustomer: RequestHandler = async (req, res, next) => {
+  try {
+    if (await loadSessionCustomer(req)) {
+      return next();
+    }
+    return res.status(401).json({ message: "Sign in to see your account" });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -4,8 +4,11 @@ import * as schema from "../shared/schema.js";
 
 const { Pool } = pg;
 
+export type Database = ReturnType<typeof drizzle<typeof schema>>;
+export type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
 let _pool: pg.Pool | null = null;
-let _db: ReturnType<typeof drizzle<typeof schema>> | null = null;
+let _db: Database | null = null;
 
 export function getPool(): pg.Pool {
   if (!_pool) {
@@ -58,7 +61,7 @@ export const pool = {
 };
 
 // Create a proper Proxy for the db object
-export const db = new Proxy({} as ReturnType<typeof drizzle<typeof schema>>, {
+export const db = new Proxy({} as Database, {
   get(_target, prop) {
     const realDb = getDb();
     const value = (realDb as any)[prop];
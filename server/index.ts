@@ -1,5 +1,6 @@
 import { app, httpServer, initializeRoutes, log } from "./app.js";
 import { serveStatic } from "./static.js";
+import { scheduleJobs } from "./jobs/index.js";
 
 (async () => {
   await initializeRoutes();
@@ -27,6 +28,7 @@ import { serveStatic } from "./static.js";
     },
     () => {
       log(`serving on port ${port}`);
+      scheduleJobs();
     },
   );
 })();
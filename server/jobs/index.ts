@@ -0,0 +1,49 @@
+import { reconcilePayments } from "./reconcilePayments.js";
+import { renewAuthorizations } from "./renewAuthorizations.js";
+import { sendNotifications } from "./sendNotifications.js";
+import { linkCustomers } from "./linkCustomers.js";
+import { placeSubscriptionOrders } from "./placeSubscriptionOrders.js";
+
+export { reconcilePayments, type ReconciliationReport } from "./reconcilePayments.js";
+export { renewAuthorizations, type RenewalReport } from "./renewAuthorizations.js";
+export { sendNotifications, type NotificationReport } from "./sendNotifications.js";
+export { linkCustomers, type CustomerLinkReport } from "./linkCustomers.js";
+export { placeSubscriptionOrders, type SubscriptionOrderReport } from "./placeSubscriptionOrders.js";
+
+const FIVE_MINUTES = 5 * 60 * 1000;
+const THIRTY_MINUTES = 30 * 60 * 1000;
+const ONE_HOUR = 60 * 60 * 1000;
+const ONE_DAY = 24 * ONE_HOUR;
+
+// For the long-running server. On Vercel the same jobs run from vercel.json crons instead.
+export function scheduleJobs() {
+  setInterval(() => {
+    reconcilePayments()
+      .then((report) => console.log("Payment reconciliation:", JSON.stringify(report)))
+      .catch((error) => console.error("Payment reconciliation failed:", error));
+  }, THIRTY_MINUTES);
+
+  setInterval(() => {
+    renewAuthorizations()
+      .then((report) => console.log("Authorization renewal:", JSON.stringify(report)))
+      .catch((error) => console.error("Authorization renewal failed:", error));
+  }, ONE_HOUR);
+
+  setInterval(() => {
+    sendNotifications()
+      .then((report) => console.log("Notification delivery:", JSON.stringify(report)))
+      .catch((error) => console.error("Notification delivery failed:", error));
+  }, FIVE_MINUTES);
+
+  setInterval(() => {
+    placeSubscriptionOrders()
+      .then((report) => console.log("Subscription orders:", JSON.stringify(report)))
+      .catch((error) => console.error("Subscription orders failed:", error));
+  }, ONE_HOUR);
+
+  setInterval(() => {
+    linkCustomers()
+      .then((report) => console.log("Customer linking:", JSON.stringify(report)))
+      .catch((error) => console.error("Customer linking failed:", error));
+  }, ONE_DAY);
+}
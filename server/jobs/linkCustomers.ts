@@ -0,0 +1,37 @@
+import { storage } from "../storage.js";
+import { normalizePhone } from "../lib/sms.js";
+import { rememberAddress } from "../lib/customers.js";
+
+export interface CustomerLinkReport {
+  unlinkedOrders: number;
+  linked: string[];
+  customers: string[];
+}
+
+// Files orders that predate customer accounts under a customer, matched on email, and saves
+// their addresses. New orders are linked when they're placed, so after the first run this
+// only has anything to do if an order slipped through.
+export async function linkCustomers(): Promise<CustomerLinkReport> {
+  const unlinked = await storage.getUnlinkedOrders();
+  const report: CustomerLinkReport = { unlinkedOrders: unlinked.length, linked: [], customers: [] };
+  const seen = new Set<string>();
+
+  for (const order of unlinked) {
+    const customer = await storage.upsertCustomer({
+      email: order.customerEmail,
+      name: order.customerName,
+      phone: normalizePhone(order.customerPhone),
+    });
+    const linked = await storage.updateOrder(order.id, { customerId: customer.id });
+    if (!linked) continue;
+
+    await rememberAddress(linked);
+    report.linked.push(order.id);
+    if (!seen.has(customer.id)) {
+      seen.add(customer.id);
+      report.customers.push(customer.id);
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { storage, placeSubscriptionOrder, recordMissedDelivery } = vi.hoisted(() => ({
+  storage: {
+    getDueSubscriptions: vi.fn(),
+    updateSubscription: vi.fn(),
+  },
+  placeSubscriptionOrder: vi.fn(),
+  recordMissedDelivery: vi.fn(),
+}));
+
+vi.mock("../storage.js", () => ({ storage }));
+vi.mock("../lib/subscriptions.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/subscriptions.js")>()),
+  placeSubscriptionOrder,
+  recordMissedDelivery,
+}));
+
+import { placeSubscriptionOrders } from "./placeSubscriptionOrders.js";
+import { PaymentError } from "../lib/errors.js";
+
+// Noon in New York on Monday 2026-10-19, so deliveries through Wednesday the 21st are due
+const now = new Date("2026-10-19T16:00:00Z");
+
+const subscription = {
+  id: "sub-1",
+  status: "active",
+  cadence: "weekly",
+  nextDeliveryDate: "2026-10-20",
+  resumeOn: null,
+  skips: [] as string[],
+  lastFailedAt: null,
+  customer: { email: "ada@example.com" },
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+  process.env.BAKERY_TIMEZONE = "America/New_York";
+  delete process.env.SUBSCRIPTION_ORDER_DAYS;
+  storage.getDueSubscriptions.mockResolvedValue([{ ...subscription }]);
+});
+
+describe("placeSubscriptionOrders", () => {
+  it("places the delivery and moves on to the next one", async () => {
+    placeSubscriptionOrder.mockResolvedValue({ id: "order-1" });
+    const report = await placeSubscriptionOrders(now);
+
+    expect(placeSubscriptionOrder).toHaveBeenCalledWith(expect.objectContaining({ id: "sub-1" }), "2026-10-20", now);
+    expect(report.placedOrders).toEqual(["order-1"]);
+    expect(storage.updateSubscription).toHaveBeenCalledWith("sub-1", { nextDeliveryDate: "2026-10-27" });
+  });
+
+  it("skips a delivery the customer skipped", async () => {
+    storage.getDueSubscriptions.mockResolvedValue([{ ...subscription, skips: ["2026-10-20"] }]);
+    const report = await placeSubscriptionOrders(now);
+
+    expect(placeSubscriptionOrder).not.toHaveBeenCalled();
+    expect(report.skippedDeliveries).toEqual(["sub-1:2026-10-20"]);
+    expect(storage.updateSubscription).toHaveBeenCalledWith("sub-1", { nextDeliveryDate: "2026-10-27" });
+  });
+
+  it("misses the delivery and tells the customer when their card is declined", async () => {
+    placeSubscriptionOrder.mockRejectedValue(new PaymentError("your saved card was declined"));
+    const report = await placeSubscriptionOrders(now);
+
+    expect(recordMissedDelivery).toHaveBeenCalledWith(expect.objectContaining({ id: "sub-1" }), "2026-10-20", "your saved card was declined");
+    expect(report.failedSubscriptions).toEqual(["sub-1"]);
+    expect(storage.updateSubscription).toHaveBeenCalledWith("sub-1", { nextDeliveryDate: "2026-10-27" });
+  });
+
+  it("stays on the delivery for the next run when the error is ours", async () => {
+    placeSubscriptionOrder.mockRejectedValue(new Error("connection terminated"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const report = await placeSubscriptionOrders(now);
+
+    expect(recordMissedDelivery).not.toHaveBeenCalled();
+    expect(report.failedSubscriptions).toEqual([]);
+    expect(report.retryingSubscriptions).toEqual(["sub-1"]);
+    expect(storage.updateSubscription).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,75 @@
+import { storage } from "../storage.js";
+import { bakeryDay, addDays } from "../lib/capacity.js";
+import {
+  deliveryOnOrAfter,
+  failureReason,
+  followingDelivery,
+  placeSubscriptionOrder,
+  recordMissedDelivery,
+  subscriptionOrderDays,
+} from "../lib/subscriptions.js";
+
+export interface SubscriptionOrderReport {
+  dueSubscriptions: number;
+  placedOrders: string[];
+  skippedDeliveries: string[];
+  failedSubscriptions: string[];
+  retryingSubscriptions: string[];
+  resumedSubscriptions: string[];
+}
+
+// Orders every subscription delivery that falls within SUBSCRIPTION_ORDER_DAYS. Each delivery
+// gets one go: skipped, placed or missed, the subscription moves on to the next one, so a
+// declined card isn't retried (and the customer re-emailed) every hour. An error on our side
+// isn't the customer's problem: the subscription stays on that delivery and the next run tries again.
+export async function placeSubscriptionOrders(now = new Date()): Promise<SubscriptionOrderReport> {
+  const through = addDays(bakeryDay(now), subscriptionOrderDays());
+  const due = await storage.getDueSubscriptions(through);
+  const report: SubscriptionOrderReport = {
+    dueSubscriptions: due.length,
+    placedOrders: [],
+    skippedDeliveries: [],
+    failedSubscriptions: [],
+    retryingSubscriptions: [],
+    resumedSubscriptions: [],
+  };
+
+  for (const subscription of due) {
+    // Days that went by while the job wasn't running are gone; there's no ordering for them now
+    const today = bakeryDay(now);
+    let date = deliveryOnOrAfter(subscription, today);
+    if (subscription.status === "paused") {
+      date = deliveryOnOrAfter(subscription, subscription.resumeOn! > today ? subscription.resumeOn! : today);
+      await storage.updateSubscription(subscription.id, { status: "active", resumeOn: null, nextDeliveryDate: date });
+      report.resumedSubscriptions.push(subscription.id);
+    }
+
+    while (date <= through) {
+      if (subscription.skips.includes(date)) {
+        report.skippedDeliveries.push(`${subscription.id}:${date}`);
+      } else {
+        try {
+          const order = await placeSubscriptionOrder(subscription, date, now);
+          report.placedOrders.push(order.id);
+          if (subscription.lastFailedAt) {
+            await storage.updateSubscription(subscription.id, { lastFailureReason: null, lastFailedAt: null });
+          }
+        } catch (error) {
+          const reason = failureReason(error);
+          if (!reason) {
+            console.error(`Failed to place subscription ${subscription.id} for ${date}, will retry:`, error);
+            report.retryingSubscriptions.push(subscription.id);
+            break;
+          }
+          await recordMissedDelivery(subscription, date, reason);
+          report.failedSubscriptions.push(subscription.id);
+        }
+      }
+
+      date = followingDelivery(subscription, date);
+      await storage.updateSubscription(subscription.id, { nextDeliveryDate: date });
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,147 @@
+import type Stripe from "stripe";
+import { storage } from "../storage.js";
+import { getStripe } from "../lib/stripe.js";
+import { transitionOrder } from "../lib/orderStatus.js";
+
+// Checkout creates the intent a moment before the order, so leave fresh ones alone
+const GRACE_PERIOD_MS = 30 * 60 * 1000;
+const LOOKBACK_MS = 48 * 60 * 60 * 1000;
+// Orders whose card was never entered get cancelled after this long
+const ABANDONED_AFTER_MS = 24 * 60 * 60 * 1000;
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const CANCELABLE_INTENT_STATUSES = ["requires_payment_method", "requires_confirmation", "requires_action", "requires_capture"];
+const SYSTEM = { username: "system" };
+
+export interface ReconciliationReport {
+  checkedIntents: number;
+  cancelledIntents: string[];
+  flaggedIntents: string[];
+  cancelledOrders: string[];
+  flaggedOrders: string[];
+  purgedIdempotencyKeys: number;
+}
+
+async function alreadyFlagged(entityType: string, entityId: string): Promise<boolean> {
+  const logs = await storage.getActivityLogs({ entityType, entityId });
+  return logs.some((log) => log.actionType === "payment.flagged");
+}
+
+async function flag(entityType: "payment" | "order", entityId: string, reason: string, details: Record<string, unknown>) {
+  if (await alreadyFlagged(entityType, entityId)) return false;
+  await storage.logActivity("payment.flagged", entityType, entityId, { reason, ...details }, undefined, SYSTEM.username);
+  return true;
+}
+
+// PaymentIntents with no order: void the hold, or flag it if money was already taken
+async function reconcileIntents(now: Date, report: ReconciliationReport) {
+  const intents: Stripe.PaymentIntent[] = [];
+  for await (const intent of getStripe().paymentIntents.list({
+    created: {
+      gte: Math.floor((now.getTime() - LOOKBACK_MS) / 1000),
+      lte: Math.floor((now.getTime() - GRACE_PERIOD_MS) / 1000),
+    },
+    limit: 100,
+  })) {
+    // Only intents our checkout made
+    if (intent.capture_method === "manual" && intent.metadata?.customerEmail) {
+      intents.push(intent);
+    }
+  }
+  report.checkedIntents = intents.length;
+
+  const matched = await storage.getOrdersByPaymentIntentIds(intents.map((intent) => intent.id));
+  const matchedIds = new Set(matched.map((order) => order.stripePaymentIntentId));
+
+  for (const intent of intents) {
+    if (matchedIds.has(intent.id)) continue;
+
+    if (CANCELABLE_INTENT_STATUSES.includes(intent.status)) {
+      try {
+        await getStripe().paymentIntents.cancel(intent.id);
+        await storage.logActivity(
+          "payment.orphan_cancelled",
+          "payment",
+          intent.id,
+          { amount: intent.amount / 100, status: intent.status, customerEmail: intent.metadata.customerEmail },
+          undefined,
+          SYSTEM.username
+        );
+        report.cancelledIntents.push(intent.id);
+      } catch (stripeError) {
+        console.error(`Failed to cancel orphan PaymentIntent ${intent.id}:`, stripeError);
+      }
+    } else if (intent.status === "succeeded" || intent.status === "processing") {
+      const flagged = await flag("payment", intent.id, "Payment taken with no matching order - refund it from Stripe", {
+        amount: intent.amount / 100,
+        status: intent.status,
+        customerEmail: intent.metadata.customerEmail,
+      });
+      if (flagged) report.flaggedIntents.push(intent.id);
+    }
+  }
+}
+
+// New orders whose PaymentIntent is gone, cancelled or never paid
+async function reconcileOrders(now: Date, report: ReconciliationReport) {
+  const staleOrders = await storage.getStaleNewOrders(new Date(now.getTime() - GRACE_PERIOD_MS));
+
+  for (const order of staleOrders) {
+    if (!order.stripePaymentIntentId) {
+      const flagged = await flag("order", order.id, "New order has no PaymentIntent", { customerName: order.customerName });
+      if (flagged) report.flaggedOrders.push(order.id);
+      continue;
+    }
+
+    let intent: Stripe.PaymentIntent;
+    try {
+      intent = await getStripe().paymentIntents.retrieve(order.stripePaymentIntentId);
+    } catch (stripeError: any) {
+      if (stripeError?.code !== "resource_missing") throw stripeError;
+      const flagged = await flag("order", order.id, "PaymentIntent doesn't exist in Stripe", {
+        stripePaymentIntentId: order.stripePaymentIntentId,
+      });
+      if (flagged) report.flaggedOrders.push(order.id);
+      continue;
+    }
+
+    // The hold ran out rather than being cancelled; renewAuthorizations asks the customer for a new one
+    if (intent.status === "canceled" && intent.cancellation_reason === "automatic") continue;
+
+    const abandoned = intent.status === "requires_payment_method"
+      && order.createdAt
+      && now.getTime() - order.createdAt.getTime() > ABANDONED_AFTER_MS;
+
+    if (intent.status === "canceled" || abandoned) {
+      if (intent.status === "canceled") {
+        await storage.updateOrder(order.id, { stripePaymentStatus: "cancelled" });
+      }
+      try {
+        await transitionOrder(order.id, "cancelled", {
+          actor: SYSTEM,
+          reason: intent.status === "canceled" ? "Card authorization was cancelled" : "Payment was never completed",
+        });
+        report.cancelledOrders.push(order.id);
+      } catch (error) {
+        console.error(`Failed to cancel order ${order.id} during reconciliation:`, error);
+      }
+    }
+  }
+}
+
+export async function reconcilePayments(now = new Date()): Promise<ReconciliationReport> {
+  const report: ReconciliationReport = {
+    checkedIntents: 0,
+    cancelledIntents: [],
+    flaggedIntents: [],
+    cancelledOrders: [],
+    flaggedOrders: [],
+    purgedIdempotencyKeys: 0,
+  };
+
+  await reconcileIntents(now, report);
+  await reconcileOrders(now, report);
+  report.purgedIdempotencyKeys = await storage.deleteIdempotencyKeysBefore(new Date(now.getTime() - IDEMPOTENCY_KEY_TTL_MS));
+
+  return report;
+}
@@ -0,0 +1,45 @@
+import { storage } from "../storage.js";
+import { holdPolicy, captureEarly, requestReauthorization } from "../lib/authorizations.js";
+import { HOLD_EXPIRY_WARNING_HOURS } from "../../shared/schema.js";
+
+const SYSTEM = { username: "system" };
+
+export interface RenewalReport {
+  policy: string;
+  checkedOrders: number;
+  capturedOrders: string[];
+  reauthorizationRequested: string[];
+  failedOrders: string[];
+}
+
+// Pre-orders can sit longer than a card hold lasts. Before the hold lapses we either take the
+// money now (PREORDER_HOLD_POLICY=capture) or ask the customer to authorize a fresh hold.
+// Holds that already lapsed can only be renewed.
+export async function renewAuthorizations(now = new Date()): Promise<RenewalReport> {
+  const policy = holdPolicy();
+  const orders = await storage.getOrdersWithExpiringHolds(new Date(now.getTime() + HOLD_EXPIRY_WARNING_HOURS * 60 * 60 * 1000));
+  const report: RenewalReport = {
+    policy,
+    checkedOrders: orders.length,
+    capturedOrders: [],
+    reauthorizationRequested: [],
+    failedOrders: [],
+  };
+
+  for (const order of orders) {
+    try {
+      if (policy === "capture" && order.stripePaymentStatus === "authorized") {
+        await captureEarly(order, SYSTEM);
+        report.capturedOrders.push(order.id);
+      } else {
+        await requestReauthorization(order, SYSTEM);
+        report.reauthorizationRequested.push(order.id);
+      }
+    } catch (error) {
+      console.error(`Failed to renew the card hold on order ${order.id}:`, error);
+      report.failedOrders.push(order.id);
+    }
+  }
+
+  return report;
+}
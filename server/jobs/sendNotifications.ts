@@ -0,0 +1,27 @@
+import { storage } from "../storage.js";
+import { deliverNotification } from "../lib/notifications.js";
+
+export interface NotificationReport {
+  dueNotifications: number;
+  sent: string[];
+  retrying: string[];
+  failed: string[];
+  skipped: string[];
+}
+
+// Works through emails and texts that couldn't go out when they were queued (the transport
+// was down, or the process stopped before the first attempt), oldest first
+export async function sendNotifications(now = new Date()): Promise<NotificationReport> {
+  const due = await storage.getDueNotifications(now);
+  const report: NotificationReport = { dueNotifications: due.length, sent: [], retrying: [], failed: [], skipped: [] };
+
+  for (const notification of due) {
+    const status = await deliverNotification(notification);
+    if (status === "sent") report.sent.push(notification.id);
+    else if (status === "queued") report.retrying.push(notification.id);
+    else if (status === "failed") report.failed.push(notification.id);
+    else if (status === "skipped") report.skipped.push(notification.id);
+  }
+
+  return report;
+}
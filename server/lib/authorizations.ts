@@ -0,0 +1,117 @@
+import { storage } from "../storage.js";
+import { getStripe } from "./stripe.js";
+import { PaymentError } from "./errors.js";
+import { notifyOrder } from "./notifications.js";
+import { trackingToken } from "./tracking.js";
+import { HOLD_POLICIES, type HoldPolicy, type Order } from "../../shared/schema.js";
+
+type Actor = { id?: string; username: string };
+
+// Intents the customer can still enter a card against
+const OPEN_INTENT_STATUSES = ["requires_payment_method", "requires_confirmation", "requires_action"];
+// Payment states where there's no money taken yet, so a new hold makes sense
+const RENEWABLE_PAYMENT_STATUSES = ["pending", "authorized", "expired", "failed"];
+
+export function holdPolicy(): HoldPolicy {
+  const policy = process.env.PREORDER_HOLD_POLICY as HoldPolicy | undefined;
+  return policy && HOLD_POLICIES.includes(policy) ? policy : "reauthorize";
+}
+
+export function canRenewAuthorization(order: Order): boolean {
+  return (order.status === "new" || order.status === "approved")
+    && RENEWABLE_PAYMENT_STATUSES.includes(order.stripePaymentStatus || "pending");
+}
+
+// The checkout page takes any client secret, so the customer authorizes the new intent there
+function reauthorizationPath(order: Order, clientSecret: string): string {
+  return `/checkout/${order.id}?secret=${encodeURIComponent(clientSecret)}&token=${trackingToken(order)}&renew=1`;
+}
+
+// Creates a fresh PaymentIntent for the order's total and remembers it on the order until the
+// customer authorizes it. Asking again while one is still open hands back the same link.
+export async function requestReauthorization(order: Order, actor: Actor): Promise<{ path: string; paymentIntentId: string }> {
+  if (!canRenewAuthorization(order)) {
+    throw new PaymentError("This order's payment can't be re-authorized");
+  }
+
+  if (order.reauthorizationPaymentIntentId) {
+    const existing = await getStripe().paymentIntents.retrieve(order.reauthorizationPaymentIntentId);
+    if (OPEN_INTENT_STATUSES.includes(existing.status) && existing.client_secret) {
+      return { path: reauthorizationPath(order, existing.client_secret), paymentIntentId: existing.id };
+    }
+  }
+
+  let intent;
+  try {
+    // No customerEmail in the metadata, so payment reconciliation won't treat it as an orphaned checkout
+    intent = await getStripe().paymentIntents.create({
+      amount: Math.round(parseFloat(order.total) * 100),
+      currency: "usd",
+      capture_method: "manual",
+      metadata: {
+        orderId: order.id,
+        reauthorizes: order.stripePaymentIntentId || "",
+      },
+    });
+  } catch (stripeError: any) {
+    console.error("Stripe re-authorization error:", stripeError);
+    throw new PaymentError("Failed to create a new card authorization", stripeError.message);
+  }
+
+  const path = reauthorizationPath(order, intent.client_secret!);
+  await storage.updateOrder(order.id, {
+    reauthorizationPaymentIntentId: intent.id,
+    reauthorizationRequestedAt: new Date(),
+  });
+  await storage.logActivity(
+    "payment.reauthorization_requested",
+    "order",
+    order.id,
+    {
+      customerName: order.customerName,
+      customerEmail: order.customerEmail,
+      authorizationExpiresAt: order.authorizationExpiresAt,
+      paymentIntentId: intent.id,
+      path,
+    },
+    actor.id,
+    actor.username
+  );
+  await notifyOrder(order.id, "reauthorization", { reauthorizationPath: path });
+
+  return { path, paymentIntentId: intent.id };
+}
+
+// Takes the money now rather than let the hold lapse. The order's status doesn't change.
+export async function captureEarly(order: Order, actor: Actor): Promise<void> {
+  if (!order.stripePaymentIntentId || order.stripePaymentStatus !== "authorized") return;
+
+  try {
+    await getStripe().paymentIntents.capture(order.stripePaymentIntentId);
+  } catch (stripeError: any) {
+    console.error("Stripe early capture error:", stripeError);
+    throw new PaymentError("Failed to capture payment", stripeError.message);
+  }
+
+  await storage.updateOrder(order.id, { stripePaymentStatus: "captured" });
+  await storage.logActivity(
+    "payment.captured",
+    "order",
+    order.id,
+    { amount: parseFloat(order.total), status: order.status, reason: "Card hold was about to expire" },
+    actor.id,
+    actor.username
+  );
+}
+
+// Voids a renewal the customer never finished, e.g. once the order is paid or cancelled
+export async function cancelPendingReauthorization(order: Order): Promise<void> {
+  if (!order.reauthorizationPaymentIntentId) return;
+
+  try {
+    await getStripe().paymentIntents.cancel(order.reauthorizationPaymentIntentId);
+  } catch (stripeError) {
+    console.error("Stripe cancel re-authorization error:", stripeError);
+  }
+  await storage.updateOrder(order.id, { reauthorizationPaymentIntentId: null, reauthorizationRequestedAt: null });
+}
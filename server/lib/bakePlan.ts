@@ -0,0 +1,232 @@
+import { storage } from "../storage.js";
+import { transitionOrder } from "./orderStatus.js";
+import { bakeryDay, bakeryTime, addDays } from "./capacity.js";
+import { PlanConflictError } from "./errors.js";
+import { FULFILLMENT_WINDOWS, bagelLines, type Batch, type FreezerReservation } from "../../shared/schema.js";
+
+type Actor = { id?: string; username: string };
+type Line = { productId: string; quantity: number };
+
+export interface PlannedOrder {
+  orderId: string;
+  customerName: string;
+  fulfillmentWindow: string | null;
+  items: Line[]; // what the freezer doesn't cover yet
+}
+
+export interface PlanItem {
+  productId: string;
+  productName: string;
+  needed: number;
+  fromFreezer: number;
+  buffer: number;
+  quantity: number; // what to bake
+}
+
+export interface BatchProposal {
+  batchDate: string;
+  shift: string;
+  items: PlanItem[];
+  orders: PlannedOrder[];
+}
+
+export interface AcceptedBatch {
+  batchDate: string;
+  shift: string;
+  notes?: string;
+  items: Line[];
+  orderIds: string[];
+}
+
+function sumByProduct(lines: Line[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const line of lines) {
+    totals.set(line.productId, (totals.get(line.productId) || 0) + line.quantity);
+  }
+  return totals;
+}
+
+// Ordered minus what's held or already taken from the freezer for the order.
+// Bundles count as the bagels in them.
+function uncovered(items: Parameters<typeof bagelLines>[0], reservations: FreezerReservation[]): Line[] {
+  const covered = sumByProduct(reservations.filter((r) => r.status === "held" || r.status === "deducted"));
+  return Array.from(sumByProduct(bagelLines(items)))
+    .map(([productId, quantity]) => ({ productId, quantity: quantity - (covered.get(productId) || 0) }))
+    .filter((line) => line.quantity > 0);
+}
+
+function windowRank(window: string | null): number {
+  const rank = FULFILLMENT_WINDOWS.indexOf(window as typeof FULFILLMENT_WINDOWS[number]);
+  return rank === -1 ? 0 : rank;
+}
+
+// One proposed batch per delivery day and window, baked in the shift of the same name.
+// Free freezer stock goes to the earliest deliveries first; each product's safety buffer
+// is added on top of anything that actually needs baking.
+export async function planBakes(from: string, days: number): Promise<BatchProposal[]> {
+  const openOrders = await storage.getPlannableOrders(bakeryTime(from, 0), bakeryTime(addDays(from, days), 0));
+  const free = await storage.getFreezerAvailability();
+  const catalog = new Map((await storage.getProducts()).map((product) => [product.id, product]));
+
+  const groups = new Map<string, { day: string; window: string | null; needs: PlannedOrder[] }>();
+  for (const order of openOrders) {
+    const needs = uncovered(order.items, order.reservations);
+    if (needs.length === 0) continue;
+
+    const day = bakeryDay(order.fulfillmentDate);
+    const key = `${day}|${order.fulfillmentWindow || ""}`;
+    if (!groups.has(key)) groups.set(key, { day, window: order.fulfillmentWindow, needs: [] });
+    const group = groups.get(key)!;
+    group.needs.push({
+      orderId: order.id,
+      customerName: order.customerName,
+      fulfillmentWindow: order.fulfillmentWindow,
+      items: needs,
+    });
+  }
+
+  const sorted = Array.from(groups.values())
+    .sort((a, b) => a.day.localeCompare(b.day) || windowRank(a.window) - windowRank(b.window));
+
+  return sorted.map((group) => {
+    const needed = sumByProduct(group.needs.flatMap((order) => order.items));
+
+    const items = Array.from(needed).map(([productId, quantity]): PlanItem => {
+      const product = catalog.get(productId)!;
+      const fromFreezer = Math.min(free[productId] || 0, quantity);
+      free[productId] = (free[productId] || 0) - fromFreezer;
+      const toBake = quantity - fromFreezer;
+      const buffer = toBake > 0 ? product.safetyBuffer : 0;
+      return {
+        productId,
+        productName: product.name,
+        needed: quantity,
+        fromFreezer,
+        buffer,
+        quantity: toBake + buffer,
+      };
+    });
+
+    return {
+      batchDate: group.day,
+      shift: group.window || FULFILLMENT_WINDOWS[0],
+      items,
+      orders: group.needs,
+    };
+  });
+}
+
+// Takes whatever free freezer stock there is for the order's uncovered lines.
+// Returns what's still uncovered afterwards.
+async function topUpFromFreezer(orderId: string, actor: Actor): Promise<Line[]> {
+  const order = await storage.getOrder(orderId);
+  if (!order) return [];
+  const needs = uncovered(order.items, await storage.getReservationsForOrder(orderId));
+  if (needs.length === 0) return [];
+
+  await storage.reserveFreezerStock(orderId, needs, { allowPartial: true });
+  const deducted = await storage.deductFreezerReservations(orderId);
+  if (deducted.length > 0) {
+    await storage.logActivity(
+      "freezer.depleted",
+      "order",
+      orderId,
+      { reservations: deducted.map(r => ({ productId: r.productId, quantity: r.quantity, freezerStockId: r.freezerStockId })) },
+      actor.id,
+      actor.username
+    );
+  }
+  return uncovered(order.items, await storage.getReservationsForOrder(orderId));
+}
+
+async function markReady(orderId: string, actor: Actor, reason: string): Promise<boolean> {
+  try {
+    await transitionOrder(orderId, "ready", { actor, reason });
+    return true;
+  } catch (error) {
+    console.error(`Failed to mark order ${orderId} ready:`, error);
+    return false;
+  }
+}
+
+// Saves the baker's version of the plan. Orders the freezer can now cover in full go straight
+// to ready; the rest are linked to their batch. Batches with nothing left to bake aren't created.
+export async function acceptBakePlan(plan: AcceptedBatch[], actor: Actor): Promise<{ batches: Batch[]; readyOrderIds: string[] }> {
+  const orderIds = Array.from(new Set(plan.flatMap((batch) => batch.orderIds)));
+
+  const conflicts = await storage.getPlannedOrderIds(orderIds);
+  for (const orderId of orderIds) {
+    const order = await storage.getOrder(orderId);
+    if (!order || (order.status !== "approved" && order.status !== "baking")) conflicts.push(orderId);
+  }
+  if (conflicts.length > 0) {
+    throw new PlanConflictError(Array.from(new Set(conflicts)));
+  }
+
+  const stillNeeded = new Map<string, Line[]>();
+  for (const orderId of orderIds) {
+    stillNeeded.set(orderId, await topUpFromFreezer(orderId, actor));
+  }
+
+  const created: Batch[] = [];
+  for (const proposal of plan) {
+    const items = proposal.items.filter((item) => item.quantity > 0);
+    const linked = proposal.orderIds.filter((orderId) => stillNeeded.get(orderId)!.length > 0);
+    if (items.length === 0) continue;
+
+    const batch = await storage.createPlannedBatch(
+      { batchDate: bakeryTime(proposal.batchDate, 0), shift: proposal.shift, notes: proposal.notes, status: "planned" },
+      items,
+      linked
+    );
+    await storage.logActivity(
+      "batch.created",
+      "batch",
+      batch.id,
+      { shift: batch.shift, items, orderIds: linked, planned: true },
+      actor.id,
+      actor.username
+    );
+    created.push(batch);
+  }
+
+  const readyOrderIds: string[] = [];
+  for (const orderId of orderIds) {
+    if (stillNeeded.get(orderId)!.length === 0 && await markReady(orderId, actor, "Covered by freezer stock")) {
+      readyOrderIds.push(orderId);
+    }
+  }
+
+  return { batches: created, readyOrderIds };
+}
+
+// Orders move to baking with the first batch that starts on them
+export async function startBatchOrders(batch: Batch, actor: Actor): Promise<void> {
+  for (const orderId of await storage.getBatchOrderIds(batch.id)) {
+    const order = await storage.getOrder(orderId);
+    if (order?.status !== "approved") continue;
+    try {
+      await transitionOrder(orderId, "baking", { actor, reason: batch.shift ? `Baking in the ${batch.shift} batch` : "Batch started" });
+    } catch (error) {
+      console.error(`Failed to move order ${orderId} to baking:`, error);
+    }
+  }
+}
+
+// Once every batch an order waits on is done, its bagels come out of the freezer and it's ready.
+// An order the batches came up short on stays where it is and shows up in the planner again.
+export async function finishBatchOrders(batch: Batch, actor: Actor): Promise<void> {
+  for (const orderId of await storage.getBatchOrderIds(batch.id)) {
+    const order = await storage.getOrder(orderId);
+    if (order?.status !== "approved" && order?.status !== "baking") continue;
+
+    const waitingOn = (await storage.getBatchesForOrder(orderId))
+      .filter((other) => other.id !== batch.id && (other.status === "planned" || other.status === "in_progress"));
+    if (waitingOn.length > 0) continue;
+
+    const short = await topUpFromFreezer(orderId, actor);
+    if (short.length === 0) {
+      await markReady(orderId, actor, "Batch completed");
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { storage } from "../storage.js";
+import { InvalidBundleError, ProductUnavailableError } from "./errors.js";
+import type { BundleContent, Product } from "../../shared/schema.js";
+
+export interface PackedBundle {
+  contents: BundleContent[]; // one bundle's worth
+  description: string; // "7 Everything, 6 Sesame"
+}
+
+function onSale(product: Product | undefined): product is Product {
+  return !!product && product.isActive && !product.archivedAt;
+}
+
+function sumByProduct(lines: BundleContent[]): BundleContent[] {
+  const totals = new Map<string, number>();
+  for (const line of lines) {
+    totals.set(line.productId, (totals.get(line.productId) || 0) + line.quantity);
+  }
+  return Array.from(totals).map(([productId, quantity]) => ({ productId, quantity }));
+}
+
+// What one of the bundle holds. A fixed bundle holds what it was set up with; a pick bundle
+// holds the customer's picks, which have to come from its set and add up to its size.
+// Throws InvalidBundleError for bad picks, ProductUnavailableError when a component is off sale.
+export async function packBundle(bundle: Product, picks: BundleContent[] = []): Promise<PackedBundle> {
+  const components = await storage.getBundleComponents(bundle.id);
+
+  let contents: BundleContent[];
+  if (bundle.bundleType === "pick") {
+    const allowed = new Set(components.map((component) => component.productId));
+    const outside = picks.find((pick) => !allowed.has(pick.productId));
+    if (outside) {
+      throw new InvalidBundleError(`${bundle.name} can't include product ${outside.productId}`);
+    }
+    contents = sumByProduct(picks.filter((pick) => pick.quantity > 0));
+    const picked = contents.reduce((sum, line) => sum + line.quantity, 0);
+    if (picked !== bundle.bundleSize) {
+      throw new InvalidBundleError(`Pick ${bundle.bundleSize} for ${bundle.name} (got ${picked})`);
+    }
+  } else {
+    contents = components
+      .filter((component) => (component.quantity ?? 0) > 0)
+      .map((component) => ({ productId: component.productId, quantity: component.quantity! }));
+  }
+  if (contents.length === 0) throw new ProductUnavailableError(bundle.id);
+
+  const names: string[] = [];
+  for (const line of contents) {
+    const product = await storage.getProduct(line.productId);
+    if (!onSale(product)) throw new ProductUnavailableError(line.productId);
+    names.push(`${line.quantity} ${product.name}`);
+  }
+  return { contents, description: names.join(", ") };
+}
+
+// Components have to be bagels (no bundles of bundles), each listed once, and a fixed
+// bundle needs to say how many of each it holds
+export async function checkComponents(bundle: Product, components: { productId: string; quantity?: number }[]): Promise<void> {
+  const seen = new Set<string>();
+  for (const component of components) {
+    const product = await storage.getProduct(component.productId);
+    if (!product) throw new InvalidBundleError(`Product not found: ${component.productId}`);
+    if (product.bundleType || product.id === bundle.id) {
+      throw new InvalidBundleError(`${product.name} is a bundle and can't go in another bundle`);
+    }
+    if (seen.has(product.id)) throw new InvalidBundleError(`${product.name} is listed twice`);
+    seen.add(product.id);
+    if (bundle.bundleType === "fixed" && !component.quantity) {
+      throw new InvalidBundleError(`Say how many ${product.name} go in ${bundle.name}`);
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import { storage, type SlotLimit, type SlotUsage } from "../storage.js";
+import { SlotUnavailableError } from "./errors.js";
+import {
+  FULFILLMENT_WINDOWS,
+  FULFILLMENT_WINDOW_HOURS,
+  type FulfillmentCapacity,
+  type BlackoutDate,
+  type FulfillmentWindow,
+} from "../../shared/schema.js";
+
+const DEFAULT_LEAD_HOURS = 12;
+
+export interface SlotAvailability {
+  window: FulfillmentWindow;
+  available: boolean;
+  reason: "blackout" | "lead_time" | "full" | null;
+  orders: number;
+  bagels: number;
+  maxOrders: number | null;
+  maxBagels: number | null;
+}
+
+export interface DayAvailability {
+  date: string;
+  windows: SlotAvailability[];
+}
+
+// Delivery days are the bakery's days, whatever timezone the server or customer is in
+export function bakeryTimezone(): string {
+  return process.env.BAKERY_TIMEZONE || "America/New_York";
+}
+
+export function leadHours(): number {
+  const hours = parseFloat(process.env.ORDER_LEAD_HOURS || "");
+  return isNaN(hours) || hours < 0 ? DEFAULT_LEAD_HOURS : hours;
+}
+
+// yyyy-MM-dd of the instant in the bakery's timezone
+export function bakeryDay(instant: Date): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: bakeryTimezone(),
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(instant);
+}
+
+export function addDays(day: string, days: number): string {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().slice(0, 10);
+}
+
+function dayOfWeek(day: string): number {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, date)).getUTCDay();
+}
+
+// How far ahead of UTC the bakery's clock is at that instant, in ms
+function timezoneOffset(instant: Date): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: bakeryTimezone(),
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)!.value);
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// The instant the bakery's clock reads `hour`:00 on `day`. Checked twice so DST changes land right.
+export function bakeryTime(day: string, hour: number): Date {
+  const [year, month, date] = day.split("-").map(Number);
+  const wallClock = Date.UTC(year, month - 1, date, hour);
+  const firstGuess = wallClock - timezoneOffset(new Date(wallClock));
+  return new Date(wallClock - timezoneOffset(new Date(firstGuess)));
+}
+
+// Midnight at the end of `day`, e.g. for a best-before date that's good through the day
+export function endOfBakeryDay(day: string): Date {
+  return bakeryTime(addDays(day, 1), 0);
+}
+
+// A row for the weekday beats the every-day row
+function capacityFor(capacities: FulfillmentCapacity[], day: string, window: string): FulfillmentCapacity | undefined {
+  const rows = capacities.filter((row) => row.isActive && row.window === window);
+  const weekday = dayOfWeek(day);
+  return rows.find((row) => row.dayOfWeek === weekday) || rows.find((row) => row.dayOfWeek == null);
+}
+
+function isBlackedOut(blackouts: BlackoutDate[], day: string, window: string): BlackoutDate | undefined {
+  return blackouts.find((blackout) => blackout.date === day && (!blackout.window || blackout.window === window));
+}
+
+function tooSoon(day: string, window: FulfillmentWindow, now: Date): boolean {
+  const start = bakeryTime(day, FULFILLMENT_WINDOW_HOURS[window].start);
+  return start.getTime() - now.getTime() < leadHours() * 60 * 60 * 1000;
+}
+
+function usageFor(usage: SlotUsage[], day: string, window: string): { orders: number; bagels: number } {
+  const rows = usage.filter((row) => row.fulfillmentWindow === window && bakeryDay(row.fulfillmentDate) === day);
+  return { orders: rows.length, bagels: rows.reduce((sum, row) => sum + row.bagels, 0) };
+}
+
+function hasRoom(capacity: FulfillmentCapacity | undefined, taken: { orders: number; bagels: number }, bagels: number): boolean {
+  if (!capacity) return true;
+  if (capacity.maxOrders != null && taken.orders + 1 > capacity.maxOrders) return false;
+  if (capacity.maxBagels != null && taken.bagels + bagels > capacity.maxBagels) return false;
+  return true;
+}
+
+export async function getSlotAvailability(from: string, days: number, now = new Date()): Promise<DayAvailability[]> {
+  const to = addDays(from, days);
+  const [capacities, blackouts, usage] = await Promise.all([
+    storage.getFulfillmentCapacity(),
+    storage.getBlackoutDates(from, to),
+    storage.getSlotUsage(bakeryTime(from, 0), bakeryTime(to, 0)),
+  ]);
+
+  const result: DayAvailability[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const day = addDays(from, offset);
+    const windows = FULFILLMENT_WINDOWS.map((window): SlotAvailability => {
+      const capacity = capacityFor(capacities, day, window);
+      const taken = usageFor(usage, day, window);
+      const reason = isBlackedOut(blackouts, day, window) ? "blackout"
+        : tooSoon(day, window, now) ? "lead_time"
+        : !hasRoom(capacity, taken, 1) ? "full"
+        : null;
+      return {
+        window,
+        available: reason === null,
+        reason,
+        orders: taken.orders,
+        bagels: taken.bagels,
+        maxOrders: capacity?.maxOrders ?? null,
+        maxBagels: capacity?.maxBagels ?? null,
+      };
+    });
+    result.push({ date: day, windows });
+  }
+  return result;
+}
+
+// Checks a customer's chosen slot before we take their card. Returns the limits for
+// createOrderWithItems to re-check under a lock, or undefined when the window has none.
+export async function checkSlot(
+  fulfillmentDate: Date,
+  window: FulfillmentWindow,
+  bagels: number,
+  now = new Date()
+): Promise<SlotLimit | undefined> {
+  const day = bakeryDay(fulfillmentDate);
+  const from = bakeryTime(day, 0);
+  const to = bakeryTime(addDays(day, 1), 0);
+
+  const [capacities, blackouts, usage] = await Promise.all([
+    storage.getFulfillmentCapacity(),
+    storage.getBlackoutDates(day, addDays(day, 1)),
+    storage.getSlotUsage(from, to),
+  ]);
+
+  const blackout = isBlackedOut(blackouts, day, window);
+  if (blackout) {
+    throw new SlotUnavailableError("blackout", blackout.reason
+      ? `We're not delivering then (${blackout.reason}) - please pick another day`
+      : "We're not delivering then - please pick another day");
+  }
+  if (tooSoon(day, window, now)) {
+    throw new SlotUnavailableError("lead_time", `Orders need to be in ${leadHours()} hours before the delivery window - please pick a later one`);
+  }
+
+  const capacity = capacityFor(capacities, day, window);
+  if (!capacity) return undefined;
+  if (!hasRoom(capacity, usageFor(usage, day, window), bagels)) {
+    throw new SlotUnavailableError("full", "That delivery window is full - please pick another");
+  }
+  return { window, from, to, maxOrders: capacity.maxOrders, maxBagels: capacity.maxBagels };
+}
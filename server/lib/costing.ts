@@ -0,0 +1,334 @@
+import { storage, type Recipe } from "../storage.js";
+import { usagePerBagel } from "./recipes.js";
+import { bakeryDay, addDays } from "./capacity.js";
+import { bagelLines, type Batch, type BatchItem, type Product } from "../../shared/schema.js";
+
+export type CostingPeriod = "day" | "week" | "month";
+
+// Orders that were accepted; new orders might still be declined
+const SOLD_STATUSES = ["approved", "baking", "ready", "completed"];
+
+export interface ProductCost {
+  productId: string;
+  name: string;
+  isActive: boolean;
+  price: number;
+  recipeVersion: number | null;
+  ingredientCost: number;
+  laborCost: number;
+  packagingCost: number;
+  unitCost: number;
+  margin: number;
+  marginPercent: number | null;
+  lines: { ingredientId: string; name: string; unit: string; quantity: number; cost: number }[];
+}
+
+export interface BatchCost {
+  batchId: string;
+  batchDate: Date;
+  shift: string | null;
+  bagels: number;
+  ingredientCost: number;
+  overheadCost: number;
+  cogs: number;
+  costPerBagel: number;
+  // true when the batch has no lot records, so ingredients are priced off the recipe at today's costs
+  estimated: boolean;
+  products: { productId: string; name: string; quantity: number; unitCost: number }[];
+}
+
+export interface OrderMargin {
+  orderId: string;
+  customerName: string;
+  fulfillmentDate: Date;
+  status: string;
+  revenue: number;
+  cogs: number;
+  margin: number;
+  marginPercent: number | null;
+}
+
+export interface PeriodMargin {
+  period: string; // first day of the period
+  orders: number;
+  revenue: number;
+  cogs: number;
+  margin: number;
+  marginPercent: number | null;
+}
+
+export interface CostingReport {
+  from: string;
+  to: string;
+  groupBy: CostingPeriod;
+  batches: BatchCost[];
+  orders: OrderMargin[];
+  periods: PeriodMargin[];
+  totals: Omit<PeriodMargin, "period">;
+}
+
+function percentOf(part: number, whole: number): number | null {
+  return whole > 0 ? (part / whole) * 100 : null;
+}
+
+function overheadPerBagel(product: Product): number {
+  return parseFloat(product.laborCost) + parseFloat(product.packagingCost);
+}
+
+// Ingredient cost of one good bagel at today's prices
+function ingredientCostPerBagel(recipe: Recipe): number {
+  return usagePerBagel(recipe).reduce(
+    (sum, usage) => sum + usage.quantity * parseFloat(usage.ingredient.costPerUnit || "0"),
+    0
+  );
+}
+
+export async function costProducts(): Promise<ProductCost[]> {
+  const costs: ProductCost[] = [];
+  const productList = (await storage.getProducts()).filter((product) => !product.archivedAt);
+  for (const product of productList) {
+    if (product.bundleType) continue;
+    const recipe = await storage.getRecipe(product.id);
+    const lines = usagePerBagel(recipe).map((usage) => ({
+      ingredientId: usage.ingredient.id,
+      name: usage.ingredient.name,
+      unit: usage.ingredient.unit,
+      quantity: usage.quantity,
+      cost: usage.quantity * parseFloat(usage.ingredient.costPerUnit || "0"),
+    }));
+
+    const price = parseFloat(product.price);
+    const ingredientCost = lines.reduce((sum, line) => sum + line.cost, 0);
+    const unitCost = ingredientCost + overheadPerBagel(product);
+    costs.push({
+      productId: product.id,
+      name: product.name,
+      isActive: product.isActive,
+      price,
+      recipeVersion: recipe.version?.version ?? null,
+      ingredientCost,
+      laborCost: parseFloat(product.laborCost),
+      packagingCost: parseFloat(product.packagingCost),
+      unitCost,
+      margin: price - unitCost,
+      marginPercent: percentOf(price - unitCost, price),
+      lines,
+    });
+  }
+
+  const components = await storage.getBundleComponents();
+  for (const bundle of productList) {
+    if (bundle.bundleType) costs.push(costBundle(bundle, components.filter((c) => c.bundleId === bundle.id), costs));
+  }
+  return costs;
+}
+
+// A bundle's bill of materials is its components'. A pick bundle is costed as an even mix of
+// its set, since what's in it is up to the customer. The bundle's own labor and packaging
+// are per bundle, on top of what its bagels carry.
+function costBundle(
+  bundle: Product,
+  components: { productId: string; quantity: number | null }[],
+  bagels: ProductCost[]
+): ProductCost {
+  const mix = components.flatMap((component) => {
+    const cost = bagels.find((b) => b.productId === component.productId);
+    if (!cost) return [];
+    const share = bundle.bundleType === "pick"
+      ? (bundle.bundleSize || 0) / components.length
+      : component.quantity || 0;
+    return [{ cost, share }];
+  });
+
+  const lines = new Map<string, ProductCost["lines"][number]>();
+  for (const { cost, share } of mix) {
+    for (const line of cost.lines) {
+      const existing = lines.get(line.ingredientId) || { ...line, quantity: 0, cost: 0 };
+      existing.quantity += line.quantity * share;
+      existing.cost += line.cost * share;
+      lines.set(line.ingredientId, existing);
+    }
+  }
+
+  const sumOf = (pick: (cost: ProductCost) => number) => mix.reduce((sum, { cost, share }) => sum + pick(cost) * share, 0);
+  const price = parseFloat(bundle.price);
+  const ingredientCost = sumOf((cost) => cost.ingredientCost);
+  const laborCost = parseFloat(bundle.laborCost) + sumOf((cost) => cost.laborCost);
+  const packagingCost = parseFloat(bundle.packagingCost) + sumOf((cost) => cost.packagingCost);
+  const unitCost = ingredientCost + laborCost + packagingCost;
+  return {
+    productId: bundle.id,
+    name: bundle.name,
+    isActive: bundle.isActive,
+    price,
+    recipeVersion: null,
+    ingredientCost,
+    laborCost,
+    packagingCost,
+    unitCost,
+    margin: price - unitCost,
+    marginPercent: percentOf(price - unitCost, price),
+    lines: Array.from(lines.values()),
+  };
+}
+
+// What a finished batch cost. The lots it drew say what was actually paid for the ingredients;
+// that's shared out between its products in proportion to what their recipes would cost today.
+async function costBatch(batch: Batch, items: BatchItem[], products: Map<string, Product>): Promise<BatchCost> {
+  const standard = await Promise.all(items.map(async (item) =>
+    ingredientCostPerBagel(await storage.getRecipe(item.productId, item.recipeVersionId))
+  ));
+  const standardTotal = items.reduce((sum, item, i) => sum + standard[i] * item.quantity, 0);
+
+  const lots = await storage.getBatchLots(batch.id);
+  const actual = lots.reduce(
+    (sum, usage) => sum + parseFloat(usage.quantity) * parseFloat(usage.lot?.costPerUnit || usage.ingredient.costPerUnit || "0"),
+    0
+  );
+  const estimated = lots.length === 0;
+  const scale = !estimated && standardTotal > 0 ? actual / standardTotal : 1;
+
+  const lines = items.map((item, i) => {
+    const product = products.get(item.productId);
+    return {
+      productId: item.productId,
+      name: product?.name || "Unknown product",
+      quantity: item.quantity,
+      unitCost: standard[i] * scale + (product ? overheadPerBagel(product) : 0),
+    };
+  });
+
+  const bagels = items.reduce((sum, item) => sum + item.quantity, 0);
+  const cogs = lines.reduce((sum, line) => sum + line.unitCost * line.quantity, 0);
+  const ingredientCost = estimated ? standardTotal : actual;
+  return {
+    batchId: batch.id,
+    batchDate: batch.batchDate,
+    shift: batch.shift,
+    bagels,
+    ingredientCost,
+    overheadCost: cogs - ingredientCost,
+    cogs,
+    costPerBagel: bagels > 0 ? cogs / bagels : 0,
+    estimated,
+    products: lines,
+  };
+}
+
+function periodStart(day: string, groupBy: CostingPeriod): string {
+  if (groupBy === "month") return `${day.slice(0, 7)}-01`;
+  if (groupBy === "week") {
+    // Weeks start on Monday
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+    return addDays(day, -((weekday + 6) % 7));
+  }
+  return day;
+}
+
+function summarize(orders: OrderMargin[]): Omit<PeriodMargin, "period"> {
+  const revenue = orders.reduce((sum, order) => sum + order.revenue, 0);
+  const cogs = orders.reduce((sum, order) => sum + order.cogs, 0);
+  return { orders: orders.length, revenue, cogs, margin: revenue - cogs, marginPercent: percentOf(revenue - cogs, revenue) };
+}
+
+// Batches finished and orders fulfilled between two bakery days (inclusive). An order's bagels
+// are costed at the batch they came out of the freezer from, or at the product's current cost
+// when they can't be traced. Revenue is before tax and delivery, less any refunds.
+export async function costingReport(from: string, to: string, groupBy: CostingPeriod): Promise<CostingReport> {
+  const inRange = (instant: Date) => {
+    const day = bakeryDay(instant);
+    return day >= from && day <= to;
+  };
+
+  const [allBatches, allOrders, productList] = await Promise.all([
+    storage.getBatches(),
+    storage.getOrders(),
+    storage.getProducts(),
+  ]);
+  const products = new Map(productList.map((product) => [product.id, product]));
+
+  const batchCosts = new Map<string, BatchCost>();
+  const batchCost = async (batchId: string) => {
+    if (!batchCosts.has(batchId)) {
+      const batch = allBatches.find((b) => b.id === batchId);
+      if (!batch || batch.status !== "completed") return undefined;
+      batchCosts.set(batchId, await costBatch(batch, batch.items, products));
+    }
+    return batchCosts.get(batchId);
+  };
+
+  const batches: BatchCost[] = [];
+  for (const batch of allBatches) {
+    if (batch.status !== "completed" || !inRange(batch.batchDate)) continue;
+    batches.push((await batchCost(batch.id))!);
+  }
+
+  const sold = allOrders.filter((order) => SOLD_STATUSES.includes(order.status) && inRange(order.fulfillmentDate));
+  const orderIds = sold.map((order) => order.id);
+  const [sources, refunded] = await Promise.all([
+    storage.getStockSourcesForOrders(orderIds),
+    storage.getRefundedTotals(orderIds),
+  ]);
+
+  const currentCost = new Map<string, number>();
+  const standardCost = async (product: Product) => {
+    if (!currentCost.has(product.id)) {
+      const recipe = await storage.getRecipe(product.id);
+      currentCost.set(product.id, ingredientCostPerBagel(recipe) + overheadPerBagel(product));
+    }
+    return currentCost.get(product.id)!;
+  };
+
+  const orders: OrderMargin[] = [];
+  for (const order of sold) {
+    // Singles, packs and bundles of the same bagel draw on the same freezer stock
+    const bagels = new Map<string, number>();
+    for (const line of bagelLines(order.items)) {
+      bagels.set(line.productId, (bagels.get(line.productId) || 0) + line.quantity);
+    }
+
+    let cogs = 0;
+    for (const [productId, quantity] of Array.from(bagels)) {
+      const product = products.get(productId);
+      let remaining = quantity;
+      for (const source of sources.filter((s) => s.orderId === order.id && s.productId === productId)) {
+        const cost = await batchCost(source.batchId);
+        const line = cost?.products.find((p) => p.productId === productId);
+        if (!line) continue;
+        const taken = Math.min(source.quantity, remaining);
+        cogs += taken * line.unitCost;
+        remaining -= taken;
+      }
+      if (remaining > 0 && product) cogs += remaining * (await standardCost(product));
+    }
+
+    const subtotal = parseFloat(order.subtotal);
+    const total = parseFloat(order.total);
+    // Refunds cover tax and delivery too, so only the share that was product sales comes off
+    const revenue = total > 0 ? subtotal * (1 - Math.min(refunded[order.id] || 0, total) / total) : subtotal;
+    orders.push({
+      orderId: order.id,
+      customerName: order.customerName,
+      fulfillmentDate: order.fulfillmentDate,
+      status: order.status,
+      revenue,
+      cogs,
+      margin: revenue - cogs,
+      marginPercent: percentOf(revenue - cogs, revenue),
+    });
+  }
+  orders.sort((a, b) => a.fulfillmentDate.getTime() - b.fulfillmentDate.getTime());
+  batches.sort((a, b) => a.batchDate.getTime() - b.batchDate.getTime());
+
+  const byPeriod = new Map<string, OrderMargin[]>();
+  for (let day = periodStart(from, groupBy); day <= to; day = addDays(day, 1)) {
+    const period = periodStart(day, groupBy);
+    if (!byPeriod.has(period)) byPeriod.set(period, []);
+  }
+  for (const order of orders) {
+    byPeriod.get(periodStart(bakeryDay(order.fulfillmentDate), groupBy))!.push(order);
+  }
+  const periods = Array.from(byPeriod).map(([period, periodOrders]) => ({ period, ...summarize(periodOrders) }));
+
+  return { from, to, groupBy, batches, orders, periods, totals: summarize(orders) };
+}
@@ -0,0 +1,105 @@
+import { storage } from "../storage.js";
+import { normalizePhone } from "./sms.js";
+import type { BundleContent, Customer, Order, OrderItem, Product } from "../../shared/schema.js";
+
+type Actor = { id?: string; username: string };
+
+// Finds or creates the customer placing an order. Ticking "text me" at checkout opts them in
+// for the number typed into that order; leaving it unticked doesn't undo an earlier opt-in.
+export async function customerForOrder(
+  details: { name: string; email: string; phone?: string | null },
+  options: { smsOptIn?: boolean; actor: Actor }
+): Promise<Customer> {
+  const phone = normalizePhone(details.phone);
+  const customer = await storage.upsertCustomer({ email: details.email, name: details.name, phone });
+  if (options.smsOptIn && phone && !(customer.smsOptIn && customer.smsPhone === phone)) {
+    return (await setSmsConsent(customer, phone, true, "checkout", options.actor)) || customer;
+  }
+  return customer;
+}
+
+// Opting in records the number the customer asked on; opting out keeps it so START can undo a STOP
+export async function setSmsConsent(
+  customer: Customer,
+  phone: string,
+  optIn: boolean,
+  source: string,
+  actor: Actor
+): Promise<Customer | undefined> {
+  const updated = await storage.updateCustomer(customer.id, optIn
+    ? { smsOptIn: true, smsPhone: phone, smsOptInAt: new Date(), smsOptOutAt: null }
+    : { smsOptIn: false, smsOptOutAt: new Date() });
+  await storage.logActivity(
+    optIn ? "customer.sms_opted_in" : "customer.sms_opted_out",
+    "customer",
+    customer.id,
+    { email: customer.email, phone, source },
+    actor.id,
+    actor.username
+  );
+  return updated;
+}
+
+// Saves where the order went to the customer's address book. Never throws: the order is
+// already placed by the time this runs.
+export async function rememberAddress(order: Order): Promise<void> {
+  if (!order.customerId) return;
+  try {
+    await storage.saveCustomerAddress(order.customerId, {
+      deliveryAddress: order.deliveryAddress,
+      deliveryCity: order.deliveryCity,
+      deliveryState: order.deliveryState,
+      deliveryZip: order.deliveryZip,
+      deliveryInstructions: order.deliveryInstructions,
+    });
+  } catch (error) {
+    console.error(`Failed to save the address from order ${order.id}:`, error);
+  }
+}
+
+export interface ReorderLine {
+  productId: string;
+  variantId?: string;
+  picks?: BundleContent[];
+  quantity: number;
+}
+
+// Turns a past order back into cart lines the order page understands. Products or pack sizes
+// no longer on sale are left out and named so the customer knows what's missing.
+export async function reorderLines(
+  order: Order & { items: (OrderItem & { product: Product })[] }
+): Promise<{ lines: ReorderLine[]; unavailable: string[] }> {
+  const lines: ReorderLine[] = [];
+  const unavailable: string[] = [];
+
+  for (const item of order.items) {
+    const product = await storage.getProduct(item.productId);
+    if (!product?.isActive) {
+      unavailable.push(item.product.name);
+      continue;
+    }
+
+    if (product.bundleType) {
+      // A bundle line keeps all of its bundles' bagels; the picks are one bundle's worth
+      const bundles = item.packs || 1;
+      lines.push({
+        productId: product.id,
+        picks: product.bundleType === "pick"
+          ? (item.components || []).map((pick) => ({ productId: pick.productId, quantity: pick.quantity / bundles }))
+          : undefined,
+        quantity: bundles,
+      });
+    } else if (item.variantId) {
+      const variant = await storage.getProductVariant(item.variantId);
+      if (!variant?.isActive) {
+        unavailable.push(`${product.name} (${item.packName || "pack"})`);
+        continue;
+      }
+      lines.push({ productId: product.id, variantId: variant.id, quantity: item.packs || 1 });
+    } else {
+      lines.push({ productId: product.id, quantity: item.quantity });
+    }
+  }
+
+  return { lines, unavailable };
+}
@@ -0,0 +1,134 @@
+import { storage } from "../storage.js";
+import { geocodeAddress, type LatLng } from "./geocode.js";
+import { DeliveryUnavailableError } from "./errors.js";
+import type { DeliveryZone, Location } from "../../shared/schema.js";
+
+type ServedZone = DeliveryZone & { location: Location };
+
+export interface DeliveryAddress {
+  deliveryAddress: string;
+  deliveryCity: string;
+  deliveryState: string;
+  deliveryZip: string;
+}
+
+export interface DeliveryQuote {
+  zoneId: string;
+  zoneName: string;
+  locationId: string;
+  locationName: string;
+  distanceMiles: number;
+  fee: number;
+  minimumOrder: number;
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+function toRadians(degrees: number) {
+  return (degrees * Math.PI) / 180;
+}
+
+function distanceMiles(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
+
+// Ray casting; fine at city scale where the earth is flat enough
+function insidePolygon(point: LatLng, polygon: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    const crosses = (latI > point.lat) !== (latJ > point.lat)
+      && point.lng < ((lngJ - lngI) * (point.lat - latI)) / (latJ - latI) + lngI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+function covers(zone: ServedZone, point: LatLng, distance: number): boolean {
+  if (zone.type === "radius") {
+    return zone.radiusMiles != null && distance <= parseFloat(zone.radiusMiles);
+  }
+  return !!zone.polygon && zone.polygon.length >= 3 && insidePolygon(point, zone.polygon);
+}
+
+export function deliveryFee(zone: DeliveryZone, subtotal: number): number {
+  const tier = [...zone.feeTiers]
+    .sort((a, b) => b.minSubtotal - a.minSubtotal)
+    .find((t) => subtotal >= t.minSubtotal);
+  return tier ? tier.fee : 0;
+}
+
+function toQuote(zone: ServedZone, distance: number, subtotal: number): DeliveryQuote {
+  return {
+    zoneId: zone.id,
+    zoneName: zone.name,
+    locationId: zone.locationId,
+    locationName: zone.location.name,
+    distanceMiles: Math.round(distance * 10) / 10,
+    fee: deliveryFee(zone, subtotal),
+    minimumOrder: parseFloat(zone.minimumOrder),
+  };
+}
+
+// Finds the cheapest zone that covers the address (nearest location on a tie).
+// Returns null when no zones are set up, so delivery stays open until someone configures them.
+// With enforce off - staff entering orders by hand - an address we can't place or serve
+// also comes back null instead of throwing.
+export async function quoteDelivery(
+  address: DeliveryAddress,
+  subtotal: number,
+  options: { enforce: boolean } = { enforce: true }
+): Promise<DeliveryQuote | null> {
+  const zones = await storage.getActiveDeliveryZones();
+  if (zones.length === 0) return null;
+
+  let found: LatLng | null;
+  try {
+    found = await geocodeAddress({
+      street: address.deliveryAddress,
+      city: address.deliveryCity,
+      state: address.deliveryState,
+      zip: address.deliveryZip,
+    });
+  } catch (geocodeError) {
+    console.error("Geocoding error:", geocodeError);
+    if (!options.enforce) return null;
+    throw new DeliveryUnavailableError("address_not_found", "We couldn't check your address just now - please try again");
+  }
+
+  if (!found) {
+    if (!options.enforce) return null;
+    throw new DeliveryUnavailableError("address_not_found", "We couldn't find that address - please check it");
+  }
+  const point = found;
+
+  const candidates = zones
+    .map((zone) => {
+      const distance = distanceMiles(point, { lat: zone.location.latitude!, lng: zone.location.longitude! });
+      return { zone, distance };
+    })
+    .filter(({ zone, distance }) => covers(zone, point, distance))
+    .map(({ zone, distance }) => toQuote(zone, distance, subtotal))
+    .sort((a, b) => a.fee - b.fee || a.distanceMiles - b.distanceMiles);
+
+  if (candidates.length === 0) {
+    if (!options.enforce) return null;
+    throw new DeliveryUnavailableError("out_of_area", "Sorry, we don't deliver to that address yet");
+  }
+
+  const reachable = candidates.find((quote) => subtotal >= quote.minimumOrder);
+  if (!reachable) {
+    if (!options.enforce) return candidates[0];
+    const lowestMinimum = Math.min(...candidates.map((quote) => quote.minimumOrder));
+    throw new DeliveryUnavailableError(
+      "below_minimum",
+      `Delivery to your area needs an order of at least $${lowestMinimum.toFixed(2)}`,
+      lowestMinimum
+    );
+  }
+  return reachable;
+}
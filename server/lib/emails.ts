@@ -0,0 +1,265 @@
+import { itemName } from "./pricing.js";
+import { bakeryTimezone } from "./capacity.js";
+import { trackingPath } from "./tracking.js";
+import {
+  FULFILLMENT_WINDOW_HOURS,
+  formatOrderNumber,
+  type FulfillmentWindow,
+  type Invoice,
+  type NotificationTemplate,
+  type Order,
+  type OrderItem,
+  type Product,
+} from "../../shared/schema.js";
+
+const BRAND = "D'Havi Spelt Bagels";
+const CONTACT = "orders@dhavibagels.com";
+
+// Payment states where money was taken, so a cancellation comes with a refund
+const PAID_STATUSES = ["captured", "partially_refunded", "refunded"];
+
+export type EmailOrder = Order & { items: (OrderItem & { product: Product })[] };
+
+export interface EmailDetails {
+  invoice?: Invoice;
+  refundAmount?: number;
+  creditNoteNumber?: string;
+  reason?: string;
+  reauthorizationPath?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Links in emails have to be absolute; PUBLIC_URL is where customers reach the site
+export function siteUrl(path: string): string {
+  return `${(process.env.PUBLIC_URL || "http://localhost:5000").replace(/\/$/, "")}${path}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function money(amount: string | number): string {
+  return `$${(typeof amount === "number" ? amount : parseFloat(amount)).toFixed(2)}`;
+}
+
+export function orderReference(order: Order): string {
+  return formatOrderNumber(order);
+}
+
+export function deliveryWhen(order: Order): string {
+  const day = new Intl.DateTimeFormat("en-US", {
+    timeZone: bakeryTimezone(),
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+  }).format(order.fulfillmentDate);
+  const hours = FULFILLMENT_WINDOW_HOURS[order.fulfillmentWindow as FulfillmentWindow];
+  if (!hours) return day;
+  const clock = (hour: number) => `${hour % 12 || 12}${hour < 12 ? "am" : "pm"}`;
+  return `${day}, ${clock(hours.start)}-${clock(hours.end)}`;
+}
+
+function deliveryAddress(order: Order): string {
+  return `${order.deliveryAddress}, ${order.deliveryCity}, ${order.deliveryState} ${order.deliveryZip}`;
+}
+
+// Each template is some opening paragraphs, optionally the order summary, and a link
+interface Content {
+  subject: string;
+  paragraphs: string[];
+  summary: boolean;
+  link?: { label: string; path: string };
+}
+
+function content(template: NotificationTemplate, order: EmailOrder, details: EmailDetails): Content {
+  const ref = orderReference(order);
+  const confirmation = { label: "Track your order", path: trackingPath(order) };
+
+  switch (template) {
+    case "order_received":
+      return {
+        subject: `We've got your order ${ref}`,
+        paragraphs: [
+          `Thanks, ${order.customerName}! We've received your order and will confirm it shortly.`,
+          ...(order.stripePaymentIntentId
+            ? ["Your card has been authorized but not charged - we only take payment once we accept the order."]
+            : []),
+          `Your order ID is ${order.id} - enter it on our tracking page to check on your order.`,
+        ],
+        summary: true,
+        link: confirmation,
+      };
+    case "order_approved":
+      return {
+        subject: `Order ${ref} confirmed`,
+        paragraphs: [
+          `Good news, ${order.customerName} - your order is confirmed and your card has been charged ${money(order.total)}.`,
+          `We'll deliver on ${deliveryWhen(order)}.`,
+        ],
+        summary: true,
+        link: confirmation,
+      };
+    case "invoice": {
+      const invoice = details.invoice;
+      return {
+        subject: invoice ? `Invoice ${invoice.invoiceNumber} for order ${ref}` : `Invoice for order ${ref}`,
+        paragraphs: [
+          `Here is the invoice for your order${invoice ? `, number ${invoice.invoiceNumber}` : ""}.`,
+          `Amount: ${money(invoice?.total || order.total)}, paid by card.`,
+        ],
+        summary: true,
+        link: confirmation,
+      };
+    }
+    case "order_baking":
+      return {
+        subject: `Your bagels are in the oven (${ref})`,
+        paragraphs: [`We're baking your order now, ready for ${deliveryWhen(order)}.`],
+        summary: false,
+        link: confirmation,
+      };
+    case "order_ready":
+      return {
+        subject: `Order ${ref} is out for delivery`,
+        paragraphs: [
+          `Your order is packed and on its way to ${deliveryAddress(order)}.`,
+          ...(order.deliveryInstructions ? [`Delivery notes: ${order.deliveryInstructions}`] : []),
+        ],
+        summary: false,
+        link: confirmation,
+      };
+    case "order_cancelled":
+      return {
+        subject: `Order ${ref} cancelled`,
+        paragraphs: [
+          `Your order has been cancelled${details.reason ? `: ${details.reason.replace(/\.$/, "")}` : ""}.`,
+          ...(PAID_STATUSES.includes(order.stripePaymentStatus || "")
+            ? ["Whatever you paid is being refunded to your card and should show up in 5-10 business days."]
+            : order.stripePaymentIntentId
+              ? ["Your card was not charged; the hold on it has been released."]
+              : []),
+        ],
+        summary: false,
+      };
+    case "order_refunded":
+      return {
+        subject: `Refund for order ${ref}`,
+        paragraphs: [
+          `We've refunded ${money(details.refundAmount || 0)} to your card${details.creditNoteNumber ? ` (credit note ${details.creditNoteNumber})` : ""}.`,
+          ...(details.reason ? [`Reason: ${details.reason}`] : []),
+          "It should show up in 5-10 business days.",
+        ],
+        summary: false,
+      };
+    case "reauthorization":
+      return {
+        subject: `Please re-confirm your card for order ${ref}`,
+        paragraphs: [
+          `The hold on your card for this order is about to expire before we deliver on ${deliveryWhen(order)}.`,
+          "Please re-enter your card so we can keep the order - you won't be charged until we accept it.",
+        ],
+        summary: false,
+        link: { label: "Re-confirm your card", path: details.reauthorizationPath || trackingPath(order) },
+      };
+  }
+}
+
+function summaryLines(order: EmailOrder): [string, string][] {
+  return [
+    ...order.items.map((item): [string, string] => [`${item.packs ?? item.quantity} x ${itemName(item)}`, money(item.total)]),
+    ["Subtotal", money(order.subtotal)],
+    ...(parseFloat(order.deliveryFee) > 0 ? [["Delivery", money(order.deliveryFee)] as [string, string]] : []),
+    ["Tax", money(order.tax)],
+    ["Total", money(order.total)],
+  ];
+}
+
+export function renderEmail(template: NotificationTemplate, order: EmailOrder, details: EmailDetails = {}): RenderedEmail {
+  const { subject, paragraphs, summary, link } = content(template, order, details);
+  const url = link && siteUrl(link.path);
+  const lines = summary ? summaryLines(order) : [];
+
+  const text = [
+    ...paragraphs,
+    ...(summary ? [`Delivery: ${deliveryWhen(order)}\n${deliveryAddress(order)}`] : []),
+    ...(lines.length ? [lines.map(([label, amount]) => `${label}: ${amount}`).join("\n")] : []),
+    ...(link ? [`${link.label}: ${url}`] : []),
+    `Questions? Reply to this email or write to ${CONTACT}.\n${BRAND}`,
+  ].join("\n\n");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Georgia, serif; color: #2d2a26; max-width: 560px; margin: 0 auto; padding: 24px;">
+    <h2 style="margin-top: 0;">${escapeHtml(subject)}</h2>
+    ${paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join("\n    ")}
+    ${summary ? `<p><strong>Delivery:</strong> ${escapeHtml(deliveryWhen(order))}<br>${escapeHtml(deliveryAddress(order))}</p>` : ""}
+    ${lines.length ? `<table style="width: 100%; border-collapse: collapse;">
+      ${lines.map(([label, amount]) => `<tr><td style="padding: 4px 0; border-bottom: 1px solid #eee;">${escapeHtml(label)}</td><td style="padding: 4px 0; border-bottom: 1px solid #eee; text-align: right;">${amount}</td></tr>`).join("\n      ")}
+    </table>` : ""}
+    ${url ? `<p><a href="${escapeHtml(url)}" style="color: #8b5a2b;">${escapeHtml(link!.label)}</a></p>` : ""}
+    <p style="color: #777; font-size: 13px;">Questions? Reply to this email or write to ${CONTACT}.<br>${BRAND}</p>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+export function renderSignInEmail(customer: { name: string }, url: string): RenderedEmail {
+  const subject = `Sign in to ${BRAND}`;
+  const greeting = `Hi ${customer.name.split(" ")[0]},`;
+  const paragraph = "Use the link below to sign in and see your orders and saved addresses. It works once and expires in 20 minutes. If you didn't ask for it, you can ignore this email.";
+
+  const text = [greeting, paragraph, `Sign in: ${url}`, BRAND].join("\n\n");
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Georgia, serif; color: #2d2a26; max-width: 560px; margin: 0 auto; padding: 24px;">
+    <h2 style="margin-top: 0;">${escapeHtml(subject)}</h2>
+    <p>${escapeHtml(greeting)}</p>
+    <p>${escapeHtml(paragraph)}</p>
+    <p><a href="${escapeHtml(url)}" style="color: #8b5a2b;">Sign in</a></p>
+    <p style="color: #777; font-size: 13px;">${BRAND}</p>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+// Sent straight to the customer when a subscription delivery couldn't be ordered; there's no order to hang it on
+export function renderSubscriptionProblemEmail(customer: { name: string }, deliveryDate: Date, reason: string, url: string): RenderedEmail {
+  const day = new Intl.DateTimeFormat("en-US", {
+    timeZone: bakeryTimezone(),
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+  }).format(deliveryDate);
+  const subject = `We couldn't place your bagels for ${day}`;
+  const greeting = `Hi ${customer.name.split(" ")[0]},`;
+  const paragraphs = [
+    `Your subscription delivery for ${day} didn't go through: ${reason}. You haven't been charged for it.`,
+    "Your subscription carries on with the next delivery. You can check it, or skip, pause or cancel, from your account.",
+  ];
+
+  const text = [greeting, ...paragraphs, `Your account: ${url}`, `Questions? Reply to this email or write to ${CONTACT}.\n${BRAND}`].join("\n\n");
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Georgia, serif; color: #2d2a26; max-width: 560px; margin: 0 auto; padding: 24px;">
+    <h2 style="margin-top: 0;">${escapeHtml(subject)}</h2>
+    <p>${escapeHtml(greeting)}</p>
+    ${paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join("\n    ")}
+    <p><a href="${escapeHtml(url)}" style="color: #8b5a2b;">Your account</a></p>
+    <p style="color: #777; font-size: 13px;">Questions? Reply to this email or write to ${CONTACT}.<br>${BRAND}</p>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
@@ -0,0 +1,113 @@
+export class InsufficientStockError extends Error {
+  constructor(
+    public productId: string,
+    public requested: number,
+    public available: number,
+  ) {
+    super(`Only ${available} available for product ${productId} (requested ${requested})`);
+    this.name = "InsufficientStockError";
+  }
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(
+    public from: string,
+    public to: string,
+  ) {
+    super(`Can't move an order from ${from} to ${to}`);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+export class PaymentError extends Error {
+  constructor(message: string, public detail?: string) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+export class RefundLimitError extends Error {
+  constructor(
+    public requested: number,
+    public remaining: number,
+    public productName?: string,
+  ) {
+    super(productName
+      ? `Only ${remaining} ${productName} left to refund (requested ${requested})`
+      : `Only $${remaining.toFixed(2)} left to refund (requested $${requested.toFixed(2)})`);
+    this.name = "RefundLimitError";
+  }
+}
+
+export class ProductUnavailableError extends Error {
+  constructor(public productId: string) {
+    super(`Product not available: ${productId}`);
+    this.name = "ProductUnavailableError";
+  }
+}
+
+export class DeliveryUnavailableError extends Error {
+  constructor(
+    public reason: "address_not_found" | "out_of_area" | "below_minimum",
+    message: string,
+    public minimumOrder?: number,
+  ) {
+    super(message);
+    this.name = "DeliveryUnavailableError";
+  }
+}
+
+export class SlotUnavailableError extends Error {
+  constructor(
+    public reason: "blackout" | "lead_time" | "full",
+    message: string,
+  ) {
+    super(message);
+    this.name = "SlotUnavailableError";
+  }
+}
+
+export class PlanConflictError extends Error {
+  constructor(public orderIds: string[]) {
+    super(`Orders already planned or no longer open: ${orderIds.join(", ")}`);
+    this.name = "PlanConflictError";
+  }
+}
+
+export class PurchaseOrderStateError extends Error {
+  constructor(
+    public status: string,
+    public action: string,
+  ) {
+    super(`Can't ${action} a purchase order that is ${status.replace("_", " ")}`);
+    this.name = "PurchaseOrderStateError";
+  }
+}
+
+export class UnitMismatchError extends Error {
+  constructor(
+    public ingredient: string,
+    public unit: string,
+    public stockUnit: string,
+    public needsDensity: boolean,
+  ) {
+    super(needsDensity
+      ? `${ingredient} is stocked in ${stockUnit}; give it a density to measure it in ${unit}`
+      : `${ingredient} is stocked in ${stockUnit} and can't be measured in ${unit}`);
+    this.name = "UnitMismatchError";
+  }
+}
+
+export class InvalidRecipeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidRecipeError";
+  }
+}
+
+export class InvalidBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidBundleError";
+  }
+}
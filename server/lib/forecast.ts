@@ -0,0 +1,116 @@
+import { storage } from "../storage.js";
+import { planBakes } from "./bakePlan.js";
+import { bakeryDay, addDays } from "./capacity.js";
+import { usagePerBagel } from "./recipes.js";
+import type { Ingredient } from "../../shared/schema.js";
+
+export interface ForecastDay {
+  date: string;
+  needed: number;
+  balance: number; // on hand after this day's bakes
+}
+
+export interface IngredientForecast {
+  ingredientId: string;
+  name: string;
+  unit: string;
+  onHand: number;
+  reorderThreshold: number;
+  totalNeeded: number;
+  shortfall: number;
+  reorderBy: string | null; // first day the balance drops to the reorder threshold
+  shortOn: string | null; // first day there isn't enough
+  days: ForecastDay[];
+}
+
+// recipeVersionId is what a planned batch was pinned to; proposals use the recipe in force
+type Bake = { date: string; productId: string; quantity: number; recipeVersionId?: string | null };
+
+// Planned batches, plus what the bake planner would propose for orders no batch covers yet.
+// Overdue planned batches count against the first day.
+async function upcomingBakes(from: string, days: number, includeOrders: boolean): Promise<Bake[]> {
+  const to = addDays(from, days);
+  const bakes: Bake[] = [];
+
+  for (const batch of await storage.getBatches()) {
+    if (batch.status !== "planned") continue;
+    const day = bakeryDay(batch.batchDate);
+    if (day >= to) continue;
+    for (const item of batch.items) {
+      bakes.push({
+        date: day < from ? from : day,
+        productId: item.productId,
+        quantity: item.quantity,
+        recipeVersionId: item.recipeVersionId,
+      });
+    }
+  }
+
+  if (includeOrders) {
+    for (const proposal of await planBakes(from, days)) {
+      for (const item of proposal.items) {
+        bakes.push({ date: proposal.batchDate, productId: item.productId, quantity: item.quantity });
+      }
+    }
+  }
+  return bakes;
+}
+
+export async function forecastIngredients(from: string, days: number, includeOrders: boolean): Promise<IngredientForecast[]> {
+  const bakes = await upcomingBakes(from, days, includeOrders);
+  const expired = await storage.getExpiredLotTotals();
+
+  const recipes = new Map<string, { ingredient: Ingredient; quantity: number }[]>();
+  const recipeKey = (bake: Bake) => `${bake.productId}:${bake.recipeVersionId || ""}`;
+  for (const bake of bakes) {
+    if (!recipes.has(recipeKey(bake))) {
+      recipes.set(recipeKey(bake), usagePerBagel(await storage.getRecipe(bake.productId, bake.recipeVersionId)));
+    }
+  }
+
+  const needs = new Map<string, { ingredient: Ingredient; byDay: Map<string, number> }>();
+  for (const bake of bakes) {
+    for (const usage of recipes.get(recipeKey(bake))!) {
+      if (!needs.has(usage.ingredient.id)) {
+        needs.set(usage.ingredient.id, { ingredient: usage.ingredient, byDay: new Map() });
+      }
+      const byDay = needs.get(usage.ingredient.id)!.byDay;
+      byDay.set(bake.date, (byDay.get(bake.date) || 0) + usage.quantity * bake.quantity);
+    }
+  }
+
+  const forecasts = Array.from(needs.values()).map(({ ingredient, byDay }): IngredientForecast => {
+    // Expired lots are still on the shelf but won't go into a batch
+    const onHand = parseFloat(ingredient.onHand) - (expired[ingredient.id] || 0);
+    const reorderThreshold = parseFloat(ingredient.reorderThreshold);
+    let balance = onHand;
+    let reorderBy: string | null = null;
+    let shortOn: string | null = null;
+
+    const timeline = Array.from(byDay.keys()).sort().map((date): ForecastDay => {
+      const needed = byDay.get(date)!;
+      balance -= needed;
+      if (!reorderBy && balance <= reorderThreshold) reorderBy = date;
+      if (!shortOn && balance < 0) shortOn = date;
+      return { date, needed, balance };
+    });
+
+    const totalNeeded = onHand - balance;
+    return {
+      ingredientId: ingredient.id,
+      name: ingredient.name,
+      unit: ingredient.unit,
+      onHand,
+      reorderThreshold,
+      totalNeeded,
+      shortfall: Math.max(0, totalNeeded - onHand),
+      reorderBy,
+      shortOn,
+      days: timeline,
+    };
+  });
+
+  // Soonest trouble first
+  const urgency = (forecast: IngredientForecast) => forecast.shortOn || forecast.reorderBy || "~";
+  return forecasts.sort((a, b) => urgency(a).localeCompare(urgency(b)) || a.name.localeCompare(b.name));
+}
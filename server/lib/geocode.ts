@@ -0,0 +1,45 @@
+export type LatLng = { lat: number; lng: number };
+
+// Nominatim, the same OpenStreetMap data the locations map is drawn from. The public instance
+// allows one request a second, so it's only used in development; production must set GEOCODER_URL.
+const GEOCODER_URL = process.env.GEOCODER_URL
+  || (process.env.NODE_ENV === "production" ? undefined : "https://nominatim.openstreetmap.org/search");
+const TIMEOUT_MS = 5000;
+const CACHE_LIMIT = 500;
+
+const cache = new Map<string, LatLng | null>();
+
+export async function geocodeAddress(address: { street: string; city: string; state: string; zip: string }): Promise<LatLng | null> {
+  const key = [address.street, address.city, address.state, address.zip].map((part) => part.trim().toLowerCase()).join("|");
+  if (cache.has(key)) return cache.get(key)!;
+  if (!GEOCODER_URL) {
+    throw new Error("GEOCODER_URL isn't set - production needs its own geocoder");
+  }
+
+  const params = new URLSearchParams({
+    street: address.street,
+    city: address.city,
+    state: address.state,
+    postalcode: address.zip,
+    country: "us",
+    format: "json",
+    limit: "1",
+  });
+
+  const response = await fetch(`${GEOCODER_URL}?${params}`, {
+    headers: { "User-Agent": "dhavi-bakehouse/1.0" },
+    signal: AbortSignal.timeout(TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Geocoder returned ${response.status}`);
+  }
+
+  const [match] = (await response.json()) as { lat: string; lon: string }[];
+  const point = match ? { lat: parseFloat(match.lat), lng: parseFloat(match.lon) } : null;
+
+  if (cache.size >= CACHE_LIMIT) {
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(key, point);
+  return point;
+}
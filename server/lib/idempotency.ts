@@ -0,0 +1,53 @@
+import { createHash } from "crypto";
+import type { RequestHandler } from "express";
+import { storage } from "../storage.js";
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{8,100}$/;
+
+// Honours an Idempotency-Key header: the first request with a key runs normally and its
+// response is saved; repeats with the same key and body get that response back instead
+// of running again. Requests without the header go straight through.
+export function idempotent(scope: string): RequestHandler {
+  return async (req, res, next) => {
+    const key = req.header("Idempotency-Key");
+    if (!key) return next();
+
+    if (!KEY_PATTERN.test(key)) {
+      return res.status(400).json({ message: "Invalid Idempotency-Key header" });
+    }
+
+    try {
+      const requestHash = createHash("sha256").update(JSON.stringify(req.body ?? null)).digest("hex");
+      const { claimed, record } = await storage.claimIdempotencyKey(scope, key, requestHash);
+
+      if (!claimed) {
+        if (record.requestHash !== requestHash) {
+          return res.status(422).json({ message: "Idempotency-Key was already used for a different request" });
+        }
+        if (record.responseStatus === null) {
+          return res.status(409).json({ message: "This request is still being processed" });
+        }
+        res.setHeader("Idempotent-Replayed", "true");
+        return res.status(record.responseStatus).json(record.responseBody);
+      }
+
+      // Save the response before sending it so a retry straight after can't slip past.
+      // Server errors free the key so the client can try again.
+      const send = res.json.bind(res);
+      res.json = ((body: unknown) => {
+        const saved = res.statusCode >= 500
+          ? storage.releaseIdempotencyKey(record.id)
+          : storage.completeIdempotencyKey(record.id, res.statusCode, body);
+        saved
+          .catch((error) => console.error("Error saving idempotent response:", error))
+          .finally(() => send(body));
+        return res;
+      }) as typeof res.json;
+
+      next();
+    } catch (error) {
+      console.error("Error checking idempotency key:", error);
+      res.status(500).json({ message: "Failed to process request" });
+    }
+  };
+}
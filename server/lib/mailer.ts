@@ -0,0 +1,77 @@
+import fs from "fs";
+import path from "path";
+import nodemailer from "nodemailer";
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string | null;
+}
+
+export interface Mailer {
+  name: string;
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+function fromAddress(): string {
+  return process.env.EMAIL_FROM || "D'havi.co <orders@dhavibagels.com>";
+}
+
+function smtpMailer(): Mailer {
+  if (!process.env.SMTP_HOST) {
+    throw new Error("SMTP_HOST must be set in environment variables to send email over SMTP");
+  }
+  const port = parseInt(process.env.SMTP_PORT || "587", 10);
+  const transport = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+  return {
+    name: "smtp",
+    async send(email) {
+      await transport.sendMail({ from: fromAddress(), ...email, html: email.html || undefined });
+    },
+  };
+}
+
+// Each message becomes an .eml file that any mail client can open
+function fileMailer(): Mailer {
+  const dir = path.resolve(process.cwd(), process.env.EMAIL_OUTBOX_DIR || "outbox");
+  const transport = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+  return {
+    name: "file",
+    async send(email) {
+      const info = await transport.sendMail({ from: fromAddress(), ...email, html: email.html || undefined });
+      await fs.promises.mkdir(dir, { recursive: true });
+      const safeTo = email.to.replace(/[^a-z0-9@.-]/gi, "_");
+      await fs.promises.writeFile(path.join(dir, `${Date.now()}-${safeTo}.eml`), info.message as Buffer);
+    },
+  };
+}
+
+function consoleMailer(): Mailer {
+  return {
+    name: "console",
+    async send(email) {
+      console.log(`Email to ${email.to}: ${email.subject}\n${email.text}`);
+    },
+  };
+}
+
+let _mailer: Mailer | null = null;
+
+// EMAIL_TRANSPORT picks smtp, file or console. Without it we use SMTP when it's configured
+// and otherwise just log, so local development never mails real customers by accident.
+export function getMailer(): Mailer {
+  if (!_mailer) {
+    const transport = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console");
+    if (transport === "smtp") _mailer = smtpMailer();
+    else if (transport === "file") _mailer = fileMailer();
+    else if (transport === "console") _mailer = consoleMailer();
+    else throw new Error(`Unknown EMAIL_TRANSPORT: ${transport}`);
+  }
+  return _mailer;
+}
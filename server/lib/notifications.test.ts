@@ -0,0 +1,38 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { storage } = vi.hoisted(() => ({
+  storage: { getCustomer: vi.fn() },
+}));
+
+vi.mock("../storage.js", () => ({ storage }));
+
+import { textablePhone } from "./notifications.js";
+import type { Order } from "../../shared/schema.js";
+
+const order = { id: "order-1", customerId: "cust-1", customerPhone: "(413) 555-0100" } as Order;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("textablePhone", () => {
+  it("texts the number the customer opted in on", async () => {
+    storage.getCustomer.mockResolvedValue({ id: "cust-1", smsOptIn: true, smsPhone: "+14135550100" });
+    await expect(textablePhone(order)).resolves.toBe("+14135550100");
+  });
+
+  it("won't text a number the customer didn't opt in on", async () => {
+    storage.getCustomer.mockResolvedValue({ id: "cust-1", smsOptIn: true, smsPhone: "+14135550199" });
+    await expect(textablePhone(order)).resolves.toBeUndefined();
+  });
+
+  it("won't text a customer who opted out", async () => {
+    storage.getCustomer.mockResolvedValue({ id: "cust-1", smsOptIn: false, smsPhone: "+14135550100" });
+    await expect(textablePhone(order)).resolves.toBeUndefined();
+  });
+
+  it("won't text an order without a customer", async () => {
+    await expect(textablePhone({ ...order, customerId: null })).resolves.toBeUndefined();
+    expect(storage.getCustomer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,148 @@
+import { storage } from "../storage.js";
+import { getMailer } from "./mailer.js";
+import { getSmsProvider, normalizePhone } from "./sms.js";
+import { renderEmail, type EmailDetails } from "./emails.js";
+import { renderText, type TextDetails } from "./texts.js";
+import type { Customer, InsertNotification, Notification, NotificationTemplate, Order, SmsTemplate } from "../../shared/schema.js";
+
+const MAX_ATTEMPTS = 5;
+// Long enough for a slow SMTP server; a sender that dies mid-send frees the message after this
+const LEASE_MS = 2 * 60 * 1000;
+// Wait before the 2nd, 3rd, ... attempt
+const RETRY_DELAYS_MS = [1, 5, 30, 120].map((minutes) => minutes * 60 * 1000);
+
+// Queues the message, then has a go at sending it straight away without holding up the caller
+async function enqueue(data: InsertNotification): Promise<Notification> {
+  const notification = await storage.createNotification(data);
+  deliverNotification(notification).catch((error) => {
+    console.error(`Failed to send notification ${notification.id}:`, error);
+  });
+  return notification;
+}
+
+// Renders the email for the order as it is now and queues it. Never throws: a customer
+// email going astray mustn't undo the order change that prompted it.
+export async function notifyOrder(
+  orderId: string,
+  template: NotificationTemplate,
+  details: EmailDetails = {}
+): Promise<Notification | undefined> {
+  try {
+    const order = await storage.getOrder(orderId);
+    if (!order) return undefined;
+
+    if (template === "invoice" && !details.invoice) {
+      // Approving without an invoice is allowed (see createInvoice), and then there's nothing to send
+      const invoice = await storage.getInvoiceByOrderId(order.id);
+      if (!invoice) return undefined;
+      details = { ...details, invoice };
+    }
+
+    const email = renderEmail(template, order, details);
+    return await enqueue({
+      orderId: order.id,
+      channel: "email",
+      template,
+      recipient: order.customerEmail,
+      subject: email.subject,
+      body: email.text,
+      html: email.html,
+    });
+  } catch (error) {
+    console.error(`Failed to queue ${template} email for order ${orderId}:`, error);
+    return undefined;
+  }
+}
+
+// The order's phone number, if its customer asked for texts on that number. A checkout under
+// someone's email with a different number never gets their texts, and never texts their phone.
+export async function textablePhone(order: Order): Promise<string | undefined> {
+  const phone = normalizePhone(order.customerPhone);
+  if (!phone || !order.customerId) return undefined;
+  const customer = await storage.getCustomer(order.customerId);
+  return customer?.smsOptIn && customer.smsPhone === phone ? phone : undefined;
+}
+
+// Same as notifyOrder for a text. Customers who haven't opted in are quietly left out.
+export async function textOrder(
+  orderId: string,
+  template: SmsTemplate,
+  details: TextDetails = {}
+): Promise<Notification | undefined> {
+  try {
+    const order = await storage.getOrder(orderId);
+    if (!order) return undefined;
+    const phone = await textablePhone(order);
+    if (!phone) return undefined;
+
+    return await enqueue({
+      orderId: order.id,
+      channel: "sms",
+      template,
+      recipient: phone,
+      body: await renderText(template, order, details),
+    });
+  } catch (error) {
+    console.error(`Failed to queue ${template} text for order ${orderId}:`, error);
+    return undefined;
+  }
+}
+
+// A STOP can arrive between queueing a text and sending it
+async function stillOptedIn(notification: Notification): Promise<boolean> {
+  const order = notification.orderId ? await storage.getOrder(notification.orderId) : undefined;
+  return !!order && (await textablePhone(order)) === notification.recipient;
+}
+
+async function send(notification: Notification): Promise<void> {
+  if (notification.channel === "sms") {
+    await getSmsProvider().send(notification.recipient, notification.body);
+    return;
+  }
+  await getMailer().send({
+    to: notification.recipient,
+    subject: notification.subject || "",
+    text: notification.body,
+    html: notification.html,
+  });
+}
+
+// One attempt at a queued message. Returns its status afterwards, or undefined when it
+// wasn't due or another sender already has it.
+export async function deliverNotification(notification: Notification): Promise<string | undefined> {
+  const claimed = await storage.claimNotification(notification.id, new Date(Date.now() + LEASE_MS));
+  if (!claimed) return undefined;
+
+  if (claimed.channel === "sms" && !(await stillOptedIn(claimed))) {
+    await storage.updateNotification(claimed.id, { status: "skipped", lastError: "The customer opted out of texts" });
+    return "skipped";
+  }
+
+  const attempts = claimed.attempts + 1;
+  try {
+    await send(claimed);
+  } catch (error: any) {
+    const failed = attempts >= MAX_ATTEMPTS;
+    const delay = RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1];
+    await storage.updateNotification(claimed.id, {
+      status: failed ? "failed" : "queued",
+      attempts,
+      lastError: error?.message || String(error),
+      nextAttemptAt: new Date(Date.now() + delay),
+    });
+    return failed ? "failed" : "queued";
+  }
+
+  await storage.updateNotification(claimed.id, { status: "sent", attempts, sentAt: new Date(), lastError: null });
+  return "sent";
+}
+
+// Puts a failed message back in the queue for one more attempt
+export async function retryNotification(id: string): Promise<Notification | undefined> {
+  const notification = await storage.getNotification(id);
+  if (!notification || notification.status === "sent") return notification;
+
+  const queued = await storage.updateNotification(id, { status: "queued", nextAttemptAt: new Date() });
+  if (queued) await deliverNotification(queued);
+  return storage.getNotification(id);
+}
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { storage, stripe, issueRefund } = vi.hoisted(() => ({
+  storage: {
+    getOrder: vi.fn(),
+    updateOrder: vi.fn(),
+    transitionOrderStatus: vi.fn(),
+    getInvoiceByOrderId: vi.fn(),
+    getNextInvoiceNumber: vi.fn(),
+    createInvoice: vi.fn(),
+    createInvoiceItem: vi.fn(),
+    updateInvoiceStatus: vi.fn(),
+    deductFreezerReservations: vi.fn(),
+    releaseFreezerReservations: vi.fn(),
+    logActivity: vi.fn(),
+  },
+  stripe: {
+    paymentIntents: { capture: vi.fn(), cancel: vi.fn() },
+  },
+  issueRefund: vi.fn(),
+}));
+
+vi.mock("../storage.js", () => ({ storage }));
+vi.mock("./stripe.js", () => ({ getStripe: () => stripe }));
+vi.mock("./refunds.js", () => ({ issueRefund }));
+vi.mock("./pricing.js", () => ({ itemName: (item: { productName?: string }) => item.productName || "Bagel" }));
+vi.mock("./authorizations.js", () => ({ cancelPendingReauthorization: vi.fn() }));
+vi.mock("./notifications.js", () => ({ notifyOrder: vi.fn(), textOrder: vi.fn() }));
+
+import { transitionOrder } from "./orderStatus.js";
+import { InvalidTransitionError, PaymentError } from "./errors.js";
+import { canTransitionOrder } from "../../shared/schema.js";
+
+const actor = { id: "user-1", username: "baker" };
+
+function givenOrder(overrides: Record<string, unknown> = {}) {
+  const order = {
+    id: "order-1",
+    status: "new",
+    customerName: "Ada",
+    total: "24.00",
+    stripePaymentIntentId: "pi_1",
+    stripePaymentStatus: "authorized",
+    items: [],
+    ...overrides,
+  };
+  storage.getOrder.mockResolvedValue(order);
+  storage.transitionOrderStatus.mockImplementation(async (_id: string, _from: string, to: string) => ({ ...order, status: to }));
+  return order;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+  storage.getInvoiceByOrderId.mockResolvedValue({ id: "invoice-1", status: "sent" });
+  storage.deductFreezerReservations.mockResolvedValue([]);
+  storage.releaseFreezerReservations.mockResolvedValue([]);
+});
+
+describe("canTransitionOrder", () => {
+  it("follows the order lifecycle", () => {
+    expect(canTransitionOrder("new", "approved")).toBe(true);
+    expect(canTransitionOrder("approved", "ready")).toBe(true);
+    expect(canTransitionOrder("ready", "completed")).toBe(true);
+    expect(canTransitionOrder("baking", "cancelled")).toBe(true);
+  });
+
+  it("doesn't skip steps or leave a finished order", () => {
+    expect(canTransitionOrder("new", "baking")).toBe(false);
+    expect(canTransitionOrder("completed", "cancelled")).toBe(false);
+    expect(canTransitionOrder("cancelled", "new")).toBe(false);
+    expect(canTransitionOrder("unknown", "approved")).toBe(false);
+  });
+});
+
+describe("transitionOrder", () => {
+  it("returns undefined for an order that doesn't exist", async () => {
+    storage.getOrder.mockResolvedValue(undefined);
+    await expect(transitionOrder("missing", "approved", { actor })).resolves.toBeUndefined();
+  });
+
+  it("refuses a move the lifecycle doesn't allow, before any side effect", async () => {
+    givenOrder({ status: "completed" });
+    await expect(transitionOrder("order-1", "cancelled", { actor })).rejects.toBeInstanceOf(InvalidTransitionError);
+    expect(stripe.paymentIntents.cancel).not.toHaveBeenCalled();
+    expect(storage.transitionOrderStatus).not.toHaveBeenCalled();
+  });
+
+  it("captures the payment and takes freezer holds on approval", async () => {
+    givenOrder();
+    const updated = await transitionOrder("order-1", "approved", { actor });
+
+    expect(stripe.paymentIntents.capture).toHaveBeenCalledWith("pi_1");
+    expect(storage.updateOrder).toHaveBeenCalledWith("order-1", { stripePaymentStatus: "captured" });
+    expect(storage.deductFreezerReservations).toHaveBeenCalledWith("order-1");
+    expect(storage.transitionOrderStatus).toHaveBeenCalledWith("order-1", "new", "approved", expect.objectContaining({ changedBy: "user-1" }));
+    expect(updated?.status).toBe("approved");
+  });
+
+  it("leaves the order new when the capture fails", async () => {
+    givenOrder();
+    stripe.paymentIntents.capture.mockRejectedValueOnce(new Error("card_declined"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(transitionOrder("order-1", "approved", { actor })).rejects.toBeInstanceOf(PaymentError);
+    expect(storage.deductFreezerReservations).not.toHaveBeenCalled();
+    expect(storage.transitionOrderStatus).not.toHaveBeenCalled();
+  });
+
+  it("won't capture a hold that has expired", async () => {
+    givenOrder({ stripePaymentStatus: "expired" });
+    await expect(transitionOrder("order-1", "approved", { actor })).rejects.toThrow("The card hold has expired");
+    expect(stripe.paymentIntents.capture).not.toHaveBeenCalled();
+  });
+
+  it("voids the authorization and releases holds when a new order is cancelled", async () => {
+    givenOrder();
+    await transitionOrder("order-1", "cancelled", { actor, reason: "Customer asked" });
+
+    expect(stripe.paymentIntents.cancel).toHaveBeenCalledWith("pi_1");
+    expect(issueRefund).not.toHaveBeenCalled();
+    expect(storage.releaseFreezerReservations).toHaveBeenCalledWith("order-1");
+  });
+
+  it("refunds and cancels the invoice when an approved order is cancelled", async () => {
+    const order = givenOrder({ status: "approved", stripePaymentStatus: "captured" });
+    await transitionOrder("order-1", "cancelled", { actor, reason: "Customer asked" });
+
+    expect(stripe.paymentIntents.cancel).not.toHaveBeenCalled();
+    expect(issueRefund).toHaveBeenCalledWith(order, { reason: "Customer asked" }, actor);
+    expect(storage.updateInvoiceStatus).toHaveBeenCalledWith("invoice-1", "cancelled");
+  });
+
+  it("reports the status someone else moved the order to", async () => {
+    givenOrder();
+    storage.transitionOrderStatus.mockResolvedValueOnce(undefined);
+    storage.getOrder
+      .mockResolvedValueOnce({ id: "order-1", status: "new", items: [] })
+      .mockResolvedValueOnce({ id: "order-1", status: "cancelled", items: [] });
+
+    await expect(transitionOrder("order-1", "approved", { actor })).rejects.toThrow("Can't move an order from cancelled to approved");
+  });
+});
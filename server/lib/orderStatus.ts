@@ -0,0 +1,201 @@
+import { storage } from "../storage.js";
+import { getStripe } from "./stripe.js";
+import { issueRefund } from "./refunds.js";
+import { itemName } from "./pricing.js";
+import { cancelPendingReauthorization } from "./authorizations.js";
+import { notifyOrder, textOrder } from "./notifications.js";
+import { InvalidTransitionError, PaymentError } from "./errors.js";
+import { canTransitionOrder, type NotificationTemplate, type Order, type OrderStatus } from "../../shared/schema.js";
+
+type Actor = { id?: string; username: string };
+type OrderWithItems = NonNullable<Awaited<ReturnType<typeof storage.getOrder>>>;
+
+interface TransitionContext {
+  order: OrderWithItems;
+  actor: Actor;
+  reason?: string;
+}
+
+type EdgeEffect = (ctx: TransitionContext) => Promise<void>;
+
+async function capturePayment({ order }: TransitionContext) {
+  // Already taken early because the hold was about to expire
+  if (!order.stripePaymentIntentId || order.stripePaymentStatus === "captured") return;
+  if (order.stripePaymentStatus === "expired") {
+    throw new PaymentError("The card hold has expired - ask the customer to re-authorize first");
+  }
+
+  try {
+    await getStripe().paymentIntents.capture(order.stripePaymentIntentId);
+    await storage.updateOrder(order.id, { stripePaymentStatus: "captured" });
+  } catch (stripeError: any) {
+    console.error("Stripe capture error:", stripeError);
+    throw new PaymentError("Failed to capture payment", stripeError.message);
+  }
+  await cancelPendingReauthorization(order);
+}
+
+async function createInvoice({ order }: TransitionContext) {
+  // A missing invoice can be sorted out later; it shouldn't block the approval
+  try {
+    const existingInvoice = await storage.getInvoiceByOrderId(order.id);
+    if (existingInvoice) return;
+
+    const invoiceNumber = await storage.getNextInvoiceNumber();
+    const invoice = await storage.createInvoice({
+      invoiceNumber,
+      orderId: order.id,
+      customerName: order.customerName,
+      customerEmail: order.customerEmail,
+      customerPhone: order.customerPhone,
+      deliveryAddress: order.deliveryAddress,
+      deliveryCity: order.deliveryCity,
+      deliveryState: order.deliveryState,
+      deliveryZip: order.deliveryZip,
+      subtotal: order.subtotal,
+      deliveryFee: order.deliveryFee,
+      tax: order.tax,
+      total: order.total,
+      status: "sent",
+    });
+
+    for (const item of order.items) {
+      await storage.createInvoiceItem({
+        invoiceId: invoice.id,
+        productId: item.productId,
+        productName: itemName(item),
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        total: item.total,
+      });
+    }
+  } catch (invoiceError) {
+    console.error("Invoice creation error:", invoiceError);
+  }
+}
+
+async function deductFreezerHolds({ order, actor }: TransitionContext) {
+  const deducted = await storage.deductFreezerReservations(order.id);
+  if (deducted.length > 0) {
+    await storage.logActivity(
+      "freezer.depleted",
+      "order",
+      order.id,
+      { reservations: deducted.map(r => ({ productId: r.productId, quantity: r.quantity, freezerStockId: r.freezerStockId })) },
+      actor.id,
+      actor.username
+    );
+  }
+}
+
+async function voidAuthorization({ order }: TransitionContext) {
+  await cancelPendingReauthorization(order);
+  if (!order.stripePaymentIntentId) return;
+  // Nothing left to void; an early capture gets refunded instead
+  if (!["pending", "authorized", "failed"].includes(order.stripePaymentStatus || "pending")) return;
+
+  try {
+    await getStripe().paymentIntents.cancel(order.stripePaymentIntentId);
+    await storage.updateOrder(order.id, { stripePaymentStatus: "cancelled" });
+  } catch (stripeError) {
+    console.error("Stripe cancel error:", stripeError);
+  }
+}
+
+// Refunds whatever hasn't been refunded yet, with a credit note like any other refund
+async function refundPayment({ order, actor, reason }: TransitionContext) {
+  if (!order.stripePaymentIntentId) return;
+  if (order.stripePaymentStatus !== "captured" && order.stripePaymentStatus !== "partially_refunded") return;
+
+  await issueRefund(order, { reason: reason || "Order cancelled" }, actor);
+}
+
+async function cancelInvoice({ order }: TransitionContext) {
+  const invoice = await storage.getInvoiceByOrderId(order.id);
+  if (invoice && invoice.status !== "cancelled") {
+    await storage.updateInvoiceStatus(invoice.id, "cancelled");
+  }
+}
+
+async function releaseFreezerHolds({ order, actor }: TransitionContext) {
+  const released = await storage.releaseFreezerReservations(order.id);
+  if (released.length > 0) {
+    await storage.logActivity(
+      "freezer.released",
+      "order",
+      order.id,
+      { reservations: released.map(r => ({ productId: r.productId, quantity: r.quantity, freezerStockId: r.freezerStockId })) },
+      actor.id,
+      actor.username
+    );
+  }
+}
+
+// Side effects run in order before the status is saved; a throw stops the transition.
+// Bags deducted on approval stay deducted on a later cancel - put them back by hand if they're still in the freezer.
+const cancelAfterCapture: EdgeEffect[] = [voidAuthorization, refundPayment, cancelInvoice, releaseFreezerHolds];
+
+const EDGE_EFFECTS: Partial<Record<`${OrderStatus}->${OrderStatus}`, EdgeEffect[]>> = {
+  "new->approved": [capturePayment, createInvoice, deductFreezerHolds],
+  "new->cancelled": [voidAuthorization, refundPayment, releaseFreezerHolds],
+  "approved->cancelled": cancelAfterCapture,
+  "baking->cancelled": cancelAfterCapture,
+  "ready->cancelled": cancelAfterCapture,
+};
+
+// What the customer hears when their order reaches each status; completed needs no email
+const STATUS_EMAILS: Partial<Record<OrderStatus, NotificationTemplate>> = {
+  approved: "order_approved",
+  baking: "order_baking",
+  ready: "order_ready",
+  cancelled: "order_cancelled",
+};
+
+export async function transitionOrder(
+  orderId: string,
+  to: OrderStatus,
+  options: { actor: Actor; reason?: string }
+): Promise<Order | undefined> {
+  const order = await storage.getOrder(orderId);
+  if (!order) return undefined;
+
+  const from = order.status as OrderStatus;
+  if (!canTransitionOrder(from, to)) {
+    throw new InvalidTransitionError(from, to);
+  }
+
+  const ctx: TransitionContext = { order, actor: options.actor, reason: options.reason };
+  for (const effect of EDGE_EFFECTS[`${from}->${to}`] || []) {
+    await effect(ctx);
+  }
+
+  const updatedOrder = await storage.transitionOrderStatus(order.id, from, to, {
+    changedBy: options.actor.id,
+    changedByName: options.actor.username,
+    reason: options.reason,
+  });
+  if (!updatedOrder) {
+    const current = await storage.getOrder(order.id);
+    throw new InvalidTransitionError(current?.status || from, to);
+  }
+
+  if (to === "approved" || to === "cancelled") {
+    await storage.logActivity(
+      to === "approved" ? "order.approved" : "order.cancelled",
+      "order",
+      order.id,
+      { customerName: order.customerName, total: order.total, from, reason: options.reason },
+      options.actor.id,
+      options.actor.username
+    );
+  }
+
+  const template = STATUS_EMAILS[to];
+  if (template) {
+    await notifyOrder(order.id, template, { reason: to === "cancelled" ? options.reason : undefined });
+  }
+  if (to === "approved") await notifyOrder(order.id, "invoice");
+  if (to === "ready") await textOrder(order.id, "out_for_delivery");
+
+  return updatedOrder;
+}
@@ -0,0 +1,27 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Stored as "salt:hash", both hex encoded
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${derived.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const derived = await scryptAsync(password, salt, expected.length);
+  return expected.length === derived.length && timingSafeEqual(expected, derived);
+}
+
+// Readable one-time password handed to the owner when inviting or resetting a user
+export function generateTemporaryPassword(): string {
+  return randomBytes(9).toString("base64url");
+}
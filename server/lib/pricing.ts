@@ -0,0 +1,116 @@
+import { storage } from "../storage.js";
+import { quoteTax } from "./tax.js";
+import { quoteDelivery, type DeliveryAddress, type DeliveryQuote } from "./delivery.js";
+import { packBundle } from "./bundles.js";
+import { ProductUnavailableError } from "./errors.js";
+import type { BundleContent, InsertOrderItem } from "../../shared/schema.js";
+
+export interface PricedOrder {
+  items: Omit<InsertOrderItem, "orderId">[];
+  productNames: Record<string, string>;
+  subtotal: number;
+  deliveryFee: number;
+  tax: number;
+  taxRate: number;
+  total: number;
+  delivery: DeliveryQuote | null;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// How an order line reads on invoices and credit notes
+export function itemName(item: { packName: string | null; product: { name: string } }): string {
+  return item.packName ? `${item.product.name} (${item.packName})` : item.product.name;
+}
+
+// Everything the customer pays for an order: catalog prices, the delivery fee for the zone
+// the address falls in, and sales tax on the bagels (the fee isn't taxed).
+// A line with a variant buys that many packs at the pack price, and a bundle line that many
+// bundles at the bundle's price; either way the priced line counts bagels.
+// Throws ProductUnavailableError, InvalidBundleError or, when enforcing delivery, DeliveryUnavailableError.
+export async function priceOrder(
+  requested: { productId: string; variantId?: string; quantity: number; picks?: BundleContent[] }[],
+  address: DeliveryAddress,
+  options: { enforceDelivery: boolean } = { enforceDelivery: true }
+): Promise<PricedOrder> {
+  const lines: {
+    productId: string;
+    quantity: number;
+    unitPrice: number;
+    total: number;
+    taxable: boolean;
+    variant?: { variantId: string; packs: number; packName: string };
+    bundle?: { packs: number; packName: string; components: BundleContent[] };
+  }[] = [];
+  const productNames: Record<string, string> = {};
+
+  for (const item of requested) {
+    const product = await storage.getProduct(item.productId);
+    if (!product || !product.isActive) {
+      throw new ProductUnavailableError(item.productId);
+    }
+    productNames[product.id] = product.name;
+
+    if (product.bundleType) {
+      const packed = await packBundle(product, item.picks);
+      const components = packed.contents.map((line) => ({ productId: line.productId, quantity: line.quantity * item.quantity }));
+      const quantity = components.reduce((sum, line) => sum + line.quantity, 0);
+      const total = roundCents(parseFloat(product.price) * item.quantity);
+      lines.push({
+        productId: product.id,
+        quantity,
+        unitPrice: total / quantity,
+        total,
+        taxable: product.taxable,
+        bundle: { packs: item.quantity, packName: packed.description, components },
+      });
+      continue;
+    }
+
+    if (item.variantId) {
+      const variant = await storage.getProductVariant(item.variantId);
+      if (!variant || variant.productId !== product.id || !variant.isActive) {
+        throw new ProductUnavailableError(item.productId);
+      }
+      const quantity = item.quantity * variant.packSize;
+      const total = roundCents(parseFloat(variant.price) * item.quantity);
+      lines.push({
+        productId: product.id,
+        quantity,
+        unitPrice: total / quantity,
+        total,
+        taxable: product.taxable,
+        variant: { variantId: variant.id, packs: item.quantity, packName: variant.name },
+      });
+      continue;
+    }
+
+    const unitPrice = parseFloat(product.price);
+    lines.push({ productId: product.id, quantity: item.quantity, unitPrice, total: unitPrice * item.quantity, taxable: product.taxable });
+  }
+
+  const taxQuote = await quoteTax(lines, { state: address.deliveryState, zipCode: address.deliveryZip });
+  const delivery = await quoteDelivery(address, taxQuote.subtotal, { enforce: options.enforceDelivery });
+  const deliveryFee = delivery?.fee || 0;
+
+  return {
+    items: lines.map((line, i) => ({
+      productId: line.productId,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice.toFixed(2),
+      total: line.total.toFixed(2),
+      tax: taxQuote.lineTaxes[i].toFixed(2),
+      ...line.variant,
+      ...line.bundle,
+    })),
+    productNames,
+    subtotal: taxQuote.subtotal,
+    deliveryFee,
+    tax: taxQuote.tax,
+    taxRate: taxQuote.rate,
+    total: roundCents(taxQuote.total + deliveryFee),
+    delivery,
+  };
+}
@@ -0,0 +1,119 @@
+import { storage } from "../storage.js";
+import { PurchaseOrderStateError } from "./errors.js";
+import type { Ingredient, PurchaseOrder, PurchaseOrderStatus } from "../../shared/schema.js";
+
+type Actor = { id?: string; username: string };
+
+const OPEN_STATUSES: PurchaseOrderStatus[] = ["draft", "sent", "partially_received"];
+
+// Statuses staff can set by hand; receiving moves orders along on its own
+const STATUS_CHANGES: Partial<Record<PurchaseOrderStatus, PurchaseOrderStatus[]>> = {
+  draft: ["sent", "cancelled"],
+  sent: ["cancelled"],
+  partially_received: ["cancelled"],
+};
+
+export function isLowStock(ingredient: Ingredient): boolean {
+  return parseFloat(ingredient.onHand) <= parseFloat(ingredient.reorderThreshold);
+}
+
+// Enough to get back to twice the reorder threshold
+export function suggestedQuantity(ingredient: Ingredient): number {
+  const threshold = parseFloat(ingredient.reorderThreshold);
+  return Math.ceil(Math.max(threshold * 2 - parseFloat(ingredient.onHand), threshold));
+}
+
+// One draft per supplier for the low-stock ingredients given (all of them by default), at the
+// last price paid. Ingredients already on an open purchase order, or with no supplier, are left out.
+export async function draftFromLowStock(
+  ingredientIds: string[] | undefined,
+  actor: Actor
+): Promise<{ purchaseOrders: PurchaseOrder[]; unassigned: Ingredient[] }> {
+  const [allIngredients, existing] = await Promise.all([storage.getIngredients(), storage.getPurchaseOrders()]);
+  const onOrder = new Set(
+    existing
+      .filter((po) => OPEN_STATUSES.includes(po.status as PurchaseOrderStatus))
+      .flatMap((po) => po.items.map((item) => item.ingredientId))
+  );
+
+  const wanted = allIngredients.filter((ingredient) =>
+    (!ingredientIds || ingredientIds.includes(ingredient.id)) &&
+    isLowStock(ingredient) &&
+    !onOrder.has(ingredient.id) &&
+    suggestedQuantity(ingredient) > 0
+  );
+
+  const bySupplier = new Map<string, Ingredient[]>();
+  const unassigned: Ingredient[] = [];
+  for (const ingredient of wanted) {
+    if (!ingredient.supplierId) {
+      unassigned.push(ingredient);
+      continue;
+    }
+    if (!bySupplier.has(ingredient.supplierId)) bySupplier.set(ingredient.supplierId, []);
+    bySupplier.get(ingredient.supplierId)!.push(ingredient);
+  }
+
+  const created: PurchaseOrder[] = [];
+  for (const [supplierId, supplied] of Array.from(bySupplier)) {
+    const supplier = await storage.getSupplier(supplierId);
+    if (!supplier) {
+      unassigned.push(...supplied);
+      continue;
+    }
+
+    const purchaseOrder = await storage.createPurchaseOrder(
+      {
+        supplierId,
+        status: "draft",
+        expectedDate: new Date(Date.now() + supplier.leadTimeDays * 24 * 60 * 60 * 1000),
+        notes: "Drafted from low stock",
+        createdBy: actor.username,
+      },
+      supplied.map((ingredient) => ({
+        ingredientId: ingredient.id,
+        quantity: suggestedQuantity(ingredient).toString(),
+        unitCost: ingredient.costPerUnit || "0",
+      }))
+    );
+    await storage.logActivity(
+      "purchase_order.created",
+      "purchase_order",
+      purchaseOrder.id,
+      { poNumber: purchaseOrder.poNumber, supplier: supplier.name, fromLowStock: true },
+      actor.id,
+      actor.username
+    );
+    created.push(purchaseOrder);
+  }
+
+  return { purchaseOrders: created, unassigned };
+}
+
+export async function setPurchaseOrderStatus(
+  id: string,
+  status: PurchaseOrderStatus,
+  actor: Actor
+): Promise<PurchaseOrder | undefined> {
+  const current = await storage.getPurchaseOrder(id);
+  if (!current) return undefined;
+
+  const allowed = STATUS_CHANGES[current.status as PurchaseOrderStatus] || [];
+  if (!allowed.includes(status)) {
+    throw new PurchaseOrderStateError(current.status, status === "sent" ? "send" : "cancel");
+  }
+
+  const purchaseOrder = await storage.updatePurchaseOrder(id, {
+    status,
+    ...(status === "sent" ? { sentAt: new Date() } : {}),
+  });
+  await storage.logActivity(
+    `purchase_order.${status}`,
+    "purchase_order",
+    id,
+    { poNumber: current.poNumber, supplier: current.supplier.name },
+    actor.id,
+    actor.username
+  );
+  return purchaseOrder;
+}
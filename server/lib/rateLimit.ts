@@ -0,0 +1,39 @@
+import type { RequestHandler } from "express";
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Past this many tracked clients, expired windows are swept out before adding another
+const SWEEP_THRESHOLD = 10000;
+
+// Allows each client IP `max` requests per window and answers 429 after that. Counts are
+// kept in memory, so with several server instances each keeps its own - enough to make
+// guessing order numbers slow, not an exact quota.
+export function rateLimit(options: { windowMs: number; max: number; message?: string }): RequestHandler {
+  const windows = new Map<string, Window>();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    const key = req.ip || req.socket.remoteAddress || "unknown";
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      if (windows.size >= SWEEP_THRESHOLD) {
+        Array.from(windows.entries()).forEach(([client, entry]) => {
+          if (entry.resetAt <= now) windows.delete(client);
+        });
+      }
+      window = { count: 0, resetAt: now + options.windowMs };
+      windows.set(key, window);
+    }
+
+    window.count++;
+    if (window.count > options.max) {
+      res.setHeader("Retry-After", Math.ceil((window.resetAt - now) / 1000).toString());
+      return res.status(429).json({ message: options.message || "Too many requests, please try again later" });
+    }
+    next();
+  };
+}
@@ -0,0 +1,90 @@
+import { storage, type Recipe } from "../storage.js";
+import { checkUnit, stockQuantity } from "./units.js";
+import { InvalidRecipeError } from "./errors.js";
+import type { Ingredient, RecipeVersion } from "../../shared/schema.js";
+
+type Actor = { id?: string; username: string };
+
+export interface RecipeInput {
+  items: { ingredientId: string; quantity: number; unit?: string | null }[];
+  notes?: string;
+  effectiveFrom?: Date;
+  yieldQuantity?: number;
+  wastePercent?: number;
+}
+
+// Bagels one line of the recipe ends up in, after the expected loss
+function bagelsPerRound(version: RecipeVersion | null): number {
+  if (!version) return 1;
+  return version.yieldQuantity * (1 - parseFloat(version.wastePercent) / 100);
+}
+
+// What one good bagel uses of each ingredient, in the unit the ingredient is stocked in
+export function usagePerBagel(recipe: Recipe): { ingredient: Ingredient; quantity: number }[] {
+  const bagels = bagelsPerRound(recipe.version);
+  return recipe.lines.map((line) => ({ ingredient: line.ingredient, quantity: stockQuantity(line) / bagels }));
+}
+
+// The same, but in the recipe's own units, for weighing out
+export function recipePerBagel(recipe: Recipe): { ingredient: Ingredient; unit: string; quantity: number }[] {
+  const bagels = bagelsPerRound(recipe.version);
+  return recipe.lines.map((line) => ({
+    ingredient: line.ingredient,
+    unit: line.unit || line.ingredient.unit,
+    quantity: parseFloat(line.quantity) / bagels,
+  }));
+}
+
+// Saves a new version of the product's recipe. Yield and waste carry over from the
+// current version unless they're given.
+export async function saveRecipe(productId: string, input: RecipeInput, actor: Actor): Promise<RecipeVersion> {
+  const items = input.items.filter((item) => item.quantity > 0);
+  for (const item of items) {
+    const ingredient = await storage.getIngredient(item.ingredientId);
+    if (!ingredient) throw new InvalidRecipeError(`Ingredient not found: ${item.ingredientId}`);
+    if (item.unit) checkUnit(ingredient, item.unit);
+  }
+
+  const current = (await storage.getRecipe(productId)).version;
+  const version = await storage.createRecipeVersion(
+    {
+      productId,
+      effectiveFrom: input.effectiveFrom || new Date(),
+      yieldQuantity: input.yieldQuantity ?? current?.yieldQuantity ?? 1,
+      wastePercent: (input.wastePercent ?? (current ? parseFloat(current.wastePercent) : 0)).toString(),
+      notes: input.notes,
+      createdBy: actor.username,
+    },
+    items.map((item) => ({
+      ingredientId: item.ingredientId,
+      quantity: item.quantity.toString(),
+      unit: item.unit || null,
+    }))
+  );
+
+  await storage.logActivity(
+    "recipe.versioned",
+    "product",
+    productId,
+    { version: version.version, lines: items.length, effectiveFrom: version.effectiveFrom },
+    actor.id,
+    actor.username
+  );
+  return version;
+}
+
+// Everything a batch needs weighed out, per the recipe each line was pinned to
+export async function batchIngredients(batchId: string): Promise<{ ingredientId: string; name: string; unit: string; quantity: number }[]> {
+  const totals = new Map<string, { ingredientId: string; name: string; unit: string; quantity: number }>();
+  for (const item of await storage.getBatchItems(batchId)) {
+    const recipe = await storage.getRecipe(item.productId, item.recipeVersionId);
+    for (const line of recipePerBagel(recipe)) {
+      const key = `${line.ingredient.id}:${line.unit}`;
+      if (!totals.has(key)) {
+        totals.set(key, { ingredientId: line.ingredient.id, name: line.ingredient.name, unit: line.unit, quantity: 0 });
+      }
+      totals.get(key)!.quantity += line.quantity * item.quantity;
+    }
+  }
+  return Array.from(totals.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,228 @@
+import type Stripe from "stripe";
+import { storage } from "../storage.js";
+import { getStripe } from "./stripe.js";
+import { itemName } from "./pricing.js";
+import { PaymentError, RefundLimitError } from "./errors.js";
+import type { Order, Refund, RefundItem, InsertRefundItem } from "../../shared/schema.js";
+
+type Actor = { id?: string; username: string };
+type OrderWithItems = NonNullable<Awaited<ReturnType<typeof storage.getOrder>>>;
+
+const REFUNDABLE_PAYMENT_STATUSES = ["captured", "partially_refunded"];
+
+// Money is only "spoken for" by refunds that went through or might still go through
+function isActive(refund: Refund) {
+  return refund.status === "pending" || refund.status === "succeeded";
+}
+
+function toRefundStatus(status: string | null): string {
+  if (status === "succeeded" || status === "failed" || status === "canceled") return status;
+  return "pending";
+}
+
+export interface RefundSummary {
+  total: number;
+  refunded: number;
+  remaining: number;
+  items: {
+    orderItemId: string;
+    productName: string;
+    unitPrice: number;
+    unitTax: number;
+    quantity: number;
+    refundedQuantity: number;
+  }[];
+  refunds: (Refund & { items: RefundItem[] })[];
+}
+
+export async function getRefundSummary(order: OrderWithItems): Promise<RefundSummary> {
+  const orderRefunds = await storage.getRefundsForOrder(order.id);
+  const active = orderRefunds.filter(isActive);
+
+  const total = parseFloat(order.total);
+  const refunded = active.reduce((sum, r) => sum + parseFloat(r.amount), 0);
+
+  return {
+    total,
+    refunded,
+    remaining: Math.max(0, Math.round((total - refunded) * 100) / 100),
+    items: order.items.map((item) => ({
+      orderItemId: item.id,
+      productName: itemName(item),
+      // A line bought as packs doesn't divide into whole cents, so work from the line total
+      unitPrice: parseFloat(item.total) / item.quantity,
+      unitTax: parseFloat(item.tax) / item.quantity,
+      quantity: item.quantity,
+      refundedQuantity: active
+        .flatMap((r) => r.items)
+        .filter((r) => r.orderItemId === item.id)
+        .reduce((sum, r) => sum + r.quantity, 0),
+    })),
+    refunds: orderRefunds,
+  };
+}
+
+// What the customer paid for this many of the line, tax included
+function lineRefundTotal(line: RefundSummary["items"][number], quantity: number): string {
+  return ((line.unitPrice + line.unitTax) * quantity).toFixed(2);
+}
+
+async function updatePaymentStatus(orderId: string): Promise<Order | undefined> {
+  const order = await storage.getOrder(orderId);
+  if (!order) return undefined;
+
+  const { refunded, remaining } = await getRefundSummary(order);
+  if (refunded === 0) return order;
+  return storage.updateOrder(order.id, {
+    stripePaymentStatus: remaining === 0 ? "refunded" : "partially_refunded",
+  });
+}
+
+// Refunds the listed lines, or everything that's left when no lines are given.
+// The refund row is written before Stripe is called so its id can be the idempotency key.
+export async function issueRefund(
+  order: OrderWithItems,
+  request: { items?: { orderItemId: string; quantity: number }[]; reason?: string },
+  actor: Actor
+): Promise<Refund & { items: RefundItem[] }> {
+  if (!order.stripePaymentIntentId || !REFUNDABLE_PAYMENT_STATUSES.includes(order.stripePaymentStatus || "")) {
+    throw new PaymentError("Only captured card payments can be refunded");
+  }
+
+  const summary = await getRefundSummary(order);
+  let refundLines: InsertRefundItem[];
+  let amount: number;
+
+  if (request.items && request.items.length > 0) {
+    refundLines = [];
+    for (const requested of request.items) {
+      const line = summary.items.find((i) => i.orderItemId === requested.orderItemId);
+      if (!line) {
+        throw new PaymentError(`Item isn't on this order: ${requested.orderItemId}`);
+      }
+      refundLines.push({
+        orderItemId: line.orderItemId,
+        productName: line.productName,
+        quantity: requested.quantity,
+        unitPrice: line.unitPrice.toFixed(2),
+        total: lineRefundTotal(line, requested.quantity),
+      });
+    }
+    // Per-unit tax can round a cent over on the last few units
+    amount = Math.min(summary.remaining, refundLines.reduce((sum, line) => sum + parseFloat(line.total), 0));
+  } else {
+    refundLines = summary.items
+      .filter((line) => line.quantity > line.refundedQuantity)
+      .map((line) => {
+        const quantity = line.quantity - line.refundedQuantity;
+        return {
+          orderItemId: line.orderItemId,
+          productName: line.productName,
+          quantity,
+          unitPrice: line.unitPrice.toFixed(2),
+          total: lineRefundTotal(line, quantity),
+        };
+      });
+    amount = summary.remaining;
+  }
+
+  if (amount <= 0) {
+    throw new RefundLimitError(amount, summary.remaining);
+  }
+
+  const invoice = await storage.getInvoiceByOrderId(order.id);
+  const refund = await storage.createRefund({
+    orderId: order.id,
+    invoiceId: invoice?.id || null,
+    amount: amount.toFixed(2),
+    reason: request.reason,
+    status: "pending",
+    createdBy: actor.id,
+    createdByName: actor.username,
+  }, refundLines);
+
+  let stripeRefund: Stripe.Refund;
+  try {
+    stripeRefund = await getStripe().refunds.create({
+      payment_intent: order.stripePaymentIntentId,
+      amount: Math.round(amount * 100),
+      metadata: { orderId: order.id, refundId: refund.id, creditNoteNumber: refund.creditNoteNumber },
+    }, { idempotencyKey: `refund-${refund.id}` });
+  } catch (stripeError: any) {
+    console.error("Stripe refund error:", stripeError);
+    await storage.updateRefund(refund.id, { status: "failed" });
+    throw new PaymentError("Failed to refund payment", stripeError.message);
+  }
+
+  const updatedRefund = await storage.updateRefund(refund.id, {
+    stripeRefundId: stripeRefund.id,
+    status: toRefundStatus(stripeRefund.status),
+  });
+  await updatePaymentStatus(order.id);
+
+  await storage.logActivity(
+    "order.refunded",
+    "order",
+    order.id,
+    { creditNoteNumber: refund.creditNoteNumber, amount: refund.amount, reason: request.reason },
+    actor.id,
+    actor.username
+  );
+
+  return { ...(updatedRefund || refund), items: refund.items };
+}
+
+// Brings our refund rows in line with Stripe: status changes on refunds we started,
+// and credit notes for refunds someone issued straight from the Stripe dashboard.
+export async function syncStripeRefunds(order: Order): Promise<void> {
+  if (!order.stripePaymentIntentId) return;
+
+  const stripeRefunds = await getStripe().refunds.list({
+    payment_intent: order.stripePaymentIntentId,
+    limit: 100,
+  });
+  const known = await storage.getRefundsForOrder(order.id);
+
+  for (const stripeRefund of stripeRefunds.data) {
+    const status = toRefundStatus(stripeRefund.status);
+    const existing = known.find((r) => r.stripeRefundId === stripeRefund.id)
+      || known.find((r) => r.id === stripeRefund.metadata?.refundId);
+
+    if (existing) {
+      if (existing.status !== status || !existing.stripeRefundId) {
+        await storage.updateRefund(existing.id, { status, stripeRefundId: stripeRefund.id });
+      }
+      continue;
+    }
+
+    const invoice = await storage.getInvoiceByOrderId(order.id);
+    let refund: Refund;
+    try {
+      refund = await storage.createRefund({
+        orderId: order.id,
+        invoiceId: invoice?.id || null,
+        amount: (stripeRefund.amount / 100).toFixed(2),
+        reason: "Refunded from the Stripe dashboard",
+        status,
+        stripeRefundId: stripeRefund.id,
+        createdByName: "stripe",
+      }, []);
+    } catch (error) {
+      // Stripe has the final say on money; just flag that our records disagree
+      if (!(error instanceof RefundLimitError)) throw error;
+      console.error(`Stripe refund ${stripeRefund.id} is over what we think is refundable on order ${order.id}`);
+      continue;
+    }
+
+    await storage.logActivity(
+      "order.refunded",
+      "order",
+      order.id,
+      { creditNoteNumber: refund.creditNoteNumber, amount: refund.amount, source: "stripe" },
+      undefined,
+      "stripe"
+    );
+  }
+
+  await updatePaymentStatus(order.id);
+}
@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { normalizePhone } from "./sms.js";
+
+describe("normalizePhone", () => {
+  it("reads US numbers however they're typed", () => {
+    expect(normalizePhone("(413) 555-0100")).toBe("+14135550100");
+    expect(normalizePhone("1 413 555 0100")).toBe("+14135550100");
+    expect(normalizePhone("+44 20 7946 0018")).toBe("+442079460018");
+  });
+
+  it("gives up on anything else", () => {
+    expect(normalizePhone("555-0100")).toBeNull();
+    expect(normalizePhone("")).toBeNull();
+    expect(normalizePhone(null)).toBeNull();
+  });
+});
+
+describe("the fake provider", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  async function fakeProvider(nodeEnv: string) {
+    vi.stubEnv("NODE_ENV", nodeEnv);
+    vi.stubEnv("SMS_PROVIDER", "fake");
+    const { getSmsProvider } = await import("./sms.js");
+    return getSmsProvider();
+  }
+
+  it("takes inbound messages on trust in development", async () => {
+    const provider = await fakeProvider("development");
+    expect(provider.verifyInbound("https://example.com/api/webhooks/sms", { Body: "STOP" }, undefined)).toBe(true);
+  });
+
+  it("refuses every inbound message in production", async () => {
+    const provider = await fakeProvider("production");
+    expect(provider.verifyInbound("https://example.com/api/webhooks/sms", { Body: "STOP" }, undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import crypto from "crypto";
+
+export interface SmsProvider {
+  name: string;
+  send(to: string, body: string): Promise<void>;
+  // Whether an inbound webhook really came from the provider
+  verifyInbound(url: string, params: Record<string, string>, signature: string | undefined): boolean;
+}
+
+// Numbers are kept in E.164. Ten digits are taken as a US number.
+export function normalizePhone(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const digits = raw.replace(/\D/g, "");
+  if (raw.trim().startsWith("+")) return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith("1")) return `+${digits}`;
+  return null;
+}
+
+function twilioProvider(): SmsProvider {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const from = process.env.TWILIO_FROM_NUMBER;
+  if (!accountSid || !authToken || !from) {
+    throw new Error("TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER must be set to send texts through Twilio");
+  }
+
+  return {
+    name: "twilio",
+    async send(to, body) {
+      const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({ To: to, From: from, Body: body }).toString(),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(`Twilio ${response.status}: ${error.message || response.statusText}`);
+      }
+    },
+    // https://www.twilio.com/docs/usage/security#validating-requests
+    verifyInbound(url, params, signature) {
+      if (!signature) return false;
+      const payload = url + Object.keys(params).sort().map((key) => key + params[key]).join("");
+      const expected = crypto.createHmac("sha1", authToken).update(payload).digest("base64");
+      return expected.length === signature.length
+        && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+    },
+  };
+}
+
+// For development: texts are only logged, and inbound messages are taken on trust so STOP
+// can be tried with a plain POST. In production nothing can vouch for an inbound message, so
+// they're all refused - otherwise anyone could turn texts on or off for any number.
+function fakeProvider(): SmsProvider {
+  return {
+    name: "fake",
+    async send(to, body) {
+      console.log(`SMS to ${to}: ${body}`);
+    },
+    verifyInbound() {
+      return process.env.NODE_ENV !== "production";
+    },
+  };
+}
+
+let _sms: SmsProvider | null = null;
+
+// SMS_PROVIDER picks twilio or fake. Without it we use Twilio when it's configured.
+export function getSmsProvider(): SmsProvider {
+  if (!_sms) {
+    const provider = process.env.SMS_PROVIDER || (process.env.TWILIO_ACCOUNT_SID ? "twilio" : "fake");
+    if (provider === "twilio") _sms = twilioProvider();
+    else if (provider === "fake") _sms = fakeProvider();
+    else throw new Error(`Unknown SMS_PROVIDER: ${provider}`);
+  }
+  return _sms;
+}
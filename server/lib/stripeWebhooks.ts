@@ -0,0 +1,241 @@
+import type Stripe from "stripe";
+import { storage } from "../storage.js";
+import { getStripe } from "./stripe.js";
+import { transitionOrder } from "./orderStatus.js";
+import { syncStripeRefunds } from "./refunds.js";
+import { canRenewAuthorization } from "./authorizations.js";
+import { notifyOrder } from "./notifications.js";
+import { activateSubscription } from "./subscriptions.js";
+import { DEFAULT_AUTHORIZATION_DAYS, type Order, type WebhookEvent } from "../../shared/schema.js";
+
+type HandlerResult = { orderId?: string; ignored?: boolean };
+type EventHandler = (event: Stripe.Event) => Promise<HandlerResult>;
+
+const STRIPE = { username: "stripe" };
+
+function idOf(value: string | { id: string } | null | undefined): string | undefined {
+  return typeof value === "string" ? value : value?.id;
+}
+
+async function findOrder(paymentIntentId: string | undefined): Promise<Order | undefined> {
+  return paymentIntentId ? storage.getOrderByPaymentIntentId(paymentIntentId) : undefined;
+}
+
+// Card holds usually last 7 days; Stripe tells us the exact deadline on the charge when it knows
+export async function authorizationExpiry(intent: Stripe.PaymentIntent): Promise<Date> {
+  const chargeId = idOf(intent.latest_charge);
+  if (chargeId) {
+    const charge = await getStripe().charges.retrieve(chargeId);
+    const captureBefore = charge.payment_method_details?.card?.capture_before;
+    if (captureBefore) return new Date(captureBefore * 1000);
+  }
+  return new Date((intent.created + DEFAULT_AUTHORIZATION_DAYS * 24 * 60 * 60) * 1000);
+}
+
+// The hold lapsed before anyone captured it. The order stays put so someone can re-authorize or cancel it.
+async function markAuthorizationExpired(order: Order): Promise<HandlerResult> {
+  if (order.stripePaymentStatus !== "authorized" && order.stripePaymentStatus !== "pending") {
+    return { orderId: order.id, ignored: true };
+  }
+
+  await storage.updateOrder(order.id, { stripePaymentStatus: "expired" });
+  await storage.logActivity(
+    "payment.authorization_expired",
+    "order",
+    order.id,
+    { customerName: order.customerName, total: order.total, status: order.status },
+    undefined,
+    STRIPE.username
+  );
+  return { orderId: order.id };
+}
+
+// The customer authorized the fresh intent we sent them, so it replaces the old hold on the order
+async function completeReauthorization(order: Order, intent: Stripe.PaymentIntent): Promise<HandlerResult> {
+  if (!canRenewAuthorization(order)) {
+    // Paid or cancelled while the link was out; let go of the new hold
+    await getStripe().paymentIntents.cancel(intent.id);
+    await storage.updateOrder(order.id, { reauthorizationPaymentIntentId: null, reauthorizationRequestedAt: null });
+    return { orderId: order.id, ignored: true };
+  }
+
+  const previousPaymentIntentId = order.stripePaymentIntentId;
+  const authorizationExpiresAt = await authorizationExpiry(intent);
+  await storage.updateOrder(order.id, {
+    stripePaymentIntentId: intent.id,
+    stripePaymentStatus: "authorized",
+    authorizationExpiresAt,
+    reauthorizationPaymentIntentId: null,
+    reauthorizationRequestedAt: null,
+  });
+
+  // Lapsed holds were already cancelled by Stripe
+  if (previousPaymentIntentId && order.stripePaymentStatus === "authorized") {
+    try {
+      await getStripe().paymentIntents.cancel(previousPaymentIntentId);
+    } catch (stripeError) {
+      console.error(`Failed to cancel replaced PaymentIntent ${previousPaymentIntentId}:`, stripeError);
+    }
+  }
+
+  await storage.logActivity(
+    "payment.reauthorized",
+    "order",
+    order.id,
+    { amount: intent.amount_capturable / 100, authorizationExpiresAt, previousPaymentIntentId },
+    undefined,
+    STRIPE.username
+  );
+  return { orderId: order.id };
+}
+
+const HANDLERS: Partial<Record<string, EventHandler>> = {
+  "payment_intent.amount_capturable_updated": async (event) => {
+    const intent = event.data.object as Stripe.PaymentIntent;
+    const order = await findOrder(intent.id);
+    if (!order) {
+      const renewing = intent.metadata?.orderId ? await storage.getOrder(intent.metadata.orderId) : undefined;
+      if (renewing?.reauthorizationPaymentIntentId === intent.id) {
+        return completeReauthorization(renewing, intent);
+      }
+      return { ignored: true };
+    }
+    if (order.stripePaymentStatus !== "pending" && order.stripePaymentStatus !== "failed") {
+      return { orderId: order.id, ignored: true };
+    }
+
+    const authorizationExpiresAt = await authorizationExpiry(intent);
+    await storage.updateOrder(order.id, { stripePaymentStatus: "authorized", authorizationExpiresAt });
+    await storage.logActivity(
+      "payment.authorized",
+      "order",
+      order.id,
+      { amount: intent.amount_capturable / 100, authorizationExpiresAt },
+      undefined,
+      STRIPE.username
+    );
+    // The order only counts as placed once the card is authorized
+    await notifyOrder(order.id, "order_received");
+    await activateSubscription(order, idOf(intent.payment_method));
+    return { orderId: order.id };
+  },
+
+  "payment_intent.succeeded": async (event) => {
+    const intent = event.data.object as Stripe.PaymentIntent;
+    const order = await findOrder(intent.id);
+    if (!order) return { ignored: true };
+
+    // Approving the order already set this; only act on captures made from the Stripe dashboard
+    if (order.stripePaymentStatus !== "pending" && order.stripePaymentStatus !== "authorized") {
+      return { orderId: order.id, ignored: true };
+    }
+
+    await storage.updateOrder(order.id, { stripePaymentStatus: "captured" });
+    await storage.logActivity(
+      "payment.captured",
+      "order",
+      order.id,
+      { amount: intent.amount_received / 100, status: order.status },
+      undefined,
+      STRIPE.username
+    );
+    return { orderId: order.id };
+  },
+
+  "payment_intent.payment_failed": async (event) => {
+    const intent = event.data.object as Stripe.PaymentIntent;
+    const order = await findOrder(intent.id);
+    if (!order) return { ignored: true };
+
+    await storage.updateOrder(order.id, { stripePaymentStatus: "failed" });
+    return { orderId: order.id };
+  },
+
+  "payment_intent.canceled": async (event) => {
+    const intent = event.data.object as Stripe.PaymentIntent;
+    const order = await findOrder(intent.id);
+    if (!order) return { ignored: true };
+
+    // Stripe cancels uncaptured intents itself when the hold runs out
+    if (intent.cancellation_reason === "automatic") {
+      return markAuthorizationExpired(order);
+    }
+
+    if (order.status !== "new") return { orderId: order.id, ignored: true };
+
+    await storage.updateOrder(order.id, { stripePaymentStatus: "cancelled" });
+    await transitionOrder(order.id, "cancelled", {
+      actor: STRIPE,
+      reason: "Card authorization was cancelled",
+    });
+    return { orderId: order.id };
+  },
+
+  "charge.expired": async (event) => {
+    const charge = event.data.object as Stripe.Charge;
+    const order = await findOrder(idOf(charge.payment_intent));
+    if (!order) return { ignored: true };
+
+    return markAuthorizationExpired(order);
+  },
+
+  "charge.refunded": async (event) => {
+    const charge = event.data.object as Stripe.Charge;
+    const order = await findOrder(idOf(charge.payment_intent));
+    if (!order) return { ignored: true };
+
+    await syncStripeRefunds(order);
+    return { orderId: order.id };
+  },
+
+  "charge.dispute.created": async (event) => {
+    const dispute = event.data.object as Stripe.Dispute;
+    const order = await findOrder(idOf(dispute.payment_intent));
+    if (!order) return { ignored: true };
+
+    await storage.updateOrder(order.id, { stripePaymentStatus: "disputed" });
+    await storage.logActivity(
+      "payment.disputed",
+      "order",
+      order.id,
+      {
+        amount: dispute.amount / 100,
+        reason: dispute.reason,
+        evidenceDueBy: dispute.evidence_details?.due_by ? new Date(dispute.evidence_details.due_by * 1000) : null,
+      },
+      undefined,
+      STRIPE.username
+    );
+    return { orderId: order.id };
+  },
+};
+
+// Runs the handler for an event already saved in webhook_events and records the outcome.
+// Rethrows handler errors so the webhook can tell Stripe to retry.
+export async function processWebhookEvent(event: Stripe.Event): Promise<WebhookEvent | undefined> {
+  const record = await storage.getWebhookEvent(event.id);
+  const attempts = (record?.attempts || 0) + 1;
+
+  const handler = HANDLERS[event.type];
+  if (!handler) {
+    return storage.updateWebhookEvent(event.id, { status: "ignored", attempts, processedAt: new Date() });
+  }
+
+  try {
+    const result = await handler(event);
+    return storage.updateWebhookEvent(event.id, {
+      status: result.ignored ? "ignored" : "processed",
+      orderId: result.orderId,
+      error: null,
+      attempts,
+      processedAt: new Date(),
+    });
+  } catch (error: any) {
+    await storage.updateWebhookEvent(event.id, {
+      status: "failed",
+      error: error?.message || String(error),
+      attempts,
+    });
+    throw error;
+  }
+}
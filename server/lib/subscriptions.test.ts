@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { storage, stripe } = vi.hoisted(() => ({
+  storage: {
+    getSubscriptionOrder: vi.fn(),
+    createOrderWithItems: vi.fn(),
+    logActivity: vi.fn(),
+  },
+  stripe: {
+    paymentIntents: { create: vi.fn(), retrieve: vi.fn(), cancel: vi.fn() },
+  },
+}));
+
+vi.mock("../storage.js", () => ({ storage }));
+vi.mock("./stripe.js", () => ({ getStripe: () => stripe }));
+vi.mock("./pricing.js", () => ({
+  priceOrder: vi.fn(async () => ({
+    items: [{ productId: "everything", quantity: 6 }],
+    subtotal: 18,
+    deliveryFee: 4,
+    tax: 1.5,
+    taxRate: 0.0625,
+    total: 23.5,
+    delivery: null,
+  })),
+}));
+vi.mock("./capacity.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./capacity.js")>()),
+  checkSlot: vi.fn(async () => ({})),
+}));
+vi.mock("./orderStatus.js", () => ({ transitionOrder: vi.fn() }));
+vi.mock("./notifications.js", () => ({ notifyOrder: vi.fn() }));
+
+import { placeSubscriptionOrder } from "./subscriptions.js";
+import { SlotUnavailableError } from "./errors.js";
+import type { SubscriptionDetail } from "../storage.js";
+
+const subscription = {
+  id: "sub-1",
+  status: "active",
+  cadence: "weekly",
+  fulfillmentWindow: "morning",
+  nextDeliveryDate: "2026-10-20",
+  deliveryAddress: "1 Main St",
+  deliveryCity: "Springfield",
+  deliveryState: "MA",
+  deliveryZip: "01101",
+  deliveryInstructions: null,
+  stripePaymentMethodId: "pm_1",
+  skips: [],
+  items: [{ productId: "everything", variantId: null, picks: null, quantity: 6 }],
+  customer: { id: "cust-1", name: "Ada", email: "ada@example.com", phone: null, stripeCustomerId: "cus_1" },
+} as unknown as SubscriptionDetail;
+
+function intent(status: string, replayed = false) {
+  return {
+    id: "pi_1",
+    status,
+    lastResponse: { headers: replayed ? { "idempotent-replayed": "true" } : {} },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+  process.env.BAKERY_TIMEZONE = "America/New_York";
+  storage.getSubscriptionOrder.mockResolvedValue(undefined);
+  storage.createOrderWithItems.mockImplementation(async (order: Record<string, unknown>) => ({ id: "order-1", total: order.total, reservations: [] }));
+});
+
+describe("placeSubscriptionOrder", () => {
+  it("keys the authorization on the delivery and its amount", async () => {
+    stripe.paymentIntents.create.mockResolvedValue(intent("requires_capture"));
+    await placeSubscriptionOrder(subscription, "2026-10-20");
+
+    expect(stripe.paymentIntents.create).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 2350, off_session: true }),
+      { idempotencyKey: "subscription-sub-1-2026-10-20-2350" }
+    );
+    expect(stripe.paymentIntents.retrieve).not.toHaveBeenCalled();
+  });
+
+  it("logs the freezer bags the delivery holds", async () => {
+    stripe.paymentIntents.create.mockResolvedValue(intent("requires_capture"));
+    storage.createOrderWithItems.mockResolvedValue({
+      id: "order-1",
+      total: "23.50",
+      reservations: [{ id: "res-1", orderId: "order-1", productId: "everything", quantity: 6, freezerStockId: "stock-1" }],
+    });
+    await placeSubscriptionOrder(subscription, "2026-10-20");
+
+    expect(storage.logActivity).toHaveBeenCalledWith(
+      "freezer.reserved",
+      "order",
+      "order-1",
+      { reservations: [{ productId: "everything", quantity: 6, freezerStockId: "stock-1" }] },
+      undefined,
+      "subscriptions"
+    );
+  });
+
+  it("keeps the card hold when saving the order fails on our side, and uses it on the retry", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    stripe.paymentIntents.create.mockResolvedValueOnce(intent("requires_capture"));
+    storage.createOrderWithItems.mockRejectedValueOnce(new Error("connection terminated"));
+
+    await expect(placeSubscriptionOrder(subscription, "2026-10-20")).rejects.toThrow("connection terminated");
+    expect(stripe.paymentIntents.cancel).not.toHaveBeenCalled();
+
+    // Stripe replays the first response for the same key; the live intent is still authorized
+    stripe.paymentIntents.create.mockResolvedValueOnce(intent("requires_capture", true));
+    stripe.paymentIntents.retrieve.mockResolvedValueOnce(intent("requires_capture"));
+    const order = await placeSubscriptionOrder(subscription, "2026-10-20");
+
+    expect(order.id).toBe("order-1");
+    expect(stripe.paymentIntents.retrieve).toHaveBeenCalledWith("pi_1");
+    expect(storage.createOrderWithItems).toHaveBeenLastCalledWith(
+      expect.objectContaining({ stripePaymentIntentId: "pi_1", stripePaymentStatus: "authorized" }),
+      expect.anything(),
+      expect.anything()
+    );
+  });
+
+  it("won't build an order on a replayed intent that has since been cancelled", async () => {
+    stripe.paymentIntents.create.mockResolvedValue(intent("requires_capture", true));
+    stripe.paymentIntents.retrieve.mockResolvedValue(intent("canceled"));
+
+    await expect(placeSubscriptionOrder(subscription, "2026-10-20")).rejects.toThrow("was already cancelled");
+    expect(storage.createOrderWithItems).not.toHaveBeenCalled();
+  });
+
+  it("lets go of the card hold when the delivery is missed", async () => {
+    stripe.paymentIntents.create.mockResolvedValue(intent("requires_capture"));
+    stripe.paymentIntents.cancel.mockResolvedValue(intent("canceled"));
+    storage.createOrderWithItems.mockRejectedValue(new SlotUnavailableError("full", "That window is full"));
+
+    await expect(placeSubscriptionOrder(subscription, "2026-10-20")).rejects.toBeInstanceOf(SlotUnavailableError);
+    expect(stripe.paymentIntents.cancel).toHaveBeenCalledWith("pi_1");
+  });
+});
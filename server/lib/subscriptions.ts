@@ -0,0 +1,418 @@
+import { storage, type SubscriptionDetail } from "../storage.js";
+import { getStripe } from "./stripe.js";
+import { priceOrder } from "./pricing.js";
+import { packBundle } from "./bundles.js";
+import { checkSlot, bakeryDay, bakeryTime, addDays } from "./capacity.js";
+import { transitionOrder } from "./orderStatus.js";
+import { notifyOrder } from "./notifications.js";
+import { getMailer } from "./mailer.js";
+import { renderSubscriptionProblemEmail, siteUrl } from "./emails.js";
+import {
+  DeliveryUnavailableError,
+  InvalidBundleError,
+  PaymentError,
+  ProductUnavailableError,
+  SlotUnavailableError,
+} from "./errors.js";
+import {
+  FULFILLMENT_WINDOWS,
+  SUBSCRIPTION_CADENCE_DAYS,
+  type BundleContent,
+  type Customer,
+  type FulfillmentWindow,
+  type Order,
+  type Subscription,
+  type SubscriptionCadence,
+} from "../../shared/schema.js";
+
+type Actor = { id?: string; username: string };
+
+const SUBSCRIPTIONS = { username: "subscriptions" };
+const DEFAULT_ORDER_DAYS = 2;
+
+export interface SubscriptionLine {
+  productId: string;
+  variantId?: string;
+  picks?: BundleContent[];
+  quantity: number;
+}
+
+export interface UpcomingDelivery {
+  date: string; // yyyy-MM-dd
+  orderOn: string; // the day its order gets placed; skips have to be in before then
+  skipped: boolean;
+}
+
+// How many days ahead of a delivery its order is placed and charged. Far enough out for the
+// bake planner to see it, late enough that customers can still skip the week.
+export function subscriptionOrderDays(): number {
+  const days = parseInt(process.env.SUBSCRIPTION_ORDER_DAYS || "", 10);
+  return isNaN(days) || days < 0 ? DEFAULT_ORDER_DAYS : days;
+}
+
+export function followingDelivery(subscription: Pick<Subscription, "cadence">, date: string): string {
+  return addDays(date, SUBSCRIPTION_CADENCE_DAYS[subscription.cadence as SubscriptionCadence]);
+}
+
+// The subscription's first delivery day on or after `from`, keeping to its rhythm
+export function deliveryOnOrAfter(subscription: Pick<Subscription, "cadence" | "nextDeliveryDate">, from: string): string {
+  let date = subscription.nextDeliveryDate;
+  while (date < from) date = followingDelivery(subscription, date);
+  return date;
+}
+
+// Deliveries still to be ordered, up to and including `through`. Nothing is coming for
+// subscriptions that are cancelled, waiting on their first payment or paused with no end.
+export function upcomingDeliveries(subscription: SubscriptionDetail, through: string): UpcomingDelivery[] {
+  if (subscription.status === "cancelled" || subscription.status === "pending") return [];
+  if (subscription.status === "paused" && !subscription.resumeOn) return [];
+
+  const deliveries: UpcomingDelivery[] = [];
+  let date = subscription.status === "paused"
+    ? deliveryOnOrAfter(subscription, subscription.resumeOn!)
+    : subscription.nextDeliveryDate;
+  while (date <= through) {
+    deliveries.push({ date, orderOn: addDays(date, -subscriptionOrderDays()), skipped: subscription.skips.includes(date) });
+    date = followingDelivery(subscription, date);
+  }
+  return deliveries;
+}
+
+// Bagels per product in one delivery, as the catalog stands today. Lines that no longer
+// make sense (a bundle that changed under a customer's picks) are left out.
+export async function deliveryBagels(subscription: SubscriptionDetail): Promise<BundleContent[]> {
+  const lines: BundleContent[] = [];
+  for (const item of subscription.items) {
+    if (item.product.bundleType) {
+      try {
+        const packed = await packBundle(item.product, item.picks || undefined);
+        lines.push(...packed.contents.map((line) => ({ productId: line.productId, quantity: line.quantity * item.quantity })));
+      } catch (error) {
+        if (!(error instanceof InvalidBundleError || error instanceof ProductUnavailableError)) throw error;
+      }
+    } else if (item.variantId) {
+      const variant = await storage.getProductVariant(item.variantId);
+      lines.push({ productId: item.productId, quantity: item.quantity * (variant?.packSize || 1) });
+    } else {
+      lines.push({ productId: item.productId, quantity: item.quantity });
+    }
+  }
+  return lines;
+}
+
+// "Everything (Dozen) x1" for each line, as the account and admin pages list them
+export async function lineNames(subscription: SubscriptionDetail): Promise<string[]> {
+  const names: string[] = [];
+  for (const item of subscription.items) {
+    const variant = item.variantId ? await storage.getProductVariant(item.variantId) : undefined;
+    names.push(`${item.product.name}${variant ? ` (${variant.name})` : ""} x${item.quantity}`);
+  }
+  return names;
+}
+
+function windowRank(window: string): number {
+  return FULFILLMENT_WINDOWS.indexOf(window as FulfillmentWindow);
+}
+
+export interface Obligation {
+  date: string;
+  window: string;
+  deliveries: { subscriptionId: string; customerName: string; bagels: number }[];
+  skipped: number;
+  products: { productId: string; productName: string; quantity: number }[];
+}
+
+// Subscription deliveries from `from` through `through` that haven't been ordered yet, by
+// delivery day and window, with the bagels they'll need
+export async function subscriptionObligations(from: string, through: string): Promise<Obligation[]> {
+  const [all, catalog] = await Promise.all([storage.getSubscriptions(), storage.getProducts()]);
+  const names = new Map(catalog.map((product) => [product.id, product.name]));
+
+  const slots = new Map<string, Obligation & { totals: Map<string, number> }>();
+  for (const subscription of all) {
+    const deliveries = upcomingDeliveries(subscription, through).filter((delivery) => delivery.date >= from);
+    if (deliveries.length === 0) continue;
+    const bagels = await deliveryBagels(subscription);
+
+    for (const delivery of deliveries) {
+      const key = `${delivery.date}|${subscription.fulfillmentWindow}`;
+      if (!slots.has(key)) {
+        slots.set(key, { date: delivery.date, window: subscription.fulfillmentWindow, deliveries: [], skipped: 0, products: [], totals: new Map() });
+      }
+      const slot = slots.get(key)!;
+      if (delivery.skipped) {
+        slot.skipped++;
+        continue;
+      }
+      slot.deliveries.push({
+        subscriptionId: subscription.id,
+        customerName: subscription.customer.name,
+        bagels: bagels.reduce((sum, line) => sum + line.quantity, 0),
+      });
+      for (const line of bagels) {
+        slot.totals.set(line.productId, (slot.totals.get(line.productId) || 0) + line.quantity);
+      }
+    }
+  }
+
+  return Array.from(slots.values())
+    .sort((a, b) => a.date.localeCompare(b.date) || windowRank(a.window) - windowRank(b.window))
+    .map(({ totals, ...slot }) => ({
+      ...slot,
+      products: Array.from(totals).map(([productId, quantity]) => ({ productId, productName: names.get(productId) || "Bagel", quantity })),
+    }));
+}
+
+// Saved cards live on a Stripe customer, made the first time someone subscribes
+export async function stripeCustomerFor(customer: Customer): Promise<string> {
+  if (customer.stripeCustomerId) return customer.stripeCustomerId;
+
+  const stripeCustomer = await getStripe().customers.create({
+    email: customer.email,
+    name: customer.name,
+    metadata: { customerId: customer.id },
+  });
+  await storage.updateCustomer(customer.id, { stripeCustomerId: stripeCustomer.id });
+  return stripeCustomer.id;
+}
+
+// Called once checkout has created the subscription's first order. It waits as `pending`
+// until that order's card is authorized and saved for later.
+export async function startSubscription(order: Order, cadence: SubscriptionCadence, lines: SubscriptionLine[]): Promise<Subscription> {
+  const subscription = await storage.createSubscription({
+    customerId: order.customerId!,
+    status: "pending",
+    cadence,
+    fulfillmentWindow: order.fulfillmentWindow!,
+    nextDeliveryDate: addDays(bakeryDay(order.fulfillmentDate), SUBSCRIPTION_CADENCE_DAYS[cadence]),
+    deliveryAddress: order.deliveryAddress,
+    deliveryCity: order.deliveryCity,
+    deliveryState: order.deliveryState,
+    deliveryZip: order.deliveryZip,
+    deliveryInstructions: order.deliveryInstructions,
+  }, lines.map((line) => ({
+    productId: line.productId,
+    variantId: line.variantId || null,
+    picks: line.picks || null,
+    quantity: line.quantity,
+  })));
+
+  await storage.updateOrder(order.id, { subscriptionId: subscription.id });
+  await storage.logActivity(
+    "subscription.created",
+    "subscription",
+    subscription.id,
+    { orderId: order.id, cadence, customerEmail: order.customerEmail },
+    undefined,
+    order.customerName
+  );
+  return subscription;
+}
+
+// The first order's card was authorized, so Stripe has saved it to the customer
+export async function activateSubscription(order: Order, paymentMethodId: string | undefined): Promise<void> {
+  if (!order.subscriptionId || !paymentMethodId) return;
+  const subscription = await storage.getSubscription(order.subscriptionId);
+  if (!subscription || subscription.status !== "pending") return;
+
+  await storage.updateSubscription(subscription.id, { status: "active", stripePaymentMethodId: paymentMethodId });
+  await storage.logActivity(
+    "subscription.activated",
+    "subscription",
+    subscription.id,
+    { orderId: order.id, nextDeliveryDate: subscription.nextDeliveryDate },
+    undefined,
+    "stripe"
+  );
+}
+
+export async function pauseSubscription(subscription: Subscription, resumeOn: string | null, actor: Actor): Promise<Subscription | undefined> {
+  const updated = await storage.updateSubscription(subscription.id, { status: "paused", resumeOn });
+  await storage.logActivity("subscription.paused", "subscription", subscription.id, { resumeOn }, actor.id, actor.username);
+  return updated;
+}
+
+// Picks up with the first delivery that can still be ordered in time
+export async function resumeSubscription(subscription: Subscription, actor: Actor, now = new Date()): Promise<Subscription | undefined> {
+  const nextDeliveryDate = deliveryOnOrAfter(subscription, addDays(bakeryDay(now), subscriptionOrderDays() + 1));
+  const updated = await storage.updateSubscription(subscription.id, { status: "active", resumeOn: null, nextDeliveryDate });
+  await storage.logActivity("subscription.resumed", "subscription", subscription.id, { nextDeliveryDate }, actor.id, actor.username);
+  return updated;
+}
+
+// Orders already placed for it still go out
+export async function cancelSubscription(subscription: Subscription, actor: Actor): Promise<Subscription | undefined> {
+  const updated = await storage.updateSubscription(subscription.id, { status: "cancelled", resumeOn: null, cancelledAt: new Date() });
+  await storage.logActivity("subscription.cancelled", "subscription", subscription.id, {}, actor.id, actor.username);
+  return updated;
+}
+
+// Why a delivery couldn't be placed, worded to finish "didn't go through: ...". Undefined for
+// errors that aren't the customer's business.
+export function failureReason(error: unknown): string | undefined {
+  if (error instanceof PaymentError) return error.message;
+  if (error instanceof ProductUnavailableError || error instanceof InvalidBundleError) return "something in it is no longer on sale";
+  if (error instanceof DeliveryUnavailableError) {
+    return error.reason === "below_minimum" ? "it's under the minimum order for your area"
+      : error.reason === "out_of_area" ? "we no longer deliver to your address"
+      : "we couldn't find your address";
+  }
+  if (error instanceof SlotUnavailableError) {
+    return error.reason === "blackout" ? "we're not delivering that day"
+      : error.reason === "full" ? "that delivery window was already full"
+      : "it was too close to the delivery to order";
+  }
+  return undefined;
+}
+
+// Notes the missed delivery on the subscription and lets the customer know. Never throws.
+export async function recordMissedDelivery(subscription: SubscriptionDetail, date: string, reason: string): Promise<void> {
+  try {
+    await storage.updateSubscription(subscription.id, { lastFailureReason: reason, lastFailedAt: new Date() });
+    await storage.logActivity(
+      "subscription.order_failed",
+      "subscription",
+      subscription.id,
+      { deliveryDate: date, reason, customerEmail: subscription.customer.email },
+      undefined,
+      SUBSCRIPTIONS.username
+    );
+    const message = renderSubscriptionProblemEmail(subscription.customer, bakeryTime(date, 0), reason, siteUrl("/account"));
+    await getMailer().send({ to: subscription.customer.email, ...message });
+  } catch (error) {
+    console.error(`Failed to record the missed delivery for subscription ${subscription.id}:`, error);
+  }
+}
+
+// Places one delivery as an ordinary order: priced at today's prices, checked against the
+// delivery window's capacity, authorized off-session on the saved card and then approved,
+// which captures the payment and puts it in front of the bake planner. Throws PaymentError
+// and the pricing and capacity errors when it can't be placed.
+export async function placeSubscriptionOrder(subscription: SubscriptionDetail, date: string, now = new Date()): Promise<Order> {
+  const fulfillmentDate = bakeryTime(date, 0);
+  const existing = await storage.getSubscriptionOrder(subscription.id, fulfillmentDate);
+  if (existing) return existing;
+
+  const customer = subscription.customer;
+  if (!customer.stripeCustomerId || !subscription.stripePaymentMethodId) {
+    throw new PaymentError("there's no saved card for it");
+  }
+
+  const address = {
+    deliveryAddress: subscription.deliveryAddress,
+    deliveryCity: subscription.deliveryCity,
+    deliveryState: subscription.deliveryState,
+    deliveryZip: subscription.deliveryZip,
+  };
+  const priced = await priceOrder(
+    subscription.items.map((item) => ({
+      productId: item.productId,
+      variantId: item.variantId || undefined,
+      picks: item.picks || undefined,
+      quantity: item.quantity,
+    })),
+    address
+  );
+  const window = subscription.fulfillmentWindow as FulfillmentWindow;
+  const slot = await checkSlot(fulfillmentDate, window, priced.items.reduce((sum, item) => sum + item.quantity, 0), now);
+
+  // The key carries the amount so a delivery retried at a new price gets a new intent rather than
+  // Stripe's idempotency error; a retry at the same price gets the intent the failed run left behind.
+  const amount = Math.round(priced.total * 100);
+  let intent;
+  try {
+    // Metadata without customerEmail, so reconciliation doesn't mistake it for an abandoned checkout
+    intent = await getStripe().paymentIntents.create({
+      amount,
+      currency: "usd",
+      capture_method: "manual",
+      customer: customer.stripeCustomerId,
+      payment_method: subscription.stripePaymentMethodId,
+      off_session: true,
+      confirm: true,
+      metadata: { subscriptionId: subscription.id, deliveryDate: date },
+    }, { idempotencyKey: `subscription-${subscription.id}-${date}-${amount}` });
+    // A replayed response is how the intent looked then; check it's still holding the money
+    if (intent.lastResponse?.headers?.["idempotent-replayed"] === "true") {
+      intent = await getStripe().paymentIntents.retrieve(intent.id);
+    }
+  } catch (stripeError: any) {
+    console.error("Stripe off-session authorization error:", stripeError);
+    // Only a card error is the customer's; Stripe being down or rate limiting us gets retried
+    if (stripeError?.type !== "StripeCardError") throw stripeError;
+    throw new PaymentError("your saved card was declined", stripeError.message);
+  }
+  if (intent.status === "canceled") {
+    // Nothing to build an order on, and the same key will only ever return this intent
+    throw new Error(`Payment intent ${intent.id} for subscription ${subscription.id} was already cancelled`);
+  }
+  if (intent.status !== "requires_capture") {
+    await getStripe().paymentIntents.cancel(intent.id).catch((stripeError) => console.error("Stripe cancel error:", stripeError));
+    throw new PaymentError("your bank wants you to confirm the payment");
+  }
+
+  let order;
+  try {
+    order = await storage.createOrderWithItems({
+      customerId: customer.id,
+      subscriptionId: subscription.id,
+      customerName: customer.name,
+      customerEmail: customer.email,
+      customerPhone: customer.phone,
+      ...address,
+      deliveryInstructions: subscription.deliveryInstructions,
+      fulfillmentDate,
+      fulfillmentWindow: window,
+      locationId: priced.delivery?.locationId || null,
+      subtotal: priced.subtotal.toFixed(2),
+      deliveryFee: priced.deliveryFee.toFixed(2),
+      deliveryZoneId: priced.delivery?.zoneId || null,
+      tax: priced.tax.toFixed(2),
+      taxRate: priced.taxRate.toFixed(5),
+      total: priced.total.toFixed(2),
+      stripePaymentIntentId: intent.id,
+      stripePaymentStatus: "authorized",
+      status: "new",
+    }, priced.items, {
+      history: { changedByName: SUBSCRIPTIONS.username, reason: "Subscription delivery" },
+      // Whatever the freezer can't cover gets baked
+      freezer: { allowPartial: true },
+      slot,
+    });
+  } catch (error) {
+    // A missed delivery lets go of the card hold. An error on our side keeps it for the next run,
+    // which gets the same intent back; if that never comes, Stripe drops the hold after 7 days.
+    if (failureReason(error)) {
+      await getStripe().paymentIntents.cancel(intent.id).catch((stripeError) => console.error("Stripe cancel error:", stripeError));
+    }
+    throw error;
+  }
+
+  await storage.logActivity(
+    "subscription.order_placed",
+    "subscription",
+    subscription.id,
+    { orderId: order.id, deliveryDate: date, total: order.total },
+    undefined,
+    SUBSCRIPTIONS.username
+  );
+  if (order.reservations.length > 0) {
+    await storage.logActivity(
+      "freezer.reserved",
+      "order",
+      order.id,
+      { reservations: order.reservations.map(r => ({ productId: r.productId, quantity: r.quantity, freezerStockId: r.freezerStockId })) },
+      undefined,
+      SUBSCRIPTIONS.username
+    );
+  }
+  await notifyOrder(order.id, "order_received");
+
+  // A capture that fails leaves the order new and authorized for someone to approve by hand
+  try {
+    await transitionOrder(order.id, "approved", { actor: SUBSCRIPTIONS, reason: "Subscription delivery" });
+  } catch (error) {
+    console.error(`Failed to approve subscription order ${order.id}:`, error);
+  }
+  return order;
+}
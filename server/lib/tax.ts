@@ -0,0 +1,39 @@
+import { storage } from "../storage.js";
+
+export interface TaxableLine {
+  total: number; // before tax
+  taxable: boolean;
+}
+
+export interface TaxQuote {
+  rate: number;
+  rateName: string | null;
+  subtotal: number;
+  tax: number;
+  total: number;
+  lineTaxes: number[];
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Tax is worked out and rounded per line so item refunds can give back exactly what each line paid.
+// No matching rate means no tax, which is the right answer for states we don't collect in.
+export async function quoteTax(lines: TaxableLine[], address: { state: string; zipCode: string }): Promise<TaxQuote> {
+  const taxRate = await storage.findTaxRate(address.state, address.zipCode);
+  const rate = taxRate ? parseFloat(taxRate.rate) : 0;
+
+  const lineTaxes = lines.map((line) => (line.taxable ? roundCents(line.total * rate) : 0));
+  const subtotal = roundCents(lines.reduce((sum, line) => sum + line.total, 0));
+  const tax = roundCents(lineTaxes.reduce((sum, lineTax) => sum + lineTax, 0));
+
+  return {
+    rate,
+    rateName: taxRate?.name || null,
+    subtotal,
+    tax,
+    total: roundCents(subtotal + tax),
+    lineTaxes,
+  };
+}
@@ -0,0 +1,57 @@
+import { storage } from "../storage.js";
+import { bakeryTimezone } from "./capacity.js";
+import { deliveryWhen, orderReference } from "./emails.js";
+import type { Order, SmsTemplate } from "../../shared/schema.js";
+
+export interface TextDetails {
+  etaMinutes?: number;
+}
+
+// What staff can put in a template, and what each stands for
+export const SMS_PLACEHOLDERS: Record<string, string> = {
+  name: "Customer's first name",
+  order: "Order number",
+  when: "Delivery day and window",
+  address: "Delivery street address",
+  eta: "Arrival time, for ETA updates",
+  location: "Pickup location",
+};
+
+export const DEFAULT_SMS_TEMPLATES: Record<SmsTemplate, string> = {
+  out_for_delivery: "D'havi.co: Hi {name}, your bagels (order {order}) are out for delivery to {address}. Reply STOP to opt out.",
+  delivery_eta: "D'havi.co: Hi {name}, your driver expects to arrive around {eta} with order {order}. Reply STOP to opt out.",
+  pickup_ready: "D'havi.co: Hi {name}, order {order} is ready for pickup at {location}. Reply STOP to opt out.",
+};
+
+function clockTime(instant: Date): string {
+  return new Intl.DateTimeFormat("en-US", { timeZone: bakeryTimezone(), hour: "numeric", minute: "2-digit" }).format(instant);
+}
+
+// Fills in a template; unknown placeholders are left as written so a typo shows in the preview
+export function fillTemplate(body: string, values: Record<string, string>): string {
+  return body.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? values[key] : match));
+}
+
+export async function templateBody(template: SmsTemplate): Promise<string> {
+  const saved = await storage.getMessageTemplate("sms", template);
+  return saved?.body || DEFAULT_SMS_TEMPLATES[template];
+}
+
+export async function renderText(
+  template: SmsTemplate,
+  order: Order & { location?: { name: string; address: string | null } },
+  details: TextDetails = {}
+): Promise<string> {
+  const eta = details.etaMinutes !== undefined ? new Date(Date.now() + details.etaMinutes * 60 * 1000) : undefined;
+  const location = order.location
+    ? [order.location.name, order.location.address].filter(Boolean).join(", ")
+    : "the bakery";
+  return fillTemplate(await templateBody(template), {
+    name: order.customerName.split(" ")[0],
+    order: orderReference(order),
+    when: deliveryWhen(order),
+    address: order.deliveryAddress,
+    eta: eta ? clockTime(eta) : "soon",
+    location,
+  });
+}
@@ -0,0 +1,182 @@
+import { storage, type BatchLotUsage } from "../storage.js";
+import { bakeryDay } from "./capacity.js";
+import { formatOrderNumber, type Batch, type FreezerStock, type Product } from "../../shared/schema.js";
+
+export interface TracedStock {
+  freezerStockId: string;
+  productId: string;
+  productName: string;
+  quantity: number;
+  status: string;
+  batchId: string | null;
+  frozenAt: Date | null;
+}
+
+export interface TracedBatch {
+  batch: Batch;
+  // "freezer" when the order drew stock the batch produced, "planned" when the batch was baked for it
+  source: "freezer" | "planned";
+  lots: BatchLotUsage[];
+}
+
+export interface OrderTrace {
+  orderId: string;
+  stock: TracedStock[];
+  batches: TracedBatch[];
+}
+
+// Follows an order back through the freezer stock it drew, the batches that stock came from,
+// and the ingredient lots those batches used. Released holds are left out.
+export async function traceOrder(orderId: string): Promise<OrderTrace | undefined> {
+  const order = await storage.getOrder(orderId);
+  if (!order) return undefined;
+
+  const reservations = (await storage.getReservationsForOrder(orderId)).filter((r) => r.status !== "released");
+  const stockRows = await storage.getFreezerStockByIds(Array.from(new Set(reservations.map((r) => r.freezerStockId))));
+  // Bundles hold stock of other products, so names come from the catalog rather than the order lines
+  const productNames = new Map((await storage.getProducts()).map((product) => [product.id, product.name]));
+
+  const stock = reservations.map((reservation): TracedStock => {
+    const row = stockRows.find((s) => s.id === reservation.freezerStockId);
+    return {
+      freezerStockId: reservation.freezerStockId,
+      productId: reservation.productId,
+      productName: productNames.get(reservation.productId) || "Unknown product",
+      quantity: reservation.quantity,
+      status: reservation.status,
+      batchId: row?.batchId ?? null,
+      frozenAt: row?.frozenAt ?? null,
+    };
+  });
+
+  const sources = new Map<string, "freezer" | "planned">();
+  for (const row of stock) {
+    if (row.batchId) sources.set(row.batchId, "freezer");
+  }
+  for (const batch of await storage.getBatchesForOrder(orderId)) {
+    if (!sources.has(batch.id)) sources.set(batch.id, "planned");
+  }
+
+  const batches: TracedBatch[] = [];
+  for (const [batchId, source] of Array.from(sources)) {
+    const batch = await storage.getBatch(batchId);
+    if (!batch) continue;
+    batches.push({ batch, source, lots: await storage.getBatchLots(batchId) });
+  }
+  batches.sort((a, b) => a.batch.batchDate.getTime() - b.batch.batchDate.getTime());
+
+  return { orderId, stock, batches };
+}
+
+export type RecallScope = { batchId: string } | { lotId: string } | { ingredientId: string };
+
+export interface RecallOrder {
+  orderId: string;
+  orderNumber: string; // DH-1042, as the customer knows it
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string | null;
+  fulfillmentDate: Date;
+  status: string;
+  // "received" when the order drew the stock, "scheduled" when an unfinished batch is being baked for it
+  via: "received" | "scheduled";
+  batchIds: string[];
+  items: { productName: string; quantity: number }[];
+}
+
+export interface RecallReport {
+  scope: string; // what the report was run for, in words
+  batches: Batch[];
+  stock: (FreezerStock & { product: Product; held: number })[];
+  orders: RecallOrder[];
+}
+
+async function describeScope(scope: RecallScope): Promise<{ label: string; batchIds: string[] } | undefined> {
+  if ("batchId" in scope) {
+    const batch = await storage.getBatch(scope.batchId);
+    if (!batch) return undefined;
+    return { label: `Batch ${bakeryDay(batch.batchDate)} (${batch.shift})`, batchIds: [batch.id] };
+  }
+  if ("lotId" in scope) {
+    const lot = await storage.getIngredientLot(scope.lotId);
+    if (!lot) return undefined;
+    const ingredient = await storage.getIngredient(lot.ingredientId);
+    return {
+      label: `${ingredient?.name || "Ingredient"} lot ${lot.lotCode || "uncoded"} received ${bakeryDay(lot.receivedAt)}`,
+      batchIds: await storage.getBatchIdsUsing({ lotId: lot.id }),
+    };
+  }
+  const ingredient = await storage.getIngredient(scope.ingredientId);
+  if (!ingredient) return undefined;
+  return { label: `All ${ingredient.name}`, batchIds: await storage.getBatchIdsUsing({ ingredientId: ingredient.id }) };
+}
+
+// Everyone who got product from a batch, or from batches that used a lot or ingredient, plus
+// the freezer stock still on hand from them. Orders waiting on an unfinished batch are listed too.
+export async function traceRecall(scope: RecallScope): Promise<RecallReport | undefined> {
+  const described = await describeScope(scope);
+  if (!described) return undefined;
+
+  const batches: Batch[] = [];
+  for (const batchId of described.batchIds) {
+    const batch = await storage.getBatch(batchId);
+    if (batch) batches.push(batch);
+  }
+  batches.sort((a, b) => a.batchDate.getTime() - b.batchDate.getTime());
+
+  const stockRows = await storage.getFreezerStockForBatches(batches.map((batch) => batch.id));
+  const reservations = await storage.getReservationsForStock(stockRows.map((row) => row.id));
+
+  const orders = new Map<string, RecallOrder>();
+  const addOrder = async (orderId: string, via: RecallOrder["via"], batchId: string) => {
+    if (!orders.has(orderId)) {
+      const order = await storage.getOrder(orderId);
+      if (!order) return undefined;
+      orders.set(orderId, {
+        orderId,
+        orderNumber: formatOrderNumber(order),
+        customerName: order.customerName,
+        customerEmail: order.customerEmail,
+        customerPhone: order.customerPhone,
+        fulfillmentDate: order.fulfillmentDate,
+        status: order.status,
+        via,
+        batchIds: [],
+        items: [],
+      });
+    }
+    const entry = orders.get(orderId)!;
+    if (via === "received") entry.via = "received";
+    if (!entry.batchIds.includes(batchId)) entry.batchIds.push(batchId);
+    return entry;
+  };
+
+  for (const reservation of reservations) {
+    const row = stockRows.find((s) => s.id === reservation.freezerStockId)!;
+    const entry = await addOrder(reservation.orderId, "received", row.batchId!);
+    if (!entry) continue;
+    const line = entry.items.find((item) => item.productName === row.product.name);
+    if (line) line.quantity += reservation.quantity;
+    else entry.items.push({ productName: row.product.name, quantity: reservation.quantity });
+  }
+
+  for (const batch of batches) {
+    if (batch.status !== "planned" && batch.status !== "in_progress") continue;
+    for (const orderId of await storage.getBatchOrderIds(batch.id)) {
+      await addOrder(orderId, "scheduled", batch.id);
+    }
+  }
+
+  const heldByStock = new Map<string, number>();
+  for (const reservation of reservations) {
+    if (reservation.status !== "held") continue;
+    heldByStock.set(reservation.freezerStockId, (heldByStock.get(reservation.freezerStockId) || 0) + reservation.quantity);
+  }
+
+  return {
+    scope: described.label,
+    batches,
+    stock: stockRows.map((row) => ({ ...row, held: heldByStock.get(row.id) || 0 })),
+    orders: Array.from(orders.values()).sort((a, b) => a.fulfillmentDate.getTime() - b.fulfillmentDate.getTime()),
+  };
+}
@@ -0,0 +1,40 @@
+import crypto from "crypto";
+import type { Order } from "../../shared/schema.js";
+
+// Tracking links keep working for this long after the delivery day
+const LINK_DAYS_AFTER_DELIVERY = 60;
+
+function secret(): string {
+  const value = process.env.TRACKING_SECRET || process.env.SESSION_SECRET;
+  if (value) return value;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("TRACKING_SECRET (or SESSION_SECRET) must be set to sign order tracking links");
+  }
+  return "dhavi-tracking-dev-secret";
+}
+
+function sign(orderId: string, expires: string): string {
+  return crypto.createHmac("sha256", secret()).update(`${orderId}.${expires}`).digest("base64url");
+}
+
+// Whoever holds the token can see this one order, so it goes in the customer's emails and
+// back to the browser that placed the order - nowhere else
+export function trackingToken(order: Pick<Order, "id" | "fulfillmentDate">): string {
+  const deliveredBy = Math.max(Date.now(), new Date(order.fulfillmentDate).getTime());
+  const expires = Math.floor((deliveredBy + LINK_DAYS_AFTER_DELIVERY * 24 * 60 * 60 * 1000) / 1000).toString(36);
+  return `${expires}.${sign(order.id, expires)}`;
+}
+
+export function verifyTrackingToken(orderId: string, token: unknown): boolean {
+  if (typeof token !== "string") return false;
+  const [expires, signature] = token.split(".");
+  if (!expires || !signature) return false;
+  if (parseInt(expires, 36) * 1000 < Date.now()) return false;
+  const expected = sign(orderId, expires);
+  return expected.length === signature.length
+    && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+}
+
+export function trackingPath(order: Pick<Order, "id" | "fulfillmentDate">): string {
+  return `/order/confirmation/${order.id}?token=${trackingToken(order)}`;
+}
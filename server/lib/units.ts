@@ -0,0 +1,21 @@
+import { UNITS, convertQuantity, type BillOfMaterial, type Ingredient } from "../../shared/schema.js";
+import { UnitMismatchError } from "./errors.js";
+
+function densityOf(ingredient: Ingredient): number | null {
+  return ingredient.density ? parseFloat(ingredient.density) : null;
+}
+
+// Throws when `unit` can't be turned into what the ingredient is stocked in
+export function checkUnit(ingredient: Ingredient, unit: string): void {
+  if (convertQuantity(1, unit, ingredient.unit, densityOf(ingredient)) !== null) return;
+  const crossesDimension = !!UNITS[unit] && !!UNITS[ingredient.unit] &&
+    UNITS[unit].dimension !== "count" && UNITS[ingredient.unit].dimension !== "count";
+  throw new UnitMismatchError(ingredient.name, unit, ingredient.unit, crossesDimension);
+}
+
+// How much of the ingredient's stock one bagel uses, in the unit it's stocked in
+export function stockQuantity(line: BillOfMaterial & { ingredient: Ingredient }): number {
+  const unit = line.unit || line.ingredient.unit;
+  checkUnit(line.ingredient, unit);
+  return convertQuantity(parseFloat(line.quantity), unit, line.ingredient.unit, densityOf(line.ingredient))!;
+}
@@ -0,0 +1,27 @@
+import { storage } from "../storage.js";
+
+// Images live in the product_images table rather than on disk: a serverless deployment like
+// Vercel has no disk that outlasts the request. They're served from here by getProductImage.
+const PRODUCT_IMAGE_PATH = "/api/product-images";
+
+export const IMAGE_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Stores the image and returns the URL to store on the product. Each upload gets a new id
+// so browsers don't keep showing the old picture.
+export async function saveProductImage(productId: string, contentType: string, data: Buffer): Promise<string> {
+  const image = await storage.createProductImage(productId, contentType, data);
+  return `${PRODUCT_IMAGE_PATH}/${image.id}`;
+}
+
+// Only images we stored are removed; images linked from elsewhere are left alone
+export async function removeProductImage(url: string | null): Promise<void> {
+  if (!url || !url.startsWith(`${PRODUCT_IMAGE_PATH}/`)) return;
+  await storage.deleteProductImage(url.slice(PRODUCT_IMAGE_PATH.length + 1));
+}
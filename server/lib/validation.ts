@@ -1,4 +1,18 @@
 import { z } from "zod";
+import { ORDER_STATUSES, DELIVERY_ZONE_TYPES, FULFILLMENT_WINDOWS, SMS_TEMPLATES, SUBSCRIPTION_CADENCES } from "../../shared/schema.js";
+
+const bagelCount = z.object({
+  productId: z.string().min(1),
+  quantity: z.number().int().min(1),
+});
+
+// quantity counts packs when a pack size is chosen, bundles for a bundle, single bagels otherwise
+const orderLine = z.object({
+  productId: z.string().min(1),
+  variantId: z.string().min(1).optional(),
+  quantity: z.number().min(1),
+  picks: z.array(bagelCount).optional(), // what goes in each of a pick bundle
+});
 
 export const orderCreateSchema = z.object({
   customerName: z.string().min(1),
@@ -10,11 +24,10 @@ export const orderCreateSchema = z.object({
   deliveryZip: z.string().min(5),
   deliveryInstructions: z.string().optional(),
   fulfillmentDate: z.string(),
-  fulfillmentWindow: z.string(),
-  items: z.array(z.object({
-    productId: z.string().min(1),
-    quantity: z.number().min(1),
-  })).min(1),
+  fulfillmentWindow: z.enum(FULFILLMENT_WINDOWS),
+  items: z.array(orderLine).min(1),
+  smsOptIn: z.boolean().optional(), // delivery-day texts to customerPhone
+  repeatEvery: z.enum(SUBSCRIPTION_CADENCES).optional(), // starts a subscription with this order as its first delivery
 });
 
 export const orderUpdateSchema = z.object({
@@ -43,6 +56,19 @@ export const statusSchema = z.object({
   status: z.string().min(1),
 });
 
+export const orderStatusSchema = z.object({
+  status: z.enum(ORDER_STATUSES),
+  reason: z.string().max(500).optional(),
+});
+
+export const refundCreateSchema = z.object({
+  items: z.array(z.object({
+    orderItemId: z.string().min(1),
+    quantity: z.number().int().min(1),
+  })).optional(),
+  reason: z.string().max(500).optional(),
+});
+
 export const manualOrderCreateSchema = z.object({
   customerName: z.string().min(1),
   customerEmail: z.string().email(),
@@ -56,13 +82,254 @@ export const manualOrderCreateSchema = z.object({
   fulfillmentWindow: z.string(),
   locationId: z.string().optional(),
   notes: z.string().optional(),
+  items: z.array(orderLine).min(1),
+});
+
+export const orderQuoteSchema = z.object({
+  deliveryAddress: z.string().min(5),
+  deliveryCity: z.string().min(2),
+  deliveryState: z.string().min(2),
+  deliveryZip: z.string().min(5),
+  items: z.array(orderLine).min(1),
+});
+
+export const taxRateSchema = z.object({
+  state: z.string().regex(/^[A-Za-z]{2}$/, "Use the two-letter state code").transform((state) => state.toUpperCase()),
+  zipCode: z.string().regex(/^\d{5}$/, "ZIP codes are 5 digits").nullable().optional(),
+  // Entered as a fraction (0.08875), stored as text like the other decimal columns
+  rate: z.coerce.number().min(0).max(0.25).transform((rate) => rate.toFixed(5)),
+  name: z.string().max(100).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const deliveryZoneFields = z.object({
+  locationId: z.string().min(1),
+  name: z.string().min(1).max(100),
+  type: z.enum(DELIVERY_ZONE_TYPES),
+  radiusMiles: z.coerce.number().positive().max(100).transform((miles) => miles.toFixed(2)).nullable().optional(),
+  polygon: z.array(z.tuple([z.number().min(-90).max(90), z.number().min(-180).max(180)])).nullable().optional(),
+  feeTiers: z.array(z.object({
+    minSubtotal: z.number().min(0),
+    fee: z.number().min(0),
+  })).optional(),
+  minimumOrder: z.coerce.number().min(0).transform((amount) => amount.toFixed(2)).optional(),
+  isActive: z.boolean().optional(),
+});
+
+// A zone needs the shape its type says it has; updates are only checked when they change the type
+function checkZoneShape(zone: { type?: string; radiusMiles?: string | null; polygon?: [number, number][] | null }, ctx: z.RefinementCtx) {
+  if (zone.type === "radius" && !zone.radiusMiles) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["radiusMiles"], message: "Radius zones need a radius" });
+  }
+  if (zone.type === "polygon" && (!zone.polygon || zone.polygon.length < 3)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["polygon"], message: "Polygon zones need at least 3 points" });
+  }
+}
+
+export const deliveryZoneSchema = deliveryZoneFields.superRefine(checkZoneShape);
+export const deliveryZoneUpdateSchema = deliveryZoneFields.partial().superRefine(checkZoneShape);
+
+const dayString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use yyyy-MM-dd");
+
+export const slotsQuerySchema = z.object({
+  from: dayString.optional(),
+  days: z.coerce.number().int().min(1).max(92).default(42),
+});
+
+export const bakePlanQuerySchema = z.object({
+  from: dayString.optional(),
+  days: z.coerce.number().int().min(1).max(31).default(7),
+});
+
+export const subscriptionObligationsQuerySchema = z.object({
+  from: dayString.optional(),
+  weeks: z.coerce.number().int().min(1).max(12).default(4),
+});
+
+export const bakePlanAcceptSchema = z.object({
+  batches: z.array(z.object({
+    batchDate: dayString,
+    shift: z.string().min(1),
+    notes: z.string().optional(),
+    items: z.array(z.object({
+      productId: z.string().min(1),
+      quantity: z.number().int().min(0),
+    })),
+    orderIds: z.array(z.string().min(1)),
+  })).min(1),
+});
+
+export const ingredientForecastQuerySchema = z.object({
+  from: dayString.optional(),
+  days: z.coerce.number().int().min(1).max(60).default(14),
+  includeOrders: z.enum(["true", "false"]).default("true").transform((value) => value === "true"),
+});
+
+const purchaseOrderLine = z.object({
+  ingredientId: z.string().min(1),
+  quantity: z.number().positive(),
+  unitCost: z.number().min(0).default(0),
+});
+
+export const purchaseOrderCreateSchema = z.object({
+  supplierId: z.string().min(1),
+  expectedDate: z.string().nullable().optional(),
+  notes: z.string().optional(),
+  items: z.array(purchaseOrderLine).min(1),
+});
+
+export const purchaseOrderUpdateSchema = z.object({
+  expectedDate: z.string().nullable().optional(),
+  notes: z.string().optional(),
+  items: z.array(purchaseOrderLine).min(1).optional(),
+});
+
+export const purchaseOrderStatusSchema = z.object({
+  status: z.enum(["sent", "cancelled"]),
+});
+
+export const purchaseOrderReceiveSchema = z.object({
   items: z.array(z.object({
-    productId: z.string().min(1),
-    quantity: z.number().min(1),
+    itemId: z.string().min(1),
+    quantity: z.number().positive(),
+    unitCost: z.number().min(0).optional(),
+    lotCode: z.string().trim().min(1).optional(),
+    expiresOn: dayString.optional(),
   })).min(1),
 });
 
+export const productBomSchema = z.object({
+  items: z.array(z.object({
+    ingredientId: z.string().min(1),
+    quantity: z.number().min(0),
+    unit: z.string().trim().min(1).nullable().optional(),
+  })),
+  notes: z.string().trim().optional(),
+  effectiveFrom: dayString.optional(), // defaults to straight away
+  yieldQuantity: z.number().int().min(1).optional(),
+  wastePercent: z.number().min(0).max(99).optional(),
+});
+
+export const bundleComponentsSchema = z.object({
+  components: z.array(z.object({
+    productId: z.string().min(1),
+    quantity: z.number().int().min(1).optional(), // fixed bundles only
+  })),
+});
+
+export const ingredientAdjustSchema = z.object({
+  quantity: z.number(),
+  type: z.string().min(1),
+  reason: z.string().optional(),
+  lotCode: z.string().trim().min(1).optional(),
+  expiresOn: dayString.optional(),
+  lotId: z.string().min(1).optional(),
+});
+
+// Exactly one of batch, lot or ingredient
+export const costingQuerySchema = z.object({
+  from: dayString.optional(),
+  to: dayString.optional(),
+  groupBy: z.enum(["day", "week", "month"]).default("week"),
+});
+
+export const recallQuerySchema = z.object({
+  batchId: z.string().min(1).optional(),
+  lotId: z.string().min(1).optional(),
+  ingredientId: z.string().min(1).optional(),
+}).refine(
+  (query) => [query.batchId, query.lotId, query.ingredientId].filter(Boolean).length === 1,
+  { message: "Give one of batchId, lotId or ingredientId" }
+);
+
+export const freezerQuarantineSchema = z.object({
+  freezerStockIds: z.array(z.string().min(1)).min(1),
+  reason: z.string().trim().min(1, "Say why the stock is quarantined"),
+});
+
+export const freezerReleaseSchema = z.object({
+  freezerStockIds: z.array(z.string().min(1)).min(1),
+});
+
+export const ingredientLotUpdateSchema = z.object({
+  lotCode: z.string().trim().min(1).nullable().optional(),
+  expiresOn: dayString.nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const purchaseOrderDraftSchema = z.object({
+  ingredientIds: z.array(z.string().min(1)).optional(),
+});
+
+export const fulfillmentCapacitySchema = z.object({
+  window: z.enum(FULFILLMENT_WINDOWS),
+  dayOfWeek: z.number().int().min(0).max(6).nullable().optional(),
+  maxOrders: z.number().int().min(0).nullable().optional(),
+  maxBagels: z.number().int().min(0).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const blackoutDateSchema = z.object({
+  date: dayString,
+  window: z.enum(FULFILLMENT_WINDOWS).nullable().optional(),
+  reason: z.string().max(200).nullable().optional(),
+});
+
+export const smsTemplateSchema = z.object({
+  // Past 160 characters a text goes as several messages; past 480 it's too long to read on a lock screen
+  body: z.string().trim().min(1, "Write the message").max(480, "Keep it under 480 characters"),
+});
+
+export const orderTextSchema = z.object({
+  template: z.enum(SMS_TEMPLATES),
+  etaMinutes: z.number().int().min(1).max(24 * 60).optional(),
+});
+
+export const orderLookupSchema = z.object({
+  email: z.string().trim().email("Enter the email you ordered with"),
+  orderNumber: z.string().trim().min(1, "Enter your order number").max(20),
+});
+
+export const accountSignInSchema = z.object({
+  email: z.string().trim().email("Enter the email you ordered with"),
+});
+
+export const accountVerifySchema = z.object({
+  token: z.string().min(20).max(200),
+});
+
+export const customerAddressSchema = z.object({
+  label: z.string().trim().max(40).nullable().optional(),
+  deliveryAddress: z.string().trim().min(5),
+  deliveryCity: z.string().trim().min(2),
+  deliveryState: z.string().trim().min(2),
+  deliveryZip: z.string().trim().min(5),
+  deliveryInstructions: z.string().trim().max(500).nullable().optional(),
+});
+
+export const customerAddressUpdateSchema = z.object({
+  label: z.string().trim().max(40).nullable().optional(),
+  deliveryInstructions: z.string().trim().max(500).nullable().optional(),
+  isDefault: z.literal(true).optional(),
+});
+
+export const subscriptionSkipSchema = z.object({
+  date: dayString,
+});
+
+// No resumeOn pauses until the customer resumes
+export const subscriptionPauseSchema = z.object({
+  resumeOn: dayString.nullable().optional(),
+});
+
 export type OrderCreateInput = z.infer<typeof orderCreateSchema>;
 export type OrderUpdateInput = z.infer<typeof orderUpdateSchema>;
 export type ManualOrderCreateInput = z.infer<typeof manualOrderCreateSchema>;
+export type RefundCreateInput = z.infer<typeof refundCreateSchema>;
 export type BatchCreateInput = z.infer<typeof batchCreateSchema>;
+export type OrderQuoteInput = z.infer<typeof orderQuoteSchema>;
+export type TaxRateInput = z.infer<typeof taxRateSchema>;
+export type DeliveryZoneInput = z.infer<typeof deliveryZoneSchema>;
+export type FulfillmentCapacityInput = z.infer<typeof fulfillmentCapacitySchema>;
+export type BlackoutDateInput = z.infer<typeof blackoutDateSchema>;
+export type BakePlanAcceptInput = z.infer<typeof bakePlanAcceptSchema>;
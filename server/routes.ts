@@ -1,9 +1,11 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { setupSimpleAuth, registerSimpleAuthRoutes, isSimpleAuthenticated } from "./simpleAuth.js";
-import { getStripe } from "./lib/stripe.js";
+import { setupSimpleAuth, registerSimpleAuthRoutes, requirePermission, requireCronSecret, getActor } from "./simpleAuth.js";
+import { idempotent } from "./lib/idempotency.js";
+import { rateLimit } from "./lib/rateLimit.js";
+import { requireCustomer } from "./customerAuth.js";
+import { MAX_IMAGE_BYTES } from "./lib/uploads.js";
 import { storage } from "./storage.js";
-import Stripe from "stripe";
 
 import {
   healthCheck,
@@ -11,14 +13,24 @@ import {
   getAllProducts,
   createProduct,
   updateProduct,
-  deleteProduct,
+  archiveProduct,
+  restoreProduct,
+  uploadProductImage,
+  getProductImage,
+  createProductVariant,
+  updateProductVariant,
   getProductBom,
   updateProductBom,
+  updateBundleComponents,
+  getProductRecipes,
   getAllIngredients,
+  getIngredientForecast,
   createIngredient,
   updateIngredient,
   getInventoryAdjustments,
   adjustIngredientInventory,
+  getIngredientLots,
+  updateIngredientLot,
   seedIngredients,
   getPublicLocations,
   getAllLocations,
@@ -26,14 +38,23 @@ import {
   updateLocation,
   getLocationInventory,
   createOrder,
+  quoteOrder,
   getPublicOrder,
+  lookupOrder,
   getAllOrders,
   updateOrderStatus,
+  getOrderStatusHistory,
+  getOrderTrace,
+  requestOrderReauthorization,
   updateOrder,
   createManualOrder,
   getAllBatches,
   createBatch,
   updateBatchStatus,
+  getBatchLots,
+  getBatchIngredients,
+  getBakePlan,
+  acceptBakePlan,
   getAllInvoices,
   getInvoice,
   updateInvoiceStatus,
@@ -43,13 +64,88 @@ import {
   getOrderStats,
   getInventoryStats,
   getFreezerStock,
+  getFreezerAvailability,
   getFreezerStockByProduct,
   createFreezerStock,
   updateFreezerStock,
+  quarantineFreezerStock,
+  releaseFreezerStock,
   getFreezerStats,
   seedFreezerStock,
   getActivityLogs,
   getRecentActivity,
+  getOrderRefunds,
+  createOrderRefund,
+  runPaymentReconciliation,
+  runAuthorizationRenewal,
+  runNotificationDelivery,
+  runCustomerLinking,
+  runSubscriptionOrders,
+  getCustomers,
+  getCustomerDetail,
+  requestSignInLink,
+  verifySignIn,
+  signOut,
+  getAccount,
+  getAccountOrders,
+  getReorder,
+  addAccountAddress,
+  updateAccountAddress,
+  deleteAccountAddress,
+  getAccountSubscriptions,
+  skipSubscriptionDelivery,
+  unskipSubscriptionDelivery,
+  pauseAccountSubscription,
+  resumeAccountSubscription,
+  cancelAccountSubscription,
+  getSubscriptions,
+  getSubscriptionObligations,
+  getOrderNotifications,
+  retryNotificationDelivery,
+  sendOrderInvoice,
+  getSmsTemplates,
+  updateSmsTemplate,
+  resetSmsTemplate,
+  textOrderCustomer,
+  handleSmsWebhook,
+  handleStripeWebhook,
+  getAllWebhookEvents,
+  replayWebhookEvent,
+  getAllTaxRates,
+  createTaxRate,
+  updateTaxRate,
+  deleteTaxRate,
+  getAllDeliveryZones,
+  getAvailableSlots,
+  getCapacitySettings,
+  getSlotUsage,
+  createFulfillmentCapacity,
+  updateFulfillmentCapacity,
+  deleteFulfillmentCapacity,
+  createBlackoutDate,
+  deleteBlackoutDate,
+  createDeliveryZone,
+  updateDeliveryZone,
+  deleteDeliveryZone,
+  getAllSuppliers,
+  createSupplier,
+  updateSupplier,
+  getAllPurchaseOrders,
+  getPurchaseOrder,
+  createPurchaseOrder,
+  draftPurchaseOrders,
+  updatePurchaseOrder,
+  updatePurchaseOrderStatus,
+  receivePurchaseOrder,
+  exportPurchaseOrder,
+  getRecallReport,
+  exportRecallReport,
+  getProductCosts,
+  getCostingReport,
+  getAllUsers,
+  inviteUser,
+  updateUser,
+  resetUserPassword,
 } from "./controllers/index.js";
 
 import { z } from "zod";
@@ -61,104 +157,230 @@ export async function registerRoutes(
   await setupSimpleAuth(app);
   registerSimpleAuthRoutes(app);
 
+  const canView = requirePermission("bakehouse:view");
+  const canManageOrders = requirePermission("orders:manage");
+  const canFulfillOrders = requirePermission("orders:fulfill");
+  const canManageProduction = requirePermission("production:manage");
+  const canManageInventory = requirePermission("inventory:manage");
+  const canManageCatalog = requirePermission("catalog:manage");
+  const canManageUsers = requirePermission("users:manage");
+  // Order lookups are the routes worth guessing at, so they get a tight budget per client
+  const limitOrderLookup = rateLimit({ windowMs: 15 * 60 * 1000, max: 10, message: "Too many lookups, please try again in a few minutes" });
+  const limitOrderTracking = rateLimit({ windowMs: 60 * 1000, max: 30 });
+  // Each quote can geocode the address, and the geocoder has its own rate limit to keep to
+  const limitQuotes = rateLimit({ windowMs: 60 * 1000, max: 30, message: "Too many quotes, please try again in a minute" });
+  const limitSignIn = rateLimit({ windowMs: 15 * 60 * 1000, max: 5, message: "Too many sign-in attempts, please try again in a few minutes" });
+
   // ==========================================
   // HEALTH CHECK
   // ==========================================
   app.get("/api/health", healthCheck);
 
+  // ==========================================
+  // SCHEDULED JOBS (Vercel Cron, see vercel.json)
+  // ==========================================
+  app.get("/api/cron/reconcile-payments", requireCronSecret, runPaymentReconciliation);
+  app.get("/api/cron/renew-authorizations", requireCronSecret, runAuthorizationRenewal);
+  app.get("/api/cron/send-notifications", requireCronSecret, runNotificationDelivery);
+  app.get("/api/cron/link-customers", requireCronSecret, runCustomerLinking);
+  app.get("/api/cron/subscription-orders", requireCronSecret, runSubscriptionOrders);
+
   // ==========================================
   // PUBLIC ROUTES (Customer-facing)
   // ==========================================
   app.get("/api/products", getPublicProducts);
+  app.get("/api/product-images/:id", getProductImage);
   app.get("/api/locations", getPublicLocations);
-  app.post("/api/orders", createOrder);
-  app.get("/api/orders/:id", getPublicOrder);
+  app.post("/api/orders/quote", limitQuotes, quoteOrder);
+  app.post("/api/orders", idempotent("orders.create"), createOrder);
+  app.post("/api/orders/lookup", limitOrderLookup, lookupOrder);
+  app.get("/api/orders/:id", limitOrderTracking, getPublicOrder);
 
-  // Public freezer availability - returns product quantities for ordering
-  app.get("/api/freezer/availability", async (req, res) => {
-    try {
-      const freezerStock = await storage.getFreezerStock();
-      
-      const availability: Record<string, number> = {};
-      for (const item of freezerStock) {
-        if (!availability[item.productId]) {
-          availability[item.productId] = 0;
-        }
-        availability[item.productId] += item.quantity;
-      }
-      
-      res.json(availability);
-    } catch (error) {
-      console.error("Error fetching freezer availability:", error);
-      res.status(500).json({ message: "Failed to fetch availability" });
-    }
-  });
+  // ==========================================
+  // CUSTOMER ACCOUNTS (magic-link sign-in)
+  // ==========================================
+  app.post("/api/account/sign-in", limitSignIn, requestSignInLink);
+  app.post("/api/account/verify", limitSignIn, verifySignIn);
+  app.post("/api/account/sign-out", signOut);
+  app.get("/api/account", getAccount);
+  app.get("/api/account/orders", requireCustomer, getAccountOrders);
+  app.get("/api/account/orders/:id/reorder", requireCustomer, getReorder);
+  app.post("/api/account/addresses", requireCustomer, addAccountAddress);
+  app.patch("/api/account/addresses/:id", requireCustomer, updateAccountAddress);
+  app.delete("/api/account/addresses/:id", requireCustomer, deleteAccountAddress);
+  app.get("/api/account/subscriptions", requireCustomer, getAccountSubscriptions);
+  app.post("/api/account/subscriptions/:id/skips", requireCustomer, skipSubscriptionDelivery);
+  app.delete("/api/account/subscriptions/:id/skips/:date", requireCustomer, unskipSubscriptionDelivery);
+  app.post("/api/account/subscriptions/:id/pause", requireCustomer, pauseAccountSubscription);
+  app.post("/api/account/subscriptions/:id/resume", requireCustomer, resumeAccountSubscription);
+  app.post("/api/account/subscriptions/:id/cancel", requireCustomer, cancelAccountSubscription);
+  app.get("/api/freezer/availability", getFreezerAvailability);
+  app.get("/api/availability/slots", getAvailableSlots);
 
   // ==========================================
   // ADMIN ROUTES (Protected)
   // ==========================================
 
   // Orders
-  app.get("/api/admin/orders", isSimpleAuthenticated, getAllOrders);
-  app.post("/api/admin/orders/manual", isSimpleAuthenticated, createManualOrder);
-  app.patch("/api/admin/orders/:id/status", isSimpleAuthenticated, updateOrderStatus);
-  app.patch("/api/admin/orders/:id", isSimpleAuthenticated, updateOrder);
+  app.get("/api/admin/orders", canView, getAllOrders);
+  app.post("/api/admin/orders/manual", canManageOrders, idempotent("orders.manual"), createManualOrder);
+  app.patch("/api/admin/orders/:id/status", canFulfillOrders, updateOrderStatus);
+  app.get("/api/admin/orders/:id/history", canView, getOrderStatusHistory);
+  app.get("/api/admin/orders/:id/trace", canView, getOrderTrace);
+  app.get("/api/admin/orders/:id/notifications", canView, getOrderNotifications);
+  app.get("/api/admin/orders/:id/refunds", canView, getOrderRefunds);
+  app.post("/api/admin/orders/:id/refunds", canManageOrders, createOrderRefund);
+  app.post("/api/admin/orders/:id/reauthorize", canManageOrders, requestOrderReauthorization);
+  app.post("/api/admin/orders/:id/send-invoice", canManageOrders, sendOrderInvoice);
+  app.post("/api/admin/orders/:id/text", canFulfillOrders, textOrderCustomer);
+  app.patch("/api/admin/orders/:id", canManageOrders, updateOrder);
 
   // Products
-  app.get("/api/admin/products", isSimpleAuthenticated, getAllProducts);
-  app.post("/api/admin/products", isSimpleAuthenticated, createProduct);
-  app.patch("/api/admin/products/:id", isSimpleAuthenticated, updateProduct);
-  app.delete("/api/admin/products/:id", isSimpleAuthenticated, deleteProduct);
-  app.get("/api/admin/products/:id/bom", isSimpleAuthenticated, getProductBom);
-  app.put("/api/admin/products/:id/bom", isSimpleAuthenticated, updateProductBom);
+  app.get("/api/admin/products", canView, getAllProducts);
+  app.post("/api/admin/products", canManageCatalog, createProduct);
+  app.patch("/api/admin/products/:id", canManageCatalog, updateProduct);
+  app.delete("/api/admin/products/:id", canManageCatalog, archiveProduct);
+  app.post("/api/admin/products/:id/restore", canManageCatalog, restoreProduct);
+  app.post(
+    "/api/admin/products/:id/image",
+    canManageCatalog,
+    express.raw({ type: "image/*", limit: MAX_IMAGE_BYTES }),
+    uploadProductImage
+  );
+  app.post("/api/admin/products/:id/variants", canManageCatalog, createProductVariant);
+  app.patch("/api/admin/product-variants/:id", canManageCatalog, updateProductVariant);
+  app.get("/api/admin/products/:id/bom", canView, getProductBom);
+  app.put("/api/admin/products/:id/bom", canManageCatalog, updateProductBom);
+  app.put("/api/admin/products/:id/components", canManageCatalog, updateBundleComponents);
+  app.get("/api/admin/products/:id/recipes", canView, getProductRecipes);
 
   // Ingredients
-  app.get("/api/admin/ingredients", isSimpleAuthenticated, getAllIngredients);
-  app.post("/api/admin/ingredients", isSimpleAuthenticated, createIngredient);
-  app.post("/api/admin/ingredients/seed", isSimpleAuthenticated, seedIngredients);
-  app.patch("/api/admin/ingredients/:id", isSimpleAuthenticated, updateIngredient);
-  app.post("/api/admin/ingredients/:id/adjust", isSimpleAuthenticated, adjustIngredientInventory);
+  app.get("/api/admin/ingredients", canView, getAllIngredients);
+  app.get("/api/admin/ingredients/forecast", canView, getIngredientForecast);
+  app.post("/api/admin/ingredients", canManageInventory, createIngredient);
+  app.post("/api/admin/ingredients/seed", canManageInventory, seedIngredients);
+  app.patch("/api/admin/ingredients/:id", canManageInventory, updateIngredient);
+  app.post("/api/admin/ingredients/:id/adjust", canManageInventory, adjustIngredientInventory);
+  app.get("/api/admin/ingredients/:id/lots", canView, getIngredientLots);
+  app.patch("/api/admin/ingredient-lots/:id", canManageInventory, updateIngredientLot);
+
+  // Suppliers & Purchase Orders
+  app.get("/api/admin/suppliers", canView, getAllSuppliers);
+  app.post("/api/admin/suppliers", canManageInventory, createSupplier);
+  app.patch("/api/admin/suppliers/:id", canManageInventory, updateSupplier);
+  app.get("/api/admin/purchase-orders", canView, getAllPurchaseOrders);
+  app.post("/api/admin/purchase-orders", canManageInventory, createPurchaseOrder);
+  app.post("/api/admin/purchase-orders/drafts", canManageInventory, draftPurchaseOrders);
+  app.get("/api/admin/purchase-orders/:id", canView, getPurchaseOrder);
+  app.patch("/api/admin/purchase-orders/:id", canManageInventory, updatePurchaseOrder);
+  app.patch("/api/admin/purchase-orders/:id/status", canManageInventory, updatePurchaseOrderStatus);
+  app.post("/api/admin/purchase-orders/:id/receive", canManageInventory, receivePurchaseOrder);
+  app.get("/api/admin/purchase-orders/:id/export", canView, exportPurchaseOrder);
 
   // Locations
-  app.get("/api/admin/locations", isSimpleAuthenticated, getAllLocations);
-  app.post("/api/admin/locations", isSimpleAuthenticated, createLocation);
-  app.patch("/api/admin/locations/:id", isSimpleAuthenticated, updateLocation);
-  app.get("/api/admin/locations/:id/inventory", isSimpleAuthenticated, getLocationInventory);
+  app.get("/api/admin/locations", canView, getAllLocations);
+  app.post("/api/admin/locations", canManageCatalog, createLocation);
+  app.patch("/api/admin/locations/:id", canManageCatalog, updateLocation);
+  app.get("/api/admin/locations/:id/inventory", canView, getLocationInventory);
+
+  // Delivery Zones
+  app.get("/api/admin/delivery-zones", canView, getAllDeliveryZones);
+  app.post("/api/admin/delivery-zones", canManageCatalog, createDeliveryZone);
+  app.patch("/api/admin/delivery-zones/:id", canManageCatalog, updateDeliveryZone);
+  app.delete("/api/admin/delivery-zones/:id", canManageCatalog, deleteDeliveryZone);
+
+  // Delivery Capacity
+  app.get("/api/admin/capacity", canView, getCapacitySettings);
+  app.get("/api/admin/capacity/slots", canView, getSlotUsage);
+  app.post("/api/admin/capacity", canManageOrders, createFulfillmentCapacity);
+  app.patch("/api/admin/capacity/:id", canManageOrders, updateFulfillmentCapacity);
+  app.delete("/api/admin/capacity/:id", canManageOrders, deleteFulfillmentCapacity);
+  app.post("/api/admin/blackout-dates", canManageOrders, createBlackoutDate);
+  app.delete("/api/admin/blackout-dates/:id", canManageOrders, deleteBlackoutDate);
+
+  // Tax Rates
+  app.get("/api/admin/tax-rates", canView, getAllTaxRates);
+  app.post("/api/admin/tax-rates", canManageCatalog, createTaxRate);
+  app.patch("/api/admin/tax-rates/:id", canManageCatalog, updateTaxRate);
+  app.delete("/api/admin/tax-rates/:id", canManageCatalog, deleteTaxRate);
 
   // Batches
-  app.get("/api/admin/batches", isSimpleAuthenticated, getAllBatches);
-  app.post("/api/admin/batches", isSimpleAuthenticated, createBatch);
-  app.patch("/api/admin/batches/:id/status", isSimpleAuthenticated, updateBatchStatus);
+  app.get("/api/admin/batches", canView, getAllBatches);
+  app.post("/api/admin/batches", canManageProduction, createBatch);
+  app.patch("/api/admin/batches/:id/status", canManageProduction, updateBatchStatus);
+  app.get("/api/admin/batches/:id/lots", canView, getBatchLots);
+  app.get("/api/admin/batches/:id/ingredients", canView, getBatchIngredients);
+  app.get("/api/admin/bake-plan", canView, getBakePlan);
+  app.post("/api/admin/bake-plan", canManageProduction, acceptBakePlan);
 
   // Invoices
-  app.get("/api/admin/invoices", isSimpleAuthenticated, getAllInvoices);
-  app.get("/api/admin/invoices/:id", isSimpleAuthenticated, getInvoice);
-  app.patch("/api/admin/invoices/:id/status", isSimpleAuthenticated, updateInvoiceStatus);
+  app.get("/api/admin/invoices", canView, getAllInvoices);
+  app.get("/api/admin/invoices/:id", canView, getInvoice);
+  app.patch("/api/admin/invoices/:id/status", canManageOrders, updateInvoiceStatus);
 
   // Marketing
-  app.get("/api/admin/marketing", isSimpleAuthenticated, getAllMarketingAssets);
-  app.post("/api/admin/marketing", isSimpleAuthenticated, createMarketingAsset);
+  app.get("/api/admin/marketing", canView, getAllMarketingAssets);
+  app.post("/api/admin/marketing", canManageCatalog, createMarketingAsset);
 
   // Stats
-  app.get("/api/admin/stats/dashboard", isSimpleAuthenticated, getDashboardStats);
-  app.get("/api/admin/stats/orders", isSimpleAuthenticated, getOrderStats);
-  app.get("/api/admin/stats/inventory", isSimpleAuthenticated, getInventoryStats);
-  app.get("/api/admin/stats/freezer", isSimpleAuthenticated, getFreezerStats);
+  app.get("/api/admin/stats/dashboard", canView, getDashboardStats);
+  app.get("/api/admin/stats/orders", canView, getOrderStats);
+  app.get("/api/admin/stats/inventory", canView, getInventoryStats);
+  app.get("/api/admin/stats/freezer", canView, getFreezerStats);
 
   // Freezer Stock
-  app.get("/api/admin/freezer", isSimpleAuthenticated, getFreezerStock);
-  app.get("/api/admin/freezer/product/:productId", isSimpleAuthenticated, getFreezerStockByProduct);
-  app.post("/api/admin/freezer", isSimpleAuthenticated, createFreezerStock);
-  app.post("/api/admin/freezer/seed", isSimpleAuthenticated, seedFreezerStock);
-  app.patch("/api/admin/freezer/:id", isSimpleAuthenticated, updateFreezerStock);
+  app.get("/api/admin/freezer", canView, getFreezerStock);
+  app.get("/api/admin/freezer/product/:productId", canView, getFreezerStockByProduct);
+  app.post("/api/admin/freezer", canManageInventory, createFreezerStock);
+  app.post("/api/admin/freezer/seed", canManageInventory, seedFreezerStock);
+  app.post("/api/admin/freezer/quarantine", canManageInventory, quarantineFreezerStock);
+  app.post("/api/admin/freezer/release", canManageInventory, releaseFreezerStock);
+  app.patch("/api/admin/freezer/:id", canManageInventory, updateFreezerStock);
+
+  // Recalls
+  app.get("/api/admin/recalls", canView, getRecallReport);
+  app.get("/api/admin/recalls/export", canView, exportRecallReport);
+
+  // Costing
+  app.get("/api/admin/costing", canView, getCostingReport);
+  app.get("/api/admin/costing/products", canView, getProductCosts);
+
+  // Text Messages
+  app.get("/api/admin/sms-templates", canView, getSmsTemplates);
+  app.put("/api/admin/sms-templates/:template", canManageCatalog, updateSmsTemplate);
+  app.delete("/api/admin/sms-templates/:template", canManageCatalog, resetSmsTemplate);
 
   // Activity Logs
-  app.get("/api/admin/activity", isSimpleAuthenticated, getActivityLogs);
-  app.get("/api/admin/activity/recent", isSimpleAuthenticated, getRecentActivity);
+  app.get("/api/admin/activity", canView, getActivityLogs);
+  app.get("/api/admin/activity/recent", canView, getRecentActivity);
+
+  // Customers
+  app.get("/api/admin/customers", canView, getCustomers);
+  app.get("/api/admin/customers/:id", canView, getCustomerDetail);
+  app.post("/api/admin/customers/link-orders", canManageOrders, runCustomerLinking);
+
+  // Subscriptions
+  app.get("/api/admin/subscriptions", canView, getSubscriptions);
+  app.get("/api/admin/subscriptions/upcoming", canView, getSubscriptionObligations);
+  app.post("/api/admin/subscriptions/place-orders", canManageOrders, runSubscriptionOrders);
+
+  // Payments
+  app.post("/api/admin/payments/reconcile", canManageOrders, runPaymentReconciliation);
+  app.post("/api/admin/payments/renew-authorizations", canManageOrders, runAuthorizationRenewal);
+  app.post("/api/admin/notifications/send", canManageOrders, runNotificationDelivery);
+  app.post("/api/admin/notifications/:id/retry", canManageOrders, retryNotificationDelivery);
+  app.get("/api/admin/webhooks", canManageOrders, getAllWebhookEvents);
+  app.post("/api/admin/webhooks/:id/replay", canManageOrders, replayWebhookEvent);
+
+  // Users
+  app.get("/api/admin/users", canManageUsers, getAllUsers);
+  app.post("/api/admin/users", canManageUsers, inviteUser);
+  app.patch("/api/admin/users/:id", canManageUsers, updateUser);
+  app.post("/api/admin/users/:id/reset-password", canManageUsers, resetUserPassword);
 
   // Inventory Adjustments
-  app.get("/api/admin/inventory-adjustments", isSimpleAuthenticated, getInventoryAdjustments);
-  app.post("/api/admin/inventory-adjustments", isSimpleAuthenticated, async (req, res) => {
+  app.get("/api/admin/inventory-adjustments", canView, getInventoryAdjustments);
+  app.post("/api/admin/inventory-adjustments", canManageInventory, async (req, res) => {
     try {
       const adjustmentSchema = z.object({
         ingredientId: z.string().min(1),
@@ -176,12 +398,13 @@ export async function registerRoutes(
       }
 
       const { ingredientId, adjustmentType, quantity, reason } = parseResult.data;
+      const actor = getActor(req);
       const adjustment = await storage.adjustIngredientInventory(
         ingredientId,
         quantity,
         adjustmentType,
         reason,
-        "admin"
+        actor.username
       );
 
       await storage.logActivity(
@@ -189,8 +412,8 @@ export async function registerRoutes(
         "ingredient",
         ingredientId,
         { adjustmentType, quantity, reason },
-        undefined,
-        "admin"
+        actor.id,
+        actor.username
       );
 
       res.json(adjustment);
@@ -203,49 +426,8 @@ export async function registerRoutes(
   // ==========================================
   // WEBHOOKS
   // ==========================================
-  app.post("/api/webhooks/stripe", async (req, res) => {
-    const sig = req.headers["stripe-signature"];
-    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
-
-    if (!webhookSecret) {
-      return res.json({ received: true });
-    }
-
-    try {
-      const event = getStripe().webhooks.constructEvent(
-        req.body,
-        sig as string,
-        webhookSecret
-      );
-
-      switch (event.type) {
-        case "payment_intent.payment_failed": {
-          const paymentIntent = event.data.object as Stripe.PaymentIntent;
-          const orders = await storage.getOrders();
-          const order = orders.find(o => o.stripePaymentIntentId === paymentIntent.id);
-          if (order) {
-            await storage.updateOrder(order.id, { stripePaymentStatus: "failed" });
-          }
-          break;
-        }
-        case "payment_intent.canceled": {
-          const paymentIntent = event.data.object as Stripe.PaymentIntent;
-          const orders = await storage.getOrders();
-          const order = orders.find(o => o.stripePaymentIntentId === paymentIntent.id);
-          if (order && order.status === "new") {
-            await storage.updateOrderStatus(order.id, "cancelled");
-            await storage.updateOrder(order.id, { stripePaymentStatus: "cancelled" });
-          }
-          break;
-        }
-      }
-
-      res.json({ received: true });
-    } catch (err: any) {
-      console.error("Webhook error:", err.message);
-      res.status(400).send(`Webhook Error: ${err.message}`);
-    }
-  });
+  app.post("/api/webhooks/stripe", handleStripeWebhook);
+  app.post("/api/webhooks/sms", handleSmsWebhook);
 
   return httpServer;
 }
@@ -1,10 +1,18 @@
-import type { Express, RequestHandler } from "express";
+import type { Express, Request, RequestHandler } from "express";
 import session from "express-session";
 import connectPgSimple from "connect-pg-simple";
+import { z } from "zod";
 import { getPool } from "./db.js";
+import { storage } from "./storage.js";
+import { hashPassword, verifyPassword } from "./lib/passwords.js";
+import { ROLE_PERMISSIONS, hasPermission, type Permission, type User, type UserRole } from "../shared/schema.js";
 
-const VALID_USERNAME = "Dhavi.co";
-const VALID_PASSWORD = "SpeltBagels";
+// Credentials for the first owner account, created when the users table is empty.
+// Change the password from the Team page after the first login. The fallback password is
+// for local development only; production won't create the account without one.
+const BOOTSTRAP_OWNER_USERNAME = process.env.BOOTSTRAP_OWNER_USERNAME || "Dhavi.co";
+const BOOTSTRAP_OWNER_PASSWORD = process.env.BOOTSTRAP_OWNER_PASSWORD
+  || (process.env.NODE_ENV === "production" ? undefined : "SpeltBagels");
 
 if (process.env.NODE_ENV === "production" && !process.env.SESSION_SECRET) {
   console.warn("WARNING: SESSION_SECRET not set in production. Using fallback secret.");
@@ -15,7 +23,9 @@ const PgSession = connectPgSimple(session);
 declare module "express-session" {
   interface SessionData {
     user?: {
+      id: string;
       username: string;
+      role: UserRole;
       loggedInAt: string;
     };
   }
@@ -79,6 +89,43 @@ export async function setupSimpleAuth(app: Express) {
       },
     })
   );
+
+  await ensureBootstrapOwner();
+}
+
+async function ensureBootstrapOwner() {
+  try {
+    const existing = await storage.getUsers();
+    if (existing.some(u => u.username)) return;
+    if (!BOOTSTRAP_OWNER_PASSWORD) {
+      console.error("No bakehouse accounts exist and BOOTSTRAP_OWNER_PASSWORD isn't set - set it to create the owner account.");
+      return;
+    }
+
+    await storage.createUser({
+      username: BOOTSTRAP_OWNER_USERNAME,
+      passwordHash: await hashPassword(BOOTSTRAP_OWNER_PASSWORD),
+      firstName: "Owner",
+      role: "owner",
+      isActive: true,
+    });
+    console.warn(`Created bootstrap owner account "${BOOTSTRAP_OWNER_USERNAME}". Change its password after logging in.`);
+  } catch (error) {
+    // Don't block startup if the users table hasn't been migrated yet
+    console.error("Failed to ensure bootstrap owner account:", error);
+  }
+}
+
+function toAuthUser(user: User) {
+  return {
+    id: user.id,
+    username: user.username,
+    firstName: user.firstName || "",
+    lastName: user.lastName || "",
+    email: user.email || "",
+    role: user.role,
+    permissions: ROLE_PERMISSIONS[user.role as UserRole] || [],
+  };
 }
 
 export function registerSimpleAuthRoutes(app: Express) {
@@ -89,24 +136,21 @@ export function registerSimpleAuthRoutes(app: Express) {
       const { username, password } = req.body;
       
       console.log("Login attempt for username:", username ? `"${username}"` : "(missing)");
-      console.log("Password provided:", password ? "yes" : "no");
 
       if (!username || !password) {
         console.log("Login failed: Missing credentials");
         return res.status(400).json({ message: "Username and password are required" });
       }
 
-      // Debug: Check what's being compared
-      console.log("Username match:", username === VALID_USERNAME);
-      console.log("Password match:", password === VALID_PASSWORD);
-      console.log("Expected username:", VALID_USERNAME);
+      const user = await storage.getUserByUsername(username);
+      const valid = !!user?.passwordHash && user.isActive && await verifyPassword(password, user.passwordHash);
 
-      if (username === VALID_USERNAME && password === VALID_PASSWORD) {
-        console.log("Credentials valid, attempting to create session...");
-        
+      if (user && valid) {
         try {
           req.session.user = {
-            username,
+            id: user.id,
+            username: user.username!,
+            role: user.role as UserRole,
             loggedInAt: new Date().toISOString(),
           };
           
@@ -116,16 +160,17 @@ export function registerSimpleAuthRoutes(app: Express) {
                 console.error("Session save error:", err);
                 reject(err);
               } else {
-                console.log("Session saved successfully");
                 resolve();
               }
             });
           });
+
+          await storage.updateUser(user.id, { lastLoginAt: new Date() });
           
           console.log("Login successful");
           return res.json({ 
             success: true,
-            user: { username }
+            user: toAuthUser(user),
           });
         } catch (sessionError) {
           console.error("Session error during login:", sessionError);
@@ -148,16 +193,47 @@ export function registerSimpleAuthRoutes(app: Express) {
     }
   });
 
-  app.get("/api/auth/user", (req, res) => {
-    if (req.session.user) {
-      return res.json({
-        username: req.session.user.username,
-        firstName: "Baker",
-        lastName: "",
-        email: "",
+  app.get("/api/auth/user", async (req, res) => {
+    try {
+      const user = await loadSessionUser(req);
+      if (user) {
+        return res.json(toAuthUser(user));
+      }
+      return res.status(401).json({ message: "Not authenticated" });
+    } catch (error) {
+      console.error("Error fetching session user:", error);
+      return res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+
+  app.post("/api/auth/password", isSimpleAuthenticated, async (req, res) => {
+    try {
+      const schema = z.object({
+        currentPassword: z.string().min(1),
+        newPassword: z.string().min(8, "Password must be at least 8 characters"),
       });
+      const parseResult = schema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: parseResult.error.errors[0]?.message || "Invalid password data",
+          errors: parseResult.error.errors,
+        });
+      }
+
+      const user = await storage.getUser(req.session.user!.id);
+      const { currentPassword, newPassword } = parseResult.data;
+      if (!user?.passwordHash || !(await verifyPassword(currentPassword, user.passwordHash))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      await storage.updateUser(user.id, { passwordHash: await hashPassword(newPassword) });
+      // Other browsers signed in with the old password are signed out; this one stays
+      await storage.deleteUserSessions(user.id, req.sessionID);
+      return res.json({ success: true });
+    } catch (error) {
+      console.error("Error changing password:", error);
+      return res.status(500).json({ message: "Failed to change password" });
     }
-    return res.status(401).json({ message: "Not authenticated" });
   });
 
   app.post("/api/auth/logout", (req, res) => {
@@ -177,9 +253,64 @@ export function registerSimpleAuthRoutes(app: Express) {
   });
 }
 
-export const isSimpleAuthenticated: RequestHandler = (req, res, next) => {
-  if (req.session.user) {
-    return next();
+// Re-reads the user on every request so disabling an account or changing a role
+// takes effect immediately instead of when the session expires.
+async function loadSessionUser(req: Request): Promise<User | undefined> {
+  const sessionUser = req.session.user;
+  if (!sessionUser?.id) return undefined;
+
+  const user = await storage.getUser(sessionUser.id);
+  if (!user || !user.isActive) return undefined;
+
+  sessionUser.role = user.role as UserRole;
+  return user;
+}
+
+export const isSimpleAuthenticated: RequestHandler = async (req, res, next) => {
+  try {
+    if (await loadSessionUser(req)) {
+      return next();
+    }
+    return res.status(401).json({ message: "Unauthorized" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export function requirePermission(permission: Permission): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const user = await loadSessionUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      if (!hasPermission(user.role, permission)) {
+        return res.status(403).json({ message: "You don't have permission to do that" });
+      }
+      return next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// For checks that depend on the request body (e.g. which status an order moves to).
+// Only valid behind isSimpleAuthenticated/requirePermission, which refresh the session role.
+export function sessionCan(req: Request, permission: Permission): boolean {
+  return hasPermission(req.session.user?.role, permission);
+}
+
+// Who to record in activity logs and inventory adjustments
+export function getActor(req: Request): { id?: string; username: string } {
+  const user = req.session.user;
+  return user ? { id: user.id, username: user.username } : { username: "system" };
+}
+
+// Scheduled jobs. Vercel Cron sends `Authorization: Bearer $CRON_SECRET`.
+export const requireCronSecret: RequestHandler = (req, res, next) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.header("Authorization") !== `Bearer ${secret}`) {
+    return res.status(401).json({ message: "Unauthorized" });
   }
-  return res.status(401).json({ message: "Unauthorized" });
+  next();
 };
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { allocateFifo, checkRefundLines, nextDocumentNumber } from "./storage.js";
+import { PaymentError, RefundLimitError } from "./lib/errors.js";
+
+describe("checkRefundLines", () => {
+  const ordered = [
+    { id: "item-1", quantity: 6 },
+    { id: "item-2", quantity: 2 },
+  ];
+
+  it("allows refunding up to what was ordered", () => {
+    expect(() => checkRefundLines(ordered, [], [
+      { orderItemId: "item-1", productName: "Sesame", quantity: 6 },
+      { orderItemId: "item-2", productName: "Plain", quantity: 1 },
+    ])).not.toThrow();
+  });
+
+  it("checks the first refund too", () => {
+    expect(() => checkRefundLines(ordered, [], [
+      { orderItemId: "item-2", productName: "Plain", quantity: 3 },
+    ])).toThrow(RefundLimitError);
+  });
+
+  it("counts what earlier refunds already took", () => {
+    const refunded = [{ orderItemId: "item-1", quantity: 4 }];
+    expect(() => checkRefundLines(ordered, refunded, [
+      { orderItemId: "item-1", productName: "Sesame", quantity: 2 },
+    ])).not.toThrow();
+    expect(() => checkRefundLines(ordered, refunded, [
+      { orderItemId: "item-1", productName: "Sesame", quantity: 3 },
+    ])).toThrow("Only 2 Sesame left to refund (requested 3)");
+  });
+
+  it("adds up two lines for the same item", () => {
+    expect(() => checkRefundLines(ordered, [], [
+      { orderItemId: "item-2", productName: "Plain", quantity: 1 },
+      { orderItemId: "item-2", productName: "Plain", quantity: 2 },
+    ])).toThrow(RefundLimitError);
+  });
+
+  it("rejects items that aren't on the order", () => {
+    expect(() => checkRefundLines(ordered, [], [
+      { orderItemId: "someone-elses-item", productName: "Everything", quantity: 1 },
+    ])).toThrow(PaymentError);
+  });
+});
+
+describe("nextDocumentNumber", () => {
+  it("starts each year at 0001", () => {
+    expect(nextDocumentNumber("CN", 2026, undefined)).toBe("CN-2026-0001");
+  });
+
+  it("follows the last number issued", () => {
+    expect(nextDocumentNumber("CN", 2026, "CN-2026-0041")).toBe("CN-2026-0042");
+    expect(nextDocumentNumber("INV", 2026, "INV-2026-9999")).toBe("INV-2026-10000");
+  });
+});
+
+describe("allocateFifo", () => {
+  const rows = [
+    { id: "oldest", quantity: 12 },
+    { id: "middle", quantity: 6 },
+    { id: "newest", quantity: 24 },
+  ];
+
+  it("takes the oldest bags first", () => {
+    expect(allocateFifo(rows, new Map(), 15)).toEqual({
+      allocations: [
+        { freezerStockId: "oldest", quantity: 12 },
+        { freezerStockId: "middle", quantity: 3 },
+      ],
+      remaining: 0,
+    });
+  });
+
+  it("leaves alone what other orders hold", () => {
+    const held = new Map([["oldest", 12], ["middle", 4]]);
+    expect(allocateFifo(rows, held, 5)).toEqual({
+      allocations: [
+        { freezerStockId: "middle", quantity: 2 },
+        { freezerStockId: "newest", quantity: 3 },
+      ],
+      remaining: 0,
+    });
+  });
+
+  it("reports what the freezer can't cover", () => {
+    const held = new Map([["newest", 20]]);
+    const { allocations, remaining } = allocateFifo(rows, held, 30);
+    expect(allocations.reduce((sum, allocation) => sum + allocation.quantity, 0)).toBe(22);
+    expect(remaining).toBe(8);
+  });
+
+  it("holds nothing from an empty freezer", () => {
+    expect(allocateFifo([], new Map(), 6)).toEqual({ allocations: [], remaining: 6 });
+  });
+});
@@ -1,29 +1,72 @@
-import { eq, desc, and, gte, lte, sql } from "drizzle-orm";
-import { db } from "./db.js";
+import { eq, ne, desc, asc, and, or, gt, gte, lt, lte, like, isNull, isNotNull, inArray, notInArray, sql } from "drizzle-orm";
+import { db, type Database, type Transaction } from "./db.js";
+import { InsufficientStockError, PaymentError, RefundLimitError, SlotUnavailableError, PurchaseOrderStateError } from "./lib/errors.js";
 import {
   ingredients,
   products,
+  productVariants,
+  bundleComponents,
   billOfMaterials,
+  recipeVersions,
   locations,
+  deliveryZones,
+  taxRates,
+  fulfillmentCapacity,
+  blackoutDates,
   batches,
   batchItems,
+  batchOrders,
   locationInventory,
   orders,
   orderItems,
+  orderStatusHistory,
   marketingAssets,
   invoices,
   invoiceItems,
+  refunds,
+  refundItems,
   inventoryAdjustments,
+  ingredientLots,
+  batchIngredientLots,
+  suppliers,
+  purchaseOrders,
+  purchaseOrderItems,
   freezerStock,
+  freezerReservations,
   activityLogs,
+  idempotencyKeys,
+  webhookEvents,
+  notifications,
+  messageTemplates,
+  customers,
+  customerAddresses,
+  customerSignInTokens,
+  productImages,
+  customerSessions,
+  subscriptions,
+  subscriptionItems,
+  subscriptionSkips,
   type Ingredient,
   type InsertIngredient,
   type Product,
   type InsertProduct,
+  type ProductVariant,
+  type InsertProductVariant,
+  type BundleComponent,
   type BillOfMaterial,
   type InsertBom,
+  type RecipeVersion,
+  type InsertRecipeVersion,
   type Location,
   type InsertLocation,
+  type DeliveryZone,
+  type InsertDeliveryZone,
+  type TaxRate,
+  type InsertTaxRate,
+  type FulfillmentCapacity,
+  type InsertFulfillmentCapacity,
+  type BlackoutDate,
+  type InsertBlackoutDate,
   type Batch,
   type InsertBatch,
   type BatchItem,
@@ -32,6 +75,8 @@ import {
   type InsertLocationInventory,
   type Order,
   type InsertOrder,
+  type OrderStatusHistory,
+  type InsertOrderStatusHistory,
   type OrderItem,
   type InsertOrderItem,
   type MarketingAsset,
@@ -40,33 +85,98 @@ import {
   type InsertInvoice,
   type InvoiceItem,
   type InsertInvoiceItem,
+  type Refund,
+  type InsertRefund,
+  type RefundItem,
+  type InsertRefundItem,
   type InventoryAdjustment,
   type InsertInventoryAdjustment,
+  type IngredientLot,
+  type BatchIngredientLot,
+  type InsertIngredientLot,
+  type Supplier,
+  type InsertSupplier,
+  type PurchaseOrder,
+  type InsertPurchaseOrder,
+  type PurchaseOrderItem,
+  type InsertPurchaseOrderItem,
   type FreezerStock,
   type InsertFreezerStock,
+  type FreezerReservation,
+  type IdempotencyKey,
+  type WebhookEvent,
+  type InsertWebhookEvent,
+  type Notification,
+  type InsertNotification,
+  type MessageTemplate,
+  type Customer,
+  type InsertCustomer,
+  type CustomerAddress,
+  type InsertCustomerAddress,
+  type CustomerSignInToken,
+  type ProductImage,
+  type CustomerSession,
+  type Subscription,
+  type InsertSubscription,
+  type SubscriptionItem,
+  type InsertSubscriptionItem,
   type ActivityLog,
   type InsertActivityLog,
+  users,
+  sessions,
+  type User,
+  type UpsertUser,
+  DEFAULT_AUTHORIZATION_DAYS,
+  bagelLines,
 } from "../shared/schema.js";
 
 export interface IStorage {
+  // Users
+  getUsers(): Promise<User[]>;
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(data: UpsertUser): Promise<User>;
+  updateUser(id: string, data: Partial<UpsertUser>): Promise<User | undefined>;
+  deleteUserSessions(userId: string, exceptSid?: string): Promise<number>;
+
   // Ingredients
   getIngredients(): Promise<Ingredient[]>;
   getIngredient(id: string): Promise<Ingredient | undefined>;
   createIngredient(data: InsertIngredient): Promise<Ingredient>;
   updateIngredient(id: string, data: Partial<InsertIngredient>): Promise<Ingredient | undefined>;
-  deductIngredients(deductions: { ingredientId: string; quantity: number }[]): Promise<void>;
+  deductIngredients(deductions: { ingredientId: string; quantity: number }[], batchId?: string): Promise<void>;
+
+  // Ingredient Lots
+  getIngredientLots(ingredientId: string): Promise<(IngredientLot & { supplier: Supplier | null })[]>;
+  getExpiredLotTotals(): Promise<Record<string, number>>;
+  updateIngredientLot(id: string, data: Partial<Pick<InsertIngredientLot, "lotCode" | "expiresAt" | "notes">>): Promise<IngredientLot | undefined>;
+  getBatchLots(batchId: string): Promise<BatchLotUsage[]>;
+  getIngredientLot(id: string): Promise<IngredientLot | undefined>;
+  getBatchIdsUsing(source: { lotId?: string; ingredientId?: string }): Promise<string[]>;
 
   // Products
   getProducts(): Promise<Product[]>;
   getProduct(id: string): Promise<Product | undefined>;
   createProduct(data: InsertProduct): Promise<Product>;
   updateProduct(id: string, data: Partial<InsertProduct>): Promise<Product | undefined>;
-  deleteProduct(id: string): Promise<void>;
+  setProductArchived(id: string, archived: boolean): Promise<Product | undefined>;
+  createProductImage(productId: string, contentType: string, data: Buffer): Promise<ProductImage>;
+  getProductImage(id: string): Promise<ProductImage | undefined>;
+  deleteProductImage(id: string): Promise<void>;
+  getProductVariants(productId?: string): Promise<ProductVariant[]>;
+  getProductVariant(id: string): Promise<ProductVariant | undefined>;
+  createProductVariant(data: InsertProductVariant): Promise<ProductVariant>;
+  updateProductVariant(id: string, data: Partial<InsertProductVariant>): Promise<ProductVariant | undefined>;
+  getBundleComponents(bundleId?: string): Promise<BundleComponent[]>;
+  setBundleComponents(bundleId: string, components: { productId: string; quantity?: number }[]): Promise<BundleComponent[]>;
 
   // Bill of Materials
-  getBomForProduct(productId: string): Promise<(BillOfMaterial & { ingredient: Ingredient })[]>;
-  createBom(data: InsertBom): Promise<BillOfMaterial>;
-  deleteBomForProduct(productId: string): Promise<void>;
+  getBomForProduct(productId: string): Promise<RecipeLine[]>;
+  getRecipe(productId: string, versionId?: string | null): Promise<Recipe>;
+  getRecipeVersions(productId: string): Promise<RecipeVersionDetail[]>;
+  createRecipeVersion(data: Omit<InsertRecipeVersion, "version">, lines: Omit<InsertBom, "productId" | "recipeVersionId">[]): Promise<RecipeVersion>;
+  getBomForIngredient(ingredientId: string): Promise<BillOfMaterial[]>;
+  pinBomUnits(ingredientId: string, unit: string): Promise<void>;
 
   // Locations
   getLocations(): Promise<Location[]>;
@@ -74,26 +184,103 @@ export interface IStorage {
   createLocation(data: InsertLocation): Promise<Location>;
   updateLocation(id: string, data: Partial<InsertLocation>): Promise<Location | undefined>;
 
+  // Delivery Zones
+  getDeliveryZones(): Promise<DeliveryZone[]>;
+  getActiveDeliveryZones(): Promise<(DeliveryZone & { location: Location })[]>;
+  createDeliveryZone(data: InsertDeliveryZone): Promise<DeliveryZone>;
+  updateDeliveryZone(id: string, data: Partial<InsertDeliveryZone>): Promise<DeliveryZone | undefined>;
+  deleteDeliveryZone(id: string): Promise<boolean>;
+
+  // Tax Rates
+  getTaxRates(): Promise<TaxRate[]>;
+  findTaxRate(state: string, zipCode: string): Promise<TaxRate | undefined>;
+  createTaxRate(data: InsertTaxRate): Promise<TaxRate>;
+  updateTaxRate(id: string, data: Partial<InsertTaxRate>): Promise<TaxRate | undefined>;
+  deleteTaxRate(id: string): Promise<boolean>;
+
+  // Fulfillment Capacity
+  getFulfillmentCapacity(): Promise<FulfillmentCapacity[]>;
+  createFulfillmentCapacity(data: InsertFulfillmentCapacity): Promise<FulfillmentCapacity>;
+  updateFulfillmentCapacity(id: string, data: Partial<InsertFulfillmentCapacity>): Promise<FulfillmentCapacity | undefined>;
+  deleteFulfillmentCapacity(id: string): Promise<boolean>;
+  getBlackoutDates(from?: string, to?: string): Promise<BlackoutDate[]>;
+  createBlackoutDate(data: InsertBlackoutDate): Promise<BlackoutDate>;
+  deleteBlackoutDate(id: string): Promise<boolean>;
+  getSlotUsage(from: Date, to: Date): Promise<SlotUsage[]>;
+
   // Batches
-  getBatches(): Promise<(Batch & { items: (BatchItem & { product: Product })[] })[]>;
+  getBatches(): Promise<(Batch & { items: (BatchItem & { product: Product })[]; orderIds: string[] })[]>;
   getBatch(id: string): Promise<Batch | undefined>;
   getBatchItems(batchId: string): Promise<BatchItem[]>;
   createBatch(data: InsertBatch): Promise<Batch>;
   updateBatchStatus(id: string, status: string): Promise<Batch | undefined>;
   createBatchItem(data: InsertBatchItem): Promise<BatchItem>;
+  createPlannedBatch(data: InsertBatch, items: Omit<InsertBatchItem, "batchId">[], orderIds: string[]): Promise<Batch>;
+  getBatchOrderIds(batchId: string): Promise<string[]>;
+  getBatchesForOrder(orderId: string): Promise<Batch[]>;
+  getPlannedOrderIds(orderIds: string[]): Promise<string[]>;
+  getPlannableOrders(from: Date, to: Date): Promise<PlannableOrder[]>;
 
   // Location Inventory
   getLocationInventory(locationId: string): Promise<(LocationInventory & { product: Product })[]>;
   updateLocationInventory(locationId: string, productId: string, delta: number): Promise<void>;
 
+  // Customers
+  getCustomer(id: string): Promise<Customer | undefined>;
+  getCustomersBySmsPhone(phone: string): Promise<Customer[]>;
+  upsertCustomer(data: { email: string; name: string; phone?: string | null }): Promise<Customer>;
+  updateCustomer(id: string, data: Partial<InsertCustomer>): Promise<Customer | undefined>;
+  getCustomers(): Promise<CustomerSummary[]>;
+  getCustomerSummary(id: string): Promise<CustomerSummary | undefined>;
+  getCustomerByEmail(email: string): Promise<Customer | undefined>;
+  getOrdersForCustomer(customerId: string): Promise<(Order & { items: (OrderItem & { product: Product })[] })[]>;
+  getUnlinkedOrders(limit?: number): Promise<Order[]>;
+  getCustomerAddresses(customerId: string): Promise<CustomerAddress[]>;
+  saveCustomerAddress(customerId: string, address: CustomerAddressFields): Promise<CustomerAddress>;
+  updateCustomerAddress(
+    id: string,
+    customerId: string,
+    data: Partial<Pick<InsertCustomerAddress, "label" | "deliveryInstructions" | "isDefault">>
+  ): Promise<CustomerAddress | undefined>;
+  deleteCustomerAddress(id: string, customerId: string): Promise<boolean>;
+  createCustomerSignInToken(customerId: string, tokenHash: string, expiresAt: Date): Promise<CustomerSignInToken>;
+  redeemCustomerSignInToken(tokenHash: string, now?: Date): Promise<CustomerSignInToken | undefined>;
+  createCustomerSession(customerId: string, tokenHash: string, expiresAt: Date): Promise<CustomerSession>;
+  getCustomerSession(tokenHash: string, now?: Date): Promise<CustomerSession | undefined>;
+  deleteCustomerSession(tokenHash: string): Promise<void>;
+
+  // Subscriptions
+  createSubscription(data: InsertSubscription, items: Omit<InsertSubscriptionItem, "subscriptionId">[]): Promise<Subscription>;
+  getSubscription(id: string): Promise<SubscriptionDetail | undefined>;
+  getSubscriptions(): Promise<SubscriptionDetail[]>;
+  getSubscriptionsForCustomer(customerId: string): Promise<SubscriptionDetail[]>;
+  getDueSubscriptions(through: string): Promise<SubscriptionDetail[]>;
+  updateSubscription(id: string, data: Partial<InsertSubscription>): Promise<Subscription | undefined>;
+  skipSubscriptionDelivery(subscriptionId: string, date: string): Promise<void>;
+  unskipSubscriptionDelivery(subscriptionId: string, date: string): Promise<boolean>;
+  getSubscriptionOrder(subscriptionId: string, fulfillmentDate: Date): Promise<Order | undefined>;
+
   // Orders
   getOrders(): Promise<(Order & { location?: Location; items: (OrderItem & { product: Product })[] })[]>;
   getOrder(id: string): Promise<(Order & { location?: Location; items: (OrderItem & { product: Product })[] }) | undefined>;
   createOrder(data: InsertOrder): Promise<Order>;
+  createOrderWithItems(
+    data: InsertOrder,
+    items: Omit<InsertOrderItem, "orderId">[],
+    options: { history: Omit<InsertOrderStatusHistory, "orderId" | "fromStatus" | "toStatus">; freezer: { allowPartial?: boolean; deduct?: boolean } }
+  ): Promise<Order & { items: OrderItem[]; reservations: FreezerReservation[] }>;
+  getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | undefined>;
+  getOrderByNumber(orderNumber: number): Promise<Order | undefined>;
+  getOrdersByPaymentIntentIds(paymentIntentIds: string[]): Promise<Order[]>;
+  getStaleNewOrders(createdBefore: Date): Promise<Order[]>;
+  getOrdersWithExpiringHolds(expiringBefore: Date): Promise<Order[]>;
   updateOrder(id: string, data: Partial<InsertOrder>): Promise<Order | undefined>;
-  updateOrderStatus(id: string, status: string): Promise<Order | undefined>;
+  transitionOrderStatus(id: string, from: string, to: string, entry: Omit<InsertOrderStatusHistory, "orderId" | "fromStatus" | "toStatus">): Promise<Order | undefined>;
   createOrderItem(data: InsertOrderItem): Promise<OrderItem>;
 
+  // Order Status History
+  getOrderStatusHistory(orderId: string): Promise<OrderStatusHistory[]>;
+
   // Marketing Assets
   getMarketingAssets(): Promise<MarketingAsset[]>;
   createMarketingAsset(data: InsertMarketingAsset): Promise<MarketingAsset>;
@@ -107,25 +294,528 @@ export interface IStorage {
   updateInvoiceStatus(id: string, status: string): Promise<Invoice | undefined>;
   getNextInvoiceNumber(): Promise<string>;
 
+  // Refunds
+  getRefundsForOrder(orderId: string): Promise<(Refund & { items: RefundItem[] })[]>;
+  getRefundByStripeId(stripeRefundId: string): Promise<Refund | undefined>;
+  createRefund(data: Omit<InsertRefund, "creditNoteNumber">, items: InsertRefundItem[]): Promise<Refund & { items: RefundItem[] }>;
+  updateRefund(id: string, data: Partial<InsertRefund>): Promise<Refund | undefined>;
+  getRefundedTotals(orderIds: string[]): Promise<Record<string, number>>;
+
   // Inventory Adjustments
   getInventoryAdjustments(ingredientId?: string): Promise<(InventoryAdjustment & { ingredient: Ingredient })[]>;
   createInventoryAdjustment(data: InsertInventoryAdjustment): Promise<InventoryAdjustment>;
-  adjustIngredientInventory(ingredientId: string, quantity: number, type: string, reason?: string, adjustedBy?: string): Promise<InventoryAdjustment>;
+  adjustIngredientInventory(ingredientId: string, quantity: number, type: string, reason?: string, adjustedBy?: string, lot?: LotDetails): Promise<InventoryAdjustment>;
+
+  // Suppliers
+  getSuppliers(): Promise<Supplier[]>;
+  getSupplier(id: string): Promise<Supplier | undefined>;
+  createSupplier(data: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: string, data: Partial<InsertSupplier>): Promise<Supplier | undefined>;
+
+  // Purchase Orders
+  getPurchaseOrders(): Promise<PurchaseOrderDetail[]>;
+  getPurchaseOrder(id: string): Promise<PurchaseOrderDetail | undefined>;
+  createPurchaseOrder(data: Omit<InsertPurchaseOrder, "poNumber" | "total">, items: InsertPurchaseOrderItem[]): Promise<PurchaseOrder>;
+  updatePurchaseOrder(id: string, data: Partial<Omit<InsertPurchaseOrder, "poNumber" | "total">>, items?: InsertPurchaseOrderItem[]): Promise<PurchaseOrder | undefined>;
+  receivePurchaseOrder(id: string, lines: ReceivedLine[], adjustedBy?: string): Promise<PurchaseOrder>;
 
   // Freezer Stock
   getFreezerStock(): Promise<(FreezerStock & { product: Product })[]>;
   getFreezerStockByProduct(productId: string): Promise<FreezerStock[]>;
+  getFreezerStockByIds(ids: string[]): Promise<FreezerStock[]>;
+  getFreezerStockForBatches(batchIds: string[]): Promise<(FreezerStock & { product: Product })[]>;
+  setFreezerQuarantine(ids: string[], reason: string | null): Promise<{ stock: FreezerStock[]; holds: QuarantinedHold[] }>;
   createFreezerStock(data: InsertFreezerStock): Promise<FreezerStock>;
   updateFreezerStock(id: string, quantity: number): Promise<FreezerStock | undefined>;
   addToFreezerFromBatch(batchId: string, items: { productId: string; quantity: number }[]): Promise<void>;
 
+  // Freezer Reservations
+  getFreezerAvailability(): Promise<Record<string, number>>;
+  getReservationsForOrder(orderId: string): Promise<FreezerReservation[]>;
+  getReservationsForStock(stockIds: string[]): Promise<FreezerReservation[]>;
+  getStockSourcesForOrders(orderIds: string[]): Promise<StockSource[]>;
+  reserveFreezerStock(orderId: string, items: { productId: string; quantity: number }[], options?: { allowPartial?: boolean }): Promise<FreezerReservation[]>;
+  deductFreezerReservations(orderId: string): Promise<FreezerReservation[]>;
+  releaseFreezerReservations(orderId: string): Promise<FreezerReservation[]>;
+
+  // Webhook Events
+  getWebhookEvents(options?: { status?: string; limit?: number }): Promise<WebhookEvent[]>;
+  getWebhookEvent(id: string): Promise<WebhookEvent | undefined>;
+  recordWebhookEvent(data: InsertWebhookEvent): Promise<{ event: WebhookEvent; isNew: boolean }>;
+  updateWebhookEvent(id: string, data: Partial<InsertWebhookEvent>): Promise<WebhookEvent | undefined>;
+
+  // Notifications
+  getNotificationsForOrder(orderId: string): Promise<Notification[]>;
+  getNotification(id: string): Promise<Notification | undefined>;
+  createNotification(data: InsertNotification): Promise<Notification>;
+  getDueNotifications(now: Date, limit?: number): Promise<Notification[]>;
+  claimNotification(id: string, leaseUntil: Date): Promise<Notification | undefined>;
+  updateNotification(id: string, data: Partial<InsertNotification>): Promise<Notification | undefined>;
+  getMessageTemplates(channel: string): Promise<MessageTemplate[]>;
+  getMessageTemplate(channel: string, template: string): Promise<MessageTemplate | undefined>;
+  saveMessageTemplate(channel: string, template: string, body: string, updatedBy?: string): Promise<MessageTemplate>;
+  deleteMessageTemplate(channel: string, template: string): Promise<boolean>;
+
+  // Idempotency Keys
+  claimIdempotencyKey(scope: string, key: string, requestHash: string): Promise<{ claimed: true; record: IdempotencyKey } | { claimed: false; record: IdempotencyKey }>;
+  completeIdempotencyKey(id: string, responseStatus: number, responseBody: unknown): Promise<void>;
+  releaseIdempotencyKey(id: string): Promise<void>;
+  deleteIdempotencyKeysBefore(date: Date): Promise<number>;
+
   // Activity Logs
   getActivityLogs(options?: { entityType?: string; entityId?: string; limit?: number }): Promise<ActivityLog[]>;
   createActivityLog(data: InsertActivityLog): Promise<ActivityLog>;
   logActivity(actionType: string, entityType: string, entityId?: string, details?: any, userId?: string, userName?: string): Promise<ActivityLog>;
 }
 
+// Freezer rows that can still be sold: not quarantined, and no expiry set or not yet expired
+function usableFreezerStock(now: Date) {
+  return and(
+    isNull(freezerStock.quarantinedAt),
+    or(isNull(freezerStock.expiresAt), gt(freezerStock.expiresAt, now))
+  );
+}
+
+// Sum of active holds per freezer_stock row
+async function getHeldByStock(executor: Database | Transaction, stockIds: string[]): Promise<Map<string, number>> {
+  if (stockIds.length === 0) return new Map();
+
+  const rows = await executor
+    .select({
+      freezerStockId: freezerReservations.freezerStockId,
+      quantity: sql<number>`coalesce(sum(${freezerReservations.quantity}), 0)::int`,
+    })
+    .from(freezerReservations)
+    .where(and(
+      eq(freezerReservations.status, "held"),
+      inArray(freezerReservations.freezerStockId, stockIds)
+    ))
+    .groupBy(freezerReservations.freezerStockId);
+
+  return new Map(rows.map((row) => [row.freezerStockId, Number(row.quantity)]));
+}
+
+// Splits a quantity across freezer rows, oldest first, skipping what other orders already hold.
+// `rows` must already be in FIFO order; `remaining` is what the freezer couldn't cover.
+export function allocateFifo(
+  rows: Pick<FreezerStock, "id" | "quantity">[],
+  held: Map<string, number>,
+  quantity: number
+): { allocations: { freezerStockId: string; quantity: number }[]; remaining: number } {
+  let remaining = quantity;
+  const allocations: { freezerStockId: string; quantity: number }[] = [];
+  for (const row of rows) {
+    if (remaining === 0) break;
+    const free = row.quantity - (held.get(row.id) || 0);
+    if (free <= 0) continue;
+    const take = Math.min(free, remaining);
+    allocations.push({ freezerStockId: row.id, quantity: take });
+    remaining -= take;
+  }
+  return { allocations, remaining };
+}
+
+// FIFO holds on freezer stock for an order. Runs inside the caller's transaction.
+async function reserveStock(
+  tx: Transaction,
+  orderId: string,
+  items: { productId: string; quantity: number }[],
+  options: { allowPartial?: boolean }
+): Promise<FreezerReservation[]> {
+  const requested = new Map<string, number>();
+  for (const item of items) {
+    requested.set(item.productId, (requested.get(item.productId) || 0) + item.quantity);
+  }
+
+  const now = new Date();
+  const reservations: FreezerReservation[] = [];
+
+  // Lock products in a stable order so concurrent checkouts can't deadlock
+  for (const productId of Array.from(requested.keys()).sort()) {
+    const quantity = requested.get(productId)!;
+    const rows = await tx
+      .select()
+      .from(freezerStock)
+      .where(and(eq(freezerStock.productId, productId), usableFreezerStock(now)))
+      .orderBy(asc(freezerStock.frozenAt), asc(freezerStock.createdAt))
+      .for("update");
+    const held = await getHeldByStock(tx, rows.map((row) => row.id));
+
+    const { allocations, remaining } = allocateFifo(rows, held, quantity);
+    if (remaining > 0 && !options.allowPartial) {
+      throw new InsufficientStockError(productId, quantity, quantity - remaining);
+    }
+
+    for (const allocation of allocations) {
+      const [reservation] = await tx
+        .insert(freezerReservations)
+        .values({ orderId, productId, status: "held", ...allocation })
+        .returning();
+      reservations.push(reservation);
+    }
+  }
+
+  return reservations;
+}
+
+// An order's hold on stock that went into quarantine, and how much of it could be held again elsewhere
+export type QuarantinedHold = { orderId: string; productId: string; quantity: number; reheld: number };
+
+export type RecipeLine = BillOfMaterial & { ingredient: Ingredient };
+export type RecipeVersionDetail = RecipeVersion & { lines: RecipeLine[] };
+// Bagels an order took from a batch, by way of the freezer
+export type StockSource = { orderId: string; productId: string; batchId: string; quantity: number };
+
+// version is null for a BOM saved before recipes were versioned
+export type Recipe = { version: RecipeVersion | null; lines: RecipeLine[] };
+
+// The latest version that has taken effect by `at`
+async function activeRecipeVersion(
+  executor: Database | Transaction,
+  productId: string,
+  at: Date
+): Promise<RecipeVersion | undefined> {
+  const [version] = await executor
+    .select()
+    .from(recipeVersions)
+    .where(and(eq(recipeVersions.productId, productId), lte(recipeVersions.effectiveFrom, at)))
+    .orderBy(desc(recipeVersions.effectiveFrom), desc(recipeVersions.version))
+    .limit(1);
+  return version;
+}
+
+async function recipeLines(productId: string, versionId: string | null): Promise<RecipeLine[]> {
+  const rows = await db
+    .select()
+    .from(billOfMaterials)
+    .innerJoin(ingredients, eq(billOfMaterials.ingredientId, ingredients.id))
+    .where(and(
+      eq(billOfMaterials.productId, productId),
+      versionId ? eq(billOfMaterials.recipeVersionId, versionId) : isNull(billOfMaterials.recipeVersionId)
+    ))
+    .orderBy(ingredients.name);
+  return rows.map((row) => ({ ...row.bill_of_materials, ingredient: row.ingredients }));
+}
+
+// Pins each batch line to the recipe in force right now
+async function withRecipeVersions<T extends { productId: string; recipeVersionId?: string | null }>(
+  executor: Database | Transaction,
+  items: T[]
+): Promise<T[]> {
+  const now = new Date();
+  return Promise.all(items.map(async (item) => ({
+    ...item,
+    recipeVersionId: item.recipeVersionId ?? (await activeRecipeVersion(executor, item.productId, now))?.id ?? null,
+  })));
+}
+
+export type PlannableOrder = Order & { items: (OrderItem & { product: Product })[]; reservations: FreezerReservation[] };
+
+export type PurchaseOrderDetail = PurchaseOrder & {
+  supplier: Supplier;
+  items: (PurchaseOrderItem & { ingredient: Ingredient })[];
+};
+
+// unitCost is what was actually paid; the quoted price stands when it's left out
+export type ReceivedLine = { itemId: string; quantity: number; unitCost?: number; lotCode?: string; expiresAt?: Date };
+
+// What's known about stock coming in, or which lot stock going out should come from
+export type LotDetails = {
+  lotCode?: string;
+  expiresAt?: Date;
+  supplierId?: string;
+  purchaseOrderId?: string;
+  costPerUnit?: string;
+  lotId?: string;
+};
+
+export type BatchLotUsage = BatchIngredientLot & {
+  ingredient: Ingredient;
+  lot: IngredientLot | null;
+  supplier: Supplier | null;
+};
+
+// Every refunded line has to be on the order, and no line can be refunded more times
+// than it was sold, counting the refunds already made
+export function checkRefundLines(
+  ordered: Pick<OrderItem, "id" | "quantity">[],
+  refunded: Pick<RefundItem, "orderItemId" | "quantity">[],
+  lines: Pick<InsertRefundItem, "orderItemId" | "productName" | "quantity">[]
+): void {
+  for (const line of lines) {
+    const orderItem = ordered.find((item) => item.id === line.orderItemId);
+    if (!orderItem) {
+      throw new PaymentError(`Item isn't on this order: ${line.orderItemId}`);
+    }
+    const alreadyRefunded = refunded
+      .filter((item) => item.orderItemId === line.orderItemId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+    // Two lines for the same item count together
+    const requested = lines
+      .filter((other) => other.orderItemId === line.orderItemId)
+      .reduce((sum, other) => sum + other.quantity, 0);
+    if (requested > orderItem.quantity - alreadyRefunded) {
+      throw new RefundLimitError(requested, orderItem.quantity - alreadyRefunded, line.productName);
+    }
+  }
+}
+
+// The number after the last one issued this year; numbering starts again at 0001 each January
+export function nextDocumentNumber(prefix: string, year: number, latest: string | undefined): string {
+  const lastNum = latest ? parseInt(latest.split("-")[2] || "0", 10) : 0;
+  return `${prefix}-${year}-${(lastNum + 1).toString().padStart(4, "0")}`;
+}
+
+function roundQty(quantity: number): number {
+  return Math.round(quantity * 100) / 100;
+}
+
+// Takes stock out of an ingredient's lots, oldest delivery first, skipping expired ones unless
+// a specific lot is named. What the lots can't cover comes from stock never booked in as a lot.
+async function drawFromLots(
+  tx: Transaction,
+  ingredientId: string,
+  quantity: number,
+  lotId?: string
+): Promise<{ lotId: string | null; quantity: number }[]> {
+  const lots = await tx
+    .select()
+    .from(ingredientLots)
+    .where(and(
+      eq(ingredientLots.ingredientId, ingredientId),
+      gt(ingredientLots.quantityRemaining, "0"),
+      lotId ? eq(ingredientLots.id, lotId) : undefined,
+    ))
+    .orderBy(asc(ingredientLots.receivedAt))
+    .for("update");
+
+  const now = new Date();
+  const draws: { lotId: string | null; quantity: number }[] = [];
+  let left = roundQty(quantity);
+  for (const lot of lots) {
+    if (left <= 0) break;
+    if (!lotId && lot.expiresAt && lot.expiresAt <= now) continue;
+    const take = Math.min(left, parseFloat(lot.quantityRemaining));
+    await tx
+      .update(ingredientLots)
+      .set({ quantityRemaining: roundQty(parseFloat(lot.quantityRemaining) - take).toString() })
+      .where(eq(ingredientLots.id, lot.id));
+    draws.push({ lotId: lot.id, quantity: take });
+    left = roundQty(left - take);
+  }
+  if (left > 0) draws.push({ lotId: null, quantity: left });
+  return draws;
+}
+
+async function purchaseOrderLines(purchaseOrderId: string): Promise<PurchaseOrderDetail["items"]> {
+  const rows = await db
+    .select()
+    .from(purchaseOrderItems)
+    .innerJoin(ingredients, eq(purchaseOrderItems.ingredientId, ingredients.id))
+    .where(eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId))
+    .orderBy(ingredients.name);
+  return rows.map((row) => ({ ...row.purchase_order_items, ingredient: row.ingredients }));
+}
+
+function purchaseOrderTotal(items: { quantity: string; unitCost?: string }[]): string {
+  return items.reduce((sum, item) => sum + parseFloat(item.quantity) * parseFloat(item.unitCost || "0"), 0).toFixed(2);
+}
+
+export type CustomerAddressFields = Pick<InsertCustomerAddress, "deliveryAddress" | "deliveryCity" | "deliveryState" | "deliveryZip"> & {
+  label?: string | null;
+  deliveryInstructions?: string | null;
+};
+
+export type CustomerStats = { orderCount: number; lifetimeValue: number; lastOrderAt: Date | null };
+export type CustomerSummary = Customer & CustomerStats;
+
+const NO_ORDERS: CustomerStats = { orderCount: 0, lifetimeValue: 0, lastOrderAt: null };
+
+export type SubscriptionDetail = Subscription & {
+  customer: Customer;
+  items: (SubscriptionItem & { product: Product })[];
+  skips: string[]; // yyyy-MM-dd
+};
+
+async function subscriptionDetails(rows: Subscription[]): Promise<SubscriptionDetail[]> {
+  if (rows.length === 0) return [];
+  const ids = rows.map((row) => row.id);
+  const [owners, itemRows, skipRows] = await Promise.all([
+    db.select().from(customers).where(inArray(customers.id, Array.from(new Set(rows.map((row) => row.customerId))))),
+    db
+      .select()
+      .from(subscriptionItems)
+      .innerJoin(products, eq(subscriptionItems.productId, products.id))
+      .where(inArray(subscriptionItems.subscriptionId, ids)),
+    db.select().from(subscriptionSkips).where(inArray(subscriptionSkips.subscriptionId, ids)),
+  ]);
+
+  return rows.map((row) => ({
+    ...row,
+    customer: owners.find((owner) => owner.id === row.customerId)!,
+    items: itemRows
+      .filter((item) => item.subscription_items.subscriptionId === row.id)
+      .map((item) => ({ ...item.subscription_items, product: item.products })),
+    skips: skipRows.filter((skip) => skip.subscriptionId === row.id).map((skip) => skip.date).sort(),
+  }));
+}
+
+// Per customer: orders that weren't cancelled, what they came to less refunds, and the latest one
+async function customerStats(customerId?: string): Promise<Map<string, CustomerStats>> {
+  const whose = customerId ? eq(orders.customerId, customerId) : isNotNull(orders.customerId);
+  const [totals, refunded] = await Promise.all([
+    db
+      .select({
+        customerId: orders.customerId,
+        orderCount: sql<number>`count(*)::int`,
+        spent: sql<string>`coalesce(sum(${orders.total}), 0)`,
+        lastOrderAt: sql<Date | null>`max(${orders.createdAt})`.mapWith(orders.createdAt),
+      })
+      .from(orders)
+      .where(and(whose, ne(orders.status, "cancelled")))
+      .groupBy(orders.customerId),
+    db
+      .select({
+        customerId: orders.customerId,
+        amount: sql<string>`coalesce(sum(${refunds.amount}), 0)`,
+      })
+      .from(refunds)
+      .innerJoin(orders, eq(refunds.orderId, orders.id))
+      .where(and(whose, ne(orders.status, "cancelled"), eq(refunds.status, "succeeded")))
+      .groupBy(orders.customerId),
+  ]);
+
+  const refundedBy = new Map(refunded.map((row) => [row.customerId, parseFloat(row.amount)]));
+  return new Map(totals.map((row) => [row.customerId!, {
+    orderCount: row.orderCount,
+    lifetimeValue: Math.round((parseFloat(row.spent) - (refundedBy.get(row.customerId) || 0)) * 100) / 100,
+    lastOrderAt: row.lastOrderAt,
+  }]));
+}
+
+export type SlotUsage = { fulfillmentDate: Date; fulfillmentWindow: string | null; bagels: number };
+
+// One row per order that isn't cancelled, with its bagel count. Pending checkouts count too,
+// and give their room back when reconciliation cancels them.
+async function slotUsage(executor: Database | Transaction, from: Date, to: Date, window?: string): Promise<SlotUsage[]> {
+  return executor
+    .select({
+      fulfillmentDate: orders.fulfillmentDate,
+      fulfillmentWindow: orders.fulfillmentWindow,
+      bagels: sql<number>`coalesce(sum(${orderItems.quantity}), 0)::int`,
+    })
+    .from(orders)
+    .leftJoin(orderItems, eq(orderItems.orderId, orders.id))
+    .where(and(
+      gte(orders.fulfillmentDate, from),
+      lt(orders.fulfillmentDate, to),
+      ne(orders.status, "cancelled"),
+      window ? eq(orders.fulfillmentWindow, window) : undefined
+    ))
+    .groupBy(orders.id);
+}
+
+export type SlotLimit = { window: string; from: Date; to: Date; maxOrders: number | null; maxBagels: number | null };
+
+// Re-checks a window's limits with the slot locked, so two checkouts can't both take the last place
+async function claimSlot(tx: Transaction, slot: SlotLimit, bagels: number): Promise<void> {
+  await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`slot:${slot.window}:${slot.from.toISOString()}`}))`);
+  const usage = await slotUsage(tx, slot.from, slot.to, slot.window);
+  const bagelsTaken = usage.reduce((sum, row) => sum + row.bagels, 0);
+  if (
+    (slot.maxOrders != null && usage.length + 1 > slot.maxOrders)
+    || (slot.maxBagels != null && bagelsTaken + bagels > slot.maxBagels)
+  ) {
+    throw new SlotUnavailableError("full", "That delivery window just filled up - please pick another");
+  }
+}
+
+// Turns an order's holds into real deductions from freezer_stock. A hold on stock that has
+// since been quarantined is let go instead, leaving those bagels for the bake plan.
+async function deductHeldStock(tx: Transaction, orderId: string): Promise<FreezerReservation[]> {
+  const rows = await tx
+    .select()
+    .from(freezerReservations)
+    .innerJoin(freezerStock, eq(freezerReservations.freezerStockId, freezerStock.id))
+    .where(and(
+      eq(freezerReservations.orderId, orderId),
+      eq(freezerReservations.status, "held")
+    ))
+    .for("update");
+
+  const quarantined = rows.filter((row) => row.freezer_stock.quarantinedAt).map((row) => row.freezer_reservations.id);
+  if (quarantined.length > 0) {
+    await tx
+      .update(freezerReservations)
+      .set({ status: "released", updatedAt: new Date() })
+      .where(inArray(freezerReservations.id, quarantined));
+  }
+
+  const held = rows.filter((row) => !row.freezer_stock.quarantinedAt).map((row) => row.freezer_reservations);
+  if (held.length === 0) return [];
+
+  for (const reservation of held) {
+    await tx
+      .update(freezerStock)
+      .set({
+        quantity: sql`greatest(${freezerStock.quantity} - ${reservation.quantity}, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(freezerStock.id, reservation.freezerStockId));
+  }
+
+  return tx
+    .update(freezerReservations)
+    .set({ status: "deducted", updatedAt: new Date() })
+    .where(inArray(freezerReservations.id, held.map((r) => r.id)))
+    .returning();
+}
+
 export class DatabaseStorage implements IStorage {
+  // Users
+  async getUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(users.username);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.username}) = lower(${username})`);
+    return user;
+  }
+
+  async createUser(data: UpsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(data).returning();
+    return user;
+  }
+
+  async updateUser(id: string, data: Partial<UpsertUser>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Logs the user out everywhere, except the session doing the asking
+  async deleteUserSessions(userId: string, exceptSid?: string): Promise<number> {
+    const deleted = await db
+      .delete(sessions)
+      .where(and(
+        sql`${sessions.sess}->'user'->>'id' = ${userId}`,
+        exceptSid ? ne(sessions.sid, exceptSid) : undefined
+      ))
+      .returning({ sid: sessions.sid });
+    return deleted.length;
+  }
+
   // Ingredients
   async getIngredients(): Promise<Ingredient[]> {
     return db.select().from(ingredients).orderBy(ingredients.name);
@@ -150,16 +840,94 @@ export class DatabaseStorage implements IStorage {
     return ingredient;
   }
 
-  async deductIngredients(deductions: { ingredientId: string; quantity: number }[]): Promise<void> {
-    for (const { ingredientId, quantity } of deductions) {
-      await db
-        .update(ingredients)
-        .set({
-          onHand: sql`${ingredients.onHand} - ${quantity}`,
-          updatedAt: new Date(),
-        })
-        .where(eq(ingredients.id, ingredientId));
-    }
+  // Records which lots a batch used when it's given
+  async deductIngredients(deductions: { ingredientId: string; quantity: number }[], batchId?: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const { ingredientId, quantity } of deductions) {
+        await tx
+          .update(ingredients)
+          .set({
+            onHand: sql`${ingredients.onHand} - ${quantity}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(ingredients.id, ingredientId));
+
+        const draws = await drawFromLots(tx, ingredientId, quantity);
+        if (batchId && draws.length > 0) {
+          await tx.insert(batchIngredientLots).values(draws.map((draw) => ({
+            batchId,
+            ingredientId,
+            lotId: draw.lotId,
+            quantity: draw.quantity.toString(),
+          })));
+        }
+      }
+    });
+  }
+
+  // Ingredient Lots
+  async getIngredientLots(ingredientId: string): Promise<(IngredientLot & { supplier: Supplier | null })[]> {
+    const rows = await db
+      .select()
+      .from(ingredientLots)
+      .leftJoin(suppliers, eq(ingredientLots.supplierId, suppliers.id))
+      .where(eq(ingredientLots.ingredientId, ingredientId))
+      .orderBy(desc(ingredientLots.receivedAt));
+    return rows.map((row) => ({ ...row.ingredient_lots, supplier: row.suppliers }));
+  }
+
+  // Stock in expired lots per ingredient; it's still on hand but can't go into a batch
+  async getExpiredLotTotals(): Promise<Record<string, number>> {
+    const rows = await db
+      .select({
+        ingredientId: ingredientLots.ingredientId,
+        quantity: sql<string>`sum(${ingredientLots.quantityRemaining})`,
+      })
+      .from(ingredientLots)
+      .where(and(gt(ingredientLots.quantityRemaining, "0"), lte(ingredientLots.expiresAt, new Date())))
+      .groupBy(ingredientLots.ingredientId);
+    return Object.fromEntries(rows.map((row) => [row.ingredientId, parseFloat(row.quantity)]));
+  }
+
+  async updateIngredientLot(
+    id: string,
+    data: Partial<Pick<InsertIngredientLot, "lotCode" | "expiresAt" | "notes">>
+  ): Promise<IngredientLot | undefined> {
+    const [lot] = await db.update(ingredientLots).set(data).where(eq(ingredientLots.id, id)).returning();
+    return lot;
+  }
+
+  async getIngredientLot(id: string): Promise<IngredientLot | undefined> {
+    const [lot] = await db.select().from(ingredientLots).where(eq(ingredientLots.id, id));
+    return lot;
+  }
+
+  async getBatchIdsUsing(source: { lotId?: string; ingredientId?: string }): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ batchId: batchIngredientLots.batchId })
+      .from(batchIngredientLots)
+      .where(and(
+        source.lotId ? eq(batchIngredientLots.lotId, source.lotId) : undefined,
+        source.ingredientId ? eq(batchIngredientLots.ingredientId, source.ingredientId) : undefined,
+      ));
+    return rows.map((row) => row.batchId);
+  }
+
+  async getBatchLots(batchId: string): Promise<BatchLotUsage[]> {
+    const rows = await db
+      .select()
+      .from(batchIngredientLots)
+      .innerJoin(ingredients, eq(batchIngredientLots.ingredientId, ingredients.id))
+      .leftJoin(ingredientLots, eq(batchIngredientLots.lotId, ingredientLots.id))
+      .leftJoin(suppliers, eq(ingredientLots.supplierId, suppliers.id))
+      .where(eq(batchIngredientLots.batchId, batchId))
+      .orderBy(ingredients.name);
+    return rows.map((row) => ({
+      ...row.batch_ingredient_lots,
+      ingredient: row.ingredients,
+      lot: row.ingredient_lots,
+      supplier: row.suppliers,
+    }));
   }
 
   // Products
@@ -186,34 +954,139 @@ export class DatabaseStorage implements IStorage {
     return product;
   }
 
-  async deleteProduct(id: string): Promise<void> {
-    // First delete related BOM entries
-    await db.delete(billOfMaterials).where(eq(billOfMaterials.productId, id));
-    // Then delete the product
-    await db.delete(products).where(eq(products.id, id));
+  async createProductImage(productId: string, contentType: string, data: Buffer): Promise<ProductImage> {
+    const [image] = await db.insert(productImages).values({ productId, contentType, data }).returning();
+    return image;
+  }
+
+  async getProductImage(id: string): Promise<ProductImage | undefined> {
+    const [image] = await db.select().from(productImages).where(eq(productImages.id, id));
+    return image;
+  }
+
+  async deleteProductImage(id: string): Promise<void> {
+    await db.delete(productImages).where(eq(productImages.id, id));
+  }
+
+  // Archiving takes a product off sale for good; restoring leaves it off sale until it's switched back on
+  async setProductArchived(id: string, archived: boolean): Promise<Product | undefined> {
+    const [product] = await db
+      .update(products)
+      .set(archived
+        ? { archivedAt: new Date(), isActive: false, updatedAt: new Date() }
+        : { archivedAt: null, updatedAt: new Date() })
+      .where(eq(products.id, id))
+      .returning();
+    return product;
+  }
+
+  async getProductVariants(productId?: string): Promise<ProductVariant[]> {
+    return db
+      .select()
+      .from(productVariants)
+      .where(productId ? eq(productVariants.productId, productId) : undefined)
+      .orderBy(productVariants.sortOrder, productVariants.packSize);
+  }
+
+  async getProductVariant(id: string): Promise<ProductVariant | undefined> {
+    const [variant] = await db.select().from(productVariants).where(eq(productVariants.id, id));
+    return variant;
+  }
+
+  async createProductVariant(data: InsertProductVariant): Promise<ProductVariant> {
+    const [variant] = await db.insert(productVariants).values(data).returning();
+    return variant;
+  }
+
+  async updateProductVariant(id: string, data: Partial<InsertProductVariant>): Promise<ProductVariant | undefined> {
+    const [variant] = await db.update(productVariants).set(data).where(eq(productVariants.id, id)).returning();
+    return variant;
+  }
+
+  async getBundleComponents(bundleId?: string): Promise<BundleComponent[]> {
+    return db
+      .select()
+      .from(bundleComponents)
+      .where(bundleId ? eq(bundleComponents.bundleId, bundleId) : undefined);
+  }
+
+  // Replaces the bundle's contents; order lines already sold keep their own copy
+  async setBundleComponents(bundleId: string, components: { productId: string; quantity?: number }[]): Promise<BundleComponent[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(bundleComponents).where(eq(bundleComponents.bundleId, bundleId));
+      if (components.length === 0) return [];
+      return tx
+        .insert(bundleComponents)
+        .values(components.map((component) => ({ bundleId, productId: component.productId, quantity: component.quantity ?? null })))
+        .returning();
+    });
   }
 
   // Bill of Materials
-  async getBomForProduct(productId: string): Promise<(BillOfMaterial & { ingredient: Ingredient })[]> {
-    const boms = await db
+  // The recipe in force now
+  async getBomForProduct(productId: string): Promise<RecipeLine[]> {
+    return (await this.getRecipe(productId)).lines;
+  }
+
+  // A given version, or the one in force now; products never saved since versioning use their old BOM
+  async getRecipe(productId: string, versionId?: string | null): Promise<Recipe> {
+    const version = versionId
+      ? (await db.select().from(recipeVersions).where(eq(recipeVersions.id, versionId)))[0]
+      : await activeRecipeVersion(db, productId, new Date());
+    if (!version) {
+      return { version: null, lines: await recipeLines(productId, null) };
+    }
+    return { version, lines: await recipeLines(productId, version.id) };
+  }
+
+  async getRecipeVersions(productId: string): Promise<RecipeVersionDetail[]> {
+    const versions = await db
       .select()
-      .from(billOfMaterials)
-      .innerJoin(ingredients, eq(billOfMaterials.ingredientId, ingredients.id))
-      .where(eq(billOfMaterials.productId, productId));
-    
-    return boms.map((row) => ({
-      ...row.bill_of_materials,
-      ingredient: row.ingredients,
-    }));
+      .from(recipeVersions)
+      .where(eq(recipeVersions.productId, productId))
+      .orderBy(desc(recipeVersions.version));
+    return Promise.all(versions.map(async (version) => ({ ...version, lines: await recipeLines(productId, version.id) })));
   }
 
-  async createBom(data: InsertBom): Promise<BillOfMaterial> {
-    const [bom] = await db.insert(billOfMaterials).values(data).returning();
-    return bom;
+  async createRecipeVersion(
+    data: Omit<InsertRecipeVersion, "version">,
+    lines: Omit<InsertBom, "productId" | "recipeVersionId">[]
+  ): Promise<RecipeVersion> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`recipe_versions:${data.productId}`}))`);
+
+      const [latest] = await tx
+        .select({ version: recipeVersions.version })
+        .from(recipeVersions)
+        .where(eq(recipeVersions.productId, data.productId))
+        .orderBy(desc(recipeVersions.version))
+        .limit(1);
+
+      const [version] = await tx
+        .insert(recipeVersions)
+        .values({ ...data, version: (latest?.version || 0) + 1 })
+        .returning();
+      if (lines.length > 0) {
+        await tx.insert(billOfMaterials).values(lines.map((line) => ({
+          ...line,
+          productId: data.productId,
+          recipeVersionId: version.id,
+        })));
+      }
+      return version;
+    });
   }
 
-  async deleteBomForProduct(productId: string): Promise<void> {
-    await db.delete(billOfMaterials).where(eq(billOfMaterials.productId, productId));
+  async getBomForIngredient(ingredientId: string): Promise<BillOfMaterial[]> {
+    return db.select().from(billOfMaterials).where(eq(billOfMaterials.ingredientId, ingredientId));
+  }
+
+  // Gives lines that used the ingredient's own unit an explicit one
+  async pinBomUnits(ingredientId: string, unit: string): Promise<void> {
+    await db
+      .update(billOfMaterials)
+      .set({ unit })
+      .where(and(eq(billOfMaterials.ingredientId, ingredientId), isNull(billOfMaterials.unit)));
   }
 
   // Locations
@@ -240,8 +1113,145 @@ export class DatabaseStorage implements IStorage {
     return location;
   }
 
+  // Delivery Zones
+  async getDeliveryZones(): Promise<DeliveryZone[]> {
+    return db.select().from(deliveryZones).orderBy(asc(deliveryZones.name));
+  }
+
+  // Only zones that can actually be served: active, on an active delivery location with coordinates
+  async getActiveDeliveryZones(): Promise<(DeliveryZone & { location: Location })[]> {
+    const rows = await db
+      .select({ zone: deliveryZones, location: locations })
+      .from(deliveryZones)
+      .innerJoin(locations, eq(deliveryZones.locationId, locations.id))
+      .where(and(
+        eq(deliveryZones.isActive, true),
+        eq(locations.isActive, true),
+        eq(locations.type, "delivery")
+      ));
+    return rows
+      .filter(({ location }) => location.latitude != null && location.longitude != null)
+      .map(({ zone, location }) => ({ ...zone, location }));
+  }
+
+  async createDeliveryZone(data: InsertDeliveryZone): Promise<DeliveryZone> {
+    const [zone] = await db.insert(deliveryZones).values(data).returning();
+    return zone;
+  }
+
+  async updateDeliveryZone(id: string, data: Partial<InsertDeliveryZone>): Promise<DeliveryZone | undefined> {
+    const [zone] = await db
+      .update(deliveryZones)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(deliveryZones.id, id))
+      .returning();
+    return zone;
+  }
+
+  // Zones that orders point at are switched off rather than deleted
+  async deleteDeliveryZone(id: string): Promise<boolean> {
+    const [used] = await db.select({ id: orders.id }).from(orders).where(eq(orders.deliveryZoneId, id)).limit(1);
+    if (used) {
+      const zone = await this.updateDeliveryZone(id, { isActive: false });
+      return !!zone;
+    }
+    const deleted = await db.delete(deliveryZones).where(eq(deliveryZones.id, id)).returning({ id: deliveryZones.id });
+    return deleted.length > 0;
+  }
+
+  // Tax Rates
+  async getTaxRates(): Promise<TaxRate[]> {
+    return db.select().from(taxRates).orderBy(asc(taxRates.state), asc(taxRates.zipCode));
+  }
+
+  // A rate for the exact ZIP wins over the state-wide one
+  async findTaxRate(state: string, zipCode: string): Promise<TaxRate | undefined> {
+    const [rate] = await db
+      .select()
+      .from(taxRates)
+      .where(and(
+        eq(taxRates.isActive, true),
+        eq(taxRates.state, state.trim().toUpperCase()),
+        or(isNull(taxRates.zipCode), eq(taxRates.zipCode, zipCode.trim().slice(0, 5)))
+      ))
+      .orderBy(sql`${taxRates.zipCode} is null`, desc(taxRates.updatedAt))
+      .limit(1);
+    return rate;
+  }
+
+  async createTaxRate(data: InsertTaxRate): Promise<TaxRate> {
+    const [rate] = await db.insert(taxRates).values(data).returning();
+    return rate;
+  }
+
+  async updateTaxRate(id: string, data: Partial<InsertTaxRate>): Promise<TaxRate | undefined> {
+    const [rate] = await db
+      .update(taxRates)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(taxRates.id, id))
+      .returning();
+    return rate;
+  }
+
+  async deleteTaxRate(id: string): Promise<boolean> {
+    const deleted = await db.delete(taxRates).where(eq(taxRates.id, id)).returning({ id: taxRates.id });
+    return deleted.length > 0;
+  }
+
+  // Fulfillment Capacity
+  async getFulfillmentCapacity(): Promise<FulfillmentCapacity[]> {
+    return db
+      .select()
+      .from(fulfillmentCapacity)
+      .orderBy(asc(fulfillmentCapacity.window), sql`${fulfillmentCapacity.dayOfWeek} nulls first`);
+  }
+
+  async createFulfillmentCapacity(data: InsertFulfillmentCapacity): Promise<FulfillmentCapacity> {
+    const [capacity] = await db.insert(fulfillmentCapacity).values(data).returning();
+    return capacity;
+  }
+
+  async updateFulfillmentCapacity(id: string, data: Partial<InsertFulfillmentCapacity>): Promise<FulfillmentCapacity | undefined> {
+    const [capacity] = await db
+      .update(fulfillmentCapacity)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(fulfillmentCapacity.id, id))
+      .returning();
+    return capacity;
+  }
+
+  async deleteFulfillmentCapacity(id: string): Promise<boolean> {
+    const deleted = await db.delete(fulfillmentCapacity).where(eq(fulfillmentCapacity.id, id)).returning({ id: fulfillmentCapacity.id });
+    return deleted.length > 0;
+  }
+
+  async getBlackoutDates(from?: string, to?: string): Promise<BlackoutDate[]> {
+    const conditions = [];
+    if (from) conditions.push(gte(blackoutDates.date, from));
+    if (to) conditions.push(lt(blackoutDates.date, to));
+    return db
+      .select()
+      .from(blackoutDates)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(asc(blackoutDates.date));
+  }
+
+  async createBlackoutDate(data: InsertBlackoutDate): Promise<BlackoutDate> {
+    const [blackout] = await db.insert(blackoutDates).values(data).returning();
+    return blackout;
+  }
+
+  async deleteBlackoutDate(id: string): Promise<boolean> {
+    const deleted = await db.delete(blackoutDates).where(eq(blackoutDates.id, id)).returning({ id: blackoutDates.id });
+    return deleted.length > 0;
+  }
+
+  async getSlotUsage(from: Date, to: Date): Promise<SlotUsage[]> {
+    return slotUsage(db, from, to);
+  }
+
   // Batches
-  async getBatches(): Promise<(Batch & { items: (BatchItem & { product: Product })[] })[]> {
+  async getBatches(): Promise<(Batch & { items: (BatchItem & { product: Product })[]; orderIds: string[] })[]> {
     const allBatches = await db.select().from(batches).orderBy(desc(batches.batchDate));
     
     const result = [];
@@ -258,6 +1268,7 @@ export class DatabaseStorage implements IStorage {
           ...row.batch_items,
           product: row.products,
         })),
+        orderIds: await this.getBatchOrderIds(batch.id),
       });
     }
     
@@ -284,7 +1295,8 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createBatchItem(data: InsertBatchItem): Promise<BatchItem> {
-    const [item] = await db.insert(batchItems).values(data).returning();
+    const [pinned] = await withRecipeVersions(db, [data]);
+    const [item] = await db.insert(batchItems).values(pinned).returning();
     return item;
   }
 
@@ -292,44 +1304,415 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(batchItems).where(eq(batchItems.batchId, batchId));
   }
 
-  // Location Inventory
-  async getLocationInventory(locationId: string): Promise<(LocationInventory & { product: Product })[]> {
-    const inventory = await db
-      .select()
-      .from(locationInventory)
-      .innerJoin(products, eq(locationInventory.productId, products.id))
-      .where(eq(locationInventory.locationId, locationId));
-    
-    return inventory.map((row) => ({
-      ...row.location_inventory,
-      product: row.products,
-    }));
+  async createPlannedBatch(data: InsertBatch, items: Omit<InsertBatchItem, "batchId">[], orderIds: string[]): Promise<Batch> {
+    return db.transaction(async (tx) => {
+      const [batch] = await tx.insert(batches).values(data).returning();
+      if (items.length > 0) {
+        const pinned = await withRecipeVersions(tx, items);
+        await tx.insert(batchItems).values(pinned.map((item) => ({ ...item, batchId: batch.id })));
+      }
+      if (orderIds.length > 0) {
+        await tx.insert(batchOrders).values(orderIds.map((orderId) => ({ batchId: batch.id, orderId })));
+      }
+      return batch;
+    });
+  }
+
+  async getBatchOrderIds(batchId: string): Promise<string[]> {
+    const rows = await db.select({ orderId: batchOrders.orderId }).from(batchOrders).where(eq(batchOrders.batchId, batchId));
+    return rows.map((row) => row.orderId);
+  }
+
+  async getBatchesForOrder(orderId: string): Promise<Batch[]> {
+    const rows = await db
+      .select({ batch: batches })
+      .from(batchOrders)
+      .innerJoin(batches, eq(batchOrders.batchId, batches.id))
+      .where(eq(batchOrders.orderId, orderId));
+    return rows.map((row) => row.batch);
+  }
+
+  // Which of these orders are waiting on a batch that hasn't finished
+  async getPlannedOrderIds(orderIds: string[]): Promise<string[]> {
+    if (orderIds.length === 0) return [];
+    const rows = await db
+      .selectDistinct({ orderId: batchOrders.orderId })
+      .from(batchOrders)
+      .innerJoin(batches, eq(batchOrders.batchId, batches.id))
+      .where(and(inArray(batchOrders.orderId, orderIds), inArray(batches.status, ["planned", "in_progress"])));
+    return rows.map((row) => row.orderId);
+  }
+
+  // Orders due in the range that aren't waiting on a batch, with what the freezer already holds for them.
+  // Baking orders show up again when their batch was cancelled or came up short.
+  async getPlannableOrders(from: Date, to: Date): Promise<PlannableOrder[]> {
+    const planned = db
+      .select({ orderId: batchOrders.orderId })
+      .from(batchOrders)
+      .innerJoin(batches, eq(batchOrders.batchId, batches.id))
+      .where(inArray(batches.status, ["planned", "in_progress"]));
+
+    const openOrders = await db
+      .select()
+      .from(orders)
+      .where(and(
+        inArray(orders.status, ["approved", "baking"]),
+        gte(orders.fulfillmentDate, from),
+        lt(orders.fulfillmentDate, to),
+        notInArray(orders.id, planned)
+      ))
+      .orderBy(asc(orders.fulfillmentDate), asc(orders.createdAt));
+    if (openOrders.length === 0) return [];
+
+    const orderIds = openOrders.map((order) => order.id);
+    const items = await db
+      .select()
+      .from(orderItems)
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(inArray(orderItems.orderId, orderIds));
+    const reservations = await db
+      .select()
+      .from(freezerReservations)
+      .where(and(
+        inArray(freezerReservations.orderId, orderIds),
+        inArray(freezerReservations.status, ["held", "deducted"])
+      ));
+
+    return openOrders.map((order) => ({
+      ...order,
+      items: items
+        .filter((row) => row.order_items.orderId === order.id)
+        .map((row) => ({ ...row.order_items, product: row.products })),
+      reservations: reservations.filter((reservation) => reservation.orderId === order.id),
+    }));
+  }
+
+  // Location Inventory
+  async getLocationInventory(locationId: string): Promise<(LocationInventory & { product: Product })[]> {
+    const inventory = await db
+      .select()
+      .from(locationInventory)
+      .innerJoin(products, eq(locationInventory.productId, products.id))
+      .where(eq(locationInventory.locationId, locationId));
+    
+    return inventory.map((row) => ({
+      ...row.location_inventory,
+      product: row.products,
+    }));
+  }
+
+  async updateLocationInventory(locationId: string, productId: string, delta: number): Promise<void> {
+    const [existing] = await db
+      .select()
+      .from(locationInventory)
+      .where(and(
+        eq(locationInventory.locationId, locationId),
+        eq(locationInventory.productId, productId)
+      ));
+
+    if (existing) {
+      await db
+        .update(locationInventory)
+        .set({
+          quantity: existing.quantity + delta,
+          updatedAt: new Date(),
+        })
+        .where(eq(locationInventory.id, existing.id));
+    } else {
+      await db.insert(locationInventory).values({
+        locationId,
+        productId,
+        quantity: delta,
+      });
+    }
+  }
+
+  // Customers
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    const [customer] = await db.select().from(customers).where(eq(customers.id, id));
+    return customer;
+  }
+
+  async getCustomersBySmsPhone(phone: string): Promise<Customer[]> {
+    return db.select().from(customers).where(eq(customers.smsPhone, phone));
+  }
+
+  // Customers are matched on email. Anyone can check out with any email, so a later order
+  // only fills in a phone we didn't have; it never replaces the stored name or number.
+  async upsertCustomer(data: { email: string; name: string; phone?: string | null }): Promise<Customer> {
+    const [customer] = await db
+      .insert(customers)
+      .values({ email: data.email.trim().toLowerCase(), name: data.name, phone: data.phone || null })
+      .onConflictDoUpdate({
+        target: customers.email,
+        set: { phone: sql`coalesce(${customers.phone}, excluded.phone)`, updatedAt: new Date() },
+      })
+      .returning();
+    return customer;
+  }
+
+  async updateCustomer(id: string, data: Partial<InsertCustomer>): Promise<Customer | undefined> {
+    const [customer] = await db
+      .update(customers)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(customers.id, id))
+      .returning();
+    return customer;
+  }
+
+  async getCustomers(): Promise<CustomerSummary[]> {
+    const [all, stats] = await Promise.all([
+      db.select().from(customers).orderBy(asc(customers.name)),
+      customerStats(),
+    ]);
+    return all.map((customer) => ({ ...customer, ...(stats.get(customer.id) || NO_ORDERS) }));
+  }
+
+  async getCustomerSummary(id: string): Promise<CustomerSummary | undefined> {
+    const customer = await this.getCustomer(id);
+    if (!customer) return undefined;
+    const stats = await customerStats(id);
+    return { ...customer, ...(stats.get(id) || NO_ORDERS) };
+  }
+
+  async getCustomerByEmail(email: string): Promise<Customer | undefined> {
+    const [customer] = await db.select().from(customers).where(eq(customers.email, email.trim().toLowerCase()));
+    return customer;
+  }
+
+  async getOrdersForCustomer(customerId: string): Promise<(Order & { items: (OrderItem & { product: Product })[] })[]> {
+    const customerOrders = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.customerId, customerId))
+      .orderBy(desc(orders.createdAt));
+    if (customerOrders.length === 0) return [];
+
+    const itemRows = await db
+      .select()
+      .from(orderItems)
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(inArray(orderItems.orderId, customerOrders.map((order) => order.id)));
+
+    return customerOrders.map((order) => ({
+      ...order,
+      items: itemRows
+        .filter((row) => row.order_items.orderId === order.id)
+        .map((row) => ({ ...row.order_items, product: row.products })),
+    }));
+  }
+
+  // Orders placed before customer accounts, oldest first so the newest name on each email wins
+  async getUnlinkedOrders(limit = 500): Promise<Order[]> {
+    return db
+      .select()
+      .from(orders)
+      .where(isNull(orders.customerId))
+      .orderBy(asc(orders.createdAt))
+      .limit(limit);
+  }
+
+  async getCustomerAddresses(customerId: string): Promise<CustomerAddress[]> {
+    return db
+      .select()
+      .from(customerAddresses)
+      .where(eq(customerAddresses.customerId, customerId))
+      .orderBy(desc(customerAddresses.isDefault), desc(customerAddresses.lastUsedAt));
+  }
+
+  // The same street and zip again just marks the saved address as used. A customer's first
+  // address becomes their default.
+  async saveCustomerAddress(customerId: string, address: CustomerAddressFields): Promise<CustomerAddress> {
+    const street = address.deliveryAddress.trim();
+    const zip = address.deliveryZip.trim();
+    const [existing] = await db
+      .select()
+      .from(customerAddresses)
+      .where(and(
+        eq(customerAddresses.customerId, customerId),
+        sql`lower(${customerAddresses.deliveryAddress}) = lower(${street})`,
+        eq(customerAddresses.deliveryZip, zip)
+      ));
+
+    if (existing) {
+      const [updated] = await db
+        .update(customerAddresses)
+        .set({ lastUsedAt: new Date(), deliveryInstructions: address.deliveryInstructions || existing.deliveryInstructions })
+        .where(eq(customerAddresses.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(customerAddresses)
+      .where(eq(customerAddresses.customerId, customerId));
+    const [created] = await db
+      .insert(customerAddresses)
+      .values({
+        customerId,
+        label: address.label || null,
+        deliveryAddress: street,
+        deliveryCity: address.deliveryCity.trim(),
+        deliveryState: address.deliveryState.trim(),
+        deliveryZip: zip,
+        deliveryInstructions: address.deliveryInstructions || null,
+        isDefault: count === 0,
+      })
+      .returning();
+    return created;
+  }
+
+  async updateCustomerAddress(
+    id: string,
+    customerId: string,
+    data: Partial<Pick<InsertCustomerAddress, "label" | "deliveryInstructions" | "isDefault">>
+  ): Promise<CustomerAddress | undefined> {
+    return db.transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx
+          .update(customerAddresses)
+          .set({ isDefault: false })
+          .where(and(eq(customerAddresses.customerId, customerId), ne(customerAddresses.id, id)));
+      }
+      const [address] = await tx
+        .update(customerAddresses)
+        .set(data)
+        .where(and(eq(customerAddresses.id, id), eq(customerAddresses.customerId, customerId)))
+        .returning();
+      return address;
+    });
+  }
+
+  // Removing the default hands it to the most recently used address left
+  async deleteCustomerAddress(id: string, customerId: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(customerAddresses)
+        .where(and(eq(customerAddresses.id, id), eq(customerAddresses.customerId, customerId)))
+        .returning();
+      if (!deleted) return false;
+
+      if (deleted.isDefault) {
+        const [next] = await tx
+          .select({ id: customerAddresses.id })
+          .from(customerAddresses)
+          .where(eq(customerAddresses.customerId, customerId))
+          .orderBy(desc(customerAddresses.lastUsedAt))
+          .limit(1);
+        if (next) {
+          await tx.update(customerAddresses).set({ isDefault: true }).where(eq(customerAddresses.id, next.id));
+        }
+      }
+      return true;
+    });
+  }
+
+  async createCustomerSignInToken(customerId: string, tokenHash: string, expiresAt: Date): Promise<CustomerSignInToken> {
+    const [token] = await db.insert(customerSignInTokens).values({ customerId, tokenHash, expiresAt }).returning();
+    return token;
+  }
+
+  // Marks the token used in the same statement that checks it, so a link can't be redeemed twice
+  async redeemCustomerSignInToken(tokenHash: string, now = new Date()): Promise<CustomerSignInToken | undefined> {
+    const [token] = await db
+      .update(customerSignInTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(customerSignInTokens.tokenHash, tokenHash),
+        isNull(customerSignInTokens.usedAt),
+        gt(customerSignInTokens.expiresAt, now)
+      ))
+      .returning();
+    return token;
+  }
+
+  async createCustomerSession(customerId: string, tokenHash: string, expiresAt: Date): Promise<CustomerSession> {
+    const [session] = await db.insert(customerSessions).values({ customerId, tokenHash, expiresAt }).returning();
+    return session;
+  }
+
+  async getCustomerSession(tokenHash: string, now = new Date()): Promise<CustomerSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(customerSessions)
+      .where(and(eq(customerSessions.tokenHash, tokenHash), gt(customerSessions.expiresAt, now)));
+    return session;
+  }
+
+  async deleteCustomerSession(tokenHash: string): Promise<void> {
+    await db.delete(customerSessions).where(eq(customerSessions.tokenHash, tokenHash));
+  }
+
+  // Subscriptions
+  async createSubscription(data: InsertSubscription, items: Omit<InsertSubscriptionItem, "subscriptionId">[]): Promise<Subscription> {
+    return db.transaction(async (tx) => {
+      const [subscription] = await tx.insert(subscriptions).values(data).returning();
+      await tx.insert(subscriptionItems).values(items.map((item) => ({ ...item, subscriptionId: subscription.id })));
+      return subscription;
+    });
+  }
+
+  async getSubscription(id: string): Promise<SubscriptionDetail | undefined> {
+    const [subscription] = await subscriptionDetails(await db.select().from(subscriptions).where(eq(subscriptions.id, id)));
+    return subscription;
+  }
+
+  async getSubscriptions(): Promise<SubscriptionDetail[]> {
+    return subscriptionDetails(await db.select().from(subscriptions).orderBy(desc(subscriptions.createdAt)));
+  }
+
+  async getSubscriptionsForCustomer(customerId: string): Promise<SubscriptionDetail[]> {
+    return subscriptionDetails(
+      await db
+        .select()
+        .from(subscriptions)
+        .where(eq(subscriptions.customerId, customerId))
+        .orderBy(desc(subscriptions.createdAt))
+    );
+  }
+
+  // Active ones with a delivery on or before `through`, and paused ones due to pick up again by then
+  async getDueSubscriptions(through: string): Promise<SubscriptionDetail[]> {
+    return subscriptionDetails(
+      await db
+        .select()
+        .from(subscriptions)
+        .where(or(
+          and(eq(subscriptions.status, "active"), lte(subscriptions.nextDeliveryDate, through)),
+          and(eq(subscriptions.status, "paused"), lte(subscriptions.resumeOn, through))
+        ))
+        .orderBy(asc(subscriptions.nextDeliveryDate))
+    );
+  }
+
+  async updateSubscription(id: string, data: Partial<InsertSubscription>): Promise<Subscription | undefined> {
+    const [subscription] = await db
+      .update(subscriptions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(subscriptions.id, id))
+      .returning();
+    return subscription;
+  }
+
+  async skipSubscriptionDelivery(subscriptionId: string, date: string): Promise<void> {
+    await db.insert(subscriptionSkips).values({ subscriptionId, date }).onConflictDoNothing();
+  }
+
+  async unskipSubscriptionDelivery(subscriptionId: string, date: string): Promise<boolean> {
+    const deleted = await db
+      .delete(subscriptionSkips)
+      .where(and(eq(subscriptionSkips.subscriptionId, subscriptionId), eq(subscriptionSkips.date, date)))
+      .returning();
+    return deleted.length > 0;
   }
 
-  async updateLocationInventory(locationId: string, productId: string, delta: number): Promise<void> {
-    const [existing] = await db
+  async getSubscriptionOrder(subscriptionId: string, fulfillmentDate: Date): Promise<Order | undefined> {
+    const [order] = await db
       .select()
-      .from(locationInventory)
-      .where(and(
-        eq(locationInventory.locationId, locationId),
-        eq(locationInventory.productId, productId)
-      ));
-
-    if (existing) {
-      await db
-        .update(locationInventory)
-        .set({
-          quantity: existing.quantity + delta,
-          updatedAt: new Date(),
-        })
-        .where(eq(locationInventory.id, existing.id));
-    } else {
-      await db.insert(locationInventory).values({
-        locationId,
-        productId,
-        quantity: delta,
-      });
-    }
+      .from(orders)
+      .where(and(eq(orders.subscriptionId, subscriptionId), eq(orders.fulfillmentDate, fulfillmentDate)));
+    return order;
   }
 
   // Orders
@@ -391,6 +1774,89 @@ export class DatabaseStorage implements IStorage {
     return order;
   }
 
+  // Order, lines, first history entry and freezer holds go in together or not at all.
+  // Throws InsufficientStockError (and writes nothing) if the freezer can't cover it.
+  async createOrderWithItems(
+    data: InsertOrder,
+    items: Omit<InsertOrderItem, "orderId">[],
+    options: {
+      history: Omit<InsertOrderStatusHistory, "orderId" | "fromStatus" | "toStatus">;
+      freezer: { allowPartial?: boolean; deduct?: boolean };
+      slot?: SlotLimit;
+    }
+  ): Promise<Order & { items: OrderItem[]; reservations: FreezerReservation[] }> {
+    return db.transaction(async (tx) => {
+      if (options.slot) {
+        await claimSlot(tx, options.slot, items.reduce((sum, item) => sum + item.quantity, 0));
+      }
+
+      const [order] = await tx.insert(orders).values(data).returning();
+      const createdItems = await tx
+        .insert(orderItems)
+        .values(items.map((item) => ({ ...item, orderId: order.id })))
+        .returning();
+
+      await tx.insert(orderStatusHistory).values({
+        ...options.history,
+        orderId: order.id,
+        fromStatus: null,
+        toStatus: order.status,
+      });
+
+      const reservations = await reserveStock(tx, order.id, bagelLines(items), { allowPartial: options.freezer.allowPartial });
+      if (options.freezer.deduct) {
+        await deductHeldStock(tx, order.id);
+      }
+
+      return { ...order, items: createdItems, reservations };
+    });
+  }
+
+  async getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.stripePaymentIntentId, paymentIntentId));
+    return order;
+  }
+
+  async getOrderByNumber(orderNumber: number): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.orderNumber, orderNumber));
+    return order;
+  }
+
+  async getOrdersByPaymentIntentIds(paymentIntentIds: string[]): Promise<Order[]> {
+    if (paymentIntentIds.length === 0) return [];
+    return db.select().from(orders).where(inArray(orders.stripePaymentIntentId, paymentIntentIds));
+  }
+
+  async getStaleNewOrders(createdBefore: Date): Promise<Order[]> {
+    return db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.status, "new"), lte(orders.createdAt, createdBefore)));
+  }
+
+  // Open pre-orders whose hold lapses before the cutoff, or already has, with no renewal pending.
+  // Holds from before we recorded the deadline are assumed to last the default 7 days.
+  async getOrdersWithExpiringHolds(expiringBefore: Date): Promise<Order[]> {
+    return db
+      .select()
+      .from(orders)
+      .where(and(
+        inArray(orders.status, ["new", "approved"]),
+        isNull(orders.reauthorizationPaymentIntentId),
+        or(
+          eq(orders.stripePaymentStatus, "expired"),
+          and(
+            eq(orders.stripePaymentStatus, "authorized"),
+            lte(
+              sql`coalesce(${orders.authorizationExpiresAt}, ${orders.createdAt} + make_interval(days => ${DEFAULT_AUTHORIZATION_DAYS}))`,
+              expiringBefore
+            )
+          )
+        )
+      ))
+      .orderBy(asc(orders.createdAt));
+  }
+
   async updateOrder(id: string, data: Partial<InsertOrder>): Promise<Order | undefined> {
     const [order] = await db
       .update(orders)
@@ -400,13 +1866,30 @@ export class DatabaseStorage implements IStorage {
     return order;
   }
 
-  async updateOrderStatus(id: string, status: string): Promise<Order | undefined> {
-    const [order] = await db
-      .update(orders)
-      .set({ status, updatedAt: new Date() })
-      .where(eq(orders.id, id))
-      .returning();
-    return order;
+  // Only moves the order if it's still in `from`, so two people clicking at once can't both win.
+  // Returns undefined when someone else got there first.
+  async transitionOrderStatus(
+    id: string,
+    from: string,
+    to: string,
+    entry: Omit<InsertOrderStatusHistory, "orderId" | "fromStatus" | "toStatus">
+  ): Promise<Order | undefined> {
+    return db.transaction(async (tx) => {
+      const [order] = await tx
+        .update(orders)
+        .set({ status: to, updatedAt: new Date() })
+        .where(and(eq(orders.id, id), eq(orders.status, from)))
+        .returning();
+      if (!order) return undefined;
+
+      await tx.insert(orderStatusHistory).values({
+        ...entry,
+        orderId: id,
+        fromStatus: from,
+        toStatus: to,
+      });
+      return order;
+    });
   }
 
   async createOrderItem(data: InsertOrderItem): Promise<OrderItem> {
@@ -414,6 +1897,15 @@ export class DatabaseStorage implements IStorage {
     return item;
   }
 
+  // Order Status History
+  async getOrderStatusHistory(orderId: string): Promise<OrderStatusHistory[]> {
+    return db
+      .select()
+      .from(orderStatusHistory)
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(asc(orderStatusHistory.createdAt));
+  }
+
   // Marketing Assets
   async getMarketingAssets(): Promise<MarketingAsset[]> {
     return db.select().from(marketingAssets).orderBy(marketingAssets.name);
@@ -491,6 +1983,104 @@ export class DatabaseStorage implements IStorage {
     return `INV-${year}-${nextNum.toString().padStart(4, "0")}`;
   }
 
+  // Refunds
+  async getRefundsForOrder(orderId: string): Promise<(Refund & { items: RefundItem[] })[]> {
+    const orderRefunds = await db
+      .select()
+      .from(refunds)
+      .where(eq(refunds.orderId, orderId))
+      .orderBy(asc(refunds.createdAt));
+    if (orderRefunds.length === 0) return [];
+
+    const items = await db
+      .select()
+      .from(refundItems)
+      .where(inArray(refundItems.refundId, orderRefunds.map((r) => r.id)));
+
+    return orderRefunds.map((refund) => ({
+      ...refund,
+      items: items.filter((item) => item.refundId === refund.id),
+    }));
+  }
+
+  async getRefundByStripeId(stripeRefundId: string): Promise<Refund | undefined> {
+    const [refund] = await db.select().from(refunds).where(eq(refunds.stripeRefundId, stripeRefundId));
+    return refund;
+  }
+
+  // Checks the amount and line quantities against what's already been refunded and
+  // numbers the credit note. Serialized with an advisory lock so two refunds can't both
+  // squeeze under the limit or grab the same CN number.
+  async createRefund(
+    data: Omit<InsertRefund, "creditNoteNumber">,
+    items: InsertRefundItem[]
+  ): Promise<Refund & { items: RefundItem[] }> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('refunds'))`);
+
+      const [order] = await tx.select().from(orders).where(eq(orders.id, data.orderId));
+      if (!order) throw new Error(`Order not found: ${data.orderId}`);
+
+      const activeRefunds = await tx
+        .select()
+        .from(refunds)
+        .where(and(eq(refunds.orderId, data.orderId), inArray(refunds.status, ["pending", "succeeded"])));
+
+      const refundedAmount = activeRefunds.reduce((sum, r) => sum + parseFloat(r.amount), 0);
+      const remaining = Math.round((parseFloat(order.total) - refundedAmount) * 100) / 100;
+      if (parseFloat(data.amount) > remaining) {
+        throw new RefundLimitError(parseFloat(data.amount), remaining);
+      }
+
+      if (items.length > 0) {
+        const refundedItems = activeRefunds.length > 0
+          ? await tx.select().from(refundItems).where(inArray(refundItems.refundId, activeRefunds.map((r) => r.id)))
+          : [];
+        const orderedItems = await tx.select().from(orderItems).where(eq(orderItems.orderId, data.orderId));
+        checkRefundLines(orderedItems, refundedItems, items);
+      }
+
+      const year = new Date().getFullYear();
+      const [latest] = await tx
+        .select({ creditNoteNumber: refunds.creditNoteNumber })
+        .from(refunds)
+        .where(like(refunds.creditNoteNumber, `CN-${year}-%`))
+        .orderBy(desc(refunds.createdAt))
+        .limit(1);
+      const creditNoteNumber = nextDocumentNumber("CN", year, latest?.creditNoteNumber);
+
+      const [refund] = await tx.insert(refunds).values({ ...data, creditNoteNumber }).returning();
+      const createdItems = items.length > 0
+        ? await tx.insert(refundItems).values(items.map((item) => ({ ...item, refundId: refund.id }))).returning()
+        : [];
+
+      return { ...refund, items: createdItems };
+    });
+  }
+
+  async updateRefund(id: string, data: Partial<InsertRefund>): Promise<Refund | undefined> {
+    const [refund] = await db
+      .update(refunds)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(refunds.id, id))
+      .returning();
+    return refund;
+  }
+
+  // Money actually returned, per order
+  async getRefundedTotals(orderIds: string[]): Promise<Record<string, number>> {
+    if (orderIds.length === 0) return {};
+    const rows = await db
+      .select({
+        orderId: refunds.orderId,
+        amount: sql<string>`sum(${refunds.amount})`,
+      })
+      .from(refunds)
+      .where(and(inArray(refunds.orderId, orderIds), eq(refunds.status, "succeeded")))
+      .groupBy(refunds.orderId);
+    return Object.fromEntries(rows.map((row) => [row.orderId, parseFloat(row.amount)]));
+  }
+
   // Inventory Adjustments
   async getInventoryAdjustments(ingredientId?: string): Promise<(InventoryAdjustment & { ingredient: Ingredient })[]> {
     let query = db
@@ -520,34 +2110,237 @@ export class DatabaseStorage implements IStorage {
     quantity: number,
     type: string,
     reason?: string,
-    adjustedBy?: string
+    adjustedBy?: string,
+    lot: LotDetails = {}
   ): Promise<InventoryAdjustment> {
-    const ingredient = await this.getIngredient(ingredientId);
-    if (!ingredient) {
-      throw new Error("Ingredient not found");
+    return db.transaction(async (tx) => {
+      const [ingredient] = await tx.select().from(ingredients).where(eq(ingredients.id, ingredientId)).for("update");
+      if (!ingredient) {
+        throw new Error("Ingredient not found");
+      }
+
+      const previousQuantity = parseFloat(ingredient.onHand);
+      const newQuantity = previousQuantity + quantity;
+
+      // Update ingredient inventory
+      await tx
+        .update(ingredients)
+        .set({ onHand: newQuantity.toString(), updatedAt: new Date() })
+        .where(eq(ingredients.id, ingredientId));
+
+      // Deliveries open a lot; anything taken out comes off the lots
+      if (quantity > 0 && type === "receive") {
+        await tx.insert(ingredientLots).values({
+          ingredientId,
+          lotCode: lot.lotCode,
+          supplierId: lot.supplierId ?? ingredient.supplierId,
+          purchaseOrderId: lot.purchaseOrderId,
+          expiresAt: lot.expiresAt,
+          quantityReceived: quantity.toString(),
+          quantityRemaining: quantity.toString(),
+          costPerUnit: lot.costPerUnit ?? ingredient.costPerUnit,
+        });
+      } else if (quantity < 0) {
+        await drawFromLots(tx, ingredientId, -quantity, lot.lotId);
+      }
+
+      // Create adjustment record
+      const [adjustment] = await tx
+        .insert(inventoryAdjustments)
+        .values({
+          ingredientId,
+          adjustmentType: type,
+          quantity: quantity.toString(),
+          previousQuantity: previousQuantity.toString(),
+          newQuantity: newQuantity.toString(),
+          reason,
+          adjustedBy,
+        })
+        .returning();
+
+      return adjustment;
+    });
+  }
+
+  // Suppliers
+  async getSuppliers(): Promise<Supplier[]> {
+    return db.select().from(suppliers).orderBy(suppliers.name);
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
+  }
+
+  async createSupplier(data: InsertSupplier): Promise<Supplier> {
+    const [supplier] = await db.insert(suppliers).values(data).returning();
+    return supplier;
+  }
+
+  async updateSupplier(id: string, data: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const [supplier] = await db
+      .update(suppliers)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(suppliers.id, id))
+      .returning();
+    return supplier;
+  }
+
+  // Purchase Orders
+  async getPurchaseOrders(): Promise<PurchaseOrderDetail[]> {
+    const allOrders = await db
+      .select()
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .orderBy(desc(purchaseOrders.createdAt));
+
+    const result = [];
+    for (const row of allOrders) {
+      const items = await purchaseOrderLines(row.purchase_orders.id);
+      result.push({ ...row.purchase_orders, supplier: row.suppliers, items });
     }
+    return result;
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrderDetail | undefined> {
+    const [row] = await db
+      .select()
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(eq(purchaseOrders.id, id));
+    if (!row) return undefined;
 
-    const previousQuantity = parseFloat(ingredient.onHand);
-    const newQuantity = previousQuantity + quantity;
+    const items = await purchaseOrderLines(id);
+    return { ...row.purchase_orders, supplier: row.suppliers, items };
+  }
 
-    // Update ingredient inventory
-    await db
-      .update(ingredients)
-      .set({ onHand: newQuantity.toString(), updatedAt: new Date() })
-      .where(eq(ingredients.id, ingredientId));
-
-    // Create adjustment record
-    const adjustment = await this.createInventoryAdjustment({
-      ingredientId,
-      adjustmentType: type,
-      quantity: quantity.toString(),
-      previousQuantity: previousQuantity.toString(),
-      newQuantity: newQuantity.toString(),
-      reason,
-      adjustedBy,
+  async createPurchaseOrder(
+    data: Omit<InsertPurchaseOrder, "poNumber" | "total">,
+    items: InsertPurchaseOrderItem[]
+  ): Promise<PurchaseOrder> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('purchase_orders'))`);
+
+      const year = new Date().getFullYear();
+      const [latest] = await tx
+        .select({ poNumber: purchaseOrders.poNumber })
+        .from(purchaseOrders)
+        .orderBy(desc(purchaseOrders.createdAt))
+        .limit(1);
+      const lastNum = latest ? parseInt(latest.poNumber.split("-")[2] || "0", 10) : 0;
+      const poNumber = `PO-${year}-${(lastNum + 1).toString().padStart(4, "0")}`;
+
+      const [purchaseOrder] = await tx
+        .insert(purchaseOrders)
+        .values({ ...data, poNumber, total: purchaseOrderTotal(items) })
+        .returning();
+      if (items.length > 0) {
+        await tx.insert(purchaseOrderItems).values(items.map((item) => ({ ...item, purchaseOrderId: purchaseOrder.id })));
+      }
+      return purchaseOrder;
+    });
+  }
+
+  // Replaces the lines when items are given; only drafts can be changed that way
+  async updatePurchaseOrder(
+    id: string,
+    data: Partial<Omit<InsertPurchaseOrder, "poNumber" | "total">>,
+    items?: InsertPurchaseOrderItem[]
+  ): Promise<PurchaseOrder | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for("update");
+      if (!current) return undefined;
+
+      const changes: Partial<InsertPurchaseOrder> = { ...data };
+      if (items) {
+        if (current.status !== "draft") throw new PurchaseOrderStateError(current.status, "edit the lines of");
+        await tx.delete(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+        if (items.length > 0) {
+          await tx.insert(purchaseOrderItems).values(items.map((item) => ({ ...item, purchaseOrderId: id })));
+        }
+        changes.total = purchaseOrderTotal(items);
+      }
+
+      const [purchaseOrder] = await tx
+        .update(purchaseOrders)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      return purchaseOrder;
     });
+  }
 
-    return adjustment;
+  // Books the delivery into the pantry: stock goes up with a "receive" adjustment per line,
+  // and the price paid becomes the ingredient's cost per unit
+  async receivePurchaseOrder(id: string, lines: ReceivedLine[], adjustedBy?: string): Promise<PurchaseOrder> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for("update");
+      if (!current) throw new Error(`Purchase order not found: ${id}`);
+      if (current.status !== "sent" && current.status !== "partially_received") {
+        throw new PurchaseOrderStateError(current.status, "receive");
+      }
+
+      const items = await tx.select().from(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+      for (const line of lines) {
+        const item = items.find((i) => i.id === line.itemId);
+        if (!item) throw new Error(`Line ${line.itemId} isn't on ${current.poNumber}`);
+
+        const [ingredient] = await tx.select().from(ingredients).where(eq(ingredients.id, item.ingredientId)).for("update");
+        const previousQuantity = parseFloat(ingredient.onHand);
+        const newQuantity = previousQuantity + line.quantity;
+        const unitCost = line.unitCost ?? parseFloat(item.unitCost);
+
+        await tx
+          .update(ingredients)
+          .set({
+            onHand: newQuantity.toString(),
+            ...(unitCost > 0 ? { costPerUnit: unitCost.toString() } : {}),
+            updatedAt: new Date(),
+          })
+          .where(eq(ingredients.id, ingredient.id));
+
+        await tx.insert(inventoryAdjustments).values({
+          ingredientId: ingredient.id,
+          adjustmentType: "receive",
+          quantity: line.quantity.toString(),
+          previousQuantity: previousQuantity.toString(),
+          newQuantity: newQuantity.toString(),
+          reason: `Received on ${current.poNumber}`,
+          adjustedBy,
+        });
+
+        await tx.insert(ingredientLots).values({
+          ingredientId: ingredient.id,
+          lotCode: line.lotCode,
+          supplierId: current.supplierId,
+          purchaseOrderId: current.id,
+          expiresAt: line.expiresAt,
+          quantityReceived: line.quantity.toString(),
+          quantityRemaining: line.quantity.toString(),
+          costPerUnit: unitCost.toString(),
+        });
+
+        item.receivedQuantity = (parseFloat(item.receivedQuantity) + line.quantity).toString();
+        item.unitCost = unitCost.toString();
+        await tx
+          .update(purchaseOrderItems)
+          .set({ receivedQuantity: item.receivedQuantity, unitCost: item.unitCost })
+          .where(eq(purchaseOrderItems.id, item.id));
+      }
+
+      const complete = items.every((item) => parseFloat(item.receivedQuantity) >= parseFloat(item.quantity));
+      const [purchaseOrder] = await tx
+        .update(purchaseOrders)
+        .set({
+          status: complete ? "received" : "partially_received",
+          receivedAt: complete ? new Date() : null,
+          total: purchaseOrderTotal(items),
+          updatedAt: new Date(),
+        })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      return purchaseOrder;
+    });
   }
 
   // Freezer Stock
@@ -568,6 +2361,61 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(freezerStock).where(eq(freezerStock.productId, productId));
   }
 
+  async getFreezerStockByIds(ids: string[]): Promise<FreezerStock[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(freezerStock).where(inArray(freezerStock.id, ids));
+  }
+
+  async getFreezerStockForBatches(batchIds: string[]): Promise<(FreezerStock & { product: Product })[]> {
+    if (batchIds.length === 0) return [];
+    const rows = await db
+      .select()
+      .from(freezerStock)
+      .innerJoin(products, eq(freezerStock.productId, products.id))
+      .where(inArray(freezerStock.batchId, batchIds))
+      .orderBy(freezerStock.frozenAt);
+    return rows.map((row) => ({ ...row.freezer_stock, product: row.products }));
+  }
+
+  // A reason quarantines the rows; null puts them back on sale. Orders holding quarantined
+  // bags lose those holds and get what can be found in stock that's still good, oldest first.
+  async setFreezerQuarantine(ids: string[], reason: string | null): Promise<{ stock: FreezerStock[]; holds: QuarantinedHold[] }> {
+    if (ids.length === 0) return { stock: [], holds: [] };
+    return db.transaction(async (tx) => {
+      const stock = await tx
+        .update(freezerStock)
+        .set({
+          quarantinedAt: reason ? new Date() : null,
+          quarantineReason: reason,
+          updatedAt: new Date(),
+        })
+        .where(inArray(freezerStock.id, ids))
+        .returning();
+      if (!reason) return { stock, holds: [] };
+
+      const released = await tx
+        .update(freezerReservations)
+        .set({ status: "released", updatedAt: new Date() })
+        .where(and(eq(freezerReservations.status, "held"), inArray(freezerReservations.freezerStockId, ids)))
+        .returning();
+
+      const holds: QuarantinedHold[] = [];
+      for (const orderId of Array.from(new Set(released.map((r) => r.orderId)))) {
+        const lines = released.filter((r) => r.orderId === orderId);
+        const reheld = await reserveStock(tx, orderId, lines, { allowPartial: true });
+        for (const productId of Array.from(new Set(lines.map((r) => r.productId)))) {
+          holds.push({
+            orderId,
+            productId,
+            quantity: lines.filter((r) => r.productId === productId).reduce((sum, r) => sum + r.quantity, 0),
+            reheld: reheld.filter((r) => r.productId === productId).reduce((sum, r) => sum + r.quantity, 0),
+          });
+        }
+      }
+      return { stock, holds };
+    });
+  }
+
   async createFreezerStock(data: InsertFreezerStock): Promise<FreezerStock> {
     const [stock] = await db.insert(freezerStock).values(data).returning();
     return stock;
@@ -610,6 +2458,245 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Freezer Reservations
+  async getFreezerAvailability(): Promise<Record<string, number>> {
+    const stock = await db.select().from(freezerStock).where(usableFreezerStock(new Date()));
+    const held = await getHeldByStock(db, stock.map((item) => item.id));
+
+    const availability: Record<string, number> = {};
+    for (const item of stock) {
+      const free = Math.max(item.quantity - (held.get(item.id) || 0), 0);
+      availability[item.productId] = (availability[item.productId] || 0) + free;
+    }
+    return availability;
+  }
+
+  async getReservationsForOrder(orderId: string): Promise<FreezerReservation[]> {
+    return db
+      .select()
+      .from(freezerReservations)
+      .where(eq(freezerReservations.orderId, orderId))
+      .orderBy(freezerReservations.createdAt);
+  }
+
+  // Holds and deductions against the given rows; released holds never left the freezer
+  async getReservationsForStock(stockIds: string[]): Promise<FreezerReservation[]> {
+    if (stockIds.length === 0) return [];
+    return db
+      .select()
+      .from(freezerReservations)
+      .where(and(
+        inArray(freezerReservations.freezerStockId, stockIds),
+        inArray(freezerReservations.status, ["held", "deducted"])
+      ))
+      .orderBy(freezerReservations.createdAt);
+  }
+
+  async getStockSourcesForOrders(orderIds: string[]): Promise<StockSource[]> {
+    if (orderIds.length === 0) return [];
+    const rows = await db
+      .select({
+        orderId: freezerReservations.orderId,
+        productId: freezerReservations.productId,
+        batchId: freezerStock.batchId,
+        quantity: freezerReservations.quantity,
+      })
+      .from(freezerReservations)
+      .innerJoin(freezerStock, eq(freezerReservations.freezerStockId, freezerStock.id))
+      .where(and(
+        inArray(freezerReservations.orderId, orderIds),
+        inArray(freezerReservations.status, ["held", "deducted"])
+      ));
+    return rows.flatMap((row) => (row.batchId ? [{ ...row, batchId: row.batchId }] : []));
+  }
+
+  async reserveFreezerStock(
+    orderId: string,
+    items: { productId: string; quantity: number }[],
+    options: { allowPartial?: boolean } = {}
+  ): Promise<FreezerReservation[]> {
+    return db.transaction((tx) => reserveStock(tx, orderId, items, options));
+  }
+
+  async deductFreezerReservations(orderId: string): Promise<FreezerReservation[]> {
+    return db.transaction((tx) => deductHeldStock(tx, orderId));
+  }
+
+  async releaseFreezerReservations(orderId: string): Promise<FreezerReservation[]> {
+    return db
+      .update(freezerReservations)
+      .set({ status: "released", updatedAt: new Date() })
+      .where(and(
+        eq(freezerReservations.orderId, orderId),
+        eq(freezerReservations.status, "held")
+      ))
+      .returning();
+  }
+
+  // Webhook Events
+  async getWebhookEvents(options?: { status?: string; limit?: number }): Promise<WebhookEvent[]> {
+    let query = db.select().from(webhookEvents).orderBy(desc(webhookEvents.createdAt));
+
+    if (options?.status) {
+      query = query.where(eq(webhookEvents.status, options.status)) as any;
+    }
+
+    return query.limit(options?.limit || 100);
+  }
+
+  async getWebhookEvent(id: string): Promise<WebhookEvent | undefined> {
+    const [event] = await db.select().from(webhookEvents).where(eq(webhookEvents.id, id));
+    return event;
+  }
+
+  // Stripe delivers at least once, so the same event id can show up again
+  async recordWebhookEvent(data: InsertWebhookEvent): Promise<{ event: WebhookEvent; isNew: boolean }> {
+    const [inserted] = await db.insert(webhookEvents).values(data).onConflictDoNothing().returning();
+    if (inserted) return { event: inserted, isNew: true };
+
+    const [existing] = await db.select().from(webhookEvents).where(eq(webhookEvents.id, data.id));
+    return { event: existing, isNew: false };
+  }
+
+  async updateWebhookEvent(id: string, data: Partial<InsertWebhookEvent>): Promise<WebhookEvent | undefined> {
+    const [event] = await db
+      .update(webhookEvents)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(webhookEvents.id, id))
+      .returning();
+    return event;
+  }
+
+  // Notifications
+  async getNotificationsForOrder(orderId: string): Promise<Notification[]> {
+    return db.select().from(notifications)
+      .where(eq(notifications.orderId, orderId))
+      .orderBy(desc(notifications.createdAt));
+  }
+
+  async getNotification(id: string): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+
+  async createNotification(data: InsertNotification): Promise<Notification> {
+    const [notification] = await db.insert(notifications).values(data).returning();
+    return notification;
+  }
+
+  async getDueNotifications(now: Date, limit = 50): Promise<Notification[]> {
+    return db.select().from(notifications)
+      .where(and(eq(notifications.status, "queued"), lte(notifications.nextAttemptAt, now)))
+      .orderBy(asc(notifications.nextAttemptAt))
+      .limit(limit);
+  }
+
+  // Pushes the next attempt out to the lease so a second sender (the cron and the
+  // in-process job can overlap) skips it; undefined if someone else got there first
+  async claimNotification(id: string, leaseUntil: Date): Promise<Notification | undefined> {
+    const [claimed] = await db
+      .update(notifications)
+      .set({ nextAttemptAt: leaseUntil, updatedAt: new Date() })
+      .where(and(
+        eq(notifications.id, id),
+        eq(notifications.status, "queued"),
+        lte(notifications.nextAttemptAt, new Date())
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async updateNotification(id: string, data: Partial<InsertNotification>): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(notifications.id, id))
+      .returning();
+    return notification;
+  }
+
+  async getMessageTemplates(channel: string): Promise<MessageTemplate[]> {
+    return db.select().from(messageTemplates).where(eq(messageTemplates.channel, channel));
+  }
+
+  async getMessageTemplate(channel: string, template: string): Promise<MessageTemplate | undefined> {
+    const [saved] = await db.select().from(messageTemplates)
+      .where(and(eq(messageTemplates.channel, channel), eq(messageTemplates.template, template)));
+    return saved;
+  }
+
+  async saveMessageTemplate(channel: string, template: string, body: string, updatedBy?: string): Promise<MessageTemplate> {
+    const [saved] = await db
+      .insert(messageTemplates)
+      .values({ channel, template, body, updatedBy })
+      .onConflictDoUpdate({
+        target: [messageTemplates.channel, messageTemplates.template],
+        set: { body, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteMessageTemplate(channel: string, template: string): Promise<boolean> {
+    const deleted = await db.delete(messageTemplates)
+      .where(and(eq(messageTemplates.channel, channel), eq(messageTemplates.template, template)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Idempotency Keys
+  async claimIdempotencyKey(
+    scope: string,
+    key: string,
+    requestHash: string
+  ): Promise<{ claimed: true; record: IdempotencyKey } | { claimed: false; record: IdempotencyKey }> {
+    const [inserted] = await db
+      .insert(idempotencyKeys)
+      .values({ scope, key, requestHash })
+      .onConflictDoNothing()
+      .returning();
+    if (inserted) return { claimed: true, record: inserted };
+
+    // A first attempt that never finished (crashed, timed out) shouldn't block retries forever
+    const abandonedBefore = new Date(Date.now() - 2 * 60 * 1000);
+    const [reclaimed] = await db
+      .update(idempotencyKeys)
+      .set({ requestHash, createdAt: new Date() })
+      .where(and(
+        eq(idempotencyKeys.scope, scope),
+        eq(idempotencyKeys.key, key),
+        isNull(idempotencyKeys.responseStatus),
+        lte(idempotencyKeys.createdAt, abandonedBefore)
+      ))
+      .returning();
+    if (reclaimed) return { claimed: true, record: reclaimed };
+
+    const [existing] = await db
+      .select()
+      .from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.scope, scope), eq(idempotencyKeys.key, key)));
+    return { claimed: false, record: existing };
+  }
+
+  async completeIdempotencyKey(id: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    await db
+      .update(idempotencyKeys)
+      .set({ responseStatus, responseBody })
+      .where(eq(idempotencyKeys.id, id));
+  }
+
+  async releaseIdempotencyKey(id: string): Promise<void> {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
+  }
+
+  async deleteIdempotencyKeysBefore(date: Date): Promise<number> {
+    const deleted = await db
+      .delete(idempotencyKeys)
+      .where(lte(idempotencyKeys.createdAt, date))
+      .returning({ id: idempotencyKeys.id });
+    return deleted.length;
+  }
+
   // Activity Logs
   async getActivityLogs(options?: { entityType?: string; entityId?: string; limit?: number }): Promise<ActivityLog[]> {
     let query = db.select().from(activityLogs).orderBy(desc(activityLogs.createdAt));
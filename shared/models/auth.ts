@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { index, jsonb, pgTable, timestamp, varchar } from "drizzle-orm/pg-core";
+import { boolean, index, jsonb, pgTable, text, timestamp, varchar } from "drizzle-orm/pg-core";
 
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
@@ -15,15 +15,53 @@ export const sessions = pgTable(
 
 // User storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
+// Bakehouse logins add username/password/role on top of the Replit columns.
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: varchar("email").unique(),
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  username: varchar("username").unique(),
+  passwordHash: text("password_hash"),
+  role: text("role").notNull().default("viewer"), // owner, baker, driver, viewer
+  isActive: boolean("is_active").notNull().default(true),
+  lastLoginAt: timestamp("last_login_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+
+// Users as exposed over the API - never includes the password hash
+export type PublicUser = Omit<User, "passwordHash">;
+
+// ============================================
+// Roles & permissions
+// ============================================
+export const USER_ROLES = ["owner", "baker", "driver", "viewer"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const PERMISSIONS = [
+  "bakehouse:view",     // read-only access to every bakehouse page
+  "orders:manage",      // approve, cancel, edit and create orders (moves money)
+  "orders:fulfill",     // move approved orders through baking, ready, completed
+  "production:manage",  // schedule and run batches
+  "inventory:manage",   // pantry and freezer adjustments
+  "catalog:manage",     // products, BOM, locations, tax rates, marketing
+  "users:manage",       // invite, disable and reset bakehouse users
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  baker: ["bakehouse:view", "orders:fulfill", "production:manage", "inventory:manage"],
+  driver: ["bakehouse:view", "orders:fulfill"],
+  viewer: ["bakehouse:view"],
+};
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  if (!role || !(role in ROLE_PERMISSIONS)) return false;
+  return ROLE_PERMISSIONS[role as UserRole].includes(permission);
+}
@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, timestamp, boolean, jsonb, index, doublePrecision } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, timestamp, boolean, jsonb, index, uniqueIndex, doublePrecision, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,9 +13,11 @@ export const ingredients = pgTable("ingredients", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   unit: text("unit").notNull(), // oz, lb, count, etc.
+  density: decimal("density", { precision: 10, scale: 4 }), // g per ml, for weighing out a volume or measuring a weight
   onHand: decimal("on_hand", { precision: 10, scale: 2 }).notNull().default("0"),
   reorderThreshold: decimal("reorder_threshold", { precision: 10, scale: 2 }).notNull().default("0"),
   costPerUnit: decimal("cost_per_unit", { precision: 10, scale: 4 }).default("0"),
+  supplierId: varchar("supplier_id").references(() => suppliers.id), // who purchase order drafts go to
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -39,12 +41,30 @@ export const products = pgTable("products", {
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   imageUrl: text("image_url"),
   isActive: boolean("is_active").notNull().default(true),
+  taxable: boolean("taxable").notNull().default(true),
+  safetyBuffer: integer("safety_buffer").notNull().default(0), // extra bagels the planner adds to each bake
+  // Overhead per bagel on top of ingredients, for costing
+  laborCost: decimal("labor_cost", { precision: 10, scale: 4 }).notNull().default("0"),
+  packagingCost: decimal("packaging_cost", { precision: 10, scale: 4 }).notNull().default("0"),
+  archivedAt: timestamp("archived_at"), // archived products stay for the orders that reference them
+  // Bundles are sold made up of other products and never baked themselves. Null for a bagel.
+  bundleType: text("bundle_type"), // "fixed" or "pick"
+  bundleSize: integer("bundle_size"), // how many the customer picks, for "pick" bundles
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const insertProductSchema = createInsertSchema(products).omit({
+export const productsRelations = relations(products, ({ many }) => ({
+  variants: many(productVariants),
+  components: many(bundleComponents, { relationName: "bundle" }),
+}));
+
+export const insertProductSchema = createInsertSchema(products, {
+  bundleType: z.enum(["fixed", "pick"]).nullable().optional(),
+  bundleSize: z.number().int().min(1).nullable().optional(),
+}).omit({
   id: true,
+  archivedAt: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -52,21 +72,148 @@ export const insertProductSchema = createInsertSchema(products).omit({
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type Product = typeof products.$inferSelect;
 
+// ============================================
+// PRODUCT VARIANTS - Pack sizes sold at their own price (half-dozen, dozen)
+// ============================================
+// A single bagel is always sold at the product's own price; variants are the packs on top of that
+export const productVariants = pgTable("product_variants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  name: text("name").notNull(),
+  packSize: integer("pack_size").notNull(), // bagels in one pack
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(), // for the whole pack
+  isActive: boolean("is_active").notNull().default(true),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_product_variants_product").on(table.productId),
+]);
+
+export const productVariantsRelations = relations(productVariants, ({ one }) => ({
+  product: one(products, {
+    fields: [productVariants.productId],
+    references: [products.id],
+  }),
+}));
+
+export const insertProductVariantSchema = createInsertSchema(productVariants, {
+  packSize: z.number().int().min(2),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
+export type ProductVariant = typeof productVariants.$inferSelect;
+
+// ============================================
+// PRODUCT IMAGES - Uploaded photos, kept in the database since serverless disks don't last
+// ============================================
+const bytea = customType<{ data: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
+export const productImages = pgTable("product_images", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  contentType: text("content_type").notNull(),
+  data: bytea("data").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_product_images_product").on(table.productId),
+]);
+
+export type ProductImage = typeof productImages.$inferSelect;
+
+// ============================================
+// BUNDLE COMPONENTS - What a bundle is made of
+// ============================================
+// A fixed bundle always holds each component's quantity; a pick bundle's components are the set
+// the customer chooses its bundleSize bagels from, and quantity is unused
+export const bundleComponents = pgTable("bundle_components", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bundleId: varchar("bundle_id").notNull().references(() => products.id),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  quantity: integer("quantity"),
+}, (table) => [
+  index("idx_bundle_components_bundle").on(table.bundleId),
+]);
+
+export const bundleComponentsRelations = relations(bundleComponents, ({ one }) => ({
+  bundle: one(products, {
+    fields: [bundleComponents.bundleId],
+    references: [products.id],
+    relationName: "bundle",
+  }),
+  product: one(products, {
+    fields: [bundleComponents.productId],
+    references: [products.id],
+  }),
+}));
+
+export type BundleComponent = typeof bundleComponents.$inferSelect;
+
+// Bagels of one product, as a bundle holds them or a line takes them from the freezer
+export type BundleContent = { productId: string; quantity: number };
+
+// ============================================
+// RECIPE VERSIONS - Each saved BOM, kept so batches know what they were made with
+// ============================================
+export const recipeVersions = pgTable("recipe_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  version: integer("version").notNull(), // 1, 2, 3... per product
+  effectiveFrom: timestamp("effective_from").notNull().defaultNow(),
+  yieldQuantity: integer("yield_quantity").notNull().default(1), // bagels one round of the recipe makes
+  wastePercent: decimal("waste_percent", { precision: 5, scale: 2 }).notNull().default("0"), // expected loss
+  notes: text("notes"),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_recipe_versions_product_version").on(table.productId, table.version),
+]);
+
+export const recipeVersionsRelations = relations(recipeVersions, ({ one, many }) => ({
+  product: one(products, {
+    fields: [recipeVersions.productId],
+    references: [products.id],
+  }),
+  lines: many(billOfMaterials),
+}));
+
+export const insertRecipeVersionSchema = createInsertSchema(recipeVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertRecipeVersion = z.infer<typeof insertRecipeVersionSchema>;
+export type RecipeVersion = typeof recipeVersions.$inferSelect;
+
 // ============================================
 // BILL OF MATERIALS - Ingredients per product
 // ============================================
 export const billOfMaterials = pgTable("bill_of_materials", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   productId: varchar("product_id").notNull().references(() => products.id),
+  recipeVersionId: varchar("recipe_version_id").references(() => recipeVersions.id), // null on BOMs from before versioning
   ingredientId: varchar("ingredient_id").notNull().references(() => ingredients.id),
   quantity: decimal("quantity", { precision: 10, scale: 4 }).notNull(),
-});
+  unit: text("unit"), // the recipe's unit; null means the ingredient's own
+}, (table) => [
+  index("idx_bom_recipe_version").on(table.recipeVersionId),
+]);
 
 export const bomRelations = relations(billOfMaterials, ({ one }) => ({
   product: one(products, {
     fields: [billOfMaterials.productId],
     references: [products.id],
   }),
+  recipeVersion: one(recipeVersions, {
+    fields: [billOfMaterials.recipeVersionId],
+    references: [recipeVersions.id],
+  }),
   ingredient: one(ingredients, {
     fields: [billOfMaterials.ingredientId],
     references: [ingredients.id],
@@ -104,6 +251,118 @@ export const insertLocationSchema = createInsertSchema(locations).omit({
 export type InsertLocation = z.infer<typeof insertLocationSchema>;
 export type Location = typeof locations.$inferSelect;
 
+// ============================================
+// DELIVERY ZONES - Where each delivery location will drive to, and what it charges
+// ============================================
+export type DeliveryFeeTier = { minSubtotal: number; fee: number };
+
+export const deliveryZones = pgTable("delivery_zones", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  locationId: varchar("location_id").notNull().references(() => locations.id),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // radius, polygon
+  radiusMiles: decimal("radius_miles", { precision: 6, scale: 2 }), // radius zones, measured from the location
+  polygon: jsonb("polygon").$type<[number, number][]>(), // polygon zones, [lat, lng] corners
+  // The tier with the highest minSubtotal the order reaches applies, e.g. $5 under $40, free above
+  feeTiers: jsonb("fee_tiers").$type<DeliveryFeeTier[]>().notNull().default([]),
+  minimumOrder: decimal("minimum_order", { precision: 10, scale: 2 }).notNull().default("0"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_delivery_zones_location").on(table.locationId),
+]);
+
+export const deliveryZonesRelations = relations(deliveryZones, ({ one }) => ({
+  location: one(locations, {
+    fields: [deliveryZones.locationId],
+    references: [locations.id],
+  }),
+}));
+
+export const insertDeliveryZoneSchema = createInsertSchema(deliveryZones, {
+  polygon: z.array(z.tuple([z.number(), z.number()])).nullable().optional(),
+  feeTiers: z.array(z.object({ minSubtotal: z.number(), fee: z.number() })).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertDeliveryZone = z.infer<typeof insertDeliveryZoneSchema>;
+export type DeliveryZone = typeof deliveryZones.$inferSelect;
+
+// ============================================
+// TAX RATES - Sales tax by delivery state, optionally narrowed to a ZIP
+// ============================================
+export const taxRates = pgTable("tax_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  state: text("state").notNull(), // two-letter code, e.g. NY
+  zipCode: text("zip_code"), // null applies to the whole state
+  rate: decimal("rate", { precision: 6, scale: 5 }).notNull(), // fraction, e.g. 0.08875
+  name: text("name"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_tax_rates_state_zip").on(table.state, table.zipCode),
+]);
+
+export const insertTaxRateSchema = createInsertSchema(taxRates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertTaxRate = z.infer<typeof insertTaxRateSchema>;
+export type TaxRate = typeof taxRates.$inferSelect;
+
+// ============================================
+// FULFILLMENT CAPACITY - How much we can deliver per window
+// ============================================
+export const fulfillmentCapacity = pgTable("fulfillment_capacity", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  window: text("window").notNull(), // morning, afternoon, evening
+  dayOfWeek: integer("day_of_week"), // 0 = Sunday; null applies to every day without its own row
+  maxOrders: integer("max_orders"), // null = no limit
+  maxBagels: integer("max_bagels"), // null = no limit
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_fulfillment_capacity_window").on(table.window, table.dayOfWeek),
+]);
+
+export const insertFulfillmentCapacitySchema = createInsertSchema(fulfillmentCapacity).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertFulfillmentCapacity = z.infer<typeof insertFulfillmentCapacitySchema>;
+export type FulfillmentCapacity = typeof fulfillmentCapacity.$inferSelect;
+
+// ============================================
+// BLACKOUT DATES - Days (or single windows) we don't deliver
+// ============================================
+export const blackoutDates = pgTable("blackout_dates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  date: text("date").notNull(), // yyyy-MM-dd in the bakery's timezone
+  window: text("window"), // null blocks the whole day
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_blackout_dates_date").on(table.date),
+]);
+
+export const insertBlackoutDateSchema = createInsertSchema(blackoutDates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertBlackoutDate = z.infer<typeof insertBlackoutDateSchema>;
+export type BlackoutDate = typeof blackoutDates.$inferSelect;
+
 // ============================================
 // PRODUCTION BATCHES - Real production runs
 // ============================================
@@ -134,6 +393,7 @@ export const batchItems = pgTable("batch_items", {
   batchId: varchar("batch_id").notNull().references(() => batches.id),
   productId: varchar("product_id").notNull().references(() => products.id),
   quantity: integer("quantity").notNull(),
+  recipeVersionId: varchar("recipe_version_id").references(() => recipeVersions.id), // recipe in force when the batch was created
 });
 
 export const batchItemsRelations = relations(batchItems, ({ one }) => ({
@@ -154,6 +414,38 @@ export const insertBatchItemSchema = createInsertSchema(batchItems).omit({
 export type InsertBatchItem = z.infer<typeof insertBatchItemSchema>;
 export type BatchItem = typeof batchItems.$inferSelect;
 
+// ============================================
+// BATCH ORDERS - Orders a batch was planned to cover
+// ============================================
+export const batchOrders = pgTable("batch_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: varchar("batch_id").notNull().references(() => batches.id),
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_batch_orders_batch_order").on(table.batchId, table.orderId),
+  index("idx_batch_orders_order").on(table.orderId),
+]);
+
+export const batchOrdersRelations = relations(batchOrders, ({ one }) => ({
+  batch: one(batches, {
+    fields: [batchOrders.batchId],
+    references: [batches.id],
+  }),
+  order: one(orders, {
+    fields: [batchOrders.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const insertBatchOrderSchema = createInsertSchema(batchOrders).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertBatchOrder = z.infer<typeof insertBatchOrderSchema>;
+export type BatchOrder = typeof batchOrders.$inferSelect;
+
 // ============================================
 // LOCATION INVENTORY - Finished goods at locations
 // ============================================
@@ -184,11 +476,221 @@ export const insertLocationInventorySchema = createInsertSchema(locationInventor
 export type InsertLocationInventory = z.infer<typeof insertLocationInventorySchema>;
 export type LocationInventory = typeof locationInventory.$inferSelect;
 
+// ============================================
+// CUSTOMERS - One per email address, with how they want to hear from us
+// ============================================
+export const customers = pgTable("customers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull().unique(), // lowercased
+  name: text("name").notNull(),
+  phone: text("phone"), // E.164, e.g. +15551234567
+  // Texts only go to customers who asked for them, and only to the number they asked on,
+  // since anyone can check out under any email; replying STOP from that number turns them off
+  smsOptIn: boolean("sms_opt_in").notNull().default(false),
+  smsPhone: text("sms_phone"), // E.164; the number the opt-in was given for
+  smsOptInAt: timestamp("sms_opt_in_at"),
+  smsOptOutAt: timestamp("sms_opt_out_at"),
+  lastSignInAt: timestamp("last_sign_in_at"),
+  stripeCustomerId: text("stripe_customer_id"), // made when they first subscribe, to keep their card on
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_customers_phone").on(table.phone),
+  index("idx_customers_sms_phone").on(table.smsPhone),
+]);
+
+export const customersRelations = relations(customers, ({ many }) => ({
+  orders: many(orders),
+  addresses: many(customerAddresses),
+  subscriptions: many(subscriptions),
+}));
+
+export const insertCustomerSchema = createInsertSchema(customers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type Customer = typeof customers.$inferSelect;
+
+// ============================================
+// CUSTOMER ADDRESSES - Where a customer has had orders delivered, for the next checkout
+// ============================================
+export const customerAddresses = pgTable("customer_addresses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  label: text("label"), // "Home", "Office"
+  deliveryAddress: text("delivery_address").notNull(),
+  deliveryCity: text("delivery_city").notNull(),
+  deliveryState: text("delivery_state").notNull(),
+  deliveryZip: text("delivery_zip").notNull(),
+  deliveryInstructions: text("delivery_instructions"),
+  isDefault: boolean("is_default").notNull().default(false),
+  lastUsedAt: timestamp("last_used_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_customer_addresses_customer").on(table.customerId),
+]);
+
+export const customerAddressesRelations = relations(customerAddresses, ({ one }) => ({
+  customer: one(customers, {
+    fields: [customerAddresses.customerId],
+    references: [customers.id],
+  }),
+}));
+
+export const insertCustomerAddressSchema = createInsertSchema(customerAddresses).omit({
+  id: true,
+  lastUsedAt: true,
+  createdAt: true,
+});
+
+export type InsertCustomerAddress = z.infer<typeof insertCustomerAddressSchema>;
+export type CustomerAddress = typeof customerAddresses.$inferSelect;
+
+// ============================================
+// CUSTOMER SIGN-IN TOKENS - Magic links; only a hash of each is kept, and each works once
+// ============================================
+export const customerSignInTokens = pgTable("customer_sign_in_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_customer_sign_in_tokens_customer").on(table.customerId),
+]);
+
+export type CustomerSignInToken = typeof customerSignInTokens.$inferSelect;
+
+// ============================================
+// CUSTOMER SESSIONS - Signed-in customers, kept apart from the bakehouse's staff sessions
+// ============================================
+export const customerSessions = pgTable("customer_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_customer_sessions_customer").on(table.customerId),
+]);
+
+export type CustomerSession = typeof customerSessions.$inferSelect;
+
+// ============================================
+// SUBSCRIPTIONS - The same order on a weekly or fortnightly rhythm, charged to a saved card
+// ============================================
+export const subscriptions = pgTable("subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  status: text("status").notNull().default("pending"), // pending, active, paused, cancelled
+  cadence: text("cadence").notNull(), // weekly, biweekly
+  fulfillmentWindow: text("fulfillment_window").notNull(),
+  nextDeliveryDate: text("next_delivery_date").notNull(), // yyyy-MM-dd in the bakery's timezone
+  resumeOn: text("resume_on"), // a pause with an end; null pauses until the customer resumes
+  deliveryAddress: text("delivery_address").notNull(),
+  deliveryCity: text("delivery_city").notNull(),
+  deliveryState: text("delivery_state").notNull(),
+  deliveryZip: text("delivery_zip").notNull(),
+  deliveryInstructions: text("delivery_instructions"),
+  // Saved by the first order's checkout; every later delivery is charged to it off-session
+  stripePaymentMethodId: text("stripe_payment_method_id"),
+  lastFailureReason: text("last_failure_reason"),
+  lastFailedAt: timestamp("last_failed_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_subscriptions_customer").on(table.customerId),
+  index("idx_subscriptions_status_next").on(table.status, table.nextDeliveryDate),
+]);
+
+export const subscriptionsRelations = relations(subscriptions, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [subscriptions.customerId],
+    references: [customers.id],
+  }),
+  items: many(subscriptionItems),
+  skips: many(subscriptionSkips),
+  orders: many(orders),
+}));
+
+export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
+export type Subscription = typeof subscriptions.$inferSelect;
+
+// ============================================
+// SUBSCRIPTION ITEMS - Cart lines as the customer chose them; priced afresh for every delivery
+// ============================================
+export const subscriptionItems = pgTable("subscription_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subscriptionId: varchar("subscription_id").notNull().references(() => subscriptions.id),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  variantId: varchar("variant_id").references(() => productVariants.id),
+  picks: jsonb("picks").$type<BundleContent[]>(), // what's in one of a pick bundle
+  quantity: integer("quantity").notNull(), // packs, bundles or single bagels, as on the order form
+}, (table) => [
+  index("idx_subscription_items_subscription").on(table.subscriptionId),
+]);
+
+export const subscriptionItemsRelations = relations(subscriptionItems, ({ one }) => ({
+  subscription: one(subscriptions, {
+    fields: [subscriptionItems.subscriptionId],
+    references: [subscriptions.id],
+  }),
+  product: one(products, {
+    fields: [subscriptionItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const insertSubscriptionItemSchema = createInsertSchema(subscriptionItems, {
+  picks: z.array(z.object({ productId: z.string(), quantity: z.number() })).nullable().optional(),
+}).omit({
+  id: true,
+});
+
+export type InsertSubscriptionItem = z.infer<typeof insertSubscriptionItemSchema>;
+export type SubscriptionItem = typeof subscriptionItems.$inferSelect;
+
+// ============================================
+// SUBSCRIPTION SKIPS - Delivery days the customer doesn't want
+// ============================================
+export const subscriptionSkips = pgTable("subscription_skips", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subscriptionId: varchar("subscription_id").notNull().references(() => subscriptions.id),
+  date: text("date").notNull(), // yyyy-MM-dd
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_subscription_skips_subscription_date").on(table.subscriptionId, table.date),
+]);
+
+export const subscriptionSkipsRelations = relations(subscriptionSkips, ({ one }) => ({
+  subscription: one(subscriptions, {
+    fields: [subscriptionSkips.subscriptionId],
+    references: [subscriptions.id],
+  }),
+}));
+
+export type SubscriptionSkip = typeof subscriptionSkips.$inferSelect;
+
 // ============================================
 // ORDERS - Customer orders (delivery-based)
 // ============================================
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // What customers see and quote (DH-1042); the id stays internal
+  orderNumber: integer("order_number").notNull().unique().generatedByDefaultAsIdentity({ startWith: 1001 }),
+  customerId: varchar("customer_id").references(() => customers.id),
+  subscriptionId: varchar("subscription_id").references(() => subscriptions.id), // the subscription it started or was placed for
   customerName: text("customer_name").notNull(),
   customerEmail: text("customer_email").notNull(),
   customerPhone: text("customer_phone"),
@@ -204,27 +706,50 @@ export const orders = pgTable("orders", {
   fulfillmentWindow: text("fulfillment_window"), // morning, afternoon, evening
   status: text("status").notNull().default("new"), // new, approved, baking, ready, completed, cancelled
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  deliveryFee: decimal("delivery_fee", { precision: 10, scale: 2 }).notNull().default("0"),
+  deliveryZoneId: varchar("delivery_zone_id").references(() => deliveryZones.id),
+  tax: decimal("tax", { precision: 10, scale: 2 }).notNull().default("0"),
+  taxRate: decimal("tax_rate", { precision: 6, scale: 5 }), // rate in force when the order was placed
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
   stripePaymentIntentId: text("stripe_payment_intent_id"),
-  stripePaymentStatus: text("stripe_payment_status"), // authorized, captured, cancelled
+  stripePaymentStatus: text("stripe_payment_status"), // pending, authorized, captured, partially_refunded, refunded, cancelled, expired, disputed
+  authorizationExpiresAt: timestamp("authorization_expires_at"), // card holds lapse after ~7 days
+  // Fresh PaymentIntent the customer was asked to authorize before the current hold runs out
+  reauthorizationPaymentIntentId: text("reauthorization_payment_intent_id"),
+  reauthorizationRequestedAt: timestamp("reauthorization_requested_at"),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
   index("idx_orders_status").on(table.status),
   index("idx_orders_fulfillment_date").on(table.fulfillmentDate),
+  index("idx_orders_stripe_payment_intent").on(table.stripePaymentIntentId),
+  index("idx_orders_customer").on(table.customerId),
+  // One order per subscription per delivery day, however many times the job runs
+  uniqueIndex("idx_orders_subscription_delivery").on(table.subscriptionId, table.fulfillmentDate),
 ]);
 
 export const ordersRelations = relations(orders, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [orders.customerId],
+    references: [customers.id],
+  }),
+  subscription: one(subscriptions, {
+    fields: [orders.subscriptionId],
+    references: [subscriptions.id],
+  }),
   location: one(locations, {
     fields: [orders.locationId],
     references: [locations.id],
   }),
   items: many(orderItems),
+  statusHistory: many(orderStatusHistory),
+  refunds: many(refunds),
 }));
 
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
+  orderNumber: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -239,28 +764,68 @@ export const orderItems = pgTable("order_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orderId: varchar("order_id").notNull().references(() => orders.id),
   productId: varchar("product_id").notNull().references(() => products.id),
-  quantity: integer("quantity").notNull(),
-  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
-  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  quantity: integer("quantity").notNull(), // bagels, whether bought singly or in packs
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(), // per bagel
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(), // before tax
+  tax: decimal("tax", { precision: 10, scale: 2 }).notNull().default("0"),
+  // Set when the bagels were bought as packs or bundles. The pack name, or a bundle's contents
+  // ("7 Everything, 6 Sesame"), is kept as it was sold
+  variantId: varchar("variant_id").references(() => productVariants.id),
+  packs: integer("packs"),
+  packName: text("pack_name"),
+  components: jsonb("components").$type<BundleContent[]>(), // a bundle line's bagels by product
+});
+
+export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderItems.orderId],
+    references: [orders.id],
+  }),
+  product: one(products, {
+    fields: [orderItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const insertOrderItemSchema = createInsertSchema(orderItems, {
+  components: z.array(z.object({ productId: z.string(), quantity: z.number() })).nullable().optional(),
+}).omit({
+  id: true,
 });
 
-export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type OrderItem = typeof orderItems.$inferSelect;
+
+// ============================================
+// ORDER STATUS HISTORY - Every status change, who made it and why
+// ============================================
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  fromStatus: text("from_status"), // null when the order was created
+  toStatus: text("to_status").notNull(),
+  changedBy: text("changed_by"),
+  changedByName: text("changed_by_name"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_order_status_history_order").on(table.orderId, table.createdAt),
+]);
+
+export const orderStatusHistoryRelations = relations(orderStatusHistory, ({ one }) => ({
   order: one(orders, {
-    fields: [orderItems.orderId],
+    fields: [orderStatusHistory.orderId],
     references: [orders.id],
   }),
-  product: one(products, {
-    fields: [orderItems.productId],
-    references: [products.id],
-  }),
 }));
 
-export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
+export const insertOrderStatusHistorySchema = createInsertSchema(orderStatusHistory).omit({
   id: true,
+  createdAt: true,
 });
 
-export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
-export type OrderItem = typeof orderItems.$inferSelect;
+export type InsertOrderStatusHistory = z.infer<typeof insertOrderStatusHistorySchema>;
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
 
 // ============================================
 // MARKETING ASSETS - Photo-aware brand system
@@ -301,6 +866,7 @@ export const invoices = pgTable("invoices", {
   deliveryState: text("delivery_state").notNull(),
   deliveryZip: text("delivery_zip").notNull(),
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  deliveryFee: decimal("delivery_fee", { precision: 10, scale: 2 }).notNull().default("0"),
   tax: decimal("tax", { precision: 10, scale: 2 }).notNull().default("0"),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
   status: text("status").notNull().default("draft"), // draft, sent, paid, cancelled
@@ -358,6 +924,79 @@ export const insertInvoiceItemSchema = createInsertSchema(invoiceItems).omit({
 export type InsertInvoiceItem = z.infer<typeof insertInvoiceItemSchema>;
 export type InvoiceItem = typeof invoiceItems.$inferSelect;
 
+// ============================================
+// REFUNDS - Money sent back on a captured order, doubles as the credit note
+// ============================================
+export const refunds = pgTable("refunds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  invoiceId: varchar("invoice_id").references(() => invoices.id),
+  creditNoteNumber: text("credit_note_number").notNull().unique(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason"),
+  status: text("status").notNull().default("pending"), // pending, succeeded, failed, canceled
+  stripeRefundId: text("stripe_refund_id").unique(),
+  createdBy: text("created_by"),
+  createdByName: text("created_by_name"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_refunds_order").on(table.orderId),
+]);
+
+export const refundsRelations = relations(refunds, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [refunds.orderId],
+    references: [orders.id],
+  }),
+  invoice: one(invoices, {
+    fields: [refunds.invoiceId],
+    references: [invoices.id],
+  }),
+  items: many(refundItems),
+}));
+
+export const insertRefundSchema = createInsertSchema(refunds).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+export type Refund = typeof refunds.$inferSelect;
+
+// ============================================
+// REFUND ITEMS - Order lines covered by a partial refund
+// ============================================
+export const refundItems = pgTable("refund_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  refundId: varchar("refund_id").notNull().references(() => refunds.id),
+  orderItemId: varchar("order_item_id").notNull().references(() => orderItems.id),
+  productName: text("product_name").notNull(),
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+});
+
+export const refundItemsRelations = relations(refundItems, ({ one }) => ({
+  refund: one(refunds, {
+    fields: [refundItems.refundId],
+    references: [refunds.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [refundItems.orderItemId],
+    references: [orderItems.id],
+  }),
+}));
+
+export const insertRefundItemSchema = createInsertSchema(refundItems).omit({
+  id: true,
+  refundId: true,
+});
+
+export type InsertRefundItem = z.infer<typeof insertRefundItemSchema>;
+export type RefundItem = typeof refundItems.$inferSelect;
+
 // ============================================
 // INVENTORY ADJUSTMENTS - Track changes to ingredient inventory
 // ============================================
@@ -388,6 +1027,181 @@ export const insertInventoryAdjustmentSchema = createInsertSchema(inventoryAdjus
 export type InsertInventoryAdjustment = z.infer<typeof insertInventoryAdjustmentSchema>;
 export type InventoryAdjustment = typeof inventoryAdjustments.$inferSelect;
 
+// ============================================
+// INGREDIENT LOTS - Each delivery of an ingredient, used oldest first
+// ============================================
+export const ingredientLots = pgTable("ingredient_lots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ingredientId: varchar("ingredient_id").notNull().references(() => ingredients.id),
+  lotCode: text("lot_code"), // as printed on the sack or case
+  supplierId: varchar("supplier_id").references(() => suppliers.id),
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at"),
+  quantityReceived: decimal("quantity_received", { precision: 10, scale: 2 }).notNull(),
+  quantityRemaining: decimal("quantity_remaining", { precision: 10, scale: 2 }).notNull(),
+  costPerUnit: decimal("cost_per_unit", { precision: 10, scale: 4 }),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_ingredient_lots_ingredient").on(table.ingredientId),
+  index("idx_ingredient_lots_code").on(table.lotCode),
+]);
+
+export const ingredientLotsRelations = relations(ingredientLots, ({ one }) => ({
+  ingredient: one(ingredients, {
+    fields: [ingredientLots.ingredientId],
+    references: [ingredients.id],
+  }),
+  supplier: one(suppliers, {
+    fields: [ingredientLots.supplierId],
+    references: [suppliers.id],
+  }),
+}));
+
+export const insertIngredientLotSchema = createInsertSchema(ingredientLots).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertIngredientLot = z.infer<typeof insertIngredientLotSchema>;
+export type IngredientLot = typeof ingredientLots.$inferSelect;
+
+// ============================================
+// BATCH INGREDIENT LOTS - Which lots a completed batch used
+// ============================================
+export const batchIngredientLots = pgTable("batch_ingredient_lots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: varchar("batch_id").notNull().references(() => batches.id),
+  ingredientId: varchar("ingredient_id").notNull().references(() => ingredients.id),
+  lotId: varchar("lot_id").references(() => ingredientLots.id), // null = stock that was never booked in as a lot
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_batch_ingredient_lots_batch").on(table.batchId),
+  index("idx_batch_ingredient_lots_lot").on(table.lotId),
+]);
+
+export const batchIngredientLotsRelations = relations(batchIngredientLots, ({ one }) => ({
+  batch: one(batches, {
+    fields: [batchIngredientLots.batchId],
+    references: [batches.id],
+  }),
+  ingredient: one(ingredients, {
+    fields: [batchIngredientLots.ingredientId],
+    references: [ingredients.id],
+  }),
+  lot: one(ingredientLots, {
+    fields: [batchIngredientLots.lotId],
+    references: [ingredientLots.id],
+  }),
+}));
+
+export const insertBatchIngredientLotSchema = createInsertSchema(batchIngredientLots).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertBatchIngredientLot = z.infer<typeof insertBatchIngredientLotSchema>;
+export type BatchIngredientLot = typeof batchIngredientLots.$inferSelect;
+
+// ============================================
+// SUPPLIERS - Where pantry ingredients are bought
+// ============================================
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  contactName: text("contact_name"),
+  email: text("email"),
+  phone: text("phone"),
+  address: text("address"),
+  leadTimeDays: integer("lead_time_days").notNull().default(3), // sets the expected date on new drafts
+  notes: text("notes"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type Supplier = typeof suppliers.$inferSelect;
+
+// ============================================
+// PURCHASE ORDERS - Restocking orders placed with suppliers
+// ============================================
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  poNumber: text("po_number").notNull().unique(), // PO-2026-0001
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id),
+  status: text("status").notNull().default("draft"), // draft, sent, partially_received, received, cancelled
+  expectedDate: timestamp("expected_date"),
+  notes: text("notes"),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull().default("0"),
+  sentAt: timestamp("sent_at"),
+  receivedAt: timestamp("received_at"),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_purchase_orders_supplier").on(table.supplierId),
+  index("idx_purchase_orders_status").on(table.status),
+]);
+
+export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [purchaseOrders.supplierId],
+    references: [suppliers.id],
+  }),
+  items: many(purchaseOrderItems),
+}));
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+
+// ============================================
+// PURCHASE ORDER ITEMS - Ingredients on a purchase order
+// ============================================
+export const purchaseOrderItems = pgTable("purchase_order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: varchar("purchase_order_id").notNull().references(() => purchaseOrders.id),
+  ingredientId: varchar("ingredient_id").notNull().references(() => ingredients.id),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(), // in the ingredient's unit
+  unitCost: decimal("unit_cost", { precision: 10, scale: 4 }).notNull().default("0"), // quoted, then what was actually paid
+  receivedQuantity: decimal("received_quantity", { precision: 10, scale: 2 }).notNull().default("0"),
+}, (table) => [
+  index("idx_purchase_order_items_po").on(table.purchaseOrderId),
+]);
+
+export const purchaseOrderItemsRelations = relations(purchaseOrderItems, ({ one }) => ({
+  purchaseOrder: one(purchaseOrders, {
+    fields: [purchaseOrderItems.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  ingredient: one(ingredients, {
+    fields: [purchaseOrderItems.ingredientId],
+    references: [ingredients.id],
+  }),
+}));
+
+export const insertPurchaseOrderItemSchema = createInsertSchema(purchaseOrderItems).omit({
+  id: true,
+  purchaseOrderId: true,
+});
+
+export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSchema>;
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+
 // ============================================
 // FREEZER STOCK - Track finished products in freezer storage
 // ============================================
@@ -398,6 +1212,8 @@ export const freezerStock = pgTable("freezer_stock", {
   batchId: varchar("batch_id").references(() => batches.id),
   frozenAt: timestamp("frozen_at").defaultNow(),
   expiresAt: timestamp("expires_at"),
+  quarantinedAt: timestamp("quarantined_at"), // pulled from sale pending a recall
+  quarantineReason: text("quarantine_reason"),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -426,6 +1242,155 @@ export const insertFreezerStockSchema = createInsertSchema(freezerStock).omit({
 export type InsertFreezerStock = z.infer<typeof insertFreezerStockSchema>;
 export type FreezerStock = typeof freezerStock.$inferSelect;
 
+// ============================================
+// FREEZER RESERVATIONS - Holds placed on freezer stock by orders
+// ============================================
+export const freezerReservations = pgTable("freezer_reservations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  freezerStockId: varchar("freezer_stock_id").notNull().references(() => freezerStock.id),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  quantity: integer("quantity").notNull(),
+  status: text("status").notNull().default("held"), // held, deducted, released
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_freezer_reservations_order").on(table.orderId),
+  index("idx_freezer_reservations_stock_status").on(table.freezerStockId, table.status),
+]);
+
+export const freezerReservationsRelations = relations(freezerReservations, ({ one }) => ({
+  order: one(orders, {
+    fields: [freezerReservations.orderId],
+    references: [orders.id],
+  }),
+  freezerStock: one(freezerStock, {
+    fields: [freezerReservations.freezerStockId],
+    references: [freezerStock.id],
+  }),
+  product: one(products, {
+    fields: [freezerReservations.productId],
+    references: [products.id],
+  }),
+}));
+
+export const insertFreezerReservationSchema = createInsertSchema(freezerReservations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertFreezerReservation = z.infer<typeof insertFreezerReservationSchema>;
+export type FreezerReservation = typeof freezerReservations.$inferSelect;
+
+// ============================================
+// WEBHOOK EVENTS - Every Stripe event we've received, for dedupe and replay
+// ============================================
+export const webhookEvents = pgTable("webhook_events", {
+  id: text("id").primaryKey(), // Stripe's event id
+  type: text("type").notNull(),
+  status: text("status").notNull().default("received"), // received, processed, ignored, failed
+  orderId: varchar("order_id").references(() => orders.id),
+  payload: jsonb("payload").notNull(),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_webhook_events_created").on(table.createdAt),
+  index("idx_webhook_events_status").on(table.status),
+]);
+
+export const webhookEventsRelations = relations(webhookEvents, ({ one }) => ({
+  order: one(orders, {
+    fields: [webhookEvents.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const insertWebhookEventSchema = createInsertSchema(webhookEvents).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertWebhookEvent = z.infer<typeof insertWebhookEventSchema>;
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+
+// ============================================
+// IDEMPOTENCY KEYS - Remembered responses so a retried request isn't run twice
+// ============================================
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: text("scope").notNull(), // which endpoint the key belongs to, e.g. orders.create
+  key: text("key").notNull(),
+  requestHash: text("request_hash").notNull(),
+  responseStatus: integer("response_status"), // null while the first request is still running
+  responseBody: jsonb("response_body"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_idempotency_keys_scope_key").on(table.scope, table.key),
+  index("idx_idempotency_keys_created").on(table.createdAt),
+]);
+
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+
+// ============================================
+// NOTIFICATIONS - Messages to customers, kept with their delivery attempts
+// ============================================
+// Rendered when queued, so the row shows exactly what went out even if the order changes later
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").references(() => orders.id),
+  channel: text("channel").notNull().default("email"), // email, sms
+  template: text("template").notNull(), // see NOTIFICATION_TEMPLATES and SMS_TEMPLATES
+  recipient: text("recipient").notNull(), // email address or phone number
+  subject: text("subject"), // emails only
+  body: text("body").notNull(), // plain text
+  html: text("html"),
+  status: text("status").notNull().default("queued"), // queued, sent, failed, skipped
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_notifications_order").on(table.orderId),
+  index("idx_notifications_due").on(table.status, table.nextAttemptAt),
+]);
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  order: one(orders, {
+    fields: [notifications.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
+// Staff's wording for a text message; templates without a row use the built-in wording
+export const messageTemplates = pgTable("message_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channel: text("channel").notNull().default("sms"),
+  template: text("template").notNull(), // see SMS_TEMPLATES
+  body: text("body").notNull(),
+  updatedBy: text("updated_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_message_templates_channel_template").on(table.channel, table.template),
+]);
+
+export type MessageTemplate = typeof messageTemplates.$inferSelect;
+
 // ============================================
 // ACTIVITY LOGS - Audit trail for all actions
 // ============================================
@@ -470,8 +1435,36 @@ export const ACTIVITY_ACTIONS = [
   "product.deleted",
   "freezer.stocked",
   "freezer.depleted",
+  "freezer.reserved",
+  "freezer.released",
+  "order.stock_quarantined",
   "invoice.created",
   "invoice.paid",
+  "order.refunded",
+  "payment.orphan_cancelled",
+  "payment.flagged",
+  "payment.authorized",
+  "payment.captured",
+  "payment.authorization_expired",
+  "payment.reauthorization_requested",
+  "payment.reauthorized",
+  "payment.disputed",
+  "user.invited",
+  "user.updated",
+  "user.disabled",
+  "user.password_reset",
+  "notification.retried",
+  "customer.sms_opted_in",
+  "customer.sms_opted_out",
+  "sms.template_updated",
+  "invoice.sent",
+  "subscription.created",
+  "subscription.activated",
+  "subscription.order_placed",
+  "subscription.order_failed",
+  "subscription.paused",
+  "subscription.resumed",
+  "subscription.cancelled",
 ] as const;
 export type ActivityAction = typeof ACTIVITY_ACTIONS[number];
 
@@ -481,21 +1474,163 @@ export type ActivityAction = typeof ACTIVITY_ACTIONS[number];
 export const ORDER_STATUSES = ["new", "approved", "baking", "ready", "completed", "cancelled"] as const;
 export type OrderStatus = typeof ORDER_STATUSES[number];
 
+// Which status an order may move to from each status. Completed and cancelled are final.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  new: ["approved", "cancelled"],
+  approved: ["baking", "ready", "cancelled"], // straight to ready when the freezer covers it
+  baking: ["ready", "cancelled"],
+  ready: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+export function canTransitionOrder(from: string, to: string): boolean {
+  const allowed = ORDER_STATUS_TRANSITIONS[from as OrderStatus];
+  return !!allowed && allowed.includes(to as OrderStatus);
+}
+
+export function formatOrderNumber(order: { orderNumber: number }): string {
+  return `DH-${order.orderNumber}`;
+}
+
+// Accepts what customers type: "DH-1042", "dh 1042", "#1042" or just "1042"
+export function parseOrderNumber(value: string): number | null {
+  const match = value.trim().match(/^(?:#|dh[\s-]*)?(\d{1,9})$/i);
+  return match ? parseInt(match[1], 10) : null;
+}
+
 export const BATCH_STATUSES = ["planned", "in_progress", "completed", "cancelled"] as const;
 export type BatchStatus = typeof BATCH_STATUSES[number];
 
 export const LOCATION_TYPES = ["basement", "popup", "wholesale", "delivery"] as const;
 export type LocationType = typeof LOCATION_TYPES[number];
 
+export const DELIVERY_ZONE_TYPES = ["radius", "polygon"] as const;
+export type DeliveryZoneType = typeof DELIVERY_ZONE_TYPES[number];
+
 export const FULFILLMENT_WINDOWS = ["morning", "afternoon", "evening"] as const;
 export type FulfillmentWindow = typeof FULFILLMENT_WINDOWS[number];
 
+// Local hours each window covers; lead time is counted to the start of the window
+export const FULFILLMENT_WINDOW_HOURS: Record<FulfillmentWindow, { start: number; end: number }> = {
+  morning: { start: 8, end: 12 },
+  afternoon: { start: 12, end: 17 },
+  evening: { start: 17, end: 20 },
+};
+
+export const UNIT_DIMENSIONS = ["mass", "volume", "count"] as const;
+export type UnitDimension = typeof UNIT_DIMENSIONS[number];
+
+// Size of each unit in its dimension's base unit: grams, millilitres or single items
+export const UNITS: Record<string, { dimension: UnitDimension; factor: number }> = {
+  mg: { dimension: "mass", factor: 0.001 },
+  g: { dimension: "mass", factor: 1 },
+  kg: { dimension: "mass", factor: 1000 },
+  oz: { dimension: "mass", factor: 28.349523125 },
+  lb: { dimension: "mass", factor: 453.59237 },
+  ml: { dimension: "volume", factor: 1 },
+  l: { dimension: "volume", factor: 1000 },
+  tsp: { dimension: "volume", factor: 4.92892159375 },
+  tbsp: { dimension: "volume", factor: 14.78676478125 },
+  "fl oz": { dimension: "volume", factor: 29.5735295625 },
+  cup: { dimension: "volume", factor: 236.5882365 },
+  quart: { dimension: "volume", factor: 946.352946 },
+  gallon: { dimension: "volume", factor: 3785.411784 },
+  count: { dimension: "count", factor: 1 },
+  dozen: { dimension: "count", factor: 12 },
+};
+
+// Converts between units, going through the density (g per ml) for mass and volume.
+// Null when the units can't be compared; units we don't know only convert to themselves.
+export function convertQuantity(quantity: number, from: string, to: string, density?: number | null): number | null {
+  if (from === to) return quantity;
+  const source = UNITS[from];
+  const target = UNITS[to];
+  if (!source || !target) return null;
+
+  const base = quantity * source.factor;
+  if (source.dimension === target.dimension) return base / target.factor;
+  if (!density || density <= 0) return null;
+  if (source.dimension === "volume" && target.dimension === "mass") return (base * density) / target.factor;
+  if (source.dimension === "mass" && target.dimension === "volume") return base / density / target.factor;
+  return null;
+}
+
+// What order lines take out of the freezer and need baking: a bundle's contents, or the bagels themselves
+export function bagelLines(items: { productId: string; quantity: number; components?: BundleContent[] | null }[]): BundleContent[] {
+  return items.flatMap((item) => item.components ?? [{ productId: item.productId, quantity: item.quantity }]);
+}
+
+export const NOTIFICATION_TEMPLATES = [
+  "order_received",
+  "order_approved",
+  "order_baking",
+  "order_ready",
+  "order_cancelled",
+  "order_refunded",
+  "invoice",
+  "reauthorization",
+] as const;
+export type NotificationTemplate = typeof NOTIFICATION_TEMPLATES[number];
+
+export const SMS_TEMPLATES = ["out_for_delivery", "delivery_eta", "pickup_ready"] as const;
+export type SmsTemplate = typeof SMS_TEMPLATES[number];
+
+// Words a customer can text back to stop or restart texts (carriers expect these to work)
+export const SMS_STOP_WORDS = ["STOP", "STOPALL", "UNSUBSCRIBE", "CANCEL", "END", "QUIT"];
+export const SMS_START_WORDS = ["START", "UNSTOP", "YES"];
+
+export const NOTIFICATION_CHANNELS = ["email", "sms"] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+// skipped: a text that was queued but the customer opted out before it went
+export const NOTIFICATION_STATUSES = ["queued", "sent", "failed", "skipped"] as const;
+export type NotificationStatus = typeof NOTIFICATION_STATUSES[number];
+
 export const ADJUSTMENT_TYPES = ["receive", "waste", "correction", "production"] as const;
 export type AdjustmentType = typeof ADJUSTMENT_TYPES[number];
 
+export const PURCHASE_ORDER_STATUSES = ["draft", "sent", "partially_received", "received", "cancelled"] as const;
+export type PurchaseOrderStatus = typeof PURCHASE_ORDER_STATUSES[number];
+
 export const INVOICE_STATUSES = ["draft", "sent", "paid", "cancelled"] as const;
 export type InvoiceStatus = typeof INVOICE_STATUSES[number];
 
+export const REFUND_STATUSES = ["pending", "succeeded", "failed", "canceled"] as const;
+export type RefundStatus = typeof REFUND_STATUSES[number];
+
+export const WEBHOOK_EVENT_STATUSES = ["received", "processed", "ignored", "failed"] as const;
+export type WebhookEventStatus = typeof WEBHOOK_EVENT_STATUSES[number];
+
+export const RESERVATION_STATUSES = ["held", "deducted", "released"] as const;
+export type ReservationStatus = typeof RESERVATION_STATUSES[number];
+
+// What to do with a pre-order whose card hold is about to lapse
+export const HOLD_POLICIES = ["reauthorize", "capture"] as const;
+export type HoldPolicy = typeof HOLD_POLICIES[number];
+
+export const SUBSCRIPTION_STATUSES = ["pending", "active", "paused", "cancelled"] as const;
+export type SubscriptionStatus = typeof SUBSCRIPTION_STATUSES[number];
+
+export const SUBSCRIPTION_CADENCES = ["weekly", "biweekly"] as const;
+export type SubscriptionCadence = typeof SUBSCRIPTION_CADENCES[number];
+
+export const SUBSCRIPTION_CADENCE_DAYS: Record<SubscriptionCadence, number> = {
+  weekly: 7,
+  biweekly: 14,
+};
+
+// Holds expiring within this many hours get renewed and are flagged in the admin
+export const HOLD_EXPIRY_WARNING_HOURS = 48;
+export const DEFAULT_AUTHORIZATION_DAYS = 7;
+
+// When the card hold on an order lapses; Stripe only tells us once the card is authorized
+export function authorizationDeadline(order: { authorizationExpiresAt: Date | string | null; createdAt: Date | string | null }): Date | null {
+  if (order.authorizationExpiresAt) return new Date(order.authorizationExpiresAt);
+  if (!order.createdAt) return null;
+  return new Date(new Date(order.createdAt).getTime() + DEFAULT_AUTHORIZATION_DAYS * 24 * 60 * 60 * 1000);
+}
+
 // ============================================
 // SESSION - Express session storage for serverless
 // ============================================